@@ -0,0 +1,364 @@
+#!/usr/bin/env node
+
+/**
+ * Dice relay - shares rolls between the devices at a table
+ *
+ * A small WebSocket server with no dependencies. Every client joins a room with a name and a role;
+ * rolls sent to a room are forwarded to everyone in it, except hidden rolls, which only reach
+ * the GMs and the roller. Each room keeps its recent rolls so clients can catch up after reconnecting.
+ *
+ * Usage:
+ *   npm run relay
+ *   PORT=8787 DICE_RELAY_GM_KEY=secret node scripts/dice-relay.js
+ *
+ * Environment:
+ *   PORT               Port to listen on (default: 8787)
+ *   HOST               Interface to listen on (default: 0.0.0.0, so phones on the same network can connect)
+ *   DICE_RELAY_GM_KEY  Key required to join as GM (default: a random key, printed at startup)
+ *   DICE_RELAY_LOG     Rolls kept per room for backfill (default: 200)
+ */
+
+const http = require('http')
+const crypto = require('crypto')
+
+const PORT = Number(process.env.PORT) || 8787
+const HOST = process.env.HOST || '0.0.0.0'
+// Without a key anyone on the network could join as GM and see every hidden roll
+const GM_KEY = process.env.DICE_RELAY_GM_KEY || crypto.randomBytes(4).toString('hex')
+const LOG_SIZE = Number(process.env.DICE_RELAY_LOG) || 200
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11'
+const MAX_MESSAGE_BYTES = 64 * 1024
+const HEARTBEAT_MS = 30 * 1000
+// Empty rooms keep their log for a while, so a table that drops off together can still backfill
+const EMPTY_ROOM_TTL_MS = 6 * 60 * 60 * 1000
+
+const OPCODES = { continuation: 0x0, text: 0x1, close: 0x8, ping: 0x9, pong: 0xa }
+
+/** @type {Map<string, { seq: number, log: object[], clients: Set<Client>, tokens: Set<string>, emptySince: number | null }>} */
+const rooms = new Map()
+
+// ---------------------------------------------------------------------------
+// WebSocket framing (RFC 6455), just enough for small JSON text messages
+// ---------------------------------------------------------------------------
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length
+  let header
+
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length])
+  } else if (length < 65536) {
+    header = Buffer.alloc(4)
+    header[0] = 0x80 | opcode
+    header[1] = 126
+    header.writeUInt16BE(length, 2)
+  } else {
+    header = Buffer.alloc(10)
+    header[0] = 0x80 | opcode
+    header[1] = 127
+    header.writeBigUInt64BE(BigInt(length), 2)
+  }
+
+  return Buffer.concat([header, payload])
+}
+
+class Client {
+  constructor(socket) {
+    this.socket = socket
+    this.buffer = Buffer.alloc(0)
+    this.fragments = []
+    this.isAlive = true
+    this.room = null
+    this.name = ''
+    this.role = 'player'
+
+    socket.on('data', (data) => this.handleData(data))
+    socket.on('close', () => leaveRoom(this))
+    socket.on('error', () => socket.destroy())
+  }
+
+  send(message) {
+    if (!this.socket.destroyed) {
+      this.socket.write(encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message))))
+    }
+  }
+
+  close(code = 1000) {
+    if (this.socket.destroyed) return
+    const payload = Buffer.alloc(2)
+    payload.writeUInt16BE(code, 0)
+    this.socket.end(encodeFrame(OPCODES.close, payload))
+  }
+
+  handleData(data) {
+    this.buffer = Buffer.concat([this.buffer, data])
+
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0
+      const opcode = this.buffer[0] & 0x0f
+      const masked = (this.buffer[1] & 0x80) !== 0
+      let length = this.buffer[1] & 0x7f
+      let offset = 2
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return
+        length = this.buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return
+        length = Number(this.buffer.readBigUInt64BE(2))
+        offset = 10
+      }
+
+      // Clients must mask their frames
+      if (!masked || length > MAX_MESSAGE_BYTES) {
+        this.close(masked ? 1009 : 1002)
+        return
+      }
+      if (this.buffer.length < offset + 4 + length) return
+
+      const mask = this.buffer.subarray(offset, offset + 4)
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length))
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4]
+      }
+      this.buffer = this.buffer.subarray(offset + 4 + length)
+
+      // One misbehaving client must not take the relay down for the whole table
+      try {
+        this.handleFrame(fin, opcode, payload)
+      } catch (error) {
+        console.error('Dropping a client after a bad message:', error)
+        this.close(1011)
+        return
+      }
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    switch (opcode) {
+      case OPCODES.text:
+      case OPCODES.continuation:
+        this.fragments.push(payload)
+        if (this.fragments.reduce((total, fragment) => total + fragment.length, 0) > MAX_MESSAGE_BYTES) {
+          this.close(1009)
+          return
+        }
+        if (fin) {
+          const message = Buffer.concat(this.fragments).toString('utf8')
+          this.fragments = []
+          handleMessage(this, message)
+        }
+        break
+      case OPCODES.ping:
+        this.socket.write(encodeFrame(OPCODES.pong, payload))
+        break
+      case OPCODES.pong:
+        this.isAlive = true
+        break
+      case OPCODES.close:
+        this.close()
+        break
+      default:
+        // Binary frames aren't part of the protocol
+        this.close(1003)
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Rooms
+// ---------------------------------------------------------------------------
+
+function getRoom(code) {
+  let room = rooms.get(code)
+  if (!room) {
+    room = { seq: 0, log: [], clients: new Set(), tokens: new Set(), emptySince: null }
+    rooms.set(code, room)
+  }
+  return room
+}
+
+function canSee(client, roll) {
+  return !roll.hidden || client.role === 'gm' || roll.senderId === client.id
+}
+
+function toTableRoll(roll) {
+  return { seq: roll.seq, from: roll.from, entry: roll.entry, hidden: roll.hidden }
+}
+
+function broadcastPresence(room) {
+  const members = Array.from(room.clients, (client) => ({ name: client.name, role: client.role }))
+  room.clients.forEach((client) => client.send({ type: 'presence', members }))
+}
+
+function leaveRoom(client) {
+  const room = client.room && rooms.get(client.room)
+  if (!room) return
+
+  room.clients.delete(client)
+  client.room = null
+  if (room.clients.size === 0) {
+    room.emptySince = Date.now()
+  } else {
+    broadcastPresence(room)
+  }
+}
+
+function cleanText(value, maxLength) {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : ''
+}
+
+function handleMessage(client, raw) {
+  let message
+  try {
+    message = JSON.parse(raw)
+  } catch {
+    client.send({ type: 'error', message: 'Messages must be JSON' })
+    return
+  }
+  if (!message || typeof message !== 'object' || Array.isArray(message)) {
+    client.send({ type: 'error', message: 'Messages must be JSON objects' })
+    return
+  }
+
+  if (message.type === 'join') {
+    const code = cleanText(message.room, 64).toLowerCase()
+    const name = cleanText(message.name, 40)
+    if (!code || !name) {
+      client.send({ type: 'error', message: 'A room code and a name are required' })
+      return
+    }
+    if (message.role === 'gm' && message.gmKey !== GM_KEY) {
+      client.send({ type: 'error', message: 'Wrong GM key' })
+      client.close(1008)
+      return
+    }
+
+    leaveRoom(client)
+    const room = getRoom(code)
+    client.room = code
+    client.name = name
+    client.role = message.role === 'gm' ? 'gm' : 'player'
+    // Rolls are matched to their sender by a token only that client is given, never by name (anyone can
+    // join with any name). A reconnecting client sends its token back to keep seeing its own hidden rolls.
+    const token = typeof message.token === 'string' && room.tokens.has(message.token)
+      ? message.token
+      : crypto.randomBytes(16).toString('hex')
+    room.tokens.add(token)
+    client.id = token
+    room.clients.add(client)
+    room.emptySince = null
+
+    const since = Number(message.since) || 0
+    client.send({ type: 'joined', room: code, role: client.role, seq: room.seq, token })
+    client.send({
+      type: 'backfill',
+      rolls: room.log.filter((roll) => roll.seq > since && canSee(client, roll)).map(toTableRoll)
+    })
+    broadcastPresence(room)
+    return
+  }
+
+  if (message.type === 'roll') {
+    const room = client.room && rooms.get(client.room)
+    if (!room) {
+      client.send({ type: 'error', message: 'Join a room before sending rolls' })
+      return
+    }
+    if (!message.entry || typeof message.entry !== 'object' || typeof message.entry.id !== 'string') {
+      client.send({ type: 'error', message: 'Rolls need a history entry' })
+      return
+    }
+
+    const roll = {
+      seq: ++room.seq,
+      from: { name: client.name, role: client.role },
+      entry: message.entry,
+      hidden: message.hidden === true,
+      senderId: client.id
+    }
+    room.log.push(roll)
+    if (room.log.length > LOG_SIZE) {
+      room.log.splice(0, room.log.length - LOG_SIZE)
+    }
+
+    room.clients.forEach((member) => {
+      if (canSee(member, roll)) {
+        member.send({ type: 'roll', ...toTableRoll(roll) })
+      }
+    })
+    return
+  }
+
+  client.send({ type: 'error', message: `Unknown message type: ${message.type}` })
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+const clients = new Set()
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' })
+  res.end(`Daggerheart dice relay - ${rooms.size} room(s), ${clients.size} connection(s)\n`)
+})
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key']
+  if ((req.headers.upgrade || '').toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n')
+    return
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64')
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  )
+  socket.setNoDelay(true)
+
+  const client = new Client(socket)
+  clients.add(client)
+  socket.on('close', () => clients.delete(client))
+})
+
+// Drop connections that stop answering pings, and rooms that have been empty for a long time
+const heartbeat = setInterval(() => {
+  clients.forEach((client) => {
+    if (!client.isAlive) {
+      client.socket.destroy()
+      return
+    }
+    client.isAlive = false
+    client.socket.write(encodeFrame(OPCODES.ping, Buffer.alloc(0)))
+  })
+
+  const now = Date.now()
+  rooms.forEach((room, code) => {
+    if (room.emptySince !== null && now - room.emptySince > EMPTY_ROOM_TTL_MS) {
+      rooms.delete(code)
+    }
+  })
+}, HEARTBEAT_MS)
+
+server.on('close', () => clearInterval(heartbeat))
+
+server.listen(PORT, HOST, () => {
+  console.log(`🎲 Dice relay listening on ws://${HOST}:${PORT}`)
+  console.log(process.env.DICE_RELAY_GM_KEY
+    ? '🔒 Joining as GM requires the GM key'
+    : `🔒 GM key: ${GM_KEY} (set DICE_RELAY_GM_KEY to choose your own)`)
+})
+
+const shutdown = () => {
+  clients.forEach((client) => client.close(1001))
+  server.close(() => process.exit(0))
+  setTimeout(() => process.exit(0), 1000).unref()
+}
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
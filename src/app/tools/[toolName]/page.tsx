@@ -5,6 +5,7 @@ import LootGeneratorComponent from '@/components/tools/LootGeneratorComponent'
 import BattlePointsCalculatorComponent from '@/components/tools/BattlePointsCalculatorComponent'
 import FearTrackerComponent from '@/components/tools/FearTrackerComponent'
 import MonsterBuilderComponent from '@/components/tools/MonsterBuilderComponent'
+import DiceRollerToolComponent from '@/components/tools/DiceRollerToolComponent'
 import { Card, CardContent } from '@/components/ui/card'
 import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert'
 import { Badge } from '@/components/ui/badge'
@@ -34,6 +35,8 @@ export default async function ToolPage({ params }: ToolPageProps) {
         return <FearTrackerComponent />
       case 'MonsterBuilderComponent':
         return <MonsterBuilderComponent />
+      case 'DiceRollerToolComponent':
+        return <DiceRollerToolComponent />
       default:
         return (
           <Card className="fantasy">
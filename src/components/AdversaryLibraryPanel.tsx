@@ -0,0 +1,307 @@
+/**
+ * Adversary Library Panel Component
+ * Search, load and manage saved adversaries and their versions, with JSON import/export
+ */
+
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Copy, Download, FolderOpen, History, RotateCcw, Search, Trash2, Upload } from 'lucide-react';
+import { useAdversaryLibrary } from '@/hooks/useAdversaryLibrary';
+import {
+  downloadAdversaryLibrary,
+  filterSavedAdversaries,
+  getAdversaryDisplayName,
+  getAdversaryTags,
+  SavedAdversary,
+  SavedAdversaryDetails
+} from '@/lib/adversary-library';
+import { GeneratedMonster, MONSTER_TYPES, TIERS } from '@/lib/monster-utils';
+
+/**
+ * Props for the AdversaryLibraryPanel component
+ */
+export interface AdversaryLibraryPanelProps {
+  /** Called with a saved stat block to load it into the builder */
+  onLoad: (monster: GeneratedMonster) => void;
+  /** Optional custom class name */
+  className?: string;
+}
+
+const selectClassName = 'bg-background border border-accent/30 rounded px-2 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none';
+
+const formatSavedAt = (iso: string) => new Date(iso).toLocaleString();
+
+/**
+ * Tags, notes and earlier versions of a saved adversary
+ */
+const SavedAdversaryDetailsForm: React.FC<{
+  entry: SavedAdversary;
+  onUpdate: (id: string, details: SavedAdversaryDetails) => void;
+  onRestore: (id: string, version: number) => void;
+}> = ({ entry, onUpdate, onRestore }) => {
+  const [tags, setTags] = useState(entry.tags.join(', '));
+  const [notes, setNotes] = useState(entry.notes ?? '');
+
+  return (
+    <div className="space-y-2 p-2 mt-1 rounded border border-accent/20 bg-accent/5">
+      <Input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        onBlur={() => onUpdate(entry.id, { tags })}
+        placeholder="Tags (e.g., undead, boss)"
+        aria-label={`Tags for ${getAdversaryDisplayName(entry)}`}
+      />
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        onBlur={() => onUpdate(entry.id, { notes })}
+        placeholder="Notes"
+        aria-label={`Notes for ${getAdversaryDisplayName(entry)}`}
+        rows={2}
+        className="w-full bg-background border border-accent/30 rounded px-3 py-2 text-sm text-foreground focus:border-accent focus:outline-none resize-y"
+      />
+      {entry.history.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-semibold text-accent uppercase tracking-wide">Earlier versions</div>
+          {entry.history.map(item => (
+            <div key={item.version} className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-mono">v{item.version}</span>
+              <span className="truncate flex-1">
+                {item.monster.name.trim() || item.monster.type}, Tier {item.monster.tier} · {formatSavedAt(item.savedAt)}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onRestore(entry.id, item.version)}
+                className="h-6 px-2 text-xs"
+                aria-label={`Restore version ${item.version}`}
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restore
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * A single saved adversary with load, duplicate, details and delete buttons
+ */
+const SavedAdversaryRow: React.FC<{
+  entry: SavedAdversary;
+  onLoad: (monster: GeneratedMonster) => void;
+  onDuplicate: (id: string) => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, details: SavedAdversaryDetails) => void;
+  onRestore: (id: string, version: number) => void;
+}> = ({ entry, onLoad, onDuplicate, onRemove, onUpdate, onRestore }) => {
+  const [showDetails, setShowDetails] = useState(false);
+  const name = getAdversaryDisplayName(entry);
+
+  return (
+    <div className="group p-2 rounded-lg border border-accent/20 hover:border-accent/40 transition-colors">
+      <div className="flex items-center gap-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onLoad(entry.monster)}
+          className="flex-1 justify-start gap-2 h-auto py-1 px-2 min-w-0"
+          title={`Load ${name} into the builder`}
+        >
+          <FolderOpen className="w-4 h-4 text-accent flex-shrink-0" />
+          <span className="font-medium truncate">{name}</span>
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {entry.monster.type}, Tier {entry.monster.tier}
+          </span>
+          <span className="font-mono text-xs text-muted-foreground">v{entry.version}</span>
+        </Button>
+        <div className="hidden sm:flex gap-1">
+          {entry.tags.map(tag => (
+            <Badge key={tag} variant="outline" className="text-xs px-1 py-0 border-accent/30">
+              {tag}
+            </Badge>
+          ))}
+        </div>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setShowDetails(!showDetails)}
+          className="h-7 w-7 p-0"
+          aria-label={`Tags, notes and versions of ${name}`}
+          aria-expanded={showDetails}
+        >
+          <History className="w-3 h-3" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onDuplicate(entry.id)}
+          className="h-7 w-7 p-0"
+          aria-label={`Duplicate ${name}`}
+        >
+          <Copy className="w-3 h-3" />
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onRemove(entry.id)}
+          className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100 text-red-500"
+          aria-label={`Delete ${name}`}
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+      {showDetails && (
+        <SavedAdversaryDetailsForm
+          // Re-read the fields when a new version is saved or restored
+          key={entry.version}
+          entry={entry}
+          onUpdate={onUpdate}
+          onRestore={onRestore}
+        />
+      )}
+    </div>
+  );
+};
+
+export const AdversaryLibraryPanel: React.FC<AdversaryLibraryPanelProps> = ({ onLoad, className = '' }) => {
+  const {
+    adversaries,
+    updateAdversaryDetails,
+    duplicateAdversary,
+    restoreAdversaryVersion,
+    removeAdversary,
+    importAdversaries
+  } = useAdversaryLibrary();
+  const [query, setQuery] = useState('');
+  const [tag, setTag] = useState('');
+  const [type, setType] = useState('');
+  const [tier, setTier] = useState<number | undefined>(undefined);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const tags = useMemo(() => getAdversaryTags(adversaries), [adversaries]);
+  const filtered = useMemo(
+    () => filterSavedAdversaries(adversaries, { query, tag, type, tier }),
+    [adversaries, query, tag, type, tier]
+  );
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = await importAdversaries(await file.text());
+    setImportMessage(result.error
+      ? result.error
+      : `Imported ${result.adversaries.length} adversar${result.adversaries.length === 1 ? 'y' : 'ies'}` +
+        (result.skipped > 0 ? `, skipped ${result.skipped} invalid` : ''));
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {/* Search and filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[10rem]">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search saved adversaries..."
+            aria-label="Search saved adversaries"
+            className="pl-8"
+          />
+        </div>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value)}
+          className={selectClassName}
+          aria-label="Filter by type"
+        >
+          <option value="">All types</option>
+          {MONSTER_TYPES.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        <select
+          value={tier ?? ''}
+          onChange={(e) => setTier(e.target.value === '' ? undefined : Number(e.target.value))}
+          className={selectClassName}
+          aria-label="Filter by tier"
+        >
+          <option value="">All tiers</option>
+          {TIERS.map(value => <option key={value} value={value}>Tier {value}</option>)}
+        </select>
+        {tags.length > 0 && (
+          <select
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            className={selectClassName}
+            aria-label="Filter by tag"
+          >
+            <option value="">All tags</option>
+            {tags.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {/* Saved adversaries */}
+      <div className="max-h-80 overflow-y-auto space-y-1 pr-1">
+        {filtered.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {adversaries.length === 0
+              ? 'No saved adversaries yet. Save a monster from its card to keep it between sessions.'
+              : 'No saved adversaries match your search.'}
+          </p>
+        ) : filtered.map(entry => (
+          <SavedAdversaryRow
+            key={entry.id}
+            entry={entry}
+            onLoad={onLoad}
+            onDuplicate={duplicateAdversary}
+            onRemove={removeAdversary}
+            onUpdate={updateAdversaryDetails}
+            onRestore={restoreAdversaryVersion}
+          />
+        ))}
+      </div>
+
+      {/* Library actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Import
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => downloadAdversaryLibrary(adversaries)}
+          disabled={adversaries.length === 0}
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          aria-hidden="true"
+        />
+        {importMessage && (
+          <span className="text-xs text-muted-foreground" role="status">{importMessage}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+AdversaryLibraryPanel.displayName = 'AdversaryLibraryPanel';
+
+export default AdversaryLibraryPanel;
@@ -0,0 +1,210 @@
+/**
+ * Dice Command Bar Component
+ * Keyboard-driven roller available on every page: press / or Ctrl+K, type `2d12+3 adv vs 14 "Sneak"` and press Enter
+ */
+
+'use client';
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Terminal } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useDice } from '@/contexts/DiceContext';
+import { describeDiceCommand, parseDiceCommand, rollDiceCommand } from '@/lib/dice-command';
+import { DiceError } from '@/types/dice';
+
+// localStorage key for previously rolled commands (most recent first)
+const COMMAND_HISTORY_STORAGE_KEY = 'daggerheart-dice-commands';
+const MAX_COMMAND_HISTORY = 50;
+
+/**
+ * Load previously rolled commands from localStorage
+ */
+function loadCommandHistory(): string[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(COMMAND_HISTORY_STORAGE_KEY);
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((command): command is string => typeof command === 'string') : [];
+  } catch (error) {
+    console.warn('Failed to load dice commands from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Save previously rolled commands to localStorage
+ */
+function saveCommandHistory(commands: string[]) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(COMMAND_HISTORY_STORAGE_KEY, JSON.stringify(commands));
+  } catch (error) {
+    console.warn('Failed to save dice commands to localStorage:', error);
+  }
+}
+
+/**
+ * Whether a key press is going into a text field, where / should type a slash
+ */
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Command bar for rolling typed dice commands, with ↑/↓ to recall earlier commands
+ */
+export const DiceCommandBar: React.FC = () => {
+  const { setCurrentResult } = useDice();
+  const [isOpen, setIsOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [commandHistory, setCommandHistory] = useState<string[]>([]);
+  // -1 is the command being typed; 0 and up step back through commandHistory
+  const [historyIndex, setHistoryIndex] = useState(-1);
+  const draftRef = useRef('');
+
+  useEffect(() => {
+    setCommandHistory(loadCommandHistory());
+  }, []);
+
+  // / opens the bar outside text fields; Ctrl+K (⌘K) opens it anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isShortcut = (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k';
+      const isSlash = event.key === '/' && !event.ctrlKey && !event.metaKey && !event.altKey && !isTypingTarget(event.target);
+      if (!isShortcut && !isSlash) return;
+
+      event.preventDefault();
+      setIsOpen(true);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setInput('');
+      setError(null);
+      setHistoryIndex(-1);
+    }
+  };
+
+  // Live preview of what Enter will roll
+  const preview = useMemo(() => {
+    if (!input.trim()) return null;
+    try {
+      return { description: describeDiceCommand(parseDiceCommand(input)) };
+    } catch (parseError) {
+      return { error: (parseError as DiceError).message };
+    }
+  }, [input]);
+
+  const recallCommand = (index: number) => {
+    if (index < -1 || index >= commandHistory.length) return;
+    if (historyIndex === -1) {
+      draftRef.current = input;
+    }
+    setHistoryIndex(index);
+    setInput(index === -1 ? draftRef.current : commandHistory[index]);
+    setError(null);
+  };
+
+  const rollCommand = () => {
+    const text = input.trim();
+    if (!text) return;
+
+    try {
+      const command = parseDiceCommand(text);
+      setCurrentResult(rollDiceCommand(command), command.context);
+    } catch (rollError) {
+      setError((rollError as DiceError).message);
+      return;
+    }
+
+    // Most recent first, without repeating the last command
+    const updated = [text, ...commandHistory.filter((command, index) => index > 0 || command !== text)]
+      .slice(0, MAX_COMMAND_HISTORY);
+    setCommandHistory(updated);
+    saveCommandHistory(updated);
+    handleOpenChange(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'Enter':
+        event.preventDefault();
+        rollCommand();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        recallCommand(historyIndex + 1);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        recallCommand(historyIndex - 1);
+        break;
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-xl bg-muted border-2 border-accent/30">
+        <DialogHeader>
+          <DialogTitle className="font-cormorant text-2xl text-accent flex items-center gap-2">
+            <Terminal className="h-5 w-5" aria-hidden="true" />
+            Roll Command
+          </DialogTitle>
+          <DialogDescription>
+            Type a roll such as <code className="text-accent">2d12+3 adv vs 14 &quot;Sneak&quot;</code> and press Enter.
+            Use ↑ and ↓ to recall earlier commands.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setError(null);
+              setHistoryIndex(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="1d20+5 dis vs evasion 12 'Goblin attack'"
+            autoFocus
+            autoComplete="off"
+            spellCheck={false}
+            aria-label="Dice command"
+            aria-invalid={!!(error || preview?.error)}
+            className="w-full bg-background border border-accent/30 rounded px-3 py-2 font-mono text-foreground focus:border-accent focus:outline-none"
+          />
+          <p
+            className={`text-xs min-h-[1rem] ${error || preview?.error ? 'text-red-400' : 'text-muted-foreground'}`}
+            role="status"
+          >
+            {error ?? preview?.error ?? (preview?.description && `Enter to roll ${preview.description}`)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Keywords: <code>adv</code>, <code>dis</code>, <code>crit</code>, <code>vs 14</code>, <code>vs evasion 12</code>.
+            Repeat <code>adv</code> or <code>dis</code> to stack them. Quote a label to name the roll.
+          </p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+DiceCommandBar.displayName = 'DiceCommandBar';
+
+export default DiceCommandBar;
@@ -1,5 +1,5 @@
 /**
- * DiceLayout - Layout component that provides global dice context and result card
+ * DiceLayout - Layout component that provides global dice context, result card, saved roll palette and command bar
  * Should be used to wrap the entire application or major sections
  */
 
@@ -8,6 +8,8 @@
 import React from 'react';
 import { DiceProvider } from '@/contexts/DiceContext';
 import { GlobalDiceResultCard } from '@/components/GlobalDiceResultCard';
+import { QuickRollPalette } from '@/components/QuickRollPalette';
+import { DiceCommandBar } from '@/components/DiceCommandBar';
 
 interface DiceLayoutProps {
   children: React.ReactNode;
@@ -18,6 +20,8 @@ export function DiceLayout({ children }: DiceLayoutProps) {
     <DiceProvider>
       {children}
       <GlobalDiceResultCard />
+      <QuickRollPalette />
+      <DiceCommandBar />
     </DiceProvider>
   );
 }
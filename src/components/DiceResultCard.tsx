@@ -12,12 +12,31 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { ChevronDown, History, Trash2, X, RotateCcw, Zap, TrendingDown, TrendingUp, CirclePlus, CircleMinus, Pencil } from 'lucide-react';
+import { ChevronDown, History, Trash2, X, RotateCcw, Zap, TrendingDown, TrendingUp, CirclePlus, CircleMinus, Pencil, Sparkles, Skull, Eye, EyeOff } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { DiceTray } from '@/components/DiceTray';
+import { formatRollTarget, formatRollTypeStack, getDualityOutcomeLabel, getRollEvaluationLabel, isDualityRollResult } from '@/lib/dice-utils';
+import { getRollMacro, isRollMacroResult } from '@/lib/roll-macros';
+import {
+  formatDamageThresholds,
+  getDamageSeverityLabel,
+  getReducedDamageSeverity,
+  isDamageRollResult,
+  resolveDamage
+} from '@/lib/damage-thresholds';
+import { getRollVisibility, isSameRoll } from '@/lib/roll-history';
 import { 
+  DamageResolutionOptions,
+  DamageRollDetails,
+  DamageSeverity,
   DiceRollResult,
+  DualityOutcome,
+  DualityRollDetails,
+  RollEvaluation,
   RollAction,
-  RollHistoryEntry 
+  RollHistoryEntry,
+  RollMacro,
+  RollMacroDetails
 } from '@/types/dice';
 
 // Lazy import for dice utilities to reduce initial bundle size
@@ -116,7 +135,7 @@ const DieDisplay: React.FC<DieDisplayExpandedProps> = React.memo(({
               <span className={cn(
                 "font-bold text-accent font-mono",
                 isMobile ? "text-lg" : "text-xl"
-              )}>
+              )} title={result?.expression?.template}>
                 {result?.expression?.originalExpression || "1d20"}
               </span>
           </div>
@@ -158,6 +177,235 @@ const DieDisplay: React.FC<DieDisplayExpandedProps> = React.memo(({
 
 DieDisplay.displayName = 'DieDisplay';
 
+// Colour coding for Duality Dice outcomes: Hope is gold, Fear is purple
+const DUALITY_OUTCOME_STYLES: Record<DualityOutcome, string> = {
+  hope: "border-amber-400/60 bg-amber-400/10 text-amber-500",
+  fear: "border-purple-500/60 bg-purple-500/10 text-purple-400",
+  critical: "border-yellow-400/70 bg-yellow-400/15 text-yellow-500",
+};
+
+const DUALITY_OUTCOME_EFFECTS: Record<DualityOutcome, string> = {
+  hope: "Player gains a Hope",
+  fear: "GM gains a Fear",
+  critical: "Player gains a Hope and clears a Stress",
+};
+
+const getBreakdownLabelClass = (label?: string) => {
+  if (label === 'Hope') return "text-amber-500";
+  if (label === 'Fear') return "text-purple-400";
+  return "text-accent";
+};
+
+const DualityOutcomeIcon: React.FC<{ outcome: DualityOutcome; className?: string }> = ({ outcome, className }) => {
+  if (outcome === 'critical') return <Zap className={className} />;
+  if (outcome === 'hope') return <Sparkles className={className} />;
+  return <Skull className={className} />;
+};
+
+/**
+ * Banner showing who gains a resource from a Duality Dice roll
+ */
+const DualityOutcomeBanner: React.FC<{ duality: DualityRollDetails; isMobile?: boolean }> = React.memo(({ duality, isMobile = false }) => (
+  <div
+    className={cn(
+      "w-full rounded-lg border-2 flex items-center justify-between gap-2 px-3 py-2",
+      DUALITY_OUTCOME_STYLES[duality.outcome]
+    )}
+    role="status"
+    aria-label={`${getDualityOutcomeLabel(duality.outcome)}: ${DUALITY_OUTCOME_EFFECTS[duality.outcome]}`}
+  >
+    <div className="flex items-center gap-2">
+      <DualityOutcomeIcon outcome={duality.outcome} className={isMobile ? "h-5 w-5" : "h-4 w-4"} />
+      <div className="flex flex-col">
+        <span className={cn("font-bold font-cormorant", isMobile ? "text-lg" : "text-base")}>
+          {getDualityOutcomeLabel(duality.outcome)}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {DUALITY_OUTCOME_EFFECTS[duality.outcome]}
+        </span>
+      </div>
+    </div>
+    <div className="flex items-center gap-2 font-mono text-xs">
+      <span className="text-amber-500">Hope {duality.hope}</span>
+      <span className="text-muted-foreground">·</span>
+      <span className="text-purple-400">Fear {duality.fear}</span>
+    </div>
+  </div>
+));
+
+DualityOutcomeBanner.displayName = 'DualityOutcomeBanner';
+
+/**
+ * Banner showing success/failure against a Difficulty or Evasion
+ */
+const RollEvaluationBanner: React.FC<{ evaluation: RollEvaluation; isMobile?: boolean }> = React.memo(({ evaluation, isMobile = false }) => (
+  <div
+    className={cn(
+      "w-full rounded-lg border-2 flex items-center justify-between gap-2 px-3 py-2",
+      evaluation.success
+        ? "border-green-500/50 bg-green-500/10 text-green-600"
+        : "border-red-500/50 bg-red-500/10 text-red-600"
+    )}
+    role="status"
+    aria-label={`${getRollEvaluationLabel(evaluation)} against ${formatRollTarget(evaluation.target)}`}
+  >
+    <span className={cn("font-bold font-cormorant", isMobile ? "text-lg" : "text-base")}>
+      {getRollEvaluationLabel(evaluation)}
+    </span>
+    <span className="font-mono text-xs text-muted-foreground">
+      vs {formatRollTarget(evaluation.target)} ({evaluation.margin >= 0 ? '+' : ''}{evaluation.margin})
+    </span>
+  </div>
+));
+
+RollEvaluationBanner.displayName = 'RollEvaluationBanner';
+
+/**
+ * Grouped results of a roll macro - one row per step, with skipped steps greyed out
+ */
+const RollMacroSteps: React.FC<{ macro: RollMacroDetails; isMobile?: boolean }> = React.memo(({ macro, isMobile = false }) => (
+  <div className="w-full rounded-lg border-2 border-accent/30 bg-accent/5 px-3 py-2 space-y-1" aria-label={`Macro ${macro.name}`}>
+    <div className={cn("font-bold font-cormorant text-accent", isMobile ? "text-lg" : "text-base")}>
+      {macro.name}
+    </div>
+    {macro.steps.map(({ step, result }, index) => (
+      <div
+        key={index}
+        className={cn(
+          "flex items-center justify-between gap-2 rounded-md px-2 py-1 bg-background/50",
+          !result && "opacity-50"
+        )}
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          {index > 0 && <span className="text-muted-foreground">→</span>}
+          <span className={cn("font-semibold", isMobile ? "text-sm" : "text-xs")}>{step.label}</span>
+          <span className={cn("font-mono text-muted-foreground truncate", isMobile ? "text-sm" : "text-xs")}>
+            {step.expression}
+          </span>
+        </div>
+        {result ? (
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {result.evaluation && (
+              <span className={cn("text-xs", result.evaluation.success ? "text-green-600" : "text-red-600")}>
+                {getRollEvaluationLabel(result.evaluation)}
+              </span>
+            )}
+            {result.rollType === 'critical' && (
+              <span title="Critical">
+                <Zap className="h-3.5 w-3.5 text-yellow-500" />
+              </span>
+            )}
+            <span className={cn("font-bold font-mono text-foreground", isMobile ? "text-lg" : "text-base")}>
+              {result.total}
+            </span>
+          </div>
+        ) : (
+          <span className="text-xs italic text-muted-foreground flex-shrink-0">Skipped</span>
+        )}
+      </div>
+    ))}
+  </div>
+));
+
+RollMacroSteps.displayName = 'RollMacroSteps';
+
+const DAMAGE_SEVERITY_STYLES: Record<DamageSeverity, string> = {
+  none: 'border-accent/30 bg-accent/5 text-muted-foreground',
+  minor: 'border-green-500/50 bg-green-500/10 text-green-600',
+  major: 'border-orange-500/50 bg-orange-500/10 text-orange-500',
+  severe: 'border-red-500/50 bg-red-500/10 text-red-600',
+  massive: 'border-purple-500/60 bg-purple-500/10 text-purple-400',
+};
+
+const DAMAGE_OPTIONS: { key: keyof DamageResolutionOptions; label: string; title: string }[] = [
+  { key: 'resistance', label: 'Resistant', title: 'Halve the damage before comparing it with the thresholds' },
+  { key: 'immunity', label: 'Immune', title: 'Ignore the damage' },
+  { key: 'armorSlots', label: 'Armor Slot', title: 'Mark an Armor Slot to reduce the HP marked by one' },
+  { key: 'massiveDamage', label: 'Massive', title: 'Optional rule: twice the Severe threshold marks 4 HP' },
+];
+
+/**
+ * Hit Points a damage roll marks against the target's thresholds, with toggles for
+ * resistance, immunity, an Armor Slot and the optional massive damage rule
+ */
+const DamageResolutionBanner: React.FC<{ total: number; damage: DamageRollDetails; isMobile?: boolean }> = ({ total, damage, isMobile = false }) => {
+  const [options, setOptions] = useState<DamageResolutionOptions>({});
+  const resolution = resolveDamage(total, damage.thresholds, options);
+  const severity = getReducedDamageSeverity(resolution);
+
+  const toggle = (key: keyof DamageResolutionOptions) => {
+    setOptions(prev => ({ ...prev, [key]: key === 'armorSlots' ? (prev.armorSlots ? 0 : 1) : !prev[key] }));
+  };
+
+  return (
+    <div
+      className={cn("w-full rounded-lg border-2 px-3 py-2 space-y-2", DAMAGE_SEVERITY_STYLES[severity])}
+      role="status"
+      aria-label={`${damage.target ?? 'Target'} marks ${resolution.hitPoints} HP`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className={cn("font-bold font-cormorant", isMobile ? "text-lg" : "text-base")}>
+          {damage.target && `${damage.target} `}marks {resolution.hitPoints} HP
+          <span className="font-normal text-xs ml-2">({getDamageSeverityLabel(resolution.severity)}{resolution.armorSlotsUsed > 0 && ', Armor'})</span>
+        </span>
+        <span className="font-mono text-xs text-muted-foreground">
+          {resolution.effectiveDamage !== total && `${resolution.effectiveDamage} dmg `}vs {formatDamageThresholds(damage.thresholds)}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {DAMAGE_OPTIONS.map(({ key, label, title }) => (
+          <Button
+            key={key}
+            variant="outline"
+            size="sm"
+            onClick={() => toggle(key)}
+            aria-pressed={!!options[key]}
+            title={title}
+            className={cn(
+              "h-6 px-2 text-xs",
+              options[key] ? "border-accent bg-accent/20 text-foreground" : "border-accent/30 text-muted-foreground"
+            )}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Whether a roll is hidden from players, with a button to reveal it
+ */
+const RollVisibilityBanner: React.FC<{ entry: RollHistoryEntry; onReveal?: (id: string) => void; isMobile?: boolean }> = ({ entry, onReveal, isMobile = false }) => {
+  const isHidden = getRollVisibility(entry) === 'hidden';
+
+  return (
+    <div
+      className={cn(
+        "w-full flex items-center justify-between gap-2 rounded-lg border px-3 py-1.5",
+        isHidden ? "border-purple-500/50 bg-purple-500/10 text-purple-400" : "border-accent/30 bg-accent/5 text-muted-foreground"
+      )}
+      role="status"
+    >
+      <span className={cn("flex items-center gap-2 font-cormorant font-bold", isMobile ? "text-base" : "text-sm")}>
+        {isHidden ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+        {isHidden ? 'Hidden from players' : 'Revealed to players'}
+      </span>
+      {isHidden && onReveal && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onReveal(entry.id)}
+          className={cn("border-purple-500/50 hover:bg-purple-500/10", isMobile ? "h-8" : "h-6 px-2 text-xs")}
+        >
+          Reveal
+        </Button>
+      )}
+    </div>
+  );
+};
+
 // Regular function for border styling (non-hook version)
 const getDieBorderStyle = (value: number, dieSpec: string, breakdown: any) => {
   // For critical rolls, use accent color
@@ -292,6 +540,24 @@ const RollBreakdown: React.FC<RollBreakdownProps> = React.memo(({ result, classN
           </div>
         </div>
       )}
+      
+      {/* Formula Section - shows how dice terms combine when multiplied */}
+      {result.formula && (
+        <div className="space-y-1">
+          <h4 className={cn("font-semibold text-muted-foreground", isMobile ? "text-xs" : "text-sm")}>
+            Formula
+          </h4>
+          <div className="flex items-center justify-between rounded-lg bg-accent/5 border border-accent/20 py-2 px-2">
+            <span className="font-mono text-sm text-foreground">{result.formula}</span>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">=</span>
+              <span className="text-center text-accent/75 font-bold font-mono px-2 py-1 rounded-md border-2 border-accent/30 bg-accent-foreground/50 text-md min-w-10">
+                {result.total}
+              </span>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 });
@@ -323,9 +589,9 @@ const DiceBreakdownRow: React.FC<{
             {breakdown.dieSpec === 'critical' && (
               <Zap className="h-5 w-5 text-yellow-500" />
             )}
-            <span className="text-base font-bold text-accent font-mono">
-              {breakdown.dieSpec === 'advantage' ? '1d6' : 
-               breakdown.dieSpec === 'disadvantage' ? '1d6' : 
+            <span className={cn("text-base font-bold font-mono", getBreakdownLabelClass(breakdown.label))}>
+              {breakdown.label ? breakdown.label :
+               breakdown.dieSpec === 'advantage' || breakdown.dieSpec === 'disadvantage' ? `${breakdown.values.length}d6` : 
                breakdown.dieSpec === 'critical' ? `${result.expression.dice[0]?.count || 1}d${result.expression.dice[0]?.sides || 20}` : 
                breakdown.dieSpec}
             </span>
@@ -337,15 +603,18 @@ const DiceBreakdownRow: React.FC<{
             <div className="flex items-center gap-2 flex-wrap flex-1 justify-start">
               {breakdown.values.map((value: number, valueIndex: number) => {
                 const borderStyle = getDieBorderStyle(value, breakdown.dieSpec, breakdown);
+                const isDropped = breakdown.droppedIndices?.includes(valueIndex);
                 
                 return (
                   <span 
                     key={valueIndex}
+                    title={isDropped ? 'Dropped' : undefined}
                     className={cn(
                       "inline-flex items-center justify-center rounded-md text-sm font-bold",
                       "border-2 bg-accent/10 text-foreground transition-all duration-200",
                       "w-10 h-10", // Mobile size
-                      borderStyle
+                      borderStyle,
+                      isDropped && "opacity-40 line-through"
                     )}
                   >
                     {value}
@@ -389,9 +658,9 @@ const DiceBreakdownRow: React.FC<{
               {breakdown.dieSpec === 'critical' && (
                 <Zap className="h-4 w-4 text-yellow-500 -ml-1" />
               )}
-              <span className="text-md font-bold text-accent font-mono">
-                {breakdown.dieSpec === 'advantage' ? '1d6' : 
-                 breakdown.dieSpec === 'disadvantage' ? '1d6' : 
+              <span className={cn("text-md font-bold font-mono", getBreakdownLabelClass(breakdown.label))}>
+                {breakdown.label ? breakdown.label :
+                 breakdown.dieSpec === 'advantage' || breakdown.dieSpec === 'disadvantage' ? `${breakdown.values.length}d6` : 
                  breakdown.dieSpec === 'critical' ? `${result.expression.dice[0]?.count || 1}d${result.expression.dice[0]?.sides || 20}` : 
                  breakdown.dieSpec}
               </span>
@@ -401,15 +670,18 @@ const DiceBreakdownRow: React.FC<{
             <div className="flex items-center gap-1">
               {breakdown.values.map((value: number, valueIndex: number) => {
                 const borderStyle = getDieBorderStyle(value, breakdown.dieSpec, breakdown);
+                const isDropped = breakdown.droppedIndices?.includes(valueIndex);
                 
                 return (
                   <span 
                     key={valueIndex}
+                    title={isDropped ? 'Dropped' : undefined}
                     className={cn(
                       "inline-flex items-center justify-center rounded-md text-xs font-bold",
                       "border-2 bg-accent/10 text-foreground transition-all duration-200",
                       "w-8 h-8",
-                      borderStyle
+                      borderStyle,
+                      isDropped && "opacity-40 line-through"
                     )}
                   >
                     {value}
@@ -474,6 +746,14 @@ interface DiceResultCardProps {
   rollHistory?: RollHistoryEntry[];
   /** Callback to remove entry from history */
   onRemoveFromHistory?: (id: string) => void;
+  /** Callback to clear the whole history (falls back to removing each entry) */
+  onClearHistory?: () => void;
+  /** Callback to roll a macro again from history */
+  onRollMacro?: (macro: RollMacro) => void;
+  /** Callback to reveal a hidden roll to players */
+  onRevealRoll?: (id: string) => void;
+  /** Whether to show each die tumbling into the dice tray */
+  showDiceTray?: boolean;
 }
 
 /**
@@ -495,7 +775,11 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
   showCloseButton = true,
   onClose,
   rollHistory = [],
-  onRemoveFromHistory
+  onRemoveFromHistory,
+  onClearHistory,
+  onRollMacro,
+  onRevealRoll,
+  showDiceTray = false
 }) => {
   // Mobile detection
   const isMobile = useIsMobile();
@@ -673,7 +957,7 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
 
   // Memoized ability checks for performance
   const { canCritical, canAdvantageDisadvantage } = useMemo(() => {
-    const hasValidBaseDie = result.expression.dice.length > 0 && result.expression.dice[0].sides !== 20;
+    const hasValidBaseDie = result.expression.dice.length > 0 && result.expression.dice[0].sides !== 20 && !isDualityRollResult(result);
     const hasAdvantageOrDisadvantage = result.rollType === 'advantage' || result.rollType === 'disadvantage';
     const isCritical = result.rollType === 'critical';
     
@@ -681,7 +965,7 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
       canCritical: hasValidBaseDie && !hasAdvantageOrDisadvantage,
       canAdvantageDisadvantage: !isCritical
     };
-  }, [result.expression.dice, result.rollType]);
+  }, [result]);
 
   const handleEditCancel = () => {
     setIsEditing(false);
@@ -740,15 +1024,21 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
     setEditError(null);
   };
 
+  // History entry of the roll on the card, for its visibility
+  const currentEntry = rollHistory.find(entry => isSameRoll(entry.result, result));
+
   const removeFromHistory = (id: string) => {
     if (onRemoveFromHistory) {
       onRemoveFromHistory(id);
     }
   };
 
-  const handleReroll = (expression: string) => {
-    if (onRollAction) {
-      onRollAction('roll-again', expression);
+  const handleReroll = (entry: RollHistoryEntry) => {
+    // Macros re-roll every step, not just the first expression
+    if (isRollMacroResult(entry.result) && onRollMacro) {
+      onRollMacro(getRollMacro(entry.result));
+    } else if (onRollAction) {
+      onRollAction('roll-again', entry.result.expression.originalExpression);
     }
   };
 
@@ -879,6 +1169,36 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
               isMobile={isMobile}
             />
           </div>
+          {/* Advantage and disadvantage that cancelled before rolling */}
+          {result.rollTypeStack && (
+            <p className="w-full text-xs text-muted-foreground text-center">
+              {formatRollTypeStack(result.rollTypeStack)}
+            </p>
+          )}
+          {/* Every die tumbling into place; keyed by roll so each new roll animates */}
+          {showDiceTray && (
+            <DiceTray key={result.timestamp.getTime()} rolls={result.rolls} className="mt-1" />
+          )}
+          {/* Hope/Fear outcome for Duality Dice rolls */}
+          {isDualityRollResult(result) && (
+            <DualityOutcomeBanner duality={result.duality} isMobile={isMobile} />
+          )}
+          {/* Success/failure against Difficulty or Evasion */}
+          {result.evaluation && (
+            <RollEvaluationBanner evaluation={result.evaluation} isMobile={isMobile} />
+          )}
+          {/* Every step of a roll macro */}
+          {isRollMacroResult(result) && (
+            <RollMacroSteps macro={result.macro} isMobile={isMobile} />
+          )}
+          {/* Secret rolls, and secret rolls revealed later */}
+          {currentEntry && getRollVisibility(currentEntry) !== 'public' && (
+            <RollVisibilityBanner entry={currentEntry} onReveal={onRevealRoll} isMobile={isMobile} />
+          )}
+          {/* Hit Points marked against the target's thresholds */}
+          {isDamageRollResult(result) && (
+            <DamageResolutionBanner key={result.timestamp.getTime()} total={result.total} damage={result.damage} isMobile={isMobile} />
+          )}
           <CollapsibleContent className="flex flex-col w-full items-center">
             {/* Roll Breakdown */}
             <RollBreakdown result={result} />
@@ -993,7 +1313,9 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
                   variant="ghost"
                   size={isMobile ? "sm" : "sm"}
                   onClick={() => {
-                    if (onRemoveFromHistory) {
+                    if (onClearHistory) {
+                      onClearHistory();
+                    } else if (onRemoveFromHistory) {
                       // Clear all history by removing each entry
                       rollHistory.forEach(entry => onRemoveFromHistory(entry.id));
                     }
@@ -1018,11 +1340,7 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
               )}>
               {(() => {
                 // Filter out the current result from history to avoid duplication
-                const filteredHistory = rollHistory.filter(entry => 
-                  entry.result.timestamp.getTime() !== result.timestamp.getTime() ||
-                  entry.result.total !== result.total ||
-                  entry.result.expression.originalExpression !== result.expression.originalExpression
-                );
+                const filteredHistory = rollHistory.filter(entry => !isSameRoll(entry.result, result));
                 
                 return filteredHistory.length === 0 ? (
                   <div className={cn(
@@ -1051,7 +1369,7 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
                             "font-mono text-accent font-medium",
                             isMobile ? "text-base" : "text-sm"
                           )}>
-                            {entry.result.expression.originalExpression}
+                            {isRollMacroResult(entry.result) ? entry.result.macro.name : entry.result.expression.originalExpression}
                           </span>
                           <span className="text-muted-foreground">→</span>
                           <span className={cn(
@@ -1068,6 +1386,20 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
                         "flex items-center gap-2",
                         isMobile && "ml-2"
                       )}>
+                        {/* Duality outcome indicator */}
+                        {isDualityRollResult(entry.result) && (
+                          <span title={getDualityOutcomeLabel(entry.result.duality.outcome)}>
+                            <DualityOutcomeIcon
+                              outcome={entry.result.duality.outcome}
+                              className={cn(
+                                entry.result.duality.outcome === 'hope' ? "text-amber-500" :
+                                entry.result.duality.outcome === 'fear' ? "text-purple-400" :
+                                "text-yellow-500",
+                                isMobile ? "h-5 w-5" : "h-4 w-4"
+                              )}
+                            />
+                          </span>
+                        )}
                         {/* Roll type indicator */}
                         {entry.result.rollType === 'critical' && (
                           <span title="Critical">
@@ -1089,7 +1421,7 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleReroll(entry.result.expression.originalExpression)}
+                          onClick={() => handleReroll(entry)}
                           className={cn(
                             "hover:bg-accent/20",
                             isMobile ? "h-10 w-10 p-0" : "h-6 w-6 p-0"
@@ -1099,6 +1431,22 @@ export const DiceResultCard: React.FC<DiceResultCardProps> = ({
                           <RotateCcw className={cn(isMobile ? "h-4 w-4" : "h-3 w-3")} />
                         </Button>
                         
+                        {/* Reveal button for secret rolls */}
+                        {getRollVisibility(entry) === 'hidden' && onRevealRoll && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onRevealRoll(entry.id)}
+                            className={cn(
+                              "text-purple-400 hover:bg-purple-500/20",
+                              isMobile ? "h-10 w-10 p-0" : "h-6 w-6 p-0"
+                            )}
+                            title="Hidden from players - reveal"
+                          >
+                            <EyeOff className={cn(isMobile ? "h-4 w-4" : "h-3 w-3")} />
+                          </Button>
+                        )}
+
                         {/* Delete button */}
                         <Button
                           variant="ghost"
@@ -5,7 +5,7 @@
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   FantasyHoverCard, 
   FantasyHoverCardTrigger, 
@@ -17,7 +17,19 @@ import { Input } from '@/components/ui/input';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { ChevronDown, History, Trash2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { DEFAULT_DICE_CONFIG, formatRollTarget } from '@/lib/dice-utils';
+import {
+  formatProbability,
+  getDiceDistribution,
+  getDistributionHistogram,
+  getDistributionPercentile,
+  getProbabilityAtLeast,
+  getRollSuccessChance,
+  getSampledDistribution
+} from '@/lib/dice-probability';
+import { sampleDiceTotals } from '@/lib/dice-roll-service';
 import { 
+  DiceDistribution,
   DiceResultHoverCardProps,
   DiceRollResult,
   RollAction,
@@ -112,6 +124,154 @@ const RollBreakdown: React.FC<RollBreakdownProps> = ({ result, className }) => {
   );
 };
 
+/**
+ * Rolls sampled for expressions too heavy to work out exactly; enough to go to the dice roll worker
+ */
+const ODDS_SAMPLE_SIZE = 20000;
+
+/**
+ * Odds of the rolled expression - chance to meet a Difficulty and a histogram of totals
+ */
+interface RollOddsProps {
+  result: DiceRollResult;
+  className?: string;
+}
+
+const RollOdds: React.FC<RollOddsProps> = ({ result, className }) => {
+  const target = result.evaluation?.target;
+  const [difficulty, setDifficulty] = useState(target ? String(target.value) : '');
+
+  // undefined for expressions the odds can't be shown for, null for ones too heavy to work out exactly
+  const distribution = useMemo(() => {
+    try {
+      return getDiceDistribution(result.expression, result.rollTypeStack ?? result.rollType);
+    } catch {
+      return undefined;
+    }
+  }, [result.expression, result.rollType, result.rollTypeStack]);
+
+  // Without exact odds, estimate them from rolls made in the dice roll worker
+  // distribution is null once sampling has failed
+  const [sampled, setSampled] = useState<{ expression: string; distribution: DiceDistribution | null } | null>(null);
+  const expression = result.expression.originalExpression;
+  const rollType = result.rollTypeStack ?? result.rollType;
+  useEffect(() => {
+    if (distribution !== null) return;
+
+    const controller = new AbortController();
+    sampleDiceTotals(expression, ODDS_SAMPLE_SIZE, rollType, DEFAULT_DICE_CONFIG, undefined, { signal: controller.signal })
+      .then(totals => setSampled({ expression, distribution: getSampledDistribution(totals) }))
+      .catch(() => {
+        if (!controller.signal.aborted) setSampled({ expression, distribution: null });
+      });
+    return () => controller.abort();
+  }, [distribution, expression, rollType]);
+
+  const sample = distribution === null && sampled?.expression === expression ? sampled : null;
+  const estimate = sample?.distribution ?? null;
+  const odds = distribution ?? estimate;
+
+  const bins = useMemo(
+    () => (odds ? getDistributionHistogram(odds) : []),
+    [odds]
+  );
+
+  const difficultyValue = parseInt(difficulty, 10);
+  const hasDifficulty = !isNaN(difficultyValue);
+
+  // Only worked out exactly once the distribution is known to be within reach
+  const chance = useMemo(() => {
+    if (!odds || !hasDifficulty) return null;
+    if (estimate) return getProbabilityAtLeast(estimate, difficultyValue);
+    try {
+      return getRollSuccessChance(result, difficultyValue);
+    } catch {
+      return null;
+    }
+  }, [result, odds, estimate, hasDifficulty, difficultyValue]);
+
+  if (sample && !estimate) {
+    return (
+      <div className={cn("p-3 rounded-lg border border-accent/20 text-xs sm:text-sm text-muted-foreground", className)} role="status">
+        Odds unavailable: this roll has too many possible totals to work out exactly.
+      </div>
+    );
+  }
+
+  if (distribution === null && !estimate) {
+    return (
+      <div className={cn("p-3 rounded-lg border border-accent/20 text-xs sm:text-sm text-muted-foreground", className)} role="status">
+        Working out the odds from {ODDS_SAMPLE_SIZE.toLocaleString()} sample rolls…
+      </div>
+    );
+  }
+
+  if (!odds || bins.length === 0) {
+    return null;
+  }
+
+  const targetLabel = target && target.value === difficultyValue
+    ? formatRollTarget(target)
+    : `Difficulty ${difficultyValue}`;
+  const tallest = Math.max(...bins.map(bin => bin.probability));
+
+  return (
+    <div className={cn("space-y-3 p-3 rounded-lg bg-gradient-to-r from-muted/10 to-muted/5 border border-accent/20", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <h5 className="text-xs sm:text-sm font-semibold text-muted-foreground uppercase tracking-wide flex items-center gap-2">
+          <span className="text-accent">📊</span>
+          {estimate ? 'Estimated Odds' : 'Odds'}
+        </h5>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          Difficulty
+          <Input
+            type="number"
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value)}
+            placeholder="—"
+            className="h-7 w-16 text-xs text-center"
+            aria-label="Difficulty to compare against"
+          />
+        </label>
+      </div>
+
+      {chance !== null && (
+        <div className="flex items-center justify-between p-2 rounded-md bg-background/50 border border-border/50">
+          <span className="text-xs sm:text-sm text-muted-foreground">Chance to hit {targetLabel}</span>
+          <span className="font-bold text-accent text-sm sm:text-base">{formatProbability(chance)}</span>
+        </div>
+      )}
+
+      {/* Histogram - bars that meet the Difficulty are highlighted, the rolled total is outlined */}
+      <div className="flex items-end gap-px h-16" role="img" aria-label={`Distribution of totals for ${result.expression.originalExpression}`}>
+        {bins.map(bin => {
+          const range = bin.from === bin.to ? `${bin.from}` : `${bin.from}–${bin.to}`;
+          const isRolled = result.total >= bin.from && result.total <= bin.to;
+          return (
+            <div
+              key={bin.from}
+              className={cn(
+                "flex-1 rounded-t-sm transition-colors",
+                hasDifficulty && bin.from >= difficultyValue ? "bg-accent" : "bg-muted-foreground/30",
+                isRolled && "ring-2 ring-foreground/60"
+              )}
+              style={{ height: `${Math.max(4, (bin.probability / tallest) * 100)}%` }}
+              title={`${range}: ${formatProbability(bin.probability)}`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{bins[0].from}</span>
+        <span>
+          Avg {Number(odds.mean.toFixed(1))} · Median {getDistributionPercentile(odds, 50)}
+        </span>
+        <span>{bins[bins.length - 1].to}</span>
+      </div>
+    </div>
+  );
+};
+
 /**
  * Roll summary component
  */
@@ -499,6 +659,9 @@ export const DiceResultHoverCard: React.FC<DiceResultHoverCardProps> = ({
           {/* Roll Breakdown */}
           {!isEditing && <RollBreakdown result={result} />}
           
+          {/* Odds - keyed by roll, so a new roll starts from its own Difficulty */}
+          {!isEditing && <RollOdds key={result.timestamp.getTime()} result={result} />}
+          
           {/* Roll History */}
           {!isEditing && (
             <RollHistorySection 
@@ -35,7 +35,7 @@ interface DiceRollerState {
 }
 
 /**
- * Props interface specifically for the internal dice element
+ * Props interface specifically for the dice element
  */
 interface DiceElementProps {
   expression: string;
@@ -47,10 +47,10 @@ interface DiceElementProps {
 }
 
 /**
- * Internal dice element component for rendering clickable dice expressions
- * Now uses ShadCN Button component with dice variant for consistent styling
+ * Dice element component for rendering clickable dice expressions
+ * Uses ShadCN Button component with dice variant for consistent styling (shared with RollableText)
  */
-const DiceElement: React.FC<DiceElementProps> = ({
+export const DiceElement: React.FC<DiceElementProps> = ({
   expression,
   onClick,
   isDisabled,
@@ -140,6 +140,8 @@ export const DiceRoller: React.FC<DiceRollerProps> = ({
   compactMobile = false,
   mobileBreakpoint = 640,
   showDetailedResults = true,
+  difficulty,
+  difficultyType = 'difficulty',
 }) => {
   // Local component state (only for loading and errors)
   const [state, setState] = useState<DiceRollerState>({
@@ -191,7 +193,7 @@ export const DiceRoller: React.FC<DiceRollerProps> = ({
 
     try {
       // Dynamic import to avoid circular dependencies and reduce bundle size
-      const { rollDiceExpression, validateDiceExpression } = await import('@/lib/dice-utils');
+      const { rollDiceExpression, validateDiceExpression, DEFAULT_DICE_CONFIG } = await import('@/lib/dice-utils');
       
       // Validate expression first
       const validation = validateDiceExpression(expression);
@@ -211,8 +213,9 @@ export const DiceRoller: React.FC<DiceRollerProps> = ({
         return;
       }
 
-      // Roll the dice
-      const result = rollDiceExpression(expression);
+      // Roll the dice, evaluating against the target number if one was given
+      const target = difficulty !== undefined ? { value: difficulty, type: difficultyType } : undefined;
+      const result = rollDiceExpression(expression, 'normal', DEFAULT_DICE_CONFIG, target);
       
       setState(prev => ({
         ...prev,
@@ -246,7 +249,7 @@ export const DiceRoller: React.FC<DiceRollerProps> = ({
         onError(diceError);
       }
     }
-  }, [disabled, state.isRolling, onClick, onError, setCurrentResult, setIsRolling]);
+  }, [disabled, state.isRolling, difficulty, difficultyType, onClick, onError, setCurrentResult, setIsRolling]);
 
   // Determine if component should be disabled
   const isDisabled = disabled || state.isRolling;
@@ -0,0 +1,116 @@
+/**
+ * Dice Tray Component
+ * Shows each die of a roll tumbling into the tray, drawn in its own shape
+ */
+
+'use client';
+
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { describeDiceTray, formatDieOutline, getDieShape, layoutDiceTray } from '@/lib/dice-tray';
+import { SingleRoll } from '@/types/dice';
+
+/**
+ * Props for the DiceTray component
+ */
+export interface DiceTrayProps {
+  /** Dice to show, in roll order */
+  rolls: SingleRoll[];
+  /** Whether the dice tumble in; they are always still when the user prefers reduced motion */
+  animate?: boolean;
+  /** Optional custom class name */
+  className?: string;
+}
+
+const TRAY_WIDTH = 280;
+const DIE_SIZE = 44;
+const PADDING = 8;
+
+// Hope is gold and Fear is purple, as in the Duality outcome banner, and advantage and disadvantage dice are green and red
+// as in the breakdown; other dice stay neutral so those stand out
+const getDieClasses = (roll: SingleRoll) => {
+  if (roll.role === 'hope') return { body: 'fill-amber-400/15 stroke-amber-400', value: 'fill-amber-500' };
+  if (roll.role === 'fear') return { body: 'fill-purple-500/15 stroke-purple-500', value: 'fill-purple-400' };
+  if (roll.bonus === 'advantage') return { body: 'fill-green-500/15 stroke-green-500', value: 'fill-green-500' };
+  if (roll.bonus === 'disadvantage') return { body: 'fill-red-500/15 stroke-red-500', value: 'fill-red-500' };
+  if (roll.isCritical) return { body: 'fill-accent/25 stroke-accent', value: 'fill-accent' };
+  return { body: 'fill-slate-500/15 stroke-slate-400', value: 'fill-foreground' };
+};
+
+/**
+ * Animated tray of rolled dice
+ */
+export const DiceTray: React.FC<DiceTrayProps> = ({ rolls, animate = true, className }) => {
+  const layout = useMemo(
+    () => layoutDiceTray(rolls, { width: TRAY_WIDTH - PADDING * 2, dieSize: DIE_SIZE }),
+    [rolls]
+  );
+
+  if (rolls.length === 0) return null;
+
+  const radius = DIE_SIZE / 2;
+
+  return (
+    <svg
+      viewBox={`${-PADDING} ${-PADDING} ${TRAY_WIDTH} ${layout.height + PADDING * 2}`}
+      className={cn('w-full rounded-lg border border-accent/20 bg-background/60', className)}
+      role="img"
+      aria-label={`Dice tray: ${describeDiceTray(rolls)}`}
+    >
+      {layout.dice.map(({ roll, x, y, spin, fromX, delay }, index) => {
+        const shape = getDieShape(roll.sides);
+        const classes = getDieClasses(roll);
+
+        return (
+          <g key={index} transform={`translate(${x} ${y})`} opacity={roll.discarded ? 0.4 : 1}>
+            {/* The inner group tumbles, so its CSS transform doesn't replace the position above */}
+            <g
+              className={cn(animate && 'dice-tray-die')}
+              style={{
+                '--die-spin': `${spin}deg`,
+                '--die-from-x': `${fromX * 100}%`,
+                '--die-delay': `${delay}ms`,
+              } as React.CSSProperties}
+            >
+              {shape.outline.length > 0 ? (
+                <polygon
+                  points={formatDieOutline(shape.outline, radius)}
+                  className={cn('stroke-2', classes.body)}
+                  strokeLinejoin="round"
+                />
+              ) : (
+                <circle r={radius * 0.9} className={cn('stroke-2', classes.body)} />
+              )}
+              {shape.facets.map(([[x1, y1], [x2, y2]], facetIndex) => (
+                <line
+                  key={facetIndex}
+                  x1={x1 * radius}
+                  y1={y1 * radius}
+                  x2={x2 * radius}
+                  y2={y2 * radius}
+                  className={cn('stroke-1 opacity-40', classes.body)}
+                />
+              ))}
+              <text
+                y={shape.labelOffset * radius}
+                textAnchor="middle"
+                dominantBaseline="central"
+                className={cn('font-mono font-bold', classes.value)}
+                fontSize={roll.value >= 100 ? 11 : 15}
+              >
+                {roll.value}
+              </text>
+              {roll.discarded && (
+                <line x1={-radius * 0.6} y1={radius * 0.6} x2={radius * 0.6} y2={-radius * 0.6} className="stroke-2 stroke-muted-foreground" />
+              )}
+            </g>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+DiceTray.displayName = 'DiceTray';
+
+export default DiceTray;
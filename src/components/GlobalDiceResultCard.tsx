@@ -16,7 +16,11 @@ export function GlobalDiceResultCard() {
     rollHistory,
     handleRollAction,
     removeFromHistory,
+    clearHistory,
     setIsExpanded,
+    rollMacro,
+    revealRoll,
+    showDiceTray,
   } = useDice();
 
   // Don't render anything if there's no current result
@@ -31,6 +35,10 @@ export function GlobalDiceResultCard() {
       defaultExpanded={isExpanded}
       rollHistory={rollHistory}
       onRemoveFromHistory={removeFromHistory}
+      onClearHistory={clearHistory}
+      onRollMacro={rollMacro}
+      onRevealRoll={revealRoll}
+      showDiceTray={showDiceTray}
       onClose={() => setIsExpanded(false)}
       showCloseButton={true}
       autoCollapseTimer={10000}
@@ -0,0 +1,276 @@
+/**
+ * Monster Stat Block Editor Component
+ * Edit every stat and stat-block detail of a monster, with validation and how far
+ * each stat has moved from the baseline for its type and tier
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  applyStatBlockDraft,
+  createStatBlockDraft,
+  getBaselineStats,
+  getStatDeviations,
+  StatBlockDraft,
+  StatBlockField,
+  StatDeviation,
+  StatField,
+  validateStatBlockDraft
+} from '@/lib/monster-editor';
+import { ATTACK_RANGES, DAMAGE_TYPES, GeneratedMonster } from '@/lib/monster-utils';
+
+/**
+ * Props for the MonsterStatBlockEditor component
+ */
+export interface MonsterStatBlockEditorProps {
+  monster: GeneratedMonster;
+  /** Called with the edited monster when the changes are saved */
+  onSave: (monster: GeneratedMonster) => void;
+  onCancel: () => void;
+}
+
+const STAT_LABELS: Record<StatField, string> = {
+  difficulty: 'Difficulty',
+  hitpoints: 'HP',
+  stress: 'Stress',
+  attack: 'Attack',
+  major: 'Major',
+  severe: 'Severe',
+  damage: 'Avg. damage',
+};
+
+const inputClassName = 'bg-background border border-accent/30 rounded px-2 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none w-full';
+const labelClassName = 'block text-[10px] sm:text-xs text-accent uppercase font-semibold tracking-wide mb-1';
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${Math.round(delta * 10) / 10}`;
+
+/**
+ * Difference from the baseline, shown next to a stat
+ */
+const DeviationBadge: React.FC<{ deviation?: StatDeviation }> = ({ deviation }) => {
+  if (!deviation) return null;
+
+  return (
+    <span
+      className={`ml-1 normal-case font-mono ${deviation.delta > 0 ? 'text-amber-400' : 'text-sky-400'}`}
+      title={`Baseline ${deviation.baseline}`}
+    >
+      {formatDelta(deviation.delta)}
+    </span>
+  );
+};
+
+/**
+ * A labelled field with its error and baseline difference
+ */
+const Field: React.FC<{
+  id: string;
+  label: string;
+  error?: string;
+  deviation?: StatDeviation;
+  children: React.ReactNode;
+}> = ({ id, label, error, deviation, children }) => (
+  <div>
+    <label htmlFor={id} className={labelClassName}>
+      {label}
+      <DeviationBadge deviation={deviation} />
+    </label>
+    {children}
+    {error && <p id={`${id}-error`} className="text-xs text-red-500 mt-1" role="alert">{error}</p>}
+  </div>
+);
+
+export const MonsterStatBlockEditor: React.FC<MonsterStatBlockEditorProps> = ({ monster, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<StatBlockDraft>(() => createStatBlockDraft(monster));
+  const errors = useMemo(() => validateStatBlockDraft(draft), [draft]);
+  const isValid = Object.keys(errors).length === 0;
+
+  // Stats that can't be read yet (e.g. a half-typed number) are left out of the comparison
+  const deviations = useMemo(() => {
+    const byField: Partial<Record<StatField, StatDeviation>> = {};
+    getStatDeviations(applyStatBlockDraft(monster, draft).stats).forEach(deviation => {
+      byField[deviation.field] = deviation;
+    });
+    return byField;
+  }, [monster, draft]);
+  const hasBaseline = useMemo(() => getBaselineStats(monster.stats) !== null, [monster.stats]);
+
+  const id = (field: StatBlockField) => `stat-block-${monster.id}-${field}`;
+  const update = <K extends StatBlockField>(field: K, value: StatBlockDraft[K]) => {
+    setDraft(current => ({ ...current, [field]: value }));
+  };
+  const inputProps = (field: StatBlockField) => ({
+    id: id(field),
+    'aria-invalid': !!errors[field],
+    'aria-describedby': errors[field] ? `${id(field)}-error` : undefined,
+  });
+
+  const updateExperience = (index: number, change: Partial<StatBlockDraft['experiences'][number]>) => {
+    update('experiences', draft.experiences.map((item, i) => (i === index ? { ...item, ...change } : item)));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (isValid) {
+      onSave(applyStatBlockDraft(monster, draft));
+    }
+  };
+
+  const changedStats = Object.values(deviations);
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 mb-4 sm:mb-6" aria-label={`Edit stat block of ${monster.name || monster.type}`}>
+      {/* Baseline summary */}
+      {hasBaseline && (
+        <p className="text-xs text-muted-foreground" role="status">
+          {changedStats.length === 0
+            ? `Matches the Tier ${monster.tier} ${monster.type} baseline.`
+            : `Differs from the Tier ${monster.tier} ${monster.type} baseline: ` +
+              changedStats.map(deviation => `${STAT_LABELS[deviation.field]} ${formatDelta(deviation.delta)}`).join(', ')}
+        </p>
+      )}
+
+      <Field id={id('description')} label="Description">
+        <textarea
+          {...inputProps('description')}
+          value={draft.description}
+          onChange={(e) => update('description', e.target.value)}
+          rows={2}
+          placeholder="A hulking brute wrapped in rusted chains."
+          className={`${inputClassName} resize-y`}
+        />
+      </Field>
+
+      <Field id={id('motivesAndTactics')} label="Motives & Tactics">
+        <Input
+          {...inputProps('motivesAndTactics')}
+          value={draft.motivesAndTactics}
+          onChange={(e) => update('motivesAndTactics', e.target.value)}
+          placeholder="Crush, intimidate, protect the hoard"
+        />
+      </Field>
+
+      {/* Core stats */}
+      <div className="grid grid-cols-3 gap-2">
+        <Field id={id('difficulty')} label="Difficulty" error={errors.difficulty} deviation={deviations.difficulty}>
+          <input {...inputProps('difficulty')} type="number" value={draft.difficulty} onChange={(e) => update('difficulty', e.target.value)} className={inputClassName} />
+        </Field>
+        <Field id={id('hitpoints')} label="HP" error={errors.hitpoints} deviation={deviations.hitpoints}>
+          <input {...inputProps('hitpoints')} type="number" value={draft.hitpoints} onChange={(e) => update('hitpoints', e.target.value)} className={inputClassName} />
+        </Field>
+        <Field id={id('stress')} label="Stress" error={errors.stress} deviation={deviations.stress}>
+          <input {...inputProps('stress')} type="number" value={draft.stress} onChange={(e) => update('stress', e.target.value)} className={inputClassName} />
+        </Field>
+      </div>
+
+      {/* Thresholds */}
+      <div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground mb-1">
+          <input
+            type="checkbox"
+            checked={draft.hasThresholds}
+            onChange={(e) => update('hasThresholds', e.target.checked)}
+          />
+          Has damage thresholds
+        </label>
+        {draft.hasThresholds && (
+          <div className="grid grid-cols-2 gap-2">
+            <Field id={id('major')} label="Major" error={errors.major} deviation={deviations.major}>
+              <input {...inputProps('major')} type="number" value={draft.major} onChange={(e) => update('major', e.target.value)} className={inputClassName} />
+            </Field>
+            <Field id={id('severe')} label="Severe" error={errors.severe} deviation={deviations.severe}>
+              <input {...inputProps('severe')} type="number" value={draft.severe} onChange={(e) => update('severe', e.target.value)} className={inputClassName} />
+            </Field>
+          </div>
+        )}
+      </div>
+
+      {/* Standard attack */}
+      <div className="grid grid-cols-2 gap-2">
+        <Field id={id('attackName')} label="Attack name">
+          <Input {...inputProps('attackName')} value={draft.attackName} onChange={(e) => update('attackName', e.target.value)} placeholder="Chain Flail" />
+        </Field>
+        <Field id={id('attackModifier')} label="Attack modifier" error={errors.attackModifier} deviation={deviations.attack}>
+          <Input {...inputProps('attackModifier')} value={draft.attackModifier} onChange={(e) => update('attackModifier', e.target.value)} placeholder="+3" className="font-mono" />
+        </Field>
+        <Field id={id('range')} label="Range">
+          <select {...inputProps('range')} value={draft.range} onChange={(e) => update('range', e.target.value as StatBlockDraft['range'])} className={inputClassName}>
+            {ATTACK_RANGES.map(range => <option key={range} value={range}>{range}</option>)}
+          </select>
+        </Field>
+        <Field id={id('damageType')} label="Damage type">
+          <select {...inputProps('damageType')} value={draft.damageType} onChange={(e) => update('damageType', e.target.value as StatBlockDraft['damageType'])} className={inputClassName}>
+            {DAMAGE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </Field>
+        <div className="col-span-2">
+          <Field id={id('damage')} label="Damage" error={errors.damage} deviation={deviations.damage}>
+            <Input {...inputProps('damage')} value={draft.damage} onChange={(e) => update('damage', e.target.value)} placeholder="2d8+3" className="font-mono" />
+          </Field>
+        </div>
+      </div>
+
+      {/* Experiences */}
+      <div>
+        <div className={labelClassName}>Experiences</div>
+        <div className="space-y-1">
+          {draft.experiences.map((experience, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={experience.name}
+                onChange={(e) => updateExperience(index, { name: e.target.value })}
+                placeholder="Intimidation"
+                aria-label={`Experience ${index + 1} name`}
+              />
+              <Input
+                value={experience.modifier}
+                onChange={(e) => updateExperience(index, { modifier: e.target.value })}
+                placeholder="+2"
+                aria-label={`Experience ${index + 1} modifier`}
+                className="w-16 font-mono"
+              />
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => update('experiences', draft.experiences.filter((_, i) => i !== index))}
+                className="h-7 w-7 p-0 text-red-500"
+                aria-label={`Remove experience ${index + 1}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        {errors.experiences && <p className="text-xs text-red-500 mt-1" role="alert">{errors.experiences}</p>}
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => update('experiences', [...draft.experiences, { name: '', modifier: '+2' }])}
+          className="mt-1 h-7 px-2 text-xs"
+        >
+          <Plus className="w-3 h-3 mr-1" />
+          Add experience
+        </Button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!isValid}>
+          Save Stat Block
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+MonsterStatBlockEditor.displayName = 'MonsterStatBlockEditor';
+
+export default MonsterStatBlockEditor;
@@ -0,0 +1,69 @@
+/**
+ * Quick Roll Palette Component
+ * Floating button that opens the saved roll library from any page
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { BookMarked } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { SimpleTooltip } from '@/components/FantasyTooltip';
+import { RollLibraryPanel } from '@/components/RollLibraryPanel';
+import { cn } from '@/lib/utils';
+
+interface QuickRollPaletteProps {
+  className?: string;
+}
+
+export const QuickRollPalette: React.FC<QuickRollPaletteProps> = ({ className }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      {/* Sits above the feedback button so both stay reachable */}
+      <div className={cn('fixed bottom-20 right-4 sm:bottom-24 sm:right-6 z-40', className)}>
+        <SimpleTooltip content="Saved rolls">
+          <DialogTrigger asChild>
+            <Button
+              size="lg"
+              variant="outline"
+              className="
+                h-11 w-11 sm:h-12 sm:w-12 rounded-full p-0
+                bg-background/90 border-2 border-accent/50 text-accent
+                shadow-lg shadow-accent/20 hover:bg-accent/10 hover:shadow-accent/30
+                backdrop-blur-sm transition-all duration-200
+                active:scale-95 touch-manipulation
+              "
+              aria-label="Open saved rolls"
+            >
+              <BookMarked className="h-5 w-5 sm:h-6 sm:w-6" aria-hidden="true" />
+            </Button>
+          </DialogTrigger>
+        </SimpleTooltip>
+      </div>
+
+      <DialogContent className="max-w-xl bg-muted border-2 border-accent/30">
+        <DialogHeader>
+          <DialogTitle className="font-cormorant text-2xl text-accent">Saved Rolls</DialogTitle>
+          <DialogDescription>
+            Roll a favourite in one click, or organize your library with folders and tags.
+          </DialogDescription>
+        </DialogHeader>
+        <RollLibraryPanel onRolled={() => setIsOpen(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+QuickRollPalette.displayName = 'QuickRollPalette';
+
+export default QuickRollPalette;
@@ -3,13 +3,17 @@
  * Standalone component for displaying dice roll history with collapsible interface
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import { ChevronDown, History, RotateCcw, Copy, Trash2 } from 'lucide-react';
+import { ChevronDown, History, RotateCcw, Copy, Trash2, Eye, EyeOff } from 'lucide-react';
 import { useDiceRollHistory } from '@/hooks/useDiceRollHistory';
-import { RollHistoryEntry, RollAction } from '@/types/dice';
+import { RollHistoryExportActions } from '@/components/RollHistoryExportActions';
+import { formatRollTarget, getDualityOutcomeLabel, getRollEvaluationLabel, isDualityRollResult } from '@/lib/dice-utils';
+import { filterRollHistory, RollHistoryFilter } from '@/lib/roll-history-stats';
+import { getRollVisibility } from '@/lib/roll-history';
+import { RollHistoryEntry, RollAction, DualityOutcome } from '@/types/dice';
 
 /**
  * Props for the RollHistoryDisplay component
@@ -23,6 +27,10 @@ export interface RollHistoryDisplayProps {
   compact?: boolean;
   /** Maximum number of entries to display (default: 10) */
   maxDisplayEntries?: number;
+  /** Whether the history starts expanded (default: false) */
+  defaultOpen?: boolean;
+  /** Only show entries matching this filter (e.g., from RollHistoryFilters) */
+  filter?: RollHistoryFilter;
 }
 
 /**
@@ -63,6 +71,14 @@ const RollHistoryItem: React.FC<RollHistoryItemProps> = ({
     }
   };
 
+  const getDualityOutcomeColor = (outcome: DualityOutcome): string => {
+    switch (outcome) {
+      case 'critical': return 'bg-yellow-400/20 text-yellow-500 border-yellow-400/60';
+      case 'hope': return 'bg-amber-400/20 text-amber-500 border-amber-400/60';
+      case 'fear': return 'bg-purple-500/20 text-purple-400 border-purple-500/60';
+    }
+  };
+
   return (
     <div className={`
       group relative p-3 rounded-lg border border-accent/20 
@@ -97,6 +113,49 @@ const RollHistoryItem: React.FC<RollHistoryItemProps> = ({
               {result.rollType}
             </Badge>
           )}
+
+          {/* Duality outcome badge */}
+          {isDualityRollResult(result) && (
+            <Badge 
+              variant="outline" 
+              className={`
+                text-xs border font-semibold ${getDualityOutcomeColor(result.duality.outcome)}
+                ${compact ? 'px-1 py-0' : 'px-2 py-1'}
+              `}
+            >
+              {getDualityOutcomeLabel(result.duality.outcome)}
+            </Badge>
+          )}
+
+          {/* Success/failure badge */}
+          {result.evaluation && (
+            <Badge 
+              variant="outline" 
+              className={`
+                text-xs border
+                ${result.evaluation.success 
+                  ? 'bg-green-500/10 text-green-600 border-green-500/50' 
+                  : 'bg-red-500/10 text-red-600 border-red-500/50'
+                }
+                ${compact ? 'px-1 py-0' : 'px-2 py-1'}
+              `}
+              title={`vs ${formatRollTarget(result.evaluation.target)}`}
+            >
+              {getRollEvaluationLabel(result.evaluation)}
+            </Badge>
+          )}
+
+          {/* Secret roll indicator */}
+          {getRollVisibility(entry) === 'hidden' && (
+            <span title="Hidden from players">
+              <EyeOff className="h-4 w-4 text-purple-400" />
+            </span>
+          )}
+          {getRollVisibility(entry) === 'revealed' && (
+            <span title="Revealed to players">
+              <Eye className="h-4 w-4 text-muted-foreground" />
+            </span>
+          )}
         </div>
 
         {/* Timestamp and actions */}
@@ -138,9 +197,11 @@ const RollHistoryItem: React.FC<RollHistoryItemProps> = ({
         </div>
       </div>
 
-      {/* Context if available */}
-      {entry.context && !compact && (
+      {/* Context, and who rolled it for rolls from a table session */}
+      {(entry.context || entry.roller) && !compact && (
         <div className="mt-2 text-xs text-muted-foreground italic">
+          {entry.roller && <span className="not-italic font-medium text-foreground">{entry.roller}</span>}
+          {entry.roller && entry.context && ' · '}
           {entry.context}
         </div>
       )}
@@ -153,7 +214,7 @@ const RollHistoryItem: React.FC<RollHistoryItemProps> = ({
               key={index}
               className="px-2 py-1 rounded bg-accent/10 text-accent border border-accent/20"
             >
-              {breakdown.dieSpec}: {breakdown.values.join(', ')} = {breakdown.subtotal}
+              {breakdown.label ?? breakdown.dieSpec}: {breakdown.values.join(', ')} = {breakdown.subtotal}
             </span>
           ))}
           {result.modifier !== 0 && (
@@ -180,14 +241,19 @@ export const RollHistoryDisplay: React.FC<RollHistoryDisplayProps> = ({
   onRollAction,
   className = '',
   compact = false,
-  maxDisplayEntries = 10
+  maxDisplayEntries = 10,
+  defaultOpen = false,
+  filter
 }) => {
   const { history, clearHistory, removeRoll } = useDiceRollHistory();
-  const [isOpen, setIsOpen] = useState(false);
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+
+  const filteredHistory = useMemo(() => filter ? filterRollHistory(history, filter) : history, [history, filter]);
+  const isFiltered = filteredHistory.length !== history.length;
 
   // Limit displayed entries
-  const displayedHistory = history.slice(0, maxDisplayEntries);
-  const hasMoreEntries = history.length > maxDisplayEntries;
+  const displayedHistory = filteredHistory.slice(0, maxDisplayEntries);
+  const hasMoreEntries = filteredHistory.length > maxDisplayEntries;
 
   const handleRollAction = (action: RollAction, expression: string, entry: RollHistoryEntry) => {
     // Handle remove action internally
@@ -235,7 +301,7 @@ export const RollHistoryDisplay: React.FC<RollHistoryDisplayProps> = ({
                 variant="outline" 
                 className="bg-accent/20 text-accent border-accent/50"
               >
-                {history.length}
+                {isFiltered ? `${filteredHistory.length} / ${history.length}` : history.length}
               </Badge>
             </div>
             
@@ -264,15 +330,23 @@ export const RollHistoryDisplay: React.FC<RollHistoryDisplayProps> = ({
               />
             ))}
 
+            {/* No matches for the filter */}
+            {filteredHistory.length === 0 && (
+              <div className="text-center py-4 text-sm text-muted-foreground italic">
+                No rolls match these filters
+              </div>
+            )}
+
             {/* Show more indicator */}
             {hasMoreEntries && (
               <div className="text-center py-2 text-xs text-muted-foreground">
-                Showing {maxDisplayEntries} of {history.length} rolls
+                Showing {maxDisplayEntries} of {filteredHistory.length} rolls
               </div>
             )}
 
-            {/* Clear all button */}
-            <div className="pt-2 border-t border-accent/20">
+            {/* Export the rolls shown, then clear all */}
+            <div className="pt-2 border-t border-accent/20 space-y-2">
+              <RollHistoryExportActions entries={filteredHistory} />
               <Button
                 variant="outline"
                 size="sm"
@@ -0,0 +1,123 @@
+/**
+ * Roll History Export Actions Component
+ * Download roll history as CSV, JSON or a Markdown session log, and import a JSON export again
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Download, Upload } from 'lucide-react';
+import { useDiceRollHistory } from '@/hooks/useDiceRollHistory';
+import { isVisibleToPlayers } from '@/lib/roll-history';
+import { downloadRollHistory, importRollHistory } from '@/lib/roll-history-export';
+import { RollHistoryEntry, RollHistoryExportFormat } from '@/types/dice';
+
+/**
+ * Props for the RollHistoryExportActions component
+ */
+export interface RollHistoryExportActionsProps {
+  /** Entries to export (e.g., the filtered history) */
+  entries: RollHistoryEntry[];
+  /** Optional custom class name */
+  className?: string;
+}
+
+const EXPORT_FORMATS: { format: RollHistoryExportFormat; label: string; title: string }[] = [
+  { format: 'csv', label: 'CSV', title: 'One row per roll, for spreadsheets' },
+  { format: 'json', label: 'JSON', title: 'The full history, to import again later or on another device' },
+  { format: 'markdown', label: 'Markdown', title: 'A session log for recaps' },
+];
+
+/**
+ * Export and import buttons for roll history
+ */
+export const RollHistoryExportActions: React.FC<RollHistoryExportActionsProps> = ({
+  entries,
+  className = ''
+}) => {
+  const { addEntry } = useDiceRollHistory();
+  const [includeHidden, setIncludeHidden] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const hasHiddenRolls = entries.some(entry => !isVisibleToPlayers(entry));
+  const exportCount = includeHidden ? entries.length : entries.filter(isVisibleToPlayers).length;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = importRollHistory(await file.text());
+    if (result.error) {
+      setImportMessage(result.error);
+      return;
+    }
+
+    // Entries already in history (or older than everything kept) aren't added again
+    const added = result.entries.filter(entry => addEntry(entry)).length;
+    setImportMessage(`Imported ${added} roll${added === 1 ? '' : 's'}` +
+      (result.skipped > 0 ? `, skipped ${result.skipped} invalid` : ''));
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">
+          <Download className="inline h-3 w-3 mr-1" />
+          Export {exportCount} roll{exportCount === 1 ? '' : 's'}:
+        </span>
+        {EXPORT_FORMATS.map(({ format, label, title }) => (
+          <Button
+            key={format}
+            variant="outline"
+            size="sm"
+            onClick={() => downloadRollHistory(entries, format, { includeHidden })}
+            disabled={exportCount === 0}
+            title={title}
+            className="h-7 px-2 text-xs border-accent/30"
+          >
+            {label}
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          title="Import a JSON export"
+          className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+        >
+          <Upload className="h-3 w-3 mr-1" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          aria-hidden="true"
+        />
+      </div>
+      {hasHiddenRolls && (
+        <label className="flex items-center gap-2 text-xs text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={includeHidden}
+            onChange={(e) => setIncludeHidden(e.target.checked)}
+            className="accent-accent"
+          />
+          Include secret rolls (keep the file away from players)
+        </label>
+      )}
+      {importMessage && (
+        <p className="text-xs text-muted-foreground" role="status">{importMessage}</p>
+      )}
+    </div>
+  );
+};
+
+RollHistoryExportActions.displayName = 'RollHistoryExportActions';
+
+export default RollHistoryExportActions;
@@ -0,0 +1,154 @@
+/**
+ * Roll History Filters Component
+ * Search the roll history by expression, roll type, context label, date range and outcome
+ */
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Search, X } from 'lucide-react';
+import { RollHistoryFilter, RollHistoryOutcome } from '@/lib/roll-history-stats';
+import { DiceRollResult } from '@/types/dice';
+
+/**
+ * Props for the RollHistoryFilters component
+ */
+export interface RollHistoryFiltersProps {
+  /** Current filter */
+  filter: RollHistoryFilter;
+  /** Called with the new filter whenever a field changes */
+  onChange: (filter: RollHistoryFilter) => void;
+  /** Optional custom class name */
+  className?: string;
+}
+
+const ROLL_TYPE_OPTIONS: { value: DiceRollResult['rollType']; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'advantage', label: 'Advantage' },
+  { value: 'disadvantage', label: 'Disadvantage' },
+  { value: 'critical', label: 'Critical' },
+];
+
+const OUTCOME_OPTIONS: { value: RollHistoryOutcome; label: string }[] = [
+  { value: 'success', label: 'Success' },
+  { value: 'failure', label: 'Failure' },
+  { value: 'critical', label: 'Critical / natural 20' },
+  { value: 'hope', label: 'With Hope' },
+  { value: 'fear', label: 'With Fear' },
+];
+
+const selectClassName = 'bg-background border border-accent/30 rounded px-2 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none';
+
+/**
+ * Format a date for a date input (YYYY-MM-DD, local time)
+ */
+const toDateInputValue = (date?: Date): string => {
+  if (!date) return '';
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Read a date input as the start or end of that local day
+ */
+const fromDateInputValue = (value: string, endOfDay: boolean): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (endOfDay) {
+    date.setHours(23, 59, 59, 999);
+  }
+  return date;
+};
+
+/**
+ * Check whether any filter field is set
+ */
+const hasActiveFilter = (filter: RollHistoryFilter): boolean =>
+  !!(filter.expression || filter.context || filter.rollTypes?.length || filter.from || filter.to || filter.outcome);
+
+/**
+ * Filter controls for roll history views
+ */
+export const RollHistoryFilters: React.FC<RollHistoryFiltersProps> = ({
+  filter,
+  onChange,
+  className = ''
+}) => {
+  const update = (changes: Partial<RollHistoryFilter>) => {
+    onChange({ ...filter, ...changes });
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[8rem]">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={filter.expression ?? ''}
+            onChange={(e) => update({ expression: e.target.value || undefined })}
+            placeholder="Expression (e.g., d20)"
+            aria-label="Filter by expression"
+            className="pl-8"
+          />
+        </div>
+        <Input
+          value={filter.context ?? ''}
+          onChange={(e) => update({ context: e.target.value || undefined })}
+          placeholder="Context (e.g., Goblin)"
+          aria-label="Filter by context"
+          className="flex-1 min-w-[8rem]"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filter.rollTypes?.[0] ?? ''}
+          onChange={(e) => update({
+            rollTypes: e.target.value ? [e.target.value as DiceRollResult['rollType']] : undefined
+          })}
+          className={selectClassName}
+          aria-label="Filter by roll type"
+        >
+          <option value="">All roll types</option>
+          {ROLL_TYPE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <select
+          value={filter.outcome ?? ''}
+          onChange={(e) => update({ outcome: (e.target.value || undefined) as RollHistoryOutcome | undefined })}
+          className={selectClassName}
+          aria-label="Filter by outcome"
+        >
+          <option value="">All outcomes</option>
+          {OUTCOME_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        </select>
+        <input
+          type="date"
+          value={toDateInputValue(filter.from)}
+          onChange={(e) => update({ from: fromDateInputValue(e.target.value, false) })}
+          className={selectClassName}
+          aria-label="Rolled on or after"
+        />
+        <span className="text-xs text-muted-foreground">to</span>
+        <input
+          type="date"
+          value={toDateInputValue(filter.to)}
+          onChange={(e) => update({ to: fromDateInputValue(e.target.value, true) })}
+          className={selectClassName}
+          aria-label="Rolled on or before"
+        />
+        {hasActiveFilter(filter) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({})}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
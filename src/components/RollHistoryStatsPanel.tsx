@@ -0,0 +1,163 @@
+/**
+ * Roll History Stats Panel Component
+ * Compares rolled results with fair dice: averages, crit frequency, success rate,
+ * per-die faces and the Hope/Fear split of each session
+ */
+
+import React, { useMemo } from 'react';
+import { getRollHistoryStats, getRollSessions } from '@/lib/roll-history-stats';
+import { RollHistoryEntry } from '@/types/dice';
+
+/**
+ * Props for the RollHistoryStatsPanel component
+ */
+export interface RollHistoryStatsPanelProps {
+  /** Entries to summarize (e.g., the filtered history) */
+  entries: RollHistoryEntry[];
+  /** Optional custom class name */
+  className?: string;
+}
+
+const formatNumber = (value: number): string => value.toFixed(2);
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Color a rolled value by how far it sits from the fair value
+ */
+const getDeviationColor = (actual: number, expected: number): string => {
+  if (expected === 0) return 'text-foreground';
+  const deviation = (actual - expected) / expected;
+  if (deviation > 0.1) return 'text-green-600';
+  if (deviation < -0.1) return 'text-red-600';
+  return 'text-foreground';
+};
+
+/**
+ * A single statistic with its fair-dice comparison
+ */
+const StatTile: React.FC<{ label: string; value: string; expected?: string; valueClassName?: string }> = ({
+  label,
+  value,
+  expected,
+  valueClassName = 'text-foreground'
+}) => (
+  <div className="p-3 rounded-lg border border-accent/20 bg-gradient-to-r from-background to-accent/5">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className={`text-xl font-bold ${valueClassName}`}>{value}</div>
+    {expected && (
+      <div className="text-xs text-muted-foreground">expected {expected}</div>
+    )}
+  </div>
+);
+
+/**
+ * Statistics dashboard for a set of history entries
+ */
+export const RollHistoryStatsPanel: React.FC<RollHistoryStatsPanelProps> = ({
+  entries,
+  className = ''
+}) => {
+  const stats = useMemo(() => getRollHistoryStats(entries), [entries]);
+  const sessions = useMemo(
+    () => getRollSessions(entries)
+      .map(session => ({ ...session, duality: getRollHistoryStats(session.entries).duality }))
+      .filter(session => session.duality.rolls > 0),
+    [entries]
+  );
+
+  if (stats.totalRolls === 0) {
+    return (
+      <div className={`text-center text-muted-foreground italic py-6 ${className}`}>
+        No rolls to analyze yet...
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Overview */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <StatTile label="Rolls" value={String(stats.totalRolls)} />
+        <StatTile
+          label="Average total"
+          value={formatNumber(stats.averageTotal)}
+          expected={formatNumber(stats.expectedAverage)}
+          valueClassName={getDeviationColor(stats.averageTotal, stats.expectedAverage)}
+        />
+        <StatTile
+          label={`Criticals (${stats.criticals.count} of ${stats.criticals.eligible})`}
+          value={formatPercent(stats.criticals.rate)}
+          expected={stats.criticals.eligible > 0 ? formatPercent(stats.criticals.expectedRate) : undefined}
+          valueClassName={getDeviationColor(stats.criticals.rate, stats.criticals.expectedRate)}
+        />
+        <StatTile
+          label={`Successes (${stats.evaluated.successes} of ${stats.evaluated.count})`}
+          value={stats.evaluated.count > 0 ? formatPercent(stats.evaluated.successRate) : '—'}
+        />
+      </div>
+
+      {/* Faces per die size */}
+      {stats.dice.length > 0 && (
+        <div>
+          <h3 className="font-cormorant text-accent font-medium mb-2">Dice Faces</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground border-b border-accent/20">
+                <th className="py-1 font-normal">Die</th>
+                <th className="py-1 font-normal">Rolled</th>
+                <th className="py-1 font-normal">Average</th>
+                <th className="py-1 font-normal">Fair</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.dice.map(die => (
+                <tr key={die.sides} className="border-b border-accent/10 last:border-0">
+                  <td className="py-1 font-mono">d{die.sides}</td>
+                  <td className="py-1">{die.count}</td>
+                  <td className={`py-1 font-semibold ${getDeviationColor(die.average, die.expected)}`}>
+                    {formatNumber(die.average)}
+                  </td>
+                  <td className="py-1 text-muted-foreground">{formatNumber(die.expected)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Hope/Fear split per session */}
+      {sessions.length > 0 && (
+        <div>
+          <h3 className="font-cormorant text-accent font-medium mb-2">Hope &amp; Fear by Session</h3>
+          <div className="space-y-2">
+            {sessions.map(({ start, duality }) => (
+              <div key={start.getTime()} className="space-y-1">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>
+                    {start.toLocaleDateString()} {start.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <span>
+                    <span className="text-amber-500">{duality.hope} Hope</span>
+                    {' · '}
+                    <span className="text-purple-400">{duality.fear} Fear</span>
+                    {' · '}
+                    <span className="text-yellow-500">{duality.critical} Critical</span>
+                  </span>
+                </div>
+                <div className="flex h-2 rounded overflow-hidden bg-accent/10" aria-hidden="true">
+                  <div className="bg-amber-400" style={{ width: `${(duality.hope / duality.rolls) * 100}%` }} />
+                  <div className="bg-purple-500" style={{ width: `${(duality.fear / duality.rolls) * 100}%` }} />
+                  <div className="bg-yellow-400" style={{ width: `${(duality.critical / duality.rolls) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Fair Duality Dice roll with Hope and with Fear equally often (45.8% each) and critical 8.3% of the time.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,295 @@
+/**
+ * Roll Library Panel Component
+ * Search, roll and manage the saved roll library, with JSON import/export
+ */
+
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dices, Download, FolderOpen, Plus, Search, Trash2, Upload } from 'lucide-react';
+import { useDice } from '@/contexts/DiceContext';
+import { formatRollTarget } from '@/lib/dice-utils';
+import {
+  createSavedRoll,
+  downloadRollLibrary,
+  filterSavedRolls,
+  getSavedRollFolders,
+  getSavedRollTags,
+  groupSavedRollsByFolder
+} from '@/lib/roll-library';
+import { DiceError, DiceRollResult, SavedRoll } from '@/types/dice';
+
+/**
+ * Props for the RollLibraryPanel component
+ */
+export interface RollLibraryPanelProps {
+  /** Called after a saved roll is rolled (e.g., to close a dialog) */
+  onRolled?: (savedRoll: SavedRoll) => void;
+  /** Optional custom class name */
+  className?: string;
+}
+
+const selectClassName = 'bg-background border border-accent/30 rounded px-2 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none';
+
+/**
+ * Form for adding a roll to the library
+ */
+const SavedRollForm: React.FC<{
+  folders: string[];
+  /** Prefills the form, e.g. with the roll currently on the dice card */
+  initialResult?: DiceRollResult | null;
+  onSave: (savedRoll: SavedRoll) => void;
+}> = ({ folders, initialResult, onSave }) => {
+  const [name, setName] = useState('');
+  const [expression, setExpression] = useState(initialResult?.expression.originalExpression ?? '');
+  const [tags, setTags] = useState('');
+  const [folder, setFolder] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      // Keep the Difficulty/Evasion when saving the roll that is on the dice card
+      const target = expression.trim() === initialResult?.expression.originalExpression
+        ? initialResult.evaluation?.target
+        : undefined;
+      onSave(createSavedRoll({ name, expression, tags, folder, target }));
+      setName('');
+      setExpression('');
+      setTags('');
+      setError(null);
+    } catch (err) {
+      setError((err as DiceError).message || 'Invalid dice expression');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 p-3 rounded-lg border border-accent/20 bg-accent/5">
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (e.g., Longsword)"
+          aria-label="Roll name"
+        />
+        <Input
+          value={expression}
+          onChange={(e) => { setExpression(e.target.value); setError(null); }}
+          placeholder="Expression (e.g., 1d10+3)"
+          aria-label="Dice expression"
+          aria-invalid={!!error}
+          className="font-mono"
+        />
+        <Input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder="Tags (e.g., damage, melee)"
+          aria-label="Tags"
+        />
+        <Input
+          value={folder}
+          onChange={(e) => setFolder(e.target.value)}
+          placeholder="Folder (e.g., Marlowe)"
+          aria-label="Folder"
+          list="roll-library-folders"
+        />
+        <datalist id="roll-library-folders">
+          {folders.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+      {error && <p className="text-xs text-red-500" role="alert">{error}</p>}
+      <Button type="submit" size="sm" disabled={!expression.trim()} className="w-full">
+        <Plus className="w-4 h-4 mr-1" />
+        Save Roll
+      </Button>
+    </form>
+  );
+};
+
+/**
+ * A single saved roll with roll and delete buttons
+ */
+const SavedRollRow: React.FC<{
+  savedRoll: SavedRoll;
+  onRoll: (savedRoll: SavedRoll) => void;
+  onRemove: (id: string) => void;
+}> = ({ savedRoll, onRoll, onRemove }) => (
+  <div className="group flex items-center gap-2 p-2 rounded-lg border border-accent/20 hover:border-accent/40 transition-colors">
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={() => onRoll(savedRoll)}
+      className="flex-1 justify-start gap-2 h-auto py-1 px-2 min-w-0"
+      title={`Roll ${savedRoll.expression}`}
+    >
+      <Dices className="w-4 h-4 text-accent flex-shrink-0" />
+      <span className="font-medium truncate">{savedRoll.name}</span>
+      <span className="font-mono text-xs text-muted-foreground">{savedRoll.expression}</span>
+      {savedRoll.target && (
+        <span className="text-xs text-muted-foreground">vs {formatRollTarget(savedRoll.target)}</span>
+      )}
+    </Button>
+    <div className="hidden sm:flex gap-1">
+      {savedRoll.tags.map(tag => (
+        <Badge key={tag} variant="outline" className="text-xs px-1 py-0 border-accent/30">
+          {tag}
+        </Badge>
+      ))}
+    </div>
+    <Button
+      size="sm"
+      variant="ghost"
+      onClick={() => onRemove(savedRoll.id)}
+      className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100 text-red-500"
+      aria-label={`Delete ${savedRoll.name}`}
+    >
+      <Trash2 className="w-3 h-3" />
+    </Button>
+  </div>
+);
+
+export const RollLibraryPanel: React.FC<RollLibraryPanelProps> = ({ onRolled, className = '' }) => {
+  const { currentResult, savedRolls, rollSavedRoll, saveRoll, removeSavedRoll, importSavedRolls } = useDice();
+  const [query, setQuery] = useState('');
+  const [folder, setFolder] = useState<string | undefined>(undefined);
+  const [tag, setTag] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const folders = useMemo(() => getSavedRollFolders(savedRolls), [savedRolls]);
+  const tags = useMemo(() => getSavedRollTags(savedRolls), [savedRolls]);
+  const groups = useMemo(
+    () => groupSavedRollsByFolder(filterSavedRolls(savedRolls, { query, folder, tag })),
+    [savedRolls, query, folder, tag]
+  );
+
+  const handleRoll = (savedRoll: SavedRoll) => {
+    rollSavedRoll(savedRoll);
+    onRolled?.(savedRoll);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const result = await importSavedRolls(await file.text());
+    setImportMessage(result.error
+      ? result.error
+      : `Imported ${result.rolls.length} roll${result.rolls.length === 1 ? '' : 's'}` +
+        (result.skipped > 0 ? `, skipped ${result.skipped} invalid` : ''));
+  };
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {/* Search and filters */}
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[10rem]">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search saved rolls..."
+            aria-label="Search saved rolls"
+            className="pl-8"
+            autoFocus
+          />
+        </div>
+        {folders.length > 0 && (
+          <select
+            value={folder ?? '*'}
+            onChange={(e) => setFolder(e.target.value === '*' ? undefined : e.target.value)}
+            className={selectClassName}
+            aria-label="Filter by folder"
+          >
+            <option value="*">All folders</option>
+            <option value="">Unfiled</option>
+            {folders.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+        {tags.length > 0 && (
+          <select
+            value={tag}
+            onChange={(e) => setTag(e.target.value)}
+            className={selectClassName}
+            aria-label="Filter by tag"
+          >
+            <option value="">All tags</option>
+            {tags.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        )}
+      </div>
+
+      {/* Saved rolls grouped by folder */}
+      <div className="max-h-80 overflow-y-auto space-y-3 pr-1">
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {savedRolls.length === 0
+              ? 'No saved rolls yet. Save your favourite expressions to roll them in one click.'
+              : 'No saved rolls match your search.'}
+          </p>
+        ) : groups.map(group => (
+          <div key={group.folder} className="space-y-1">
+            {group.folder && (
+              <div className="flex items-center gap-1 text-xs font-semibold text-accent uppercase tracking-wide">
+                <FolderOpen className="w-3 h-3" />
+                {group.folder}
+              </div>
+            )}
+            {group.rolls.map(savedRoll => (
+              <SavedRollRow
+                key={savedRoll.id}
+                savedRoll={savedRoll}
+                onRoll={handleRoll}
+                onRemove={removeSavedRoll}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+
+      {showForm && <SavedRollForm folders={folders} initialResult={currentResult} onSave={saveRoll} />}
+
+      {/* Library actions */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => setShowForm(!showForm)}>
+          <Plus className="w-4 h-4 mr-1" />
+          {showForm ? 'Done' : 'New Roll'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Import
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => downloadRollLibrary(savedRolls)}
+          disabled={savedRolls.length === 0}
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          className="hidden"
+          aria-hidden="true"
+        />
+        {importMessage && (
+          <span className="text-xs text-muted-foreground" role="status">{importMessage}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+RollLibraryPanel.displayName = 'RollLibraryPanel';
+
+export default RollLibraryPanel;
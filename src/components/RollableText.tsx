@@ -0,0 +1,83 @@
+/**
+ * RollableText - Rich text with every embedded dice expression rollable in place
+ * Scans free text such as feature, item and consumable descriptions and turns each dice
+ * expression into a dice button, recording the surrounding sentence as the roll's context
+ */
+
+'use client';
+
+import React, { useCallback, useMemo } from 'react';
+import { DiceElement } from '@/components/DiceRoller';
+import { useDice } from '@/contexts/DiceContext';
+import { DEFAULT_DICE_CONFIG, findDiceExpressionsInText, rollDiceExpression } from '@/lib/dice-utils';
+import { DiceTextMatch, RollableTextProps } from '@/types/dice';
+
+/**
+ * Text with clickable dice expressions
+ *
+ * @example
+ * <RollableText text="Clear 1d4+1 HP." source="Minor Health Potion" />
+ */
+export const RollableText: React.FC<RollableTextProps> = ({
+  text,
+  source,
+  onRoll,
+  difficulty,
+  difficultyType = 'difficulty',
+  disabled = false,
+  className,
+}) => {
+  const { setCurrentResult, isRolling } = useDice();
+
+  const matches = useMemo(() => findDiceExpressionsInText(text), [text]);
+
+  const handleRoll = useCallback((match: DiceTextMatch) => {
+    const target = difficulty !== undefined ? { value: difficulty, type: difficultyType } : undefined;
+
+    try {
+      const result = rollDiceExpression(match.expression, 'normal', DEFAULT_DICE_CONFIG, target);
+      setCurrentResult(result, source ? `${source}: ${match.sentence}` : match.sentence);
+      onRoll?.(result);
+    } catch (error) {
+      console.error('Failed to roll dice:', error);
+    }
+  }, [difficulty, difficultyType, source, onRoll, setCurrentResult]);
+
+  if (matches.length === 0) {
+    return <span className={className}>{text}</span>;
+  }
+
+  // Split the text around each expression
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  matches.forEach((match, index) => {
+    if (match.start > lastIndex) {
+      parts.push(text.slice(lastIndex, match.start));
+    }
+    parts.push(
+      <DiceElement
+        key={`dice-${index}`}
+        expression={match.expression}
+        onClick={() => handleRoll(match)}
+        isDisabled={disabled || isRolling}
+        hasError={false}
+      >
+        {match.expression}
+      </DiceElement>
+    );
+    lastIndex = match.end;
+  });
+
+  if (lastIndex < text.length) {
+    parts.push(text.slice(lastIndex));
+  }
+
+  return (
+    <span className={className} data-component="rollable-text">
+      {parts}
+    </span>
+  );
+};
+
+export default RollableText;
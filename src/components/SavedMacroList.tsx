@@ -0,0 +1,81 @@
+/**
+ * Saved Macro List Component
+ * Roll and remove the roll macros saved in the dice context
+ */
+
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Dices, Trash2 } from 'lucide-react';
+import { useDice } from '@/contexts/DiceContext';
+import { RollMacro } from '@/types/dice';
+
+/**
+ * Props for the SavedMacroList component
+ */
+export interface SavedMacroListProps {
+  /** Shown when no macros have been saved yet */
+  emptyMessage?: string;
+  /** Optional custom class name */
+  className?: string;
+}
+
+/**
+ * A single saved macro with roll and delete buttons
+ */
+const SavedMacroRow: React.FC<{
+  macro: RollMacro;
+  onRoll: (macro: RollMacro) => void;
+  onRemove: (id: string) => void;
+}> = ({ macro, onRoll, onRemove }) => {
+  const steps = macro.steps.map(step => `${step.label} ${step.expression}`).join(' → ');
+
+  return (
+    <div className="group flex items-center gap-2 p-2 rounded-lg border border-accent/20 hover:border-accent/40 transition-colors">
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => onRoll(macro)}
+        className="flex-1 justify-start gap-2 h-auto py-1 px-2 min-w-0"
+        title={`Roll ${steps}`}
+      >
+        <Dices className="w-4 h-4 text-accent flex-shrink-0" />
+        <span className="font-medium truncate">{macro.name}</span>
+        <span className="font-mono text-xs text-muted-foreground truncate">{steps}</span>
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => onRemove(macro.id)}
+        className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100 text-red-500"
+        aria-label={`Delete ${macro.name}`}
+      >
+        <Trash2 className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+};
+
+export const SavedMacroList: React.FC<SavedMacroListProps> = ({
+  emptyMessage = 'No saved macros yet.',
+  className = ''
+}) => {
+  const { macros, rollMacro, removeMacro } = useDice();
+
+  if (macros.length === 0) {
+    return <p className={`text-sm text-muted-foreground text-center py-4 ${className}`}>{emptyMessage}</p>;
+  }
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      {macros.map(macro => (
+        <SavedMacroRow key={macro.id} macro={macro} onRoll={rollMacro} onRemove={removeMacro} />
+      ))}
+    </div>
+  );
+};
+
+SavedMacroList.displayName = 'SavedMacroList';
+
+export default SavedMacroList;
@@ -0,0 +1,215 @@
+/**
+ * Table Session Panel Component
+ * Join a room on the dice relay to share rolls live with everyone at the table
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Crown, EyeOff, LogOut, Users, Wifi } from 'lucide-react';
+import { useDice } from '@/contexts/DiceContext';
+import { getDefaultRelayUrl } from '@/lib/table-session';
+import { TableRole, TableSessionSettings, TableSessionStatus } from '@/types/table-session';
+
+/**
+ * Props for the TableSessionPanel component
+ */
+export interface TableSessionPanelProps {
+  /** Optional custom class name */
+  className?: string;
+}
+
+// localStorage key for remembering the last table joined (the GM key is never stored)
+const SETTINGS_STORAGE_KEY = 'daggerheart-table-session';
+
+const STATUS_LABELS: Record<TableSessionStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting…',
+  disconnected: 'Not connected',
+};
+
+const STATUS_COLORS: Record<TableSessionStatus, string> = {
+  connecting: 'bg-yellow-500',
+  connected: 'bg-green-500',
+  reconnecting: 'bg-yellow-500',
+  disconnected: 'bg-muted-foreground',
+};
+
+const selectClassName = 'bg-background border border-accent/30 rounded px-2 py-1.5 text-sm text-foreground focus:border-accent focus:outline-none';
+
+/**
+ * Load the last table joined from localStorage
+ */
+function loadSettingsFromStorage(): Partial<TableSessionSettings> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Failed to load table session settings from localStorage:', error);
+    return {};
+  }
+}
+
+/**
+ * Remember the table joined in localStorage
+ */
+function saveSettingsToStorage({ url, room, name, role }: TableSessionSettings) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({ url, room, name, role }));
+  } catch (error) {
+    console.warn('Failed to save table session settings to localStorage:', error);
+  }
+}
+
+/**
+ * Join, watch and leave a table session
+ */
+export const TableSessionPanel: React.FC<TableSessionPanelProps> = ({ className = '' }) => {
+  const { tableSession, joinTableSession, leaveTableSession, rollSecretly, setRollSecretly } = useDice();
+  const [url, setUrl] = useState('');
+  const [room, setRoom] = useState('');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<TableRole>('player');
+  const [gmKey, setGmKey] = useState('');
+
+  // Prefill with the last table joined, defaulting the relay to this host
+  useEffect(() => {
+    const saved = loadSettingsFromStorage();
+    setUrl(saved.url || getDefaultRelayUrl());
+    setRoom(saved.room || '');
+    setName(saved.name || '');
+    setRole(saved.role === 'gm' ? 'gm' : 'player');
+  }, []);
+
+  const { status, settings, members, error } = tableSession;
+  const canJoin = !!(url.trim() && room.trim() && name.trim());
+
+  const handleJoin = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canJoin) return;
+
+    const next: TableSessionSettings = {
+      url: url.trim(),
+      room: room.trim(),
+      name: name.trim(),
+      role,
+      ...(role === 'gm' && gmKey && { gmKey })
+    };
+    saveSettingsToStorage(next);
+    joinTableSession(next);
+  };
+
+  if (settings) {
+    return (
+      <div className={`space-y-3 ${className}`}>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className={`w-2 h-2 rounded-full shrink-0 ${STATUS_COLORS[status]}`} aria-hidden="true" />
+            <span className="text-sm text-foreground" role="status">{STATUS_LABELS[status]}</span>
+            <Badge variant="outline" className="truncate">{settings.room}</Badge>
+          </div>
+          <Button variant="ghost" size="sm" onClick={leaveTableSession} className="text-muted-foreground hover:text-foreground">
+            <LogOut className="w-4 h-4 mr-1" />
+            Leave
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-red-500" role="alert">{error}</p>}
+
+        <div>
+          <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+            <Users className="w-3 h-3" />
+            At the table ({members.length})
+          </div>
+          {members.length > 0 ? (
+            <ul className="flex flex-wrap gap-1">
+              {members.map((member, index) => (
+                <li key={`${member.role}:${member.name}:${index}`}>
+                  <Badge variant={member.role === 'gm' ? 'default' : 'secondary'} className="gap-1">
+                    {member.role === 'gm' && <Crown className="w-3 h-3" aria-label="GM" />}
+                    {member.name}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-muted-foreground">Nobody yet</p>
+          )}
+        </div>
+
+        {settings.role === 'gm' && (
+          <label className="flex items-center gap-2 text-sm text-foreground cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rollSecretly}
+              onChange={(e) => setRollSecretly(e.target.checked)}
+              className="accent-accent"
+            />
+            <EyeOff className="w-4 h-4 text-muted-foreground" />
+            Roll secretly (reveal rolls from the dice card)
+          </label>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleJoin} className={`space-y-2 ${className}`}>
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          value={room}
+          onChange={(e) => setRoom(e.target.value)}
+          placeholder="Room code (e.g., goblin-cave)"
+          aria-label="Room code"
+        />
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Your name"
+          aria-label="Your name"
+          maxLength={40}
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as TableRole)}
+          className={selectClassName}
+          aria-label="Role"
+        >
+          <option value="player">Player</option>
+          <option value="gm">GM</option>
+        </select>
+        {role === 'gm' ? (
+          <Input
+            type="password"
+            value={gmKey}
+            onChange={(e) => setGmKey(e.target.value)}
+            placeholder="GM key (printed by the relay)"
+            aria-label="GM key"
+          />
+        ) : <div />}
+        <Input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="ws://192.168.1.20:8787"
+          aria-label="Relay address"
+          className="col-span-2 font-mono"
+        />
+      </div>
+      <Button type="submit" size="sm" disabled={!canJoin} className="w-full">
+        <Wifi className="w-4 h-4 mr-1" />
+        Join Table
+      </Button>
+      <p className="text-xs text-muted-foreground">
+        Start the relay with <code className="font-mono">npm run relay</code> on a computer at the table, then join the same room from every device.
+      </p>
+    </form>
+  );
+};
@@ -7,7 +7,17 @@
 export { DiceRoller } from '../DiceRoller';
 export { default as DiceRollerDefault } from '../DiceRoller';
 export { DiceResultHoverCard } from '../DiceResultHoverCard';
+export { RollableText } from '../RollableText';
 export { RollHistoryDisplay } from '../RollHistoryDisplay';
+export { RollHistoryFilters } from '../RollHistoryFilters';
+export { RollHistoryStatsPanel } from '../RollHistoryStatsPanel';
+export { RollHistoryExportActions } from '../RollHistoryExportActions';
+export { RollLibraryPanel } from '../RollLibraryPanel';
+export { SavedMacroList } from '../SavedMacroList';
+export { QuickRollPalette } from '../QuickRollPalette';
+export { DiceCommandBar } from '../DiceCommandBar';
+export { DiceTray } from '../DiceTray';
+export { TableSessionPanel } from '../TableSessionPanel';
 
 // Dice Hooks
 export { useDiceRollHistory } from '../../hooks/useDiceRollHistory';
@@ -15,24 +25,59 @@ export { useDiceRollHistory } from '../../hooks/useDiceRollHistory';
 // Dice Types
 export type {
   DiceRollerProps,
+  RollableTextProps,
+  DiceTextMatch,
   DiceResultHoverCardProps,
   DiceRollResult,
   DiceExpression,
   DiceError,
+  DiceCommand,
   DiceValidationResult,
   Die,
   DiceRollConfig,
   SingleRoll,
+  BonusDieKind,
+  RollTypeStack,
+  DiceVariables,
+  CharacterStats,
+  CharacterTrait,
   DiceBreakdown,
   RollHistoryEntry,
+  RollVisibility,
+  RollHistoryExportFormat,
+  RollHistoryExportOptions,
+  RollHistoryImportResult,
   RollAction,
-  UseDiceRollHistoryReturn
+  UseDiceRollHistoryReturn,
+  DualityDieRole,
+  DualityOutcome,
+  DualityRollDetails,
+  DualityRollResult,
+  DualityRollOptions,
+  SavedRoll,
+  RollLibraryImportResult,
+  RollHistoryStats,
+  DieFaceStats,
+  RollSession
 } from '../../types/dice';
+export type { RollHistoryFilter, RollHistoryOutcome } from '../../lib/roll-history-stats';
+export type {
+  TableRole,
+  TableMember,
+  TableRoll,
+  TableSessionSettings,
+  TableSessionState,
+  TableSessionStatus
+} from '../../types/table-session';
 
 // Integration Test Components moved to src/test/
 
 // Re-export dice utilities for convenience
 export * from '../../lib/dice-utils';
+export { parseDiceCommand, rollDiceCommand, describeDiceCommand } from '../../lib/dice-command';
+export { getDieShape, layoutDiceTray, describeDiceTray } from '../../lib/dice-tray';
+export { resolveDiceVariables, getCharacterDiceVariables } from '../../lib/dice-variables';
+export { rollDiceExpressionBatch, sampleDiceTotals, createDiceRollService } from '../../lib/dice-roll-service';
 
 /**
  * Convenience exports for common use cases
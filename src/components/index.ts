@@ -60,5 +60,6 @@ export { default as LootGeneratorComponent } from './tools/LootGeneratorComponen
 export { default as BattlePointsCalculatorComponent } from './tools/BattlePointsCalculatorComponent';
 export { default as FearTrackerComponent } from './tools/FearTrackerComponent';
 export { default as MonsterBuilderComponent } from './tools/MonsterBuilderComponent';
+export { default as DiceRollerToolComponent } from './tools/DiceRollerToolComponent';
 
 // Integration Test Components moved to src/test/ 
\ No newline at end of file
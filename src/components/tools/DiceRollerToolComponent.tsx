@@ -0,0 +1,468 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import ToolInfo from '@/components/ToolInfo'
+import { HelpPopover } from '@/components/FantasyPopover'
+import { RollHistoryDisplay } from '@/components/RollHistoryDisplay'
+import { RollHistoryFilters } from '@/components/RollHistoryFilters'
+import { RollHistoryExportActions } from '@/components/RollHistoryExportActions'
+import { RollHistoryStatsPanel } from '@/components/RollHistoryStatsPanel'
+import { TableSessionPanel } from '@/components/TableSessionPanel'
+import { useDice } from '@/contexts/DiceContext'
+import {
+  STANDARD_DICE,
+  COMMON_DAGGERHEART_ROLLS,
+  DEFAULT_DICE_CONFIG,
+  addDieToExpression,
+  adjustExpressionModifier,
+  canApplyCritical,
+  getDiceExpressionSuggestions,
+  getDiceRange,
+  getDiceAverage,
+  isDualityRollResult,
+  rollDiceExpression,
+  rollDualityDice,
+  validateDiceExpression,
+  type CommonRoll
+} from '@/lib/dice-utils'
+import { filterRollHistory, type RollHistoryFilter } from '@/lib/roll-history-stats'
+import type { RollAction, RollHistoryEntry, RollTarget } from '@/types/dice'
+import { cn } from '@/lib/utils'
+
+type RollType = 'normal' | 'advantage' | 'disadvantage' | 'critical'
+
+const ROLL_TYPES: { value: RollType; label: string; description: string }[] = [
+  { value: 'normal', label: 'Normal', description: 'Roll the expression as written' },
+  { value: 'advantage', label: 'Advantage', description: 'Add a d6 to the total' },
+  { value: 'disadvantage', label: 'Disadvantage', description: 'Subtract a d6 from the total' },
+  { value: 'critical', label: 'Critical', description: 'Add the maximum value of the base dice (damage rolls only)' }
+]
+
+interface DiceRollerToolComponentProps {}
+
+export default function DiceRollerToolComponent({}: DiceRollerToolComponentProps) {
+  const { rollHistory, setCurrentResult, rollSecretly, setRollSecretly, showDiceTray, setShowDiceTray } = useDice()
+  const [expression, setExpression] = useState('')
+  const [rollType, setRollType] = useState<RollType>('normal')
+  const [difficulty, setDifficulty] = useState('')
+  const [difficultyType, setDifficultyType] = useState<RollTarget['type']>('difficulty')
+  const [historyFilter, setHistoryFilter] = useState<RollHistoryFilter>({})
+
+  // Statistics follow the same filter as the history list
+  const filteredHistory = useMemo(
+    () => filterRollHistory(rollHistory, historyFilter),
+    [rollHistory, historyFilter]
+  )
+
+  const trimmedExpression = expression.trim()
+
+  // Live validation as the GM types
+  const validation = useMemo(
+    () => trimmedExpression ? validateDiceExpression(trimmedExpression) : null,
+    [trimmedExpression]
+  )
+  const isValid = !!validation?.isValid
+  const suggestions = useMemo(
+    () => validation && !validation.isValid ? getDiceExpressionSuggestions(trimmedExpression) : [],
+    [validation, trimmedExpression]
+  )
+  const range = isValid ? getDiceRange(trimmedExpression) : null
+  const average = isValid ? getDiceAverage(trimmedExpression) : null
+  const criticalAllowed = isValid && canApplyCritical(trimmedExpression)
+
+  const target = useMemo<RollTarget | undefined>(() => {
+    const value = parseInt(difficulty, 10)
+    return Number.isNaN(value) ? undefined : { value, type: difficultyType }
+  }, [difficulty, difficultyType])
+
+  const handleRoll = (rollExpression = trimmedExpression) => {
+    // Critical only applies to damage rolls, so fall back to a normal roll for d20s
+    const effectiveRollType = rollType === 'critical' && !canApplyCritical(rollExpression) ? 'normal' : rollType
+
+    try {
+      setCurrentResult(rollDiceExpression(rollExpression, effectiveRollType, DEFAULT_DICE_CONFIG, target))
+    } catch (error) {
+      console.error('Failed to roll dice:', error)
+    }
+  }
+
+  const handleCommonRoll = (roll: CommonRoll) => {
+    if (roll.duality) {
+      // Critical damage does not apply to action rolls
+      setCurrentResult(rollDualityDice({
+        rollType: rollType === 'critical' ? 'normal' : rollType,
+        difficulty: target?.value
+      }))
+      return
+    }
+    setExpression(roll.expression)
+    handleRoll(roll.expression)
+  }
+
+  const handleHistoryAction = async (action: RollAction, historyExpression: string, entry: RollHistoryEntry) => {
+    switch (action) {
+      case 'roll-again': {
+        const { result } = entry
+        const historyTarget = result.evaluation?.target
+        // Keep Hope/Fear semantics when re-rolling an action roll
+        setCurrentResult(isDualityRollResult(result)
+          ? rollDualityDice({ modifier: result.duality.traitModifier, difficulty: historyTarget?.value })
+          : rollDiceExpression(historyExpression, 'normal', DEFAULT_DICE_CONFIG, historyTarget), entry.context)
+        break
+      }
+      case 'copy-result':
+        try {
+          await navigator.clipboard.writeText(`${historyExpression}: ${entry.result.total}`)
+        } catch (error) {
+          console.error('Failed to copy to clipboard:', error)
+        }
+        break
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="text-center -mt-2">
+        <p className="text-lg text-muted-foreground italic leading-relaxed max-w-2xl mx-auto">
+          Roll any combination of dice with modifiers, advantage and Difficulty for all your Daggerheart mechanics
+        </p>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-8">
+        {/* Roller */}
+        <Card className="fantasy">
+          <CardContent className="p-6 space-y-6">
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">🎲</span>
+              <h2 className="text-2xl font-bold text-foreground">Roll</h2>
+            </div>
+
+            {/* Expression */}
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (isValid) handleRoll()
+              }}
+              className="space-y-2"
+            >
+              <label htmlFor="dice-expression-input" className="flex text-sm font-medium text-muted-foreground uppercase tracking-wide items-center gap-2">
+                Expression
+                <HelpPopover title="Dice Notation">
+                  Type dice like 2d6+3, d20, 4d6dl1 (drop lowest), 2d20kh1 (keep highest), 1d6! (exploding) or 2d8r1 (reroll 1s). Use the dice tray to build an expression by clicking.
+                </HelpPopover>
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  id="dice-expression-input"
+                  type="text"
+                  value={expression}
+                  onChange={(e) => setExpression(e.target.value)}
+                  placeholder="e.g., 2d6+3"
+                  className="flex-1 bg-background border-2 border-gray-600 rounded-lg px-4 py-3 font-mono text-foreground focus:outline-none focus:border-accent transition-colors"
+                  aria-invalid={validation ? !validation.isValid : undefined}
+                  aria-describedby="dice-expression-status"
+                  autoComplete="off"
+                />
+                <Button type="submit" disabled={!isValid} className="rounded-xl px-6">
+                  Roll
+                </Button>
+              </div>
+              <div id="dice-expression-status" className="min-h-[1.25rem] text-sm" aria-live="polite">
+                {validation && !validation.isValid && (
+                  <div className="space-y-1">
+                    <p className="text-red-500">{validation.error?.message}</p>
+                    {suggestions.map(suggestion => (
+                      <p key={suggestion} className="text-muted-foreground">💡 {suggestion}</p>
+                    ))}
+                  </div>
+                )}
+                {range && average !== null && (
+                  <p className="text-muted-foreground">
+                    Range {Number.isFinite(range.max) ? `${range.min}–${range.max}` : `${range.min}+ (no maximum)`} · Average {average.toFixed(1)}
+                  </p>
+                )}
+              </div>
+            </form>
+
+            {/* Dice tray */}
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-muted-foreground uppercase tracking-wide">Dice Tray</div>
+              <div className="flex flex-wrap gap-2">
+                {STANDARD_DICE.map(die => (
+                  <Button
+                    key={die.name}
+                    type="button"
+                    variant="outline"
+                    onClick={() => setExpression(addDieToExpression(expression, die.sides))}
+                    className="font-mono border-accent/30 hover:border-accent hover:bg-accent/10"
+                    aria-label={`Add a ${die.name}`}
+                  >
+                    {die.name}
+                  </Button>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setExpression(adjustExpressionModifier(expression, 1))}
+                  className="font-mono border-accent/30 hover:border-accent hover:bg-accent/10"
+                  aria-label="Increase modifier"
+                >
+                  +1
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setExpression(adjustExpressionModifier(expression, -1))}
+                  className="font-mono border-accent/30 hover:border-accent hover:bg-accent/10"
+                  aria-label="Decrease modifier"
+                >
+                  −1
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setExpression('')}
+                  disabled={!expression}
+                  className="text-muted-foreground"
+                >
+                  Clear
+                </Button>
+              </div>
+            </div>
+
+            {/* Roll type */}
+            <div className="space-y-2">
+              <div className="flex text-sm font-medium text-muted-foreground uppercase tracking-wide items-center gap-2">
+                Roll Type
+                <HelpPopover title="Roll Type">
+                  Advantage adds a d6 and disadvantage subtracts a d6. Critical adds the maximum value of the base dice and only applies to damage rolls.
+                </HelpPopover>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2" role="radiogroup" aria-label="Roll type">
+                {ROLL_TYPES.map(type => {
+                  const disabled = type.value === 'critical' && isValid && !criticalAllowed
+                  return (
+                    <Button
+                      key={type.value}
+                      type="button"
+                      role="radio"
+                      aria-checked={rollType === type.value}
+                      variant={rollType === type.value ? 'default' : 'outline'}
+                      onClick={() => setRollType(type.value)}
+                      disabled={disabled}
+                      title={disabled ? 'Critical damage does not apply to d20 rolls' : type.description}
+                      className={cn('rounded-lg', rollType !== type.value && 'border-accent/30')}
+                    >
+                      {type.label}
+                    </Button>
+                  )
+                })}
+              </div>
+            </div>
+
+            {/* Difficulty */}
+            <div className="space-y-2">
+              <label htmlFor="dice-difficulty-input" className="flex text-sm font-medium text-muted-foreground uppercase tracking-wide items-center gap-2">
+                Target
+                <HelpPopover title="Difficulty and Evasion">
+                  Optional. Rolls meeting or beating the target succeed. Use Difficulty for action rolls and Evasion for attacks against a PC.
+                </HelpPopover>
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={difficultyType}
+                  onChange={(e) => setDifficultyType(e.target.value as RollTarget['type'])}
+                  className="bg-background border-2 border-gray-600 rounded-lg px-3 py-2 text-foreground focus:border-accent focus:outline-none"
+                  aria-label="Target type"
+                >
+                  <option value="difficulty">Difficulty</option>
+                  <option value="evasion">Evasion</option>
+                </select>
+                <Input
+                  id="dice-difficulty-input"
+                  type="number"
+                  min="1"
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(e.target.value)}
+                  placeholder="None"
+                  className="w-28 bg-background border-2 border-gray-600 rounded-lg px-4 py-2 text-center text-foreground focus:outline-none focus:border-accent transition-colors"
+                />
+              </div>
+            </div>
+
+            {/* Visibility */}
+            <div className="space-y-2">
+              <div className="flex text-sm font-medium text-muted-foreground uppercase tracking-wide items-center gap-2">
+                Visibility
+                <HelpPopover title="Secret Rolls">
+                  Secret rolls are marked hidden in your history and are only shared with other GMs in a table session. Reveal one from the dice card when the players should see it.
+                </HelpPopover>
+              </div>
+              <Button
+                type="button"
+                variant={rollSecretly ? 'default' : 'outline'}
+                onClick={() => setRollSecretly(!rollSecretly)}
+                aria-pressed={rollSecretly}
+                className={cn('rounded-lg', !rollSecretly && 'border-accent/30')}
+              >
+                {rollSecretly ? '🔒 Rolling secretly' : '👁️ Rolling openly'}
+              </Button>
+            </div>
+
+            {/* Dice animation */}
+            <div className="space-y-2">
+              <div className="flex text-sm font-medium text-muted-foreground uppercase tracking-wide items-center gap-2">
+                Dice Animation
+                <HelpPopover title="Dice Animation">
+                  Shows every die tumbling into place on the dice card, with the Hope and Fear dice in gold and purple. The dice stay still if your device is set to reduce motion.
+                </HelpPopover>
+              </div>
+              <Button
+                type="button"
+                variant={showDiceTray ? 'default' : 'outline'}
+                onClick={() => setShowDiceTray(!showDiceTray)}
+                aria-pressed={showDiceTray}
+                className={cn('rounded-lg', !showDiceTray && 'border-accent/30')}
+              >
+                {showDiceTray ? '🎲 Showing dice' : '🔢 Showing totals'}
+              </Button>
+            </div>
+
+            {/* Common rolls */}
+            <div className="space-y-2">
+              <div className="text-sm font-medium text-muted-foreground uppercase tracking-wide">Common Rolls</div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {COMMON_DAGGERHEART_ROLLS.map(roll => (
+                  <Button
+                    key={roll.name}
+                    type="button"
+                    variant="outline"
+                    onClick={() => handleCommonRoll(roll)}
+                    title={roll.description}
+                    className="justify-between border-accent/30 hover:border-accent hover:bg-accent/10"
+                  >
+                    <span>{roll.name}</span>
+                    <span className="font-mono text-xs text-muted-foreground">{roll.expression}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* History */}
+        <Card className="fantasy">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">📜</span>
+              <h2 className="text-2xl font-bold text-foreground">History</h2>
+            </div>
+            {rollHistory.length > 0 ? (
+              <>
+                <RollHistoryFilters filter={historyFilter} onChange={setHistoryFilter} />
+                <RollHistoryDisplay
+                  onRollAction={handleHistoryAction}
+                  maxDisplayEntries={rollHistory.length}
+                  filter={historyFilter}
+                  defaultOpen
+                />
+              </>
+            ) : (
+              <div className="space-y-4">
+                <div className="text-center text-muted-foreground italic py-12">
+                  No rolls yet...
+                </div>
+                {/* Bring history over from another device */}
+                <RollHistoryExportActions entries={rollHistory} />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Statistics */}
+      {rollHistory.length > 0 && (
+        <Card className="fantasy">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center gap-3">
+              <span className="text-3xl">📊</span>
+              <h2 className="text-2xl font-bold text-foreground">Statistics</h2>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              How the {filteredHistory.length === rollHistory.length ? '' : 'filtered '}rolls compare with fair dice.
+              Small samples swing a lot, so give the dice a few sessions before calling them cursed.
+            </p>
+            <RollHistoryStatsPanel entries={filteredHistory} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Table Session */}
+      <Card className="fantasy">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <span className="text-3xl">🛜</span>
+            <h2 className="text-2xl font-bold text-foreground">Table Session</h2>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Share rolls live with everyone at the table. Rolls from other devices appear in the dice card and your history.
+          </p>
+          <TableSessionPanel />
+        </CardContent>
+      </Card>
+
+      {/* Detailed Information Accordion */}
+      <ToolInfo title="About Dice Roller">
+        <h3>How It Works</h3>
+        <p>
+          Type any dice expression or build one with the dice tray, choose a roll type and an optional target, then roll.
+          Results appear in the dice card and are kept in your roll history across every tool.
+        </p>
+
+        <h3>Key Features</h3>
+        <div className="feature-grid">
+          <div className="feature-card">
+            <h4>Live Validation</h4>
+            <p>See the range and average of an expression as you type, with suggestions when it can&apos;t be read</p>
+          </div>
+          <div className="feature-card">
+            <h4>Advantage &amp; Critical</h4>
+            <p>Add or subtract a d6 for advantage and disadvantage, or maximize the base dice for critical damage</p>
+          </div>
+          <div className="feature-card">
+            <h4>Duality Dice</h4>
+            <p>Action rolls use a Hope d12 and a Fear d12 and report whether the roll succeeds with Hope or Fear</p>
+          </div>
+          <div className="feature-card">
+            <h4>Roll Statistics</h4>
+            <p>Filter your history by expression, roll type, context, date and outcome, compare the results with fair dice, and export it as CSV, JSON or a Markdown session log</p>
+          </div>
+          <div className="feature-card">
+            <h4>Secret Rolls</h4>
+            <p>Roll adversary reactions in secret and reveal them to the players later from the dice card</p>
+          </div>
+          <div className="feature-card">
+            <h4>Table Sessions</h4>
+            <p>Join a room on the dice relay to see everyone&apos;s rolls on your own device, with hidden rolls for the GM</p>
+          </div>
+          <div className="feature-card">
+            <h4>Saved Rolls</h4>
+            <p>Keep your favourite expressions in the saved roll library, available from the saved rolls button on every page</p>
+          </div>
+          <div className="feature-card">
+            <h4>Dice Animation</h4>
+            <p>Watch each die tumble into the tray in its own shape, with Hope and Fear dice in their own colours</p>
+          </div>
+          <div className="feature-card">
+            <h4>Command Bar</h4>
+            <p>Press / or Ctrl+K on any page and type a roll like 2d12+3 adv vs 14 &quot;Sneak&quot;, with ↑ and ↓ to repeat earlier commands</p>
+          </div>
+        </div>
+      </ToolInfo>
+    </div>
+  )
+}
@@ -3,7 +3,9 @@
 import { useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { generateMultipleLoot } from '@/utils/data-access'
+import { createSeededRandom, generateSeed } from '@/lib/random'
 import ToolInfo from '@/components/ToolInfo'
+import { RollableText } from '@/components/RollableText'
 import type { LootItem } from '@/data'
 import { HelpPopover, InfoPopover, TipPopover } from '@/components/FantasyPopover'
 import {
@@ -24,16 +26,25 @@ export default function LootGeneratorComponent({}: LootGeneratorComponentProps)
   const [consumableQuantity, setConsumableQuantity] = useState<number>(1)
   const [generatedItems, setGeneratedItems] = useState<LootItem[]>([])
   const [generatedConsumables, setGeneratedConsumables] = useState<LootItem[]>([])
+  const [seed, setSeed] = useState('')
+  const [lastSeed, setLastSeed] = useState<string | null>(null)
+
+  // Every generation gets a seed so a hoard can be shared and rebuilt exactly
+  const getSeededRandom = () => {
+    const lootSeed = seed.trim() || generateSeed()
+    setLastSeed(lootSeed)
+    return createSeededRandom(lootSeed)
+  }
 
   const handleGenerateItems = () => {
     if (!itemQuantity || itemQuantity < 1) return
-    const lootItems = generateMultipleLoot('item', itemQuantity, itemRarity)
+    const lootItems = generateMultipleLoot('item', itemQuantity, itemRarity, getSeededRandom())
     setGeneratedItems(lootItems)
   }
 
   const handleGenerateConsumables = () => {
     if (!consumableQuantity || consumableQuantity < 1) return
-    const lootItems = generateMultipleLoot('consumable', consumableQuantity)
+    const lootItems = generateMultipleLoot('consumable', consumableQuantity, undefined, getSeededRandom())
     setGeneratedConsumables(lootItems)
   }
 
@@ -71,7 +82,9 @@ export default function LootGeneratorComponent({}: LootGeneratorComponentProps)
                   {loot.diceRoll.rolls.join(' + ')} = {loot.diceRoll.total}
                 </span>
               </div>
-              <p className="text-muted-foreground leading-relaxed">{loot.description}</p>
+              <p className="text-muted-foreground leading-relaxed">
+                <RollableText text={loot.description} source={loot.name} />
+              </p>
             </div>
           ))}
         </div>
@@ -88,6 +101,38 @@ export default function LootGeneratorComponent({}: LootGeneratorComponentProps)
         </p>
       </div>
 
+      {/* Seed */}
+      <div className="flex flex-col items-center gap-2">
+        <label htmlFor="loot-seed-input" className="flex text-sm font-medium text-muted-foreground uppercase tracking-wide items-center gap-2">
+          Seed
+          <HelpPopover title="Seed">
+            Leave empty for fresh loot. Enter a seed shared from an earlier roll (with the same rarity and quantity) to generate exactly the same loot again.
+          </HelpPopover>
+        </label>
+        <Input
+          id="loot-seed-input"
+          type="text"
+          value={seed}
+          onChange={(e) => setSeed(e.target.value)}
+          placeholder="Random"
+          className="w-48 bg-background border-2 border-gray-600 rounded-lg px-4 py-2 text-center font-mono text-foreground focus:outline-none focus:border-accent transition-colors"
+          aria-describedby="loot-seed-help"
+        />
+        {lastSeed && (
+          <p className="text-xs text-muted-foreground">
+            Last seed: <button
+              type="button"
+              onClick={() => setSeed(lastSeed)}
+              className="font-mono text-accent hover:underline focus:outline-none focus:ring-2 focus:ring-accent rounded"
+              title="Use this seed"
+            >{lastSeed}</button>
+          </p>
+        )}
+        <div id="loot-seed-help" className="sr-only">
+          Optional. The same seed, rarity and quantity always generate the same loot.
+        </div>
+      </div>
+
       {/* Loot Generator Tool */}
       <div className="grid lg:grid-cols-2 gap-8">
         {/* Items Generator */}
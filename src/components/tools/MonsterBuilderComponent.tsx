@@ -8,19 +8,35 @@ import {
   getAvailableFeatures,
   exportMonsterAsFile,
   exportMultipleMonstersAsFile,
+  formatModifier,
+  getMonsterDiceVariables,
   MONSTER_TYPES, 
   TIERS,
+  FEATURE_KINDS,
   type GeneratedMonster,
   type MonsterType,
   type Tier,
   type MonsterFeature
 } from '@/lib/monster-utils'
+import { createSeededRandom, generateSeed } from '@/lib/random'
+import { generateFeatureText } from '@/lib/monster-features'
+import { getScalableTiers, scaleMonsterToTier } from '@/lib/monster-scaling'
+import { createAttackMacro } from '@/lib/roll-macros'
+import type { RollMacro } from '@/types/dice'
+import { parseDamageThresholds, withDamageThresholds } from '@/lib/damage-thresholds'
+import { DEFAULT_DICE_CONFIG, getDiceExpressionError, rollDiceExpression } from '@/lib/dice-utils'
+import { useDice } from '@/contexts/DiceContext'
+import { useAdversaryLibrary } from '@/hooks/useAdversaryLibrary'
+import AdversaryLibraryPanel from '@/components/AdversaryLibraryPanel'
+import SavedMacroList from '@/components/SavedMacroList'
+import MonsterStatBlockEditor from '@/components/MonsterStatBlockEditor'
 import ToolInfo from '@/components/ToolInfo'
 import { HelpPopover, InfoPopover } from '@/components/FantasyPopover'
 import { QuestionTooltip, TooltipProvider } from '@/components/FantasyTooltip'
 import { FantasyCard, FantasyCardContent } from "@/components/FantasyCard"
 import { Checkbox } from "@/components/ui/checkbox"
 import { DiceRoller } from '../DiceRoller'
+import { RollableText } from '../RollableText'
 
 export default function MonsterBuilderComponent() {
   const [selectedTier, setSelectedTier] = useState<Tier>(1)
@@ -34,18 +50,79 @@ export default function MonsterBuilderComponent() {
   const [expandedFeatures, setExpandedFeatures] = useState<Set<string>>(new Set())
   const [openDropdowns, setOpenDropdowns] = useState<Set<string>>(new Set())
   const [showResetConfirmation, setShowResetConfirmation] = useState(false)
+  const [pcEvasion, setPcEvasion] = useState<number | undefined>(undefined)
+  const [damageTaken, setDamageTaken] = useState<Record<string, string>>({})
+  const [damageErrors, setDamageErrors] = useState<Record<string, string>>({})
+  const [seed, setSeed] = useState('')
+  const [lastSeed, setLastSeed] = useState<string | null>(null)
+  const [showLibrary, setShowLibrary] = useState(false)
+  const [showSavedAttacks, setShowSavedAttacks] = useState(false)
+  const [editingMonsterId, setEditingMonsterId] = useState<string | null>(null)
   
   const monsterDisplayRef = useRef<HTMLDivElement>(null)
+  const { rollMacro, setCurrentResult, macros, saveMacro } = useDice()
+  const { adversaries, saveAdversary } = useAdversaryLibrary()
+
+  // Attack against the PC's Evasion, then damage only if it hits
+  // The attack is bound to the monster's @attack, so the macro follows its stats
+  const getAttackMacro = (monster: GeneratedMonster): RollMacro => {
+    const name = `${monster.name.trim() || monster.type} ${monster.attackName ? `– ${monster.attackName}` : 'Attack'}`
+    const variables = getMonsterDiceVariables(monster)
+    const attack = variables.attack !== undefined ? '1d20+@attack' : monster.stats.attack
+    // One saved attack per monster, so saving it again updates it
+    return { ...createAttackMacro(name, attack, monster.stats.damage, pcEvasion), id: `macro_${monster.id}`, variables }
+  }
+
+  const handleAttackMacro = (monster: GeneratedMonster) => {
+    rollMacro(getAttackMacro(monster))
+  }
+
+  const handleSaveAttack = (monster: GeneratedMonster) => {
+    saveMacro(getAttackMacro(monster))
+    setShowSavedAttacks(true)
+  }
+
+  // Roll a PC's damage (or enter a total) and show the HP it marks against the monster's thresholds
+  const handleDamageTaken = (monster: GeneratedMonster) => {
+    const thresholds = parseDamageThresholds(monster.stats.threshold)
+    const expression = (damageTaken[monster.id] ?? '').trim()
+    if (!thresholds || !expression) return
+
+    const expressionError = getDiceExpressionError(expression, DEFAULT_DICE_CONFIG)
+    if (expressionError) {
+      setDamageErrors(prev => ({ ...prev, [monster.id]: expressionError }))
+      return
+    }
+
+    const name = monster.name.trim() || monster.type
+    try {
+      const result = rollDiceExpression(expression, 'normal', DEFAULT_DICE_CONFIG)
+      setCurrentResult(withDamageThresholds(result, thresholds, name), `${name} takes damage`)
+    } catch (error) {
+      console.error('Failed to roll damage:', error)
+      setDamageErrors(prev => ({ ...prev, [monster.id]: 'Could not roll that damage' }))
+    }
+  }
+
+  const handleDamageTakenChange = (monster: GeneratedMonster, value: string) => {
+    setDamageTaken(prev => ({ ...prev, [monster.id]: value }))
+    setDamageErrors(prev => ({ ...prev, [monster.id]: '' }))
+  }
 
   const handleGenerate = () => {
     setIsGenerating(true)
     try {
+      // Every build gets a seed so it can be shared and rebuilt exactly
+      const buildSeed = seed.trim() || generateSeed()
+      const random = createSeededRandom(buildSeed)
+      setLastSeed(buildSeed)
+      
       if (isBulkMode) {
-        const monsters = generateMultipleMonsters(selectedType, selectedTier, bulkCount)
+        const monsters = generateMultipleMonsters(selectedType, selectedTier, bulkCount, random)
         setGeneratedMonsters(monsters)
         setCurrentMonster(null)
       } else {
-        const monster = generateMonster(selectedType, selectedTier)
+        const monster = generateMonster(selectedType, selectedTier, random)
         setCurrentMonster(monster)
         setGeneratedMonsters([])
       }
@@ -82,6 +159,19 @@ export default function MonsterBuilderComponent() {
     }
   }
 
+  // Saving a monster that is already in the library adds a new version of it
+  const handleSaveToLibrary = (monster: GeneratedMonster) => {
+    saveAdversary(monster)
+  }
+
+  // A loaded monster replaces whatever is in the builder, so saving it again versions the library entry
+  const handleLoadFromLibrary = (monster: GeneratedMonster) => {
+    setCurrentMonster(monster)
+    setGeneratedMonsters([])
+    setExpandedFeatures(new Set())
+    setTimeout(() => monsterDisplayRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' }), 100)
+  }
+
   const handleReset = () => {
     setCurrentMonster(null)
     setGeneratedMonsters([])
@@ -124,12 +214,6 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
     setOpenDropdowns(newOpen)
   }
 
-  const getFeatureType = (featureName: string): string => {
-    if (featureName.toLowerCase().includes('passive') || featureName.includes('(X)')) return 'Passive'
-    if (featureName.toLowerCase().includes('reaction')) return 'Reaction'
-    return 'Action'
-  }
-
   const handleMonsterNameChange = (monsterId: string, newName: string) => {
     if (currentMonster && currentMonster.id === monsterId) {
       setCurrentMonster({ ...currentMonster, name: newName })
@@ -144,17 +228,37 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
     }
   }
 
+  const replaceMonster = (updated: GeneratedMonster) => {
+    if (currentMonster && currentMonster.id === updated.id) {
+      setCurrentMonster(updated)
+    } else {
+      setGeneratedMonsters(prev => prev.map(monster => monster.id === updated.id ? updated : monster))
+    }
+  }
+
+  const handleStatBlockSave = (updated: GeneratedMonster) => {
+    replaceMonster(updated)
+    setEditingMonsterId(null)
+  }
+
+  // The scaled monster keeps its id, so saving it again versions the library entry
+  const handleScaleToTier = (monster: GeneratedMonster, tier: Tier) => {
+    const scaled = scaleMonsterToTier(monster, tier)
+    if (scaled) replaceMonster(scaled)
+  }
+
+  // Swapping in another archetype writes it out for this monster's stats
   const handleFeatureChange = (monsterId: string, featureIndex: number, newFeature: MonsterFeature) => {
     if (currentMonster && currentMonster.id === monsterId) {
       const updatedFeatures = [...currentMonster.selectedFeatures]
-      updatedFeatures[featureIndex] = newFeature
+      updatedFeatures[featureIndex] = generateFeatureText(newFeature, currentMonster.stats, currentMonster.damageType)
       setCurrentMonster({ ...currentMonster, selectedFeatures: updatedFeatures })
     } else {
       setGeneratedMonsters(prev => 
         prev.map(monster => {
           if (monster.id === monsterId) {
             const updatedFeatures = [...monster.selectedFeatures]
-            updatedFeatures[featureIndex] = newFeature
+            updatedFeatures[featureIndex] = generateFeatureText(newFeature, monster.stats, monster.damageType)
             return { ...monster, selectedFeatures: updatedFeatures }
           }
           return monster
@@ -178,6 +282,11 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
 
   const renderMonsterCard = (monster: GeneratedMonster, index?: number) => {
     const availableFeatures = getAvailableFeatures(monster.type as MonsterType)
+    const thresholds = parseDamageThresholds(monster.stats.threshold)
+    const saved = adversaries.find(entry => entry.id === monster.id)
+    const isSaved = !!saved && JSON.stringify(saved.monster) === JSON.stringify(monster)
+    const isEditing = editingMonsterId === monster.id
+    const scalableTiers = getScalableTiers(monster)
     
     return (
       <div key={monster.id} className="relative fantasy-card bg-background/50 border-2 border-accent/30 p-3 sm:p-4 md:p-6 w-full max-w-[calc(100vw-2rem)] sm:max-w-md overflow-hidden">
@@ -193,6 +302,14 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
                 placeholder="Click to edit name"
               />
               <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setEditingMonsterId(isEditing ? null : monster.id)}
+                  className="text-muted-foreground hover:text-accent transition-colors text-sm whitespace-nowrap"
+                  aria-pressed={isEditing}
+                  title="Edit every stat of this monster"
+                >
+                  {isEditing ? 'Close Editor' : '✏️ Edit'}
+                </button>
                 {typeof index === 'number' && (
                   <div className="bg-accent/20 text-accent px-2 sm:px-3 py-1 rounded-full font-bold text-sm sm:text-base whitespace-nowrap">
                     #{index + 1}
@@ -201,12 +318,41 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
               </div>
             </div>
             <div className="text-accent font-semibold ml-2 text-sm sm:text-base">
-              {monster.type}, Tier {monster.tier}
+              Tier {monster.tier} {monster.type}
             </div>
+            {!isEditing && scalableTiers.length > 0 && (
+              <div className="flex flex-wrap gap-1 ml-2 mt-1">
+                {scalableTiers.map(tier => (
+                  <button
+                    key={tier}
+                    onClick={() => handleScaleToTier(monster, tier)}
+                    className="text-xs px-2 py-0.5 rounded border border-accent/30 text-muted-foreground hover:text-accent hover:border-accent transition-colors"
+                    title={`Move every stat by the Tier ${monster.tier} to Tier ${tier} baseline difference, keeping custom edits and features`}
+                  >
+                    Scale to Tier {tier}
+                  </button>
+                ))}
+              </div>
+            )}
+            {monster.description && (
+              <p className="ml-2 mt-1 text-sm italic text-muted-foreground">{monster.description}</p>
+            )}
+            {monster.motivesAndTactics && (
+              <p className="ml-2 mt-1 text-sm text-foreground">
+                <span className="font-semibold">Motives & Tactics:</span> {monster.motivesAndTactics}
+              </p>
+            )}
           </div>
         </div>
 
-        {/* Stats */}
+        {isEditing ? (
+          <MonsterStatBlockEditor
+            monster={monster}
+            onSave={handleStatBlockSave}
+            onCancel={() => setEditingMonsterId(null)}
+          />
+        ) : (
+        /* Stats */
         <div className="mb-4 sm:mb-6 space-y-2 sm:space-y-3">
           {/* Row 1: DIFFICULTY, HP, STRESS */}
           <div className="grid grid-cols-3 gap-1.5 sm:gap-2">
@@ -231,22 +377,60 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
             <div className="bg-gradient-to-br from-purple-900/20 to-purple-950/20 border border-purple-500/30 p-1.5 sm:p-2 rounded-xl text-center">
               <div className="text-[10px] sm:text-xs text-accent uppercase font-semibold tracking-wide mb-1">THRESHOLD</div>
               <div className="text-xs text-foreground">
-                {monster.stats.threshold === "N/A" ? (
+                {!thresholds ? (
                   <span className="text-sm sm:text-lg text-muted-foreground">No Threshold (Dies in one hit)</span>
                 ) : (
                   <>
                     <span className="text-foreground text-[10px] sm:text-sm font-light italic">Minor</span>
                     <span className="text-foreground text-sm sm:text-base mx-1 sm:mx-2 font-light"> | </span>
-                    <span className="text-foreground text-lg sm:text-xl font-bold">{monster.stats.threshold.split(' / ')[0]}</span>
+                    <span className="text-foreground text-lg sm:text-xl font-bold">{thresholds.major}</span>
                     <span className="text-foreground text-sm sm:text-base mx-1 sm:mx-2 font-light"> | </span>
                     <span className="text-foreground text-[10px] sm:text-sm font-light italic">Major</span>
                     <span className="text-foreground text-sm sm:text-base mx-1 sm:mx-2 font-light"> | </span>
-                    <span className="text-foreground text-lg sm:text-xl font-bold">{monster.stats.threshold.split(' / ')[1]}</span>
+                    <span className="text-foreground text-lg sm:text-xl font-bold">{thresholds.severe}</span>
                     <span className="text-foreground text-sm sm:text-base mx-1  font-light"> | </span>
                     <span className="text-foreground text-[10px] sm:text-sm font-light italic">Severe</span>
                   </>
                 )}
               </div>
+              {thresholds && (
+                <>
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      handleDamageTaken(monster)
+                    }}
+                    className="flex items-center justify-center gap-2 mt-2"
+                  >
+                    <label htmlFor={`damage-taken-${monster.id}`} className="text-[10px] sm:text-xs text-muted-foreground uppercase tracking-wide">
+                      Damage taken
+                    </label>
+                    <input
+                      id={`damage-taken-${monster.id}`}
+                      type="text"
+                      value={damageTaken[monster.id] ?? ''}
+                      onChange={(e) => handleDamageTakenChange(monster, e.target.value)}
+                      placeholder="2d8+3 or 14"
+                      aria-invalid={!!damageErrors[monster.id]}
+                      aria-describedby={damageErrors[monster.id] ? `damage-taken-${monster.id}-error` : undefined}
+                      className="w-24 bg-background border border-purple-500/30 rounded px-2 py-1 text-sm text-center font-mono text-foreground focus:outline-none focus:border-accent"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!(damageTaken[monster.id] ?? '').trim()}
+                      className="border border-purple-500/30 hover:bg-accent/10 disabled:opacity-50 text-foreground text-xs font-semibold py-1 px-2 rounded transition-colors"
+                      title="Roll the damage and show the HP it marks against these thresholds"
+                    >
+                      Mark HP
+                    </button>
+                  </form>
+                  {damageErrors[monster.id] && (
+                    <p id={`damage-taken-${monster.id}-error`} className="text-xs text-red-500 mt-1 text-center" role="alert">
+                      {damageErrors[monster.id]}
+                    </p>
+                  )}
+                </>
+              )}
             </div>
           </div>
 
@@ -254,15 +438,44 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
           <div className="grid grid-cols-3 gap-1.5 sm:gap-2">
             <div className="flex flex-col items-center justify-center bg-gradient-to-br from-purple-900/20 to-purple-950/20 border border-red-400/30 p-1.5 sm:p-2 rounded-xl text-center">
               <div className="text-[10px] sm:text-xs text-accent uppercase font-semibold tracking-wide mb-0.5">ATTACK</div>
-              <div className="font-bold text-base sm:text-lg text-foreground"><DiceRoller>{monster.stats.attack}</DiceRoller></div>
+              <div className="font-bold text-base sm:text-lg text-foreground"><DiceRoller difficulty={pcEvasion} difficultyType="evasion">{monster.stats.attack}</DiceRoller></div>
+              <div className="text-[10px] sm:text-xs text-muted-foreground">
+                {[monster.attackName, monster.range].filter(Boolean).join(' · ')}
+              </div>
             </div>
             
             <div className="flex flex-col items-center justify-center bg-gradient-to-br from-purple-900/20 to-purple-950/20 border border-red-400/30 p-1.5 sm:p-2 rounded-xl text-center col-span-2">
               <div className="text-[10px] sm:text-xs text-accent uppercase font-semibold tracking-wide mb-0.5">DAMAGE</div>
-              <div className="font-bold text-base sm:text-lg text-foreground"><DiceRoller className="text-2xl">{monster.stats.damage}</DiceRoller></div>
+              <div className="font-bold text-base sm:text-lg text-foreground">
+                <DiceRoller className="text-2xl">{monster.stats.damage}</DiceRoller>
+                <span className="ml-1 text-xs font-normal text-muted-foreground">{monster.damageType === 'physical' ? 'phy' : 'mag'}</span>
+              </div>
             </div>
+
+            <button
+              onClick={() => handleAttackMacro(monster)}
+              className="col-span-2 bg-transparent border border-red-400/30 hover:bg-accent/10 text-foreground font-semibold py-2.5 sm:py-2 px-3 rounded-xl text-sm transition-colors min-h-[44px] sm:min-h-0"
+              title={pcEvasion !== undefined ? `Attack vs Evasion ${pcEvasion}, then damage on a hit` : 'Attack, then damage (set PC Evasion to only roll damage on a hit)'}
+            >
+              ⚔️ Attack → Damage{pcEvasion !== undefined && <span className="text-muted-foreground font-normal"> vs Evasion {pcEvasion}</span>}
+            </button>
+            <button
+              onClick={() => handleSaveAttack(monster)}
+              className="bg-transparent border border-red-400/30 hover:bg-accent/10 text-foreground font-semibold py-2.5 sm:py-2 px-3 rounded-xl text-sm transition-colors min-h-[44px] sm:min-h-0"
+              title="Save this attack to roll it later from Saved Attacks"
+            >
+              {macros.some(macro => macro.id === `macro_${monster.id}`) ? '💾 Update' : '💾 Save'}
+            </button>
           </div>
+
+          {monster.experiences.length > 0 && (
+            <div className="text-sm text-foreground">
+              <span className="font-semibold">Experience:</span>{' '}
+              {monster.experiences.map(experience => `${experience.name} ${formatModifier(experience.modifier)}`).join(', ')}
+            </div>
+          )}
         </div>
+        )}
 
         {/* Features */}
         <div className="mb-4 sm:mb-6">
@@ -271,16 +484,13 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
             {monster.selectedFeatures
               .map((feature, originalIndex) => ({ feature, originalIndex }))
               .sort((a, b) => {
-                const typeA = getFeatureType(a.feature.name)
-                const typeB = getFeatureType(b.feature.name)
-                const typeOrder: { [key: string]: number } = { 'Passive': 0, 'Action': 1, 'Reaction': 2 }
-                return typeOrder[typeA] - typeOrder[typeB]
+                return FEATURE_KINDS.indexOf(a.feature.kind) - FEATURE_KINDS.indexOf(b.feature.kind)
               })
               .map(({ feature, originalIndex }) => {
               const featureKey = `${monster.id}-${originalIndex}`
               const isExpanded = expandedFeatures.has(featureKey)
               const isDropdownOpen = openDropdowns.has(featureKey)
-              const featureType = getFeatureType(feature.name)
+              const featureType = feature.kind
               
               return (
                 <div key={originalIndex} className="group bg-muted/20 rounded-md border border-accent/20 relative">
@@ -331,7 +541,7 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
                                   setOpenDropdowns(new Set())
                                 }}
                                 className={`px-3 py-2 text-sm cursor-pointer transition-colors first:rounded-t-lg last:rounded-b-lg ${
-                                  availableFeature.name === feature.name
+                                  availableFeature.name === (feature.template?.archetype ?? feature.name)
                                     ? 'bg-accent/20 text-accent font-semibold'
                                     : 'text-foreground hover:bg-accent/10'
                                 }`}
@@ -359,11 +569,14 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
                   </div>
                   
                   <div className={`transition-transform duration-300 ease-in-out overflow-hidden ${
-                    isExpanded ? 'max-h-40 opacity-100' : 'max-h-0 opacity-0'
+                    isExpanded ? 'max-h-96 opacity-100' : 'max-h-0 opacity-0'
                   }`}>
                     <div className="px-3 pb-3 border-t border-accent/10">
                       <p className="text-sm text-muted-foreground leading-relaxed mt-2">
-                        {feature.description}
+                        <RollableText
+                          text={feature.description}
+                          source={`${monster.name.trim() || monster.type} – ${feature.name}`}
+                        />
                       </p>
                     </div>
                   </div>
@@ -382,6 +595,14 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
             >
               Export
             </button>
+            <button
+              onClick={() => handleSaveToLibrary(monster)}
+              disabled={isSaved}
+              className="flex-1 bg-transparent border border-accent/50 hover:bg-accent/10 disabled:opacity-60 disabled:cursor-default text-accent font-semibold py-2.5 sm:py-2 px-3 rounded text-sm transition-colors min-h-[44px] sm:min-h-0"
+              aria-label={saved ? `Save a new version of ${monster.name || monster.type} to the library` : `Save ${monster.name || monster.type} to the library`}
+            >
+              {saved ? (isSaved ? `Saved v${saved.version}` : 'Save Version') : 'Save'}
+            </button>
           </div>
           
           <div className="flex items-center gap-2">
@@ -483,6 +704,63 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
               </div>
             </div>
 
+            {/* Attack Target */}
+            <div className="flex flex-col items-center gap-2 mb-6">
+              <label htmlFor="pc-evasion-input" className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                PC Evasion
+                <HelpPopover title="PC Evasion">
+                  Enter the Evasion of the PC being attacked. Attack rolls made from monster cards will show whether they hit or miss.
+                </HelpPopover>
+              </label>
+              <input
+                id="pc-evasion-input"
+                type="number"
+                min={1}
+                max={30}
+                value={pcEvasion ?? ''}
+                onChange={(e) => setPcEvasion(e.target.value === '' ? undefined : Number(e.target.value))}
+                placeholder="—"
+                className="w-24 bg-background border border-accent/30 rounded px-3 py-2 text-center text-foreground focus:border-accent focus:outline-none"
+                aria-describedby="pc-evasion-help"
+              />
+              <div id="pc-evasion-help" className="sr-only">
+                Optional. Attack rolls are compared against this Evasion to show hits and misses.
+              </div>
+            </div>
+
+            {/* Seed */}
+            <div className="flex flex-col items-center gap-2 mb-6">
+              <label htmlFor="monster-seed-input" className="flex items-center gap-2 text-sm font-semibold text-foreground">
+                Seed
+                <HelpPopover title="Seed">
+                  Leave empty for a fresh build. Enter a seed shared from an earlier build (with the same type, tier and count) to rebuild exactly the same monsters.
+                </HelpPopover>
+              </label>
+              <input
+                id="monster-seed-input"
+                type="text"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                disabled={isGenerating}
+                placeholder="Random"
+                className="w-40 bg-background border border-accent/30 rounded px-3 py-2 text-center font-mono text-foreground focus:border-accent focus:outline-none disabled:opacity-50"
+                aria-describedby="monster-seed-help"
+              />
+              {lastSeed && (
+                <p className="text-xs text-muted-foreground">
+                  Last build seed: <button
+                    type="button"
+                    onClick={() => setSeed(lastSeed)}
+                    className="font-mono text-accent hover:underline focus:outline-none focus:ring-2 focus:ring-accent rounded"
+                    title="Use this seed"
+                  >{lastSeed}</button>
+                </p>
+              )}
+              <div id="monster-seed-help" className="sr-only">
+                Optional. The same seed, type, tier and count always generate the same monsters.
+              </div>
+            </div>
+
             {/* Bulk Generation Controls */}
             <div className="flex flex-col items-center gap-3 sm:gap-4 mb-6" role="group" aria-labelledby="bulk-generation-heading">
               <h3 id="bulk-generation-heading" className="sr-only">Bulk Generation Options</h3>
@@ -563,6 +841,46 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
             </div>
           </div>
 
+          {/* Saved Attacks - attack macros saved from monster cards */}
+          <div className="bg-muted/20 rounded-lg mb-2" role="region" aria-labelledby="saved-attacks-heading">
+            <button
+              onClick={() => setShowSavedAttacks(!showSavedAttacks)}
+              className="w-full flex items-center justify-between px-6 py-3 text-left"
+              aria-expanded={showSavedAttacks}
+              aria-controls="saved-attacks-panel"
+            >
+              <h2 id="saved-attacks-heading" className="text-md font-semibold text-foreground">
+                Saved Attacks ({macros.length})
+              </h2>
+              {showSavedAttacks ? <ChevronDown className="h-4 w-4 text-accent" /> : <ChevronRight className="h-4 w-4 text-accent" />}
+            </button>
+            {showSavedAttacks && (
+              <div id="saved-attacks-panel" className="px-6 pb-6">
+                <SavedMacroList emptyMessage="No saved attacks yet. Save a monster's attack from its card to roll it here later." />
+              </div>
+            )}
+          </div>
+
+          {/* Adversary Library */}
+          <div className="bg-muted/20 rounded-lg mb-2" role="region" aria-labelledby="adversary-library-heading">
+            <button
+              onClick={() => setShowLibrary(!showLibrary)}
+              className="w-full flex items-center justify-between px-6 py-3 text-left"
+              aria-expanded={showLibrary}
+              aria-controls="adversary-library-panel"
+            >
+              <h2 id="adversary-library-heading" className="text-md font-semibold text-foreground">
+                Adversary Library ({adversaries.length})
+              </h2>
+              {showLibrary ? <ChevronDown className="h-4 w-4 text-accent" /> : <ChevronRight className="h-4 w-4 text-accent" />}
+            </button>
+            {showLibrary && (
+              <div id="adversary-library-panel" className="px-6 pb-6">
+                <AdversaryLibraryPanel onLoad={handleLoadFromLibrary} />
+              </div>
+            )}
+          </div>
+
           {/* Reset Confirmation Dialog */}
           {showResetConfirmation && (
             <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -668,6 +986,10 @@ HP: ${monster.stats.hitpoints} | Stress: ${monster.stats.stress}`
                 <h4>Type-Specific Features</h4>
                 <p>Each monster type gets features that match its role (Bruiser, Skulk, Support, etc.) plus general features</p>
               </div>
+              <div className="feature-card">
+                <h4>Ready-to-Run Feature Text</h4>
+                <p>Features are written out for the monster&apos;s tier and stats, with ranges, Fear costs and rollable damage like 2d8+3</p>
+              </div>
               <div className="feature-card">
                 <h4>Customizable Features</h4>
                 <p>Edit any feature after generation using dropdown menus with all available options</p>
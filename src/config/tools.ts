@@ -75,7 +75,8 @@ export const TOOLS_REGISTRY: Record<string, Tool> = {
     features: [
       'Generate monsters by tier (1-4) and type (Standard, Bruiser, Horde, etc.)',
       'Randomized features based on monster type and general abilities',
-      'Editable monster names and feature selection',
+      'Editable monster names, features and every stat-block field, compared against the tier baseline',
+      'Scale any monster to another tier, keeping its custom edits and features',
       'Export individual monsters as formatted text files',
       'Bulk generate 2-5 monsters at once',
       'Export multiple monsters to a single file'
@@ -88,14 +89,15 @@ export const TOOLS_REGISTRY: Record<string, Tool> = {
     description: 'Roll any combination of dice with modifiers for all your Daggerheart mechanics.',
     icon: '🎯',
     category: TOOL_CATEGORIES.UTILITIES,
-    status: 'coming-soon',
+    status: 'active',
     features: [
       'Standard dice rolling (d4, d6, d8, d10, d12, d20)',
       'Multiple dice rolls with modifiers',
       'Advantage/disadvantage system support',
       'Roll history and saved combinations',
       'Quick access to common Daggerheart rolls'
-    ]
+    ],
+    component: 'DiceRollerToolComponent'
   }
 }
 
@@ -1,27 +1,49 @@
 /**
  * DiceContext - Global state management for dice rolling across the application
- * Provides shared dice result card and persistent roll history
+ * Provides shared dice result card, persistent roll history, saved roll macros, the saved roll library
+ * and table sessions that share rolls with other devices
  */
 
 'use client';
 
 import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
-import { DiceRollResult, RollAction, RollHistoryEntry } from '@/types/dice';
+import { useDiceRollHistory } from '@/hooks/useDiceRollHistory';
+import { getRollVisibility, isSameRoll, rollHistoryStore } from '@/lib/roll-history';
+import {
+  DiceRollResult,
+  RollAction,
+  RollHistoryEntry,
+  RollLibraryImportResult,
+  RollMacro,
+  SavedRoll
+} from '@/types/dice';
+import { TableSessionSettings, TableSessionState } from '@/types/table-session';
+import type { TableSession } from '@/lib/table-session';
 
 interface DiceContextState {
   /** Current dice roll result being displayed */
   currentResult: DiceRollResult | null;
   /** Whether the dice card is currently expanded */
   isExpanded: boolean;
-  /** Global roll history across all dice expressions */
-  rollHistory: RollHistoryEntry[];
   /** Whether a roll is currently in progress */
   isRolling: boolean;
+  /** Saved roll macros */
+  macros: RollMacro[];
+  /** Saved roll library of named expressions */
+  savedRolls: SavedRoll[];
+  /** Whether new rolls are hidden from players until revealed */
+  rollSecretly: boolean;
+  /** Whether the dice card shows the animated dice tray */
+  showDiceTray: boolean;
+  /** Table session sharing rolls with other devices */
+  tableSession: TableSessionState;
 }
 
 interface DiceContextValue extends DiceContextState {
-  /** Set the current dice result and show the card */
-  setCurrentResult: (result: DiceRollResult) => void;
+  /** Global roll history across all dice expressions, shared with every history view */
+  rollHistory: RollHistoryEntry[];
+  /** Set the current dice result and show the card, labelling its history entry with an optional context */
+  setCurrentResult: (result: DiceRollResult, context?: string) => void;
   /** Handle roll actions (advantage, disadvantage, critical, etc.) */
   handleRollAction: (action: RollAction, expression: string) => void;
   /** Remove an entry from roll history */
@@ -32,52 +54,158 @@ interface DiceContextValue extends DiceContextState {
   setIsRolling: (rolling: boolean) => void;
   /** Set expanded state */
   setIsExpanded: (expanded: boolean) => void;
+  /** Hide new rolls from players (e.g., a GM rolling adversary reactions) */
+  setRollSecretly: (rollSecretly: boolean) => void;
+  /** Show or hide the animated dice tray on the dice card (remembered between visits) */
+  setShowDiceTray: (showDiceTray: boolean) => void;
+  /** Reveal a hidden roll to players, sharing it with the table session */
+  revealRoll: (id: string) => void;
+  /** Roll every step of a macro and show the grouped result */
+  rollMacro: (macro: RollMacro) => void;
+  /** Save a macro, replacing any saved macro with the same ID */
+  saveMacro: (macro: RollMacro) => void;
+  /** Remove a saved macro */
+  removeMacro: (id: string) => void;
+  /** Roll a saved roll against its target and show the result */
+  rollSavedRoll: (savedRoll: SavedRoll) => void;
+  /** Save a roll to the library, replacing any saved roll with the same ID */
+  saveRoll: (savedRoll: SavedRoll) => void;
+  /** Remove a roll from the library */
+  removeSavedRoll: (id: string) => void;
+  /** Merge an exported library file into the library */
+  importSavedRolls: (json: string) => Promise<RollLibraryImportResult>;
+  /** Join a table session on a dice relay, leaving any current one */
+  joinTableSession: (settings: TableSessionSettings) => void;
+  /** Leave the current table session */
+  leaveTableSession: () => void;
 }
 
 const DiceContext = createContext<DiceContextValue | null>(null);
 
-// localStorage key for persisting roll history
-const HISTORY_STORAGE_KEY = 'daggerheart-dice-history';
-const MAX_HISTORY_ENTRIES = 20; // Store more in localStorage, but only show 5 in UI
+// localStorage key for persisting saved roll macros
+const MACROS_STORAGE_KEY = 'daggerheart-dice-macros';
+// localStorage key for persisting the saved roll library
+const LIBRARY_STORAGE_KEY = 'daggerheart-dice-library';
+// localStorage key for the dice tray preference
+const DICE_TRAY_STORAGE_KEY = 'daggerheart-dice-tray';
+// localStorage key for the tokens the dice relay issued, by relay address and room
+const TABLE_TOKENS_STORAGE_KEY = 'daggerheart-table-tokens';
+
+const INITIAL_TABLE_SESSION: TableSessionState = {
+  status: 'disconnected',
+  settings: null,
+  members: [],
+  error: null,
+};
+
+/**
+ * Load the tokens the dice relay issued from localStorage
+ */
+function loadTableTokensFromStorage(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(TABLE_TOKENS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.warn('Failed to load table tokens from localStorage:', error);
+    return {};
+  }
+}
+
+/**
+ * Remember the token the dice relay issued for a room, so hidden rolls stay ours after a reload
+ */
+function saveTableTokenToStorage(key: string, token: string) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(TABLE_TOKENS_STORAGE_KEY, JSON.stringify({ ...loadTableTokensFromStorage(), [key]: token }));
+  } catch (error) {
+    console.warn('Failed to save table token to localStorage:', error);
+  }
+}
 
 /**
- * Load roll history from localStorage
+ * Load saved roll macros from localStorage
  */
-function loadHistoryFromStorage(): RollHistoryEntry[] {
+function loadMacrosFromStorage(): RollMacro[] {
   if (typeof window === 'undefined') return [];
   
   try {
-    const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
-    if (!stored) return [];
-    
-    const parsed = JSON.parse(stored);
-    
-    // Convert timestamp strings back to Date objects
-    return parsed.map((entry: any) => ({
-      ...entry,
-      result: {
-        ...entry.result,
-        timestamp: new Date(entry.result.timestamp)
-      }
-    }));
+    const stored = localStorage.getItem(MACROS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
   } catch (error) {
-    console.warn('Failed to load dice history from localStorage:', error);
+    console.warn('Failed to load roll macros from localStorage:', error);
     return [];
   }
 }
 
 /**
- * Save roll history to localStorage
+ * Save roll macros to localStorage
  */
-function saveHistoryToStorage(history: RollHistoryEntry[]) {
+function saveMacrosToStorage(macros: RollMacro[]) {
   if (typeof window === 'undefined') return;
   
   try {
-    // Only store the most recent entries to avoid localStorage bloat
-    const toStore = history.slice(0, MAX_HISTORY_ENTRIES);
-    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(toStore));
+    localStorage.setItem(MACROS_STORAGE_KEY, JSON.stringify(macros));
+  } catch (error) {
+    console.warn('Failed to save roll macros to localStorage:', error);
+  }
+}
+
+/**
+ * Load the saved roll library from localStorage
+ */
+function loadLibraryFromStorage(): SavedRoll[] {
+  if (typeof window === 'undefined') return [];
+  
+  try {
+    const stored = localStorage.getItem(LIBRARY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
   } catch (error) {
-    console.warn('Failed to save dice history to localStorage:', error);
+    console.warn('Failed to load roll library from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * Save the roll library to localStorage
+ */
+function saveLibraryToStorage(savedRolls: SavedRoll[]) {
+  if (typeof window === 'undefined') return;
+  
+  try {
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(savedRolls));
+  } catch (error) {
+    console.warn('Failed to save roll library to localStorage:', error);
+  }
+}
+
+/**
+ * Load the dice tray preference from localStorage
+ */
+function loadDiceTrayFromStorage(): boolean {
+  if (typeof window === 'undefined') return false;
+
+  try {
+    return localStorage.getItem(DICE_TRAY_STORAGE_KEY) === 'true';
+  } catch (error) {
+    console.warn('Failed to load dice tray preference from localStorage:', error);
+    return false;
+  }
+}
+
+/**
+ * Save the dice tray preference to localStorage
+ */
+function saveDiceTrayToStorage(showDiceTray: boolean) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(DICE_TRAY_STORAGE_KEY, String(showDiceTray));
+  } catch (error) {
+    console.warn('Failed to save dice tray preference to localStorage:', error);
   }
 }
 
@@ -85,95 +213,138 @@ export function DiceProvider({ children }: { children: React.ReactNode }) {
   const [state, setState] = useState<DiceContextState>({
     currentResult: null,
     isExpanded: false,
-    rollHistory: [],
     isRolling: false,
+    macros: [],
+    savedRolls: [],
+    rollSecretly: false,
+    showDiceTray: false,
+    tableSession: INITIAL_TABLE_SESSION,
   });
 
-  // Load history from localStorage on mount
+  // Skip saving the initial empty list, so it doesn't overwrite macros that haven't loaded yet
+  const macrosLoadedRef = useRef(false);
+  const libraryLoadedRef = useRef(false);
+
+  // Read when rolling, so setCurrentResult stays stable
+  const rollSecretlyRef = useRef(false);
+
+  // The open table session
+  const tableSessionRef = useRef<TableSession | null>(null);
+  // Bumped on every join and leave, so callbacks from a replaced session are ignored
+  const tableSessionIdRef = useRef(0);
+
+  // Roll history lives in the shared history service
+  const { history: rollHistory, removeRoll: removeFromHistory, clearHistory } = useDiceRollHistory();
+
+  // Load macros, the roll library and the dice tray preference from localStorage on mount
   useEffect(() => {
-    const savedHistory = loadHistoryFromStorage();
+    const savedMacros = loadMacrosFromStorage();
+    const savedRolls = loadLibraryFromStorage();
+    const showDiceTray = loadDiceTrayFromStorage();
     setState(prev => ({
       ...prev,
-      rollHistory: savedHistory
+      macros: savedMacros,
+      savedRolls,
+      showDiceTray
     }));
   }, []);
 
-  // Save history to localStorage whenever it changes
+  // Save macros to localStorage whenever they change (including removing the last one)
   useEffect(() => {
-    if (state.rollHistory.length > 0) {
-      saveHistoryToStorage(state.rollHistory);
+    if (!macrosLoadedRef.current) {
+      macrosLoadedRef.current = true;
+      return;
     }
-  }, [state.rollHistory]);
+    saveMacrosToStorage(state.macros);
+  }, [state.macros]);
 
-  const setCurrentResult = useCallback((result: DiceRollResult) => {
-    // Create unique ID for this result
-    const resultId = `${result.timestamp.getTime()}-${result.total}-${result.expression.originalExpression}`;
-    
-    setState(prev => {
-      // Check if this result is already in history
-      const isAlreadyInHistory = prev.rollHistory.some(entry => {
-        const entryId = `${entry.result.timestamp.getTime()}-${entry.result.total}-${entry.result.expression.originalExpression}`;
-        return entryId === resultId;
-      });
+  // Save the roll library to localStorage whenever it changes
+  useEffect(() => {
+    if (!libraryLoadedRef.current) {
+      libraryLoadedRef.current = true;
+      return;
+    }
+    saveLibraryToStorage(state.savedRolls);
+  }, [state.savedRolls]);
 
-      const newHistory = isAlreadyInHistory 
-        ? prev.rollHistory 
-        : [
-            { id: resultId, result },
-            ...prev.rollHistory.slice(0, MAX_HISTORY_ENTRIES - 1)
-          ];
+  const setCurrentResult = useCallback((result: DiceRollResult, context?: string) => {
+    // Showing a roll from history again shouldn't add it twice
+    const isAlreadyInHistory = rollHistoryStore.getEntries().some(entry => isSameRoll(entry.result, result));
+    if (!isAlreadyInHistory) {
+      const entry = rollHistoryStore.addRoll(result, context, rollSecretlyRef.current ? 'hidden' : 'public');
+      tableSessionRef.current?.sendRoll(entry);
+    }
 
-      return {
-        ...prev,
-        currentResult: result,
-        isExpanded: true,
-        rollHistory: newHistory,
-        isRolling: false,
-      };
-    });
+    setState(prev => ({
+      ...prev,
+      currentResult: result,
+      isExpanded: true,
+      isRolling: false,
+    }));
   }, []);
 
   const handleRollAction = useCallback(async (action: RollAction, expression: string) => {
     if (!state.currentResult) return;
 
+    // Re-rolls and roll type changes keep the context label of the roll they replace
+    const currentResult = state.currentResult;
+    const currentContext = rollHistoryStore.getEntries().find(entry => isSameRoll(entry.result, currentResult))?.context;
+
     try {
       setState(prev => ({ ...prev, isRolling: true }));
 
       switch (action) {
         case 'roll-again':
-          // Roll new dice
-          const { rollDiceExpression } = await import('@/lib/dice-utils');
-          const newResult = rollDiceExpression(expression);
-          setCurrentResult(newResult);
-          break;
-          
-        case 'roll-reset':
-          // Reset to original roll (no roll type modifications)
-          const { rollDiceExpression: rollReset } = await import('@/lib/dice-utils');
-          const resetResult = rollReset(expression);
-          setCurrentResult(resetResult);
+        case 'roll-reset': {
+          // Roll new dice (reset drops any roll type modifications)
+          const { rollDiceExpression, rollDualityDice, isDualityRollResult, DEFAULT_DICE_CONFIG } = await import('@/lib/dice-utils');
+          const { executeRollMacro, getRollMacro, isRollMacroResult } = await import('@/lib/roll-macros');
+          const { isDamageRollResult, withDamageThresholds } = await import('@/lib/damage-thresholds');
+          const current = state.currentResult;
+          const isSameExpression = current.expression.originalExpression === expression;
+          // Keep the Difficulty/Evasion when re-rolling the current expression
+          const target = isSameExpression ? current.evaluation?.target : undefined;
+          // Keep Hope/Fear semantics when re-rolling the current action roll, and every step of a macro
+          const newResult = isDualityRollResult(current) && isSameExpression
+            ? rollDualityDice({ modifier: current.duality.traitModifier, difficulty: target?.value })
+            : isRollMacroResult(current) && isSameExpression
+            ? executeRollMacro(getRollMacro(current))
+            : rollDiceExpression(expression, 'normal', DEFAULT_DICE_CONFIG, target);
+          // Damage against a monster's thresholds stays resolved against them
+          const resolvedResult = isDamageRollResult(current) && isSameExpression
+            ? withDamageThresholds(newResult, current.damage.thresholds, current.damage.target)
+            : newResult;
+          setCurrentResult(resolvedResult, isSameExpression ? currentContext : undefined);
           break;
+        }
           
         case 'roll-advantage':
         case 'roll-disadvantage':
         case 'roll-critical':
           // Apply roll type to existing result
           const { applyRollTypeToExistingResult } = await import('@/lib/dice-utils');
+          const { applyRollTypeToMacroResult, isRollMacroResult: isMacroResult } = await import('@/lib/roll-macros');
           const rollType = action.replace('roll-', '') as 'advantage' | 'disadvantage' | 'critical';
-          const modifiedResult = applyRollTypeToExistingResult(state.currentResult, rollType);
-          setCurrentResult(modifiedResult);
+          // For macros the roll type applies to the first step, and later steps follow its new outcome
+          const modifiedResult = isMacroResult(state.currentResult)
+            ? applyRollTypeToMacroResult(state.currentResult, rollType)
+            : applyRollTypeToExistingResult(state.currentResult, rollType);
+          setCurrentResult(modifiedResult, currentContext);
           break;
           
         case 'edit-expression':
-          // Roll with new expression
-          const { rollDiceExpression: rollNewExpression } = await import('@/lib/dice-utils');
-          const editResult = rollNewExpression(expression);
+          // Roll with new expression against the same Difficulty/Evasion
+          const { rollDiceExpression: rollNewExpression, DEFAULT_DICE_CONFIG: editConfig } = await import('@/lib/dice-utils');
+          const editResult = rollNewExpression(expression, 'normal', editConfig, state.currentResult.evaluation?.target);
           setCurrentResult(editResult);
           break;
           
         case 'copy-result':
           // Copy result to clipboard
-          const resultText = `${state.currentResult.expression.originalExpression}: ${state.currentResult.total}`;
+          const { formatRollMacroSummary, isRollMacroResult: isCopiedMacro } = await import('@/lib/roll-macros');
+          const resultText = isCopiedMacro(state.currentResult)
+            ? formatRollMacroSummary(state.currentResult)
+            : `${state.currentResult.expression.originalExpression}: ${state.currentResult.total}`;
           try {
             await navigator.clipboard.writeText(resultText);
           } catch (error) {
@@ -188,40 +359,203 @@ export function DiceProvider({ children }: { children: React.ReactNode }) {
     }
   }, [state.currentResult, setCurrentResult]);
 
-  const removeFromHistory = useCallback((id: string) => {
+  const setIsRolling = useCallback((rolling: boolean) => {
+    setState(prev => ({ ...prev, isRolling: rolling }));
+  }, []);
+
+  const setIsExpanded = useCallback((expanded: boolean) => {
+    setState(prev => ({ ...prev, isExpanded: expanded }));
+  }, []);
+
+  const setRollSecretly = useCallback((rollSecretly: boolean) => {
+    rollSecretlyRef.current = rollSecretly;
+    setState(prev => ({ ...prev, rollSecretly }));
+  }, []);
+
+  const setShowDiceTray = useCallback((showDiceTray: boolean) => {
+    saveDiceTrayToStorage(showDiceTray);
+    setState(prev => ({ ...prev, showDiceTray }));
+  }, []);
+
+  const revealRoll = useCallback((id: string) => {
+    const entry = rollHistoryStore.getRoll(id);
+    if (!entry || getRollVisibility(entry) !== 'hidden') return;
+
+    const revealed = rollHistoryStore.setVisibility(id, 'revealed');
+    if (revealed) {
+      tableSessionRef.current?.sendRoll(revealed);
+    }
+  }, []);
+
+  const rollMacro = useCallback(async (macro: RollMacro) => {
+    setState(prev => ({ ...prev, isRolling: true }));
+
+    try {
+      const { executeRollMacro } = await import('@/lib/roll-macros');
+      setCurrentResult(executeRollMacro(macro), macro.name);
+    } catch (error) {
+      console.error('Failed to roll macro:', error);
+      setState(prev => ({ ...prev, isRolling: false }));
+    }
+  }, [setCurrentResult]);
+
+  const saveMacro = useCallback((macro: RollMacro) => {
+    setState(prev => {
+      const exists = prev.macros.some(saved => saved.id === macro.id);
+      return {
+        ...prev,
+        macros: exists
+          ? prev.macros.map(saved => saved.id === macro.id ? macro : saved)
+          : [...prev.macros, macro]
+      };
+    });
+  }, []);
+
+  const removeMacro = useCallback((id: string) => {
     setState(prev => ({
       ...prev,
-      rollHistory: prev.rollHistory.filter(entry => entry.id !== id)
+      macros: prev.macros.filter(macro => macro.id !== id)
     }));
   }, []);
 
-  const clearHistory = useCallback(() => {
+  const rollSavedRoll = useCallback(async (savedRoll: SavedRoll) => {
+    setState(prev => ({ ...prev, isRolling: true }));
+
+    try {
+      const { rollSavedRoll: roll } = await import('@/lib/roll-library');
+      setCurrentResult(roll(savedRoll), savedRoll.name);
+    } catch (error) {
+      console.error('Failed to roll saved roll:', error);
+      setState(prev => ({ ...prev, isRolling: false }));
+    }
+  }, [setCurrentResult]);
+
+  const saveRoll = useCallback((savedRoll: SavedRoll) => {
+    setState(prev => {
+      const exists = prev.savedRolls.some(saved => saved.id === savedRoll.id);
+      return {
+        ...prev,
+        savedRolls: exists
+          ? prev.savedRolls.map(saved => saved.id === savedRoll.id ? savedRoll : saved)
+          : [...prev.savedRolls, savedRoll]
+      };
+    });
+  }, []);
+
+  const removeSavedRoll = useCallback((id: string) => {
     setState(prev => ({
       ...prev,
-      rollHistory: []
+      savedRolls: prev.savedRolls.filter(savedRoll => savedRoll.id !== id)
     }));
-    // Also clear from localStorage
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem(HISTORY_STORAGE_KEY);
+  }, []);
+
+  const importSavedRolls = useCallback(async (json: string) => {
+    const { importRollLibrary, mergeSavedRolls } = await import('@/lib/roll-library');
+    const imported = importRollLibrary(json);
+
+    if (imported.rolls.length > 0) {
+      setState(prev => ({
+        ...prev,
+        savedRolls: mergeSavedRolls(prev.savedRolls, imported.rolls)
+      }));
     }
+
+    return imported;
   }, []);
 
-  const setIsRolling = useCallback((rolling: boolean) => {
-    setState(prev => ({ ...prev, isRolling: rolling }));
+  const updateTableSession = useCallback((update: Partial<TableSessionState>) => {
+    setState(prev => ({ ...prev, tableSession: { ...prev.tableSession, ...update } }));
   }, []);
 
-  const setIsExpanded = useCallback((expanded: boolean) => {
-    setState(prev => ({ ...prev, isExpanded: expanded }));
+  const leaveTableSession = useCallback(() => {
+    tableSessionIdRef.current++;
+    tableSessionRef.current?.close();
+    tableSessionRef.current = null;
+    setState(prev => ({ ...prev, tableSession: INITIAL_TABLE_SESSION }));
+  }, []);
+
+  const joinTableSession = useCallback(async (settings: TableSessionSettings) => {
+    const sessionId = ++tableSessionIdRef.current;
+    const isCurrent = () => tableSessionIdRef.current === sessionId;
+    tableSessionRef.current?.close();
+    tableSessionRef.current = null;
+    setState(prev => ({
+      ...prev,
+      tableSession: { ...INITIAL_TABLE_SESSION, status: 'connecting', settings }
+    }));
+
+    try {
+      const { createTableSession, normalizeRoomCode } = await import('@/lib/table-session');
+      if (!isCurrent()) return;
+
+      const tokenKey = `${settings.url} ${normalizeRoomCode(settings.room)}`;
+      tableSessionRef.current = createTableSession({
+        ...settings,
+        token: loadTableTokensFromStorage()[tokenKey],
+        onToken: token => saveTableTokenToStorage(tokenKey, token),
+        onRoll: ({ entry, from }, live) => {
+          if (!isCurrent()) return;
+          // Our own rolls come back from the relay too, and are already in history
+          const isNew = rollHistoryStore.addEntry({ ...entry, roller: from.name });
+          if (!isNew) {
+            // A roll already seen while hidden has been revealed
+            if (getRollVisibility(entry) === 'revealed') {
+              rollHistoryStore.setVisibility(entry.id, 'revealed');
+            }
+            return;
+          }
+          if (live) {
+            setState(prev => ({
+              ...prev,
+              currentResult: entry.result,
+              isExpanded: true,
+              isRolling: false,
+            }));
+          }
+        },
+        onStatusChange: status => {
+          if (isCurrent()) updateTableSession({ status, ...(status === 'connected' && { error: null }) });
+        },
+        onMembersChange: members => {
+          if (isCurrent()) updateTableSession({ members });
+        },
+        onError: error => {
+          if (isCurrent()) updateTableSession({ error });
+        },
+      });
+    } catch (error) {
+      console.error('Failed to join table session:', error);
+      updateTableSession({ status: 'disconnected', error: 'Could not connect to the dice relay' });
+    }
+  }, [updateTableSession]);
+
+  // Leave the table session when the provider unmounts
+  useEffect(() => () => {
+    tableSessionIdRef.current++;
+    tableSessionRef.current?.close();
   }, []);
 
   const contextValue: DiceContextValue = {
     ...state,
+    rollHistory,
     setCurrentResult,
     handleRollAction,
     removeFromHistory,
     clearHistory,
     setIsRolling,
     setIsExpanded,
+    setRollSecretly,
+    setShowDiceTray,
+    revealRoll,
+    rollMacro,
+    saveMacro,
+    removeMacro,
+    rollSavedRoll,
+    saveRoll,
+    removeSavedRoll,
+    importSavedRolls,
+    joinTableSession,
+    leaveTableSession,
   };
 
   return (
@@ -0,0 +1,33 @@
+/**
+ * Custom hook for the saved adversary library
+ * Every component using the hook sees the same entries, backed by the adversary library store
+ */
+
+import { useSyncExternalStore } from 'react';
+import { AdversaryLibraryStore, SavedAdversary, adversaryLibraryStore } from '@/lib/adversary-library';
+
+// The server has no library; the client reads it from IndexedDB after hydration
+const EMPTY_LIBRARY: SavedAdversary[] = [];
+const getServerSnapshot = () => EMPTY_LIBRARY;
+
+/**
+ * Custom hook for saving, versioning and loading adversaries
+ *
+ * @param store - Library store to use (default: the application-wide library)
+ * @returns The saved adversaries and the store's actions
+ */
+export const useAdversaryLibrary = (store: AdversaryLibraryStore = adversaryLibraryStore) => {
+  const adversaries = useSyncExternalStore(store.subscribe, store.getEntries, getServerSnapshot);
+
+  return {
+    adversaries,
+    saveAdversary: store.save,
+    updateAdversaryDetails: store.updateDetails,
+    duplicateAdversary: store.duplicate,
+    restoreAdversaryVersion: store.restoreVersion,
+    removeAdversary: store.remove,
+    importAdversaries: store.importLibrary
+  };
+};
+
+export type UseAdversaryLibraryReturn = ReturnType<typeof useAdversaryLibrary>;
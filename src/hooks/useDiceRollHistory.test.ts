@@ -1,14 +1,17 @@
 /**
  * Unit tests for useDiceRollHistory hook
- * Tests sessionStorage integration, roll management, and error handling
+ * Tests storage integration, migration, roll management, and error handling
  */
 
 import { renderHook, act } from '@testing-library/react';
 import { useDiceRollHistory } from './useDiceRollHistory';
+import { createRollHistoryStore, RollHistoryStore } from '@/lib/roll-history';
 import { DiceRollResult } from '@/types/dice';
 
-// Mock sessionStorage
-const mockSessionStorage = (() => {
+const STORAGE_KEY = 'daggerheart-dice-history';
+
+// Mock localStorage
+const mockLocalStorage = (() => {
   let store: Record<string, string> = {};
   
   return {
@@ -29,9 +32,9 @@ const mockSessionStorage = (() => {
   };
 })();
 
-// Replace global sessionStorage
-Object.defineProperty(window, 'sessionStorage', {
-  value: mockSessionStorage,
+// Replace global localStorage
+Object.defineProperty(window, 'localStorage', {
+  value: mockLocalStorage,
   writable: true
 });
 
@@ -80,23 +83,27 @@ const createMockResult = (overrides?: Partial<DiceRollResult>): DiceRollResult =
 });
 
 describe('useDiceRollHistory Hook', () => {
+  // A fresh store per test, so each one loads from the mocked storage
+  let store: RollHistoryStore;
+
   beforeEach(() => {
-    // Clear sessionStorage before each test
-    mockSessionStorage.clear();
+    // Clear localStorage before each test
+    mockLocalStorage.clear();
     jest.clearAllMocks();
+    store = createRollHistoryStore();
   });
 
   describe('Initial State', () => {
     test('initializes with empty history when no stored data', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       expect(result.current.history).toEqual([]);
       expect(result.current.isHistoryFull).toBe(false);
     });
 
-    test('loads existing history from sessionStorage on initialization', () => {
+    test('loads existing history from localStorage on initialization', () => {
       const mockData = {
-        version: '1.0',
+        version: 2,
         entries: [
           {
             id: 'test-1',
@@ -107,19 +114,19 @@ describe('useDiceRollHistory Hook', () => {
         lastUpdated: new Date().toISOString()
       };
       
-      mockSessionStorage.setItem('daggerheart-dice-roll-history', JSON.stringify(mockData));
+      mockLocalStorage.setItem(STORAGE_KEY, JSON.stringify(mockData));
       
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       expect(result.current.history).toHaveLength(1);
       expect(result.current.history[0].id).toBe('test-1');
       expect(result.current.history[0].context).toBe('Test roll');
     });
 
-    test('handles corrupted sessionStorage data gracefully', () => {
-      mockSessionStorage.setItem('daggerheart-dice-roll-history', 'invalid-json');
+    test('handles corrupted localStorage data gracefully', () => {
+      mockLocalStorage.setItem(STORAGE_KEY, 'invalid-json');
       
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       expect(result.current.history).toEqual([]);
       expect(console.error).toHaveBeenCalledWith(
@@ -128,33 +135,69 @@ describe('useDiceRollHistory Hook', () => {
       );
     });
 
-    test('handles version mismatch by resetting history', () => {
+    test('migrates version 1.0 history instead of resetting it', () => {
       const mockData = {
-        version: '0.9', // Old version
-        entries: [{ id: 'test-1', result: createMockResult() }],
+        version: '1.0', // Old version
+        entries: [{ id: 'roll_1_abc', result: createMockResult(), context: 'Old roll' }],
         lastUpdated: new Date().toISOString()
       };
       
-      mockSessionStorage.setItem('daggerheart-dice-roll-history', JSON.stringify(mockData));
+      mockLocalStorage.setItem(STORAGE_KEY, JSON.stringify(mockData));
       
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
-      expect(result.current.history).toEqual([]);
+      expect(result.current.history).toHaveLength(1);
+      expect(result.current.history[0].id).toBe('roll_1_abc');
+      expect(result.current.history[0].context).toBe('Old roll');
       expect(console.info).toHaveBeenCalledWith(
-        'Dice roll history version mismatch (0.9 vs 1.0), resetting...'
+        'Migrated dice roll history from version 1 to 3'
+      );
+    });
+
+    test('migrates the unversioned array format with stable IDs', () => {
+      const legacyId = '1672574400000-13-2d6+3';
+      const legacyEntries = [
+        { id: legacyId, result: createMockResult() },
+        { id: legacyId, result: createMockResult() }
+      ];
+      
+      mockLocalStorage.setItem(STORAGE_KEY, JSON.stringify(legacyEntries));
+      
+      const { result } = renderHook(() => useDiceRollHistory(store));
+      const ids = result.current.history.map(entry => entry.id);
+      
+      expect(ids).toHaveLength(2);
+      expect(ids.every(id => /^roll_\d+_[a-z0-9]+$/.test(id))).toBe(true);
+      expect(new Set(ids).size).toBe(2);
+    });
+
+    test('ignores history written by a newer version', () => {
+      const mockData = {
+        version: 99,
+        entries: [{ id: 'roll_1_abc', result: createMockResult() }],
+        lastUpdated: new Date().toISOString()
+      };
+      
+      mockLocalStorage.setItem(STORAGE_KEY, JSON.stringify(mockData));
+      
+      const { result } = renderHook(() => useDiceRollHistory(store));
+      
+      expect(result.current.history).toEqual([]);
+      expect(console.warn).toHaveBeenCalledWith(
+        'Dice roll history version 99 is newer than supported (3), ignoring...'
       );
     });
 
     test('handles invalid data structure by resetting history', () => {
       const invalidData = {
-        version: '1.0',
+        version: 2,
         entries: 'not-an-array', // Invalid structure
         lastUpdated: new Date().toISOString()
       };
       
-      mockSessionStorage.setItem('daggerheart-dice-roll-history', JSON.stringify(invalidData));
+      mockLocalStorage.setItem(STORAGE_KEY, JSON.stringify(invalidData));
       
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       expect(result.current.history).toEqual([]);
       expect(console.warn).toHaveBeenCalledWith(
@@ -165,7 +208,7 @@ describe('useDiceRollHistory Hook', () => {
 
   describe('Adding Rolls', () => {
     test('adds a new roll to history', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       const mockResult = createMockResult();
       
       act(() => {
@@ -178,7 +221,7 @@ describe('useDiceRollHistory Hook', () => {
     });
 
     test('adds roll with context', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       const mockResult = createMockResult();
       
       act(() => {
@@ -189,7 +232,7 @@ describe('useDiceRollHistory Hook', () => {
     });
 
     test('adds new rolls to the beginning of history', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       const firstRoll = createMockResult({ total: 10 });
       const secondRoll = createMockResult({ total: 15 });
       
@@ -207,7 +250,7 @@ describe('useDiceRollHistory Hook', () => {
     });
 
     test('trims history when exceeding maximum entries', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       // Add 51 rolls (exceeding the 50 limit)
       act(() => {
@@ -224,24 +267,24 @@ describe('useDiceRollHistory Hook', () => {
       expect(result.current.history.every(entry => entry.result.total !== 0)).toBe(true);
     });
 
-    test('saves to sessionStorage after adding roll', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+    test('saves to localStorage after adding roll', () => {
+      const { result } = renderHook(() => useDiceRollHistory(store));
       const mockResult = createMockResult();
       
       act(() => {
         result.current.addRoll(mockResult);
       });
       
-      expect(mockSessionStorage.setItem).toHaveBeenCalledWith(
-        'daggerheart-dice-roll-history',
-        expect.stringContaining('"version":"1.0"')
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        STORAGE_KEY,
+        expect.stringContaining('"version":3')
       );
     });
   });
 
   describe('Removing Rolls', () => {
     test('removes a specific roll by ID', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       const mockResult = createMockResult();
       
       act(() => {
@@ -258,7 +301,7 @@ describe('useDiceRollHistory Hook', () => {
     });
 
     test('does nothing when removing non-existent roll', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       const mockResult = createMockResult();
       
       act(() => {
@@ -275,7 +318,7 @@ describe('useDiceRollHistory Hook', () => {
     });
 
     test('removes only the specified roll when multiple exist', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       act(() => {
         result.current.addRoll(createMockResult({ total: 10 }));
@@ -296,7 +339,7 @@ describe('useDiceRollHistory Hook', () => {
 
   describe('Clearing History', () => {
     test('clears all history', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       act(() => {
         result.current.addRoll(createMockResult());
@@ -313,8 +356,8 @@ describe('useDiceRollHistory Hook', () => {
       expect(result.current.isHistoryFull).toBe(false);
     });
 
-    test('saves empty state to sessionStorage after clearing', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+    test('saves empty state to localStorage after clearing', () => {
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       act(() => {
         result.current.addRoll(createMockResult());
@@ -324,8 +367,8 @@ describe('useDiceRollHistory Hook', () => {
         result.current.clearHistory();
       });
       
-      expect(mockSessionStorage.setItem).toHaveBeenLastCalledWith(
-        'daggerheart-dice-roll-history',
+      expect(mockLocalStorage.setItem).toHaveBeenLastCalledWith(
+        STORAGE_KEY,
         expect.stringContaining('"entries":[]')
       );
     });
@@ -333,7 +376,7 @@ describe('useDiceRollHistory Hook', () => {
 
   describe('Getting Rolls', () => {
     test('retrieves a specific roll by ID', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       const mockResult = createMockResult();
       
       act(() => {
@@ -349,7 +392,7 @@ describe('useDiceRollHistory Hook', () => {
     });
 
     test('returns undefined for non-existent roll ID', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       const retrievedRoll = result.current.getRoll('non-existent-id');
       
@@ -359,7 +402,7 @@ describe('useDiceRollHistory Hook', () => {
 
   describe('History Full Status', () => {
     test('reports false when history is not full', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       act(() => {
         for (let i = 0; i < 25; i++) {
@@ -371,7 +414,7 @@ describe('useDiceRollHistory Hook', () => {
     });
 
     test('reports true when history reaches maximum capacity', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       act(() => {
         for (let i = 0; i < 50; i++) {
@@ -383,12 +426,12 @@ describe('useDiceRollHistory Hook', () => {
     });
   });
 
-  describe('SessionStorage Error Handling', () => {
-    test('handles sessionStorage setItem errors gracefully', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+  describe('Storage Error Handling', () => {
+    test('handles localStorage setItem errors gracefully', () => {
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       // Mock setItem to throw an error
-      mockSessionStorage.setItem.mockImplementationOnce(() => {
+      mockLocalStorage.setItem.mockImplementationOnce(() => {
         throw new Error('Storage error');
       });
       
@@ -405,7 +448,7 @@ describe('useDiceRollHistory Hook', () => {
     });
 
     test('handles storage quota exceeded by reducing history size', () => {
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       // Add some rolls first
       act(() => {
@@ -418,7 +461,8 @@ describe('useDiceRollHistory Hook', () => {
       const quotaError = new DOMException('Quota exceeded', 'QuotaExceededError');
       Object.defineProperty(quotaError, 'code', { value: 22 });
       
-      mockSessionStorage.setItem
+      mockLocalStorage.setItem.mockClear();
+      mockLocalStorage.setItem
         .mockImplementationOnce(() => { throw quotaError; })
         .mockImplementationOnce(() => {}); // Second call should succeed
       
@@ -430,16 +474,19 @@ describe('useDiceRollHistory Hook', () => {
         'Storage quota exceeded, attempting to reduce history size...'
       );
       
-      // Should have attempted to save reduced data
-      expect(mockSessionStorage.setItem).toHaveBeenCalledTimes(2);
+      // Should have attempted to save reduced data, keeping the most recent rolls
+      expect(mockLocalStorage.setItem).toHaveBeenCalledTimes(2);
+      const reduced = JSON.parse(mockLocalStorage.setItem.mock.calls[1][1]);
+      expect(reduced.entries).toHaveLength(25);
+      expect(reduced.entries[0].result.total).toBe(999);
     });
 
     test('handles getItem errors during initialization', () => {
-      mockSessionStorage.getItem.mockImplementationOnce(() => {
+      mockLocalStorage.getItem.mockImplementationOnce(() => {
         throw new Error('Storage read error');
       });
       
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       expect(result.current.history).toEqual([]);
       expect(console.error).toHaveBeenCalledWith(
@@ -453,7 +500,7 @@ describe('useDiceRollHistory Hook', () => {
     test('properly deserializes Date objects from stored data', () => {
       const testDate = new Date('2023-06-15T14:30:00Z');
       const mockData = {
-        version: '1.0',
+        version: 2,
         entries: [
           {
             id: 'test-1',
@@ -466,9 +513,9 @@ describe('useDiceRollHistory Hook', () => {
         lastUpdated: new Date().toISOString()
       };
       
-      mockSessionStorage.setItem('daggerheart-dice-roll-history', JSON.stringify(mockData));
+      mockLocalStorage.setItem(STORAGE_KEY, JSON.stringify(mockData));
       
-      const { result } = renderHook(() => useDiceRollHistory());
+      const { result } = renderHook(() => useDiceRollHistory(store));
       
       expect(result.current.history[0].result.timestamp).toBeInstanceOf(Date);
       expect(result.current.history[0].result.timestamp.getTime()).toBe(testDate.getTime());
@@ -477,7 +524,7 @@ describe('useDiceRollHistory Hook', () => {
 
   describe('Function Stability', () => {
     test('functions maintain stable references across re-renders', () => {
-      const { result, rerender } = renderHook(() => useDiceRollHistory());
+      const { result, rerender } = renderHook(() => useDiceRollHistory(store));
       
       const initialFunctions = {
         addRoll: result.current.addRoll,
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for the adversary library
+ */
+
+import {
+  createAdversaryLibraryStore,
+  createMemoryAdversaryStorage,
+  createSavedAdversary,
+  duplicateSavedAdversary,
+  exportAdversaryLibrary,
+  filterSavedAdversaries,
+  getAdversaryTags,
+  importAdversaryLibrary,
+  mergeSavedAdversaries,
+  restoreAdversaryVersion,
+  saveAdversaryVersion,
+  updateAdversaryDetails,
+  ADVERSARY_LIBRARY_VERSION,
+} from './adversary-library';
+import { generateMonster, parseGeneratedMonster, GeneratedMonster } from './monster-utils';
+import { createSeededRandom } from './random';
+
+const monster = (name: string, type: 'Bruiser' | 'Skulk' = 'Bruiser', tier: 1 | 2 = 1): GeneratedMonster => ({
+  ...generateMonster(type, tier, createSeededRandom(name))!,
+  name,
+});
+
+describe('versions', () => {
+  test('saving a changed stat block keeps the old one in the history', () => {
+    const ogre = createSavedAdversary(monster('Ogre'), { tags: 'Brute, boss', notes: ' Lives under the bridge ' });
+    const edited = saveAdversaryVersion(ogre, { ...ogre.monster, name: 'Ogre Chief' });
+
+    expect(ogre).toMatchObject({ version: 1, tags: ['boss', 'brute'], notes: 'Lives under the bridge', history: [] });
+    expect(edited.version).toBe(2);
+    expect(edited.monster.name).toBe('Ogre Chief');
+    expect(edited.history).toEqual([{ version: 1, monster: ogre.monster, savedAt: ogre.updatedAt }]);
+  });
+
+  test('saving an unchanged stat block only updates the details', () => {
+    const ogre = createSavedAdversary(monster('Ogre'));
+    const tagged = saveAdversaryVersion(ogre, { ...ogre.monster }, { tags: 'swamp' });
+
+    expect(tagged.version).toBe(1);
+    expect(tagged.tags).toEqual(['swamp']);
+    expect(updateAdversaryDetails(tagged, { notes: '' }).notes).toBeUndefined();
+  });
+
+  test('keeps at most the given number of earlier versions', () => {
+    let ogre = createSavedAdversary(monster('Ogre'));
+    for (let hp = 1; hp <= 5; hp++) {
+      ogre = saveAdversaryVersion(ogre, { ...ogre.monster, stats: { ...ogre.monster.stats, hitpoints: hp } }, {}, 3);
+    }
+
+    expect(ogre.version).toBe(6);
+    expect(ogre.history.map(item => item.version)).toEqual([5, 4, 3]);
+  });
+
+  test('restoring an earlier version saves it as a new one', () => {
+    const ogre = createSavedAdversary(monster('Ogre'));
+    const edited = saveAdversaryVersion(ogre, { ...ogre.monster, name: 'Ogre Chief' });
+    const restored = restoreAdversaryVersion(edited, 1)!;
+
+    expect(restored.version).toBe(3);
+    expect(restored.monster).toEqual(ogre.monster);
+    expect(restored.history[0].monster.name).toBe('Ogre Chief');
+    expect(restoreAdversaryVersion(edited, 7)).toBeNull();
+  });
+
+  test('duplicates as a new monster at version 1', () => {
+    const ogre = saveAdversaryVersion(createSavedAdversary(monster('Ogre'), { tags: 'boss' }), monster('Ogre Chief'));
+    const copy = duplicateSavedAdversary(ogre);
+
+    expect(copy.id).not.toBe(ogre.id);
+    expect(copy.monster.id).toBe(copy.id);
+    expect(copy).toMatchObject({ version: 1, history: [], tags: ['boss'] });
+    expect(copy.monster.name).toBe('Ogre Chief (Copy)');
+  });
+});
+
+describe('search', () => {
+  const library = [
+    createSavedAdversary(monster('Ogre'), { tags: 'boss, swamp' }),
+    createSavedAdversary(monster('Shadow', 'Skulk', 2), { tags: 'undead', notes: 'Haunts the old mill' }),
+    createSavedAdversary(monster('Bandit'), { tags: 'swamp' }),
+  ];
+  const names = (entries: typeof library) => entries.map(entry => entry.monster.name);
+
+  test('matches text against names, notes and tags, sorted by name', () => {
+    expect(names(filterSavedAdversaries(library))).toEqual(['Bandit', 'Ogre', 'Shadow']);
+    expect(names(filterSavedAdversaries(library, { query: 'mill' }))).toEqual(['Shadow']);
+    expect(names(filterSavedAdversaries(library, { query: 'SWAMP' }))).toEqual(['Bandit', 'Ogre']);
+  });
+
+  test('filters by tag, type and tier', () => {
+    expect(names(filterSavedAdversaries(library, { tag: 'boss' }))).toEqual(['Ogre']);
+    expect(names(filterSavedAdversaries(library, { type: 'Skulk' }))).toEqual(['Shadow']);
+    expect(names(filterSavedAdversaries(library, { tier: 1 }))).toEqual(['Bandit', 'Ogre']);
+    expect(getAdversaryTags(library)).toEqual(['boss', 'swamp', 'undead']);
+  });
+});
+
+describe('import and export', () => {
+  test('round-trips a library with its history', () => {
+    const ogre = saveAdversaryVersion(createSavedAdversary(monster('Ogre'), { tags: 'boss' }), monster('Ogre Chief'));
+    const result = importAdversaryLibrary(exportAdversaryLibrary([ogre]));
+
+    expect(JSON.parse(exportAdversaryLibrary([])).version).toBe(ADVERSARY_LIBRARY_VERSION);
+    expect(result).toEqual({ adversaries: [ogre], skipped: 0 });
+  });
+
+  test('accepts bare monsters and skips malformed entries', () => {
+    const handAuthored = { ...monster('Bog Witch'), selectedFeatures: [{ category: 'Magic', name: 'Hex', description: 'Action: Curse a target.' }, { name: 42 }] };
+    const result = importAdversaryLibrary(JSON.stringify([handAuthored, { name: 'No stats' }, null]));
+
+    expect(result.skipped).toBe(2);
+    expect(result.adversaries[0]).toMatchObject({ id: handAuthored.id, version: 1 });
+    expect(result.adversaries[0].monster.selectedFeatures).toEqual([{ category: 'Magic', name: 'Hex', kind: 'Action', description: 'Curse a target.' }]);
+  });
+
+  test('brings monsters saved before the book stat block format up to date', () => {
+    const { description, motivesAndTactics, attackName, range, damageType, experiences, ...legacy } = monster('Ogre');
+    const file = JSON.stringify({ version: 1, adversaries: [legacy] });
+    const [ogre] = importAdversaryLibrary(file).adversaries;
+
+    expect([description, experiences]).toEqual(['', []]);
+    expect(ogre.monster).toMatchObject({ description, motivesAndTactics, attackName, range, damageType, experiences });
+  });
+
+  test('reports unreadable files', () => {
+    expect(importAdversaryLibrary('{').error).toBe('File is not valid JSON');
+    expect(importAdversaryLibrary('{"rolls": []}').error).toBe('File does not contain an adversary library');
+    expect(importAdversaryLibrary(JSON.stringify({ version: 99, adversaries: [] })).error).toMatch(/newer/);
+  });
+
+  test('merges without replacing newer versions', () => {
+    const ogre = createSavedAdversary(monster('Ogre'));
+    const newer = saveAdversaryVersion(ogre, monster('Ogre Chief'));
+    const bandit = createSavedAdversary(monster('Bandit'));
+
+    expect(mergeSavedAdversaries([newer], [ogre, bandit])).toEqual([newer, bandit]);
+    expect(mergeSavedAdversaries([ogre], [newer])).toEqual([newer]);
+  });
+
+  test('rejects monsters missing stats', () => {
+    const { stats, ...withoutStats } = monster('Ogre');
+    expect(parseGeneratedMonster(withoutStats)).toBeNull();
+    expect(parseGeneratedMonster({ ...withoutStats, stats: { ...stats, hitpoints: '6' } })).toBeNull();
+  });
+});
+
+describe('createAdversaryLibraryStore', () => {
+  test('loads from storage and saves new versions of the same monster', async () => {
+    const storage = createMemoryAdversaryStorage([createSavedAdversary(monster('Ogre'))]);
+    const store = createAdversaryLibraryStore({ getStorage: () => storage });
+    const listener = jest.fn();
+    store.subscribe(listener);
+
+    await store.load();
+    const [ogre] = store.getEntries();
+    const saved = await store.save({ ...ogre.monster, name: 'Ogre Chief' }, { tags: 'boss' });
+
+    expect(saved).toMatchObject({ id: ogre.id, version: 2, tags: ['boss'] });
+    expect(await storage.getAll()).toEqual([saved]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  test('duplicates, restores and removes', async () => {
+    const storage = createMemoryAdversaryStorage();
+    const store = createAdversaryLibraryStore({ getStorage: () => storage });
+
+    const ogre = await store.save(monster('Ogre'));
+    await store.save({ ...ogre.monster, name: 'Ogre Chief' });
+    const copy = (await store.duplicate(ogre.id))!;
+    const restored = (await store.restoreVersion(ogre.id, 1))!;
+    await store.remove(copy.id);
+
+    expect(restored.monster.name).toBe('Ogre');
+    expect(store.getEntries()).toEqual([restored]);
+    expect(await storage.getAll()).toEqual([restored]);
+    expect(await store.duplicate('missing')).toBeUndefined();
+  });
+
+  test('imports a library file into storage', async () => {
+    const storage = createMemoryAdversaryStorage();
+    const store = createAdversaryLibraryStore({ getStorage: () => storage });
+    const file = exportAdversaryLibrary([createSavedAdversary(monster('Ogre')), createSavedAdversary(monster('Bandit'))]);
+
+    const result = await store.importLibrary(file);
+
+    expect(result.adversaries).toHaveLength(2);
+    expect(await storage.getAll()).toHaveLength(2);
+  });
+
+  test('keeps the library in memory without storage', async () => {
+    const store = createAdversaryLibraryStore({ getStorage: () => null });
+
+    await store.save(monster('Ogre'));
+
+    expect(store.getEntries()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,652 @@
+/**
+ * Adversary library - generated and hand-authored adversaries saved in IndexedDB
+ * Each save of a changed stat block is kept as a version, and the whole library
+ * serializes to a versioned JSON file so a GM can carry it between browsers
+ */
+
+import { normalizeTags } from '@/lib/roll-library';
+import { GeneratedMonster, generateMonsterId, parseGeneratedMonster } from '@/lib/monster-utils';
+
+/**
+ * Version written to exported library files
+ */
+export const ADVERSARY_LIBRARY_VERSION = 2;
+
+/**
+ * Earlier versions kept per adversary
+ */
+export const MAX_ADVERSARY_VERSIONS = 20;
+
+/**
+ * IndexedDB database and object store holding the library
+ */
+export const ADVERSARY_DB_NAME = 'daggerheart-dm-tools';
+export const ADVERSARY_STORE_NAME = 'adversaries';
+const ADVERSARY_DB_VERSION = 1;
+
+/**
+ * An earlier version of a saved adversary
+ */
+export interface AdversaryVersion {
+  version: number;
+  monster: GeneratedMonster;
+  savedAt: string;
+}
+
+/**
+ * An adversary in the library
+ */
+export interface SavedAdversary {
+  /** The monster's ID, so saving the same monster again makes a new version */
+  id: string;
+  monster: GeneratedMonster;
+  tags: string[];
+  notes?: string;
+  /** Starts at 1 and goes up each time a changed stat block is saved */
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  /** Earlier versions, most recent first (at most MAX_ADVERSARY_VERSIONS) */
+  history: AdversaryVersion[];
+}
+
+/**
+ * Details a GM can attach to a saved adversary
+ */
+export interface SavedAdversaryDetails {
+  /** Tags as a list or a comma-separated string (e.g., "undead, boss") */
+  tags?: string[] | string;
+  notes?: string;
+}
+
+/**
+ * Filters for searching the library
+ */
+export interface SavedAdversaryFilter {
+  /** Text matched against name, type, tags, notes and feature names */
+  query?: string;
+  /** Only adversaries with this tag */
+  tag?: string;
+  /** Only adversaries of this type (e.g., "Bruiser") */
+  type?: string;
+  /** Only adversaries of this tier */
+  tier?: number;
+}
+
+/**
+ * Result of reading a library file
+ */
+export interface AdversaryLibraryImportResult {
+  adversaries: SavedAdversary[];
+  /** Entries that could not be read */
+  skipped: number;
+  /** Set when the file itself could not be read */
+  error?: string;
+}
+
+/**
+ * Where the library is persisted
+ */
+export interface AdversaryLibraryStorage {
+  getAll: () => Promise<SavedAdversary[]>;
+  put: (entries: SavedAdversary[]) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+}
+
+/**
+ * Apply tags and notes to an entry, leaving out empty notes
+ */
+function withDetails(entry: SavedAdversary, details: SavedAdversaryDetails): SavedAdversary {
+  const notes = details.notes !== undefined ? details.notes.trim() : entry.notes;
+  const updated: SavedAdversary = {
+    ...entry,
+    tags: details.tags !== undefined ? normalizeTags(details.tags) : entry.tags,
+  };
+
+  delete updated.notes;
+  if (notes) {
+    updated.notes = notes;
+  }
+  return updated;
+}
+
+/**
+ * Check whether two stat blocks are the same
+ */
+function isSameMonster(a: GeneratedMonster, b: GeneratedMonster): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Create a library entry for a monster
+ *
+ * @param monster - Generated or hand-authored monster
+ * @param details - Optional tags and notes
+ * @returns Entry at version 1
+ */
+export function createSavedAdversary(
+  monster: GeneratedMonster,
+  details: SavedAdversaryDetails = {}
+): SavedAdversary {
+  const now = new Date().toISOString();
+
+  return withDetails({
+    id: monster.id,
+    monster,
+    tags: [],
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    history: [],
+  }, details);
+}
+
+/**
+ * Save a new version of an adversary
+ * The current stat block moves to the history; saving an unchanged stat block only updates the details
+ *
+ * @param entry - Saved adversary
+ * @param monster - Its edited stat block
+ * @param details - Optional new tags and notes
+ * @param maxVersions - Earlier versions to keep
+ * @returns Updated entry
+ */
+export function saveAdversaryVersion(
+  entry: SavedAdversary,
+  monster: GeneratedMonster,
+  details: SavedAdversaryDetails = {},
+  maxVersions: number = MAX_ADVERSARY_VERSIONS
+): SavedAdversary {
+  if (isSameMonster(entry.monster, monster)) {
+    return updateAdversaryDetails(entry, details);
+  }
+
+  const previous: AdversaryVersion = { version: entry.version, monster: entry.monster, savedAt: entry.updatedAt };
+
+  return withDetails({
+    ...entry,
+    monster: { ...monster, id: entry.id },
+    version: entry.version + 1,
+    updatedAt: new Date().toISOString(),
+    history: [previous, ...entry.history].slice(0, maxVersions),
+  }, details);
+}
+
+/**
+ * Change an adversary's tags or notes without making a new version
+ */
+export function updateAdversaryDetails(entry: SavedAdversary, details: SavedAdversaryDetails): SavedAdversary {
+  return withDetails({ ...entry, updatedAt: new Date().toISOString() }, details);
+}
+
+/**
+ * Go back to an earlier version
+ * The restore is saved as a new version, so the stat block it replaces stays in the history
+ *
+ * @param entry - Saved adversary
+ * @param version - Version number to restore
+ * @returns Updated entry, or null if that version is not in the history
+ */
+export function restoreAdversaryVersion(
+  entry: SavedAdversary,
+  version: number,
+  maxVersions: number = MAX_ADVERSARY_VERSIONS
+): SavedAdversary | null {
+  const earlier = entry.history.find(item => item.version === version);
+  return earlier ? saveAdversaryVersion(entry, earlier.monster, {}, maxVersions) : null;
+}
+
+/**
+ * Copy an adversary as a new monster, e.g. to make a variant
+ *
+ * @param entry - Saved adversary to copy
+ * @returns New entry at version 1 with the same tags and notes
+ */
+export function duplicateSavedAdversary(entry: SavedAdversary): SavedAdversary {
+  const name = entry.monster.name.trim();
+  const monster: GeneratedMonster = {
+    ...entry.monster,
+    id: generateMonsterId(),
+    name: name ? `${name} (Copy)` : '',
+  };
+
+  return createSavedAdversary(monster, { tags: entry.tags, notes: entry.notes });
+}
+
+/**
+ * Name to show and sort by; unnamed monsters go by their type and tier
+ */
+export function getAdversaryDisplayName(entry: SavedAdversary): string {
+  const { name, type, tier } = entry.monster;
+  return name.trim() || `Unnamed ${type} (Tier ${tier})`;
+}
+
+/**
+ * Search the library by text, tag, type and tier
+ *
+ * @param entries - Saved adversaries to search
+ * @param filter - Text query, tag, type and tier to match
+ * @returns Matching adversaries, sorted by name
+ */
+export function filterSavedAdversaries(
+  entries: SavedAdversary[],
+  filter: SavedAdversaryFilter = {}
+): SavedAdversary[] {
+  const terms = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const tag = filter.tag?.toLowerCase();
+
+  return entries
+    .filter(entry => !tag || entry.tags.includes(tag))
+    .filter(entry => !filter.type || entry.monster.type === filter.type)
+    .filter(entry => filter.tier === undefined || entry.monster.tier === filter.tier)
+    .filter(entry => {
+      const haystack = [
+        entry.monster.name,
+        entry.monster.type,
+        entry.notes ?? '',
+        ...entry.tags,
+        ...entry.monster.selectedFeatures.map(feature => feature.name),
+      ].join(' ').toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) => getAdversaryDisplayName(a).localeCompare(getAdversaryDisplayName(b)));
+}
+
+/**
+ * Get every tag in use, sorted alphabetically
+ */
+export function getAdversaryTags(entries: SavedAdversary[]): string[] {
+  return normalizeTags(entries.flatMap(entry => entry.tags));
+}
+
+/**
+ * Serialize the library for download
+ *
+ * @param entries - Saved adversaries to export
+ * @returns Pretty-printed JSON with a version and export date
+ */
+export function exportAdversaryLibrary(entries: SavedAdversary[]): string {
+  return JSON.stringify({
+    version: ADVERSARY_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    adversaries: entries,
+  }, null, 2);
+}
+
+/**
+ * Download the library as a JSON file
+ *
+ * @param entries - Saved adversaries to export
+ */
+export function downloadAdversaryLibrary(entries: SavedAdversary[]): void {
+  const content = exportAdversaryLibrary(entries);
+  const filename = `daggerheart_adversary_library_${new Date().toISOString().slice(0, 10)}.json`;
+
+  // Create and trigger download
+  const blob = new Blob([content], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read an earlier version from untrusted JSON, or null if it is malformed
+ */
+function parseAdversaryVersion(value: any): AdversaryVersion | null {
+  const monster = parseGeneratedMonster(value?.monster);
+  if (!monster || typeof value.version !== 'number' || typeof value.savedAt !== 'string') {
+    return null;
+  }
+  return { version: value.version, monster, savedAt: value.savedAt };
+}
+
+/**
+ * Read a saved adversary from untrusted JSON (an export or the database), or null if it is malformed
+ * A bare monster, like the ones the builder works with, becomes a new entry
+ */
+export function parseSavedAdversary(value: any): SavedAdversary | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  if (!('monster' in value)) {
+    const monster = parseGeneratedMonster(value);
+    return monster && createSavedAdversary(monster);
+  }
+
+  const monster = parseGeneratedMonster(value.monster);
+  if (!monster) {
+    return null;
+  }
+
+  const entry = createSavedAdversary(monster, {
+    tags: Array.isArray(value.tags) ? value.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+    notes: typeof value.notes === 'string' ? value.notes : undefined,
+  });
+  const version = typeof value.version === 'number' && value.version >= 1 ? Math.floor(value.version) : 1;
+
+  return {
+    ...entry,
+    version,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : entry.createdAt,
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : entry.updatedAt,
+    history: (Array.isArray(value.history) ? value.history : [])
+      .map(parseAdversaryVersion)
+      .filter((item: AdversaryVersion | null): item is AdversaryVersion => item !== null && item.version < version)
+      .slice(0, MAX_ADVERSARY_VERSIONS),
+  };
+}
+
+/**
+ * Read a library file exported by exportAdversaryLibrary
+ * A bare array of saved adversaries or monsters is also accepted. Malformed entries are skipped.
+ *
+ * @param json - File contents
+ * @returns Valid adversaries, how many were skipped, and an error if the file could not be read
+ */
+export function importAdversaryLibrary(json: string): AdversaryLibraryImportResult {
+  let data: any;
+
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { adversaries: [], skipped: 0, error: 'File is not valid JSON' };
+  }
+
+  const entries = Array.isArray(data) ? data : data?.adversaries;
+  if (!Array.isArray(entries)) {
+    return { adversaries: [], skipped: 0, error: 'File does not contain an adversary library' };
+  }
+
+  if (!Array.isArray(data) && typeof data.version === 'number' && data.version > ADVERSARY_LIBRARY_VERSION) {
+    return { adversaries: [], skipped: 0, error: `Adversary library version ${data.version} is newer than this app supports` };
+  }
+
+  const adversaries = entries
+    .map(parseSavedAdversary)
+    .filter((entry): entry is SavedAdversary => entry !== null);
+
+  return { adversaries, skipped: entries.length - adversaries.length };
+}
+
+/**
+ * Merge imported adversaries into the library
+ * An adversary already in the library is only replaced by a version at least as new
+ *
+ * @param existing - Current library
+ * @param imported - Adversaries read from a file
+ * @returns Merged library
+ */
+export function mergeSavedAdversaries(existing: SavedAdversary[], imported: SavedAdversary[]): SavedAdversary[] {
+  const merged = [...existing];
+
+  for (const entry of imported) {
+    const index = merged.findIndex(saved => saved.id === entry.id);
+
+    if (index === -1) {
+      merged.push(entry);
+    } else if (entry.version >= merged[index].version) {
+      merged[index] = entry;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Wait for an IndexedDB request
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persist the library in IndexedDB
+ * The database is opened on first use; stored entries are re-read with parseSavedAdversary
+ *
+ * @param factory - IndexedDB implementation (default: the browser's)
+ * @returns Storage backed by the adversaries object store
+ */
+export function createIndexedDBAdversaryStorage(factory: IDBFactory = indexedDB): AdversaryLibraryStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      const request = factory.open(ADVERSARY_DB_NAME, ADVERSARY_DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(ADVERSARY_STORE_NAME)) {
+          request.result.createObjectStore(ADVERSARY_STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      database = requestResult(request);
+      // Let a later call try again, e.g. after the user allows storage
+      database.catch(() => { database = null; });
+    }
+    return database;
+  };
+
+  const write = async (change: (store: IDBObjectStore) => void): Promise<void> => {
+    const db = await open();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(ADVERSARY_STORE_NAME, 'readwrite');
+      change(transaction.objectStore(ADVERSARY_STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    getAll: async () => {
+      const db = await open();
+      const stored = await requestResult(
+        db.transaction(ADVERSARY_STORE_NAME, 'readonly').objectStore(ADVERSARY_STORE_NAME).getAll()
+      );
+      return stored
+        .map(parseSavedAdversary)
+        .filter((entry): entry is SavedAdversary => entry !== null);
+    },
+    put: entries => write(store => entries.forEach(entry => store.put(entry))),
+    delete: id => write(store => { store.delete(id); }),
+  };
+}
+
+/**
+ * Keep the library in memory only (tests, or browsers without IndexedDB)
+ *
+ * @param initial - Entries to start with
+ */
+export function createMemoryAdversaryStorage(initial: SavedAdversary[] = []): AdversaryLibraryStorage {
+  const entries = new Map(initial.map(entry => [entry.id, entry]));
+
+  return {
+    getAll: async () => Array.from(entries.values()),
+    put: async toStore => { toStore.forEach(entry => entries.set(entry.id, entry)); },
+    delete: async id => { entries.delete(id); },
+  };
+}
+
+/**
+ * The shared adversary library, loaded from storage on first use
+ */
+export interface AdversaryLibraryStore {
+  /** Current entries (the same array until the library changes; empty until loaded) */
+  getEntries: () => SavedAdversary[];
+  /** Load the library from storage; resolves once it has been read */
+  load: () => Promise<void>;
+  /** Save a monster; saving one that is already in the library makes a new version */
+  save: (monster: GeneratedMonster, details?: SavedAdversaryDetails) => Promise<SavedAdversary>;
+  /** Change an adversary's tags or notes; undefined if it isn't in the library */
+  updateDetails: (id: string, details: SavedAdversaryDetails) => Promise<SavedAdversary | undefined>;
+  /** Copy an adversary as a new monster; undefined if it isn't in the library */
+  duplicate: (id: string) => Promise<SavedAdversary | undefined>;
+  /** Go back to an earlier version; undefined if the adversary or version isn't there */
+  restoreVersion: (id: string, version: number) => Promise<SavedAdversary | undefined>;
+  /** Remove an adversary and its history */
+  remove: (id: string) => Promise<void>;
+  /** Merge adversaries read from a library file */
+  importLibrary: (json: string) => Promise<AdversaryLibraryImportResult>;
+  /** Listen for changes; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for creating an adversary library store
+ */
+export interface AdversaryLibraryStoreOptions {
+  /** Storage to persist to (default: IndexedDB in the browser, none on the server) */
+  getStorage?: () => AdversaryLibraryStorage | null;
+  /** Earlier versions kept per adversary (default: MAX_ADVERSARY_VERSIONS) */
+  maxVersions?: number;
+}
+
+function getBrowserStorage(): AdversaryLibraryStorage | null {
+  if (typeof window === 'undefined') return null;
+  if (typeof indexedDB === 'undefined') return createMemoryAdversaryStorage();
+  return createIndexedDBAdversaryStorage();
+}
+
+const EMPTY_LIBRARY: SavedAdversary[] = [];
+
+/**
+ * Create an adversary library store
+ * Nothing is read until the first subscriber or call, so the store is safe to create during server rendering.
+ * Changes show up straight away and are written to storage in the background.
+ *
+ * @param options - Storage and version limit
+ * @returns Library store
+ */
+export function createAdversaryLibraryStore(options: AdversaryLibraryStoreOptions = {}): AdversaryLibraryStore {
+  const { getStorage = getBrowserStorage, maxVersions = MAX_ADVERSARY_VERSIONS } = options;
+  const listeners = new Set<() => void>();
+  let entries = EMPTY_LIBRARY;
+  let storage: AdversaryLibraryStorage | null | undefined;
+  let loading: Promise<void> | null = null;
+
+  const getBackend = () => {
+    if (storage === undefined) {
+      storage = getStorage();
+    }
+    return storage;
+  };
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const load = (): Promise<void> => {
+    if (!loading) {
+      const backend = getBackend();
+      loading = (backend ? backend.getAll() : Promise.resolve(EMPTY_LIBRARY))
+        .then(stored => {
+          entries = stored;
+          notify();
+        })
+        .catch(error => {
+          console.error('Failed to load the adversary library:', error);
+        });
+    }
+    return loading;
+  };
+
+  const persist = async (change: (backend: AdversaryLibraryStorage) => Promise<void>) => {
+    const backend = getBackend();
+    if (!backend) return;
+
+    try {
+      await change(backend);
+    } catch (error) {
+      console.error('Failed to save the adversary library:', error);
+    }
+  };
+
+  // Put entries in place of ones with the same ID, or add them
+  const put = async (changed: SavedAdversary[]) => {
+    const byId = new Map(changed.map(entry => [entry.id, entry]));
+    entries = [
+      ...entries.map(entry => byId.get(entry.id) ?? entry),
+      ...changed.filter(entry => !entries.some(saved => saved.id === entry.id)),
+    ];
+    notify();
+    await persist(backend => backend.put(changed));
+  };
+
+  // Apply a change to one entry once the library has loaded
+  const change = async (id: string, update: (entry: SavedAdversary) => SavedAdversary | null) => {
+    await load();
+    const entry = entries.find(saved => saved.id === id);
+    const updated = entry ? update(entry) : null;
+    if (!updated) return undefined;
+
+    await put([updated]);
+    return updated;
+  };
+
+  return {
+    getEntries: () => entries,
+
+    load,
+
+    save: async (monster, details = {}) => {
+      await load();
+      const existing = entries.find(entry => entry.id === monster.id);
+      const entry = existing
+        ? saveAdversaryVersion(existing, monster, details, maxVersions)
+        : createSavedAdversary(monster, details);
+
+      await put([entry]);
+      return entry;
+    },
+
+    updateDetails: (id, details) => change(id, entry => updateAdversaryDetails(entry, details)),
+
+    duplicate: async id => {
+      await load();
+      const entry = entries.find(saved => saved.id === id);
+      if (!entry) return undefined;
+
+      const copy = duplicateSavedAdversary(entry);
+      await put([copy]);
+      return copy;
+    },
+
+    restoreVersion: (id, version) => change(id, entry => restoreAdversaryVersion(entry, version, maxVersions)),
+
+    remove: async id => {
+      await load();
+      entries = entries.filter(entry => entry.id !== id);
+      notify();
+      await persist(backend => backend.delete(id));
+    },
+
+    importLibrary: async json => {
+      const result = importAdversaryLibrary(json);
+      if (result.adversaries.length === 0) return result;
+
+      await load();
+      const merged = mergeSavedAdversaries(entries, result.adversaries);
+      await put(merged.filter(entry => result.adversaries.includes(entry)));
+      return result;
+    },
+
+    subscribe: listener => {
+      listeners.add(listener);
+      load();
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Application-wide adversary library
+ */
+export const adversaryLibraryStore = createAdversaryLibraryStore();
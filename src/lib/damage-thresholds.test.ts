@@ -0,0 +1,92 @@
+/**
+ * Unit tests for damage thresholds and damage resolution
+ */
+
+import {
+  formatDamageThresholds,
+  getDamageSeverity,
+  getDamageSeverityLabel,
+  getReducedDamageSeverity,
+  isDamageRollResult,
+  parseDamageThresholds,
+  resolveDamage,
+  withDamageThresholds,
+} from './damage-thresholds';
+
+import { rollDiceExpression } from './dice-utils';
+
+const thresholds = { major: 10, severe: 19 };
+
+describe('parseDamageThresholds', () => {
+  test('parses stat block thresholds', () => {
+    expect(parseDamageThresholds('10 / 19')).toEqual(thresholds);
+    expect(parseDamageThresholds('4/7')).toEqual({ major: 4, severe: 7 });
+    expect(formatDamageThresholds(thresholds)).toBe('10 / 19');
+  });
+
+  test('returns null when there are no thresholds', () => {
+    expect(parseDamageThresholds('N/A')).toBeNull();
+    expect(parseDamageThresholds('')).toBeNull();
+    expect(parseDamageThresholds('19 / 10')).toBeNull();
+  });
+});
+
+describe('getDamageSeverity', () => {
+  test('compares damage with the thresholds', () => {
+    expect(getDamageSeverity(0, thresholds)).toBe('none');
+    expect(getDamageSeverity(1, thresholds)).toBe('minor');
+    expect(getDamageSeverity(9, thresholds)).toBe('minor');
+    expect(getDamageSeverity(10, thresholds)).toBe('major');
+    expect(getDamageSeverity(19, thresholds)).toBe('severe');
+    expect(getDamageSeverity(40, thresholds)).toBe('severe');
+  });
+
+  test('only reports massive damage with the optional rule', () => {
+    expect(getDamageSeverity(38, thresholds, true)).toBe('massive');
+    expect(getDamageSeverity(37, thresholds, true)).toBe('severe');
+    expect(getDamageSeverityLabel('massive')).toBe('Massive');
+    expect(getDamageSeverityLabel('none')).toBe('No damage');
+  });
+});
+
+describe('resolveDamage', () => {
+  test('marks 1, 2 or 3 HP', () => {
+    expect(resolveDamage(5, thresholds).hitPoints).toBe(1);
+    expect(resolveDamage(14, thresholds).hitPoints).toBe(2);
+    expect(resolveDamage(25, thresholds)).toEqual({
+      damage: 25,
+      effectiveDamage: 25,
+      severity: 'severe',
+      armorSlotsUsed: 0,
+      hitPoints: 3,
+    });
+    expect(resolveDamage(40, thresholds, { massiveDamage: true }).hitPoints).toBe(4);
+  });
+
+  test('halves damage for resistance and ignores it for immunity', () => {
+    expect(resolveDamage(25, thresholds, { resistance: true })).toMatchObject({ effectiveDamage: 12.5, severity: 'major', hitPoints: 2 });
+    expect(resolveDamage(1, thresholds, { resistance: true }).hitPoints).toBe(1);
+    expect(resolveDamage(25, thresholds, { immunity: true, resistance: true })).toMatchObject({ effectiveDamage: 0, severity: 'none', hitPoints: 0 });
+  });
+
+  test('reduces the HP marked by each Armor Slot, never below zero', () => {
+    const armored = resolveDamage(25, thresholds, { armorSlots: 1 });
+
+    expect(armored).toMatchObject({ severity: 'severe', armorSlotsUsed: 1, hitPoints: 2 });
+    expect(getReducedDamageSeverity(armored)).toBe('major');
+    expect(resolveDamage(5, thresholds, { armorSlots: 3 })).toMatchObject({ armorSlotsUsed: 1, hitPoints: 0 });
+    expect(resolveDamage(0, thresholds, { armorSlots: 1 }).armorSlotsUsed).toBe(0);
+  });
+});
+
+describe('withDamageThresholds', () => {
+  test('marks a roll as damage against thresholds', () => {
+    const result = rollDiceExpression('2d8+3');
+    const damageRoll = withDamageThresholds(result, thresholds, 'Goblin');
+
+    expect(isDamageRollResult(result)).toBe(false);
+    expect(isDamageRollResult(damageRoll)).toBe(true);
+    expect(damageRoll.damage).toEqual({ thresholds, target: 'Goblin' });
+    expect(damageRoll.total).toBe(result.total);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Damage thresholds - turn a damage total into the Hit Points it marks
+ * e.g., 14 damage against "10 / 19" is a Major hit and marks 2 HP
+ */
+
+import {
+  DamageResolution,
+  DamageResolutionOptions,
+  DamageRollResult,
+  DamageSeverity,
+  DamageThresholds,
+  DiceRollResult
+} from '@/types/dice';
+
+/**
+ * Hit Points marked at each severity
+ */
+const HIT_POINTS_BY_SEVERITY: Record<DamageSeverity, number> = {
+  none: 0,
+  minor: 1,
+  major: 2,
+  severe: 3,
+  massive: 4,
+};
+
+const SEVERITIES: DamageSeverity[] = ['none', 'minor', 'major', 'severe', 'massive'];
+
+/**
+ * Parse Major/Severe thresholds as written in stat blocks
+ *
+ * @param threshold - Thresholds text (e.g., "10 / 19", "10/19")
+ * @returns Thresholds, or null if there are none (e.g., "N/A" for Minions) or they can't be read
+ */
+export function parseDamageThresholds(threshold: string): DamageThresholds | null {
+  const match = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(threshold);
+  if (!match) {
+    return null;
+  }
+
+  const major = parseInt(match[1], 10);
+  const severe = parseInt(match[2], 10);
+  return major > 0 && severe >= major ? { major, severe } : null;
+}
+
+/**
+ * Format thresholds the way stat blocks write them (e.g., "10 / 19")
+ */
+export function formatDamageThresholds(thresholds: DamageThresholds): string {
+  return `${thresholds.major} / ${thresholds.severe}`;
+}
+
+/**
+ * Get the severity of a hit
+ *
+ * @param damage - Damage compared with the thresholds
+ * @param thresholds - Major and Severe thresholds
+ * @param massiveDamage - Use the optional massive damage rule (twice Severe marks 4 HP)
+ */
+export function getDamageSeverity(
+  damage: number,
+  thresholds: DamageThresholds,
+  massiveDamage: boolean = false
+): DamageSeverity {
+  if (damage <= 0) return 'none';
+  if (massiveDamage && damage >= thresholds.severe * 2) return 'massive';
+  if (damage >= thresholds.severe) return 'severe';
+  if (damage >= thresholds.major) return 'major';
+  return 'minor';
+}
+
+/**
+ * Get a display label for a severity (e.g., "Major")
+ */
+export function getDamageSeverityLabel(severity: DamageSeverity): string {
+  return severity === 'none' ? 'No damage' : severity.charAt(0).toUpperCase() + severity.slice(1);
+}
+
+/**
+ * Resolve damage against thresholds
+ * Immunity ignores the damage and resistance halves it before it is compared with the thresholds;
+ * each Armor Slot marked then reduces the HP marked by one
+ *
+ * @param damage - Damage total (e.g., a damage roll's total)
+ * @param thresholds - Major and Severe thresholds of whoever takes the damage
+ * @param options - Armor Slots, resistance, immunity and the massive damage rule
+ * @returns Severity and Hit Points marked
+ */
+export function resolveDamage(
+  damage: number,
+  thresholds: DamageThresholds,
+  options: DamageResolutionOptions = {}
+): DamageResolution {
+  const { armorSlots = 0, resistance = false, immunity = false, massiveDamage = false } = options;
+
+  const effectiveDamage = immunity ? 0 : resistance ? damage / 2 : damage;
+  const severity = getDamageSeverity(effectiveDamage, thresholds, massiveDamage);
+  const hitPointsBeforeArmor = HIT_POINTS_BY_SEVERITY[severity];
+  const armorSlotsUsed = Math.min(Math.max(0, Math.floor(armorSlots)), hitPointsBeforeArmor);
+
+  return {
+    damage,
+    effectiveDamage,
+    severity,
+    armorSlotsUsed,
+    hitPoints: hitPointsBeforeArmor - armorSlotsUsed,
+  };
+}
+
+/**
+ * Get the severity after Armor Slots (e.g., a Severe hit with one Armor Slot marks HP like a Major hit)
+ */
+export function getReducedDamageSeverity(resolution: DamageResolution): DamageSeverity {
+  return SEVERITIES[resolution.hitPoints];
+}
+
+/**
+ * Attach thresholds to a damage roll, so the dice card shows the Hit Points it marks
+ *
+ * @param result - Damage roll result
+ * @param thresholds - Thresholds of whoever takes the damage
+ * @param target - Who takes the damage (e.g., "Goblin")
+ */
+export function withDamageThresholds(
+  result: DiceRollResult,
+  thresholds: DamageThresholds,
+  target?: string
+): DamageRollResult {
+  return {
+    ...result,
+    damage: {
+      thresholds,
+      ...(target && { target })
+    }
+  };
+}
+
+/**
+ * Check whether a result is a damage roll against known thresholds
+ */
+export function isDamageRollResult(result: DiceRollResult | null | undefined): result is DamageRollResult {
+  return !!result && 'damage' in result && !!(result as DamageRollResult).damage?.thresholds;
+}
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for dice commands
+ */
+
+import { describeDiceCommand, parseDiceCommand, rollDiceCommand } from './dice-command';
+import { DEFAULT_DICE_CONFIG } from './dice-utils';
+import { DiceError } from '@/types/dice';
+
+const parseError = (input: string): DiceError => {
+  try {
+    parseDiceCommand(input);
+  } catch (error) {
+    return error as DiceError;
+  }
+  throw new Error(`Expected "${input}" to fail`);
+};
+
+describe('parseDiceCommand', () => {
+  test('reads the expression, roll type, target and context', () => {
+    expect(parseDiceCommand('2d12+3 adv vs 14 "Sneak"')).toEqual({
+      expression: '2d12+3',
+      rollType: 'advantage',
+      target: { value: 14, type: 'difficulty' },
+      context: 'Sneak',
+    });
+  });
+
+  test('accepts keywords in any order and spaces inside the expression', () => {
+    expect(parseDiceCommand("'Goblin attack' vs evasion 12 1d20 + 5 dis")).toEqual({
+      expression: '1d20+5',
+      rollType: 'disadvantage',
+      target: { value: 12, type: 'evasion' },
+      context: 'Goblin attack',
+    });
+    expect(parseDiceCommand('d20 dc15').target).toEqual({ value: 15, type: 'difficulty' });
+    expect(parseDiceCommand('d20 ev 11').target).toEqual({ value: 11, type: 'evasion' });
+    expect(parseDiceCommand('2d8+3 crit')).toEqual({ expression: '2d8+3', rollType: 'critical' });
+  });
+
+  test('rejects commands it cannot read', () => {
+    expect(parseError('adv "Sneak"').message).toMatch(/Type a dice expression/);
+    expect(parseError('d20 vs').message).toMatch(/needs a number/);
+    expect(parseError('2d8 crit adv').message).toMatch(/Critical can't be combined/);
+    expect(parseError('2d12+3 vs 14 vs 15').message).toMatch(/only one/);
+    expect(parseError('2x12 adv').type).toBe('INVALID_EXPRESSION');
+  });
+
+  test('stacks repeated advantage and disadvantage', () => {
+    expect(parseDiceCommand('1d20 adv adv dis')).toEqual({
+      expression: '1d20',
+      rollType: 'advantage',
+      rollTypeStack: { advantage: 2, disadvantage: 1 },
+    });
+    expect(parseDiceCommand('1d20 adv dis').rollType).toBe('normal');
+    expect(parseDiceCommand('1d20 adv').rollTypeStack).toBeUndefined();
+  });
+});
+
+describe('rollDiceCommand', () => {
+  test('rolls against the target', () => {
+    const result = rollDiceCommand(parseDiceCommand('1d20+2 vs 10'), { ...DEFAULT_DICE_CONFIG, random: () => 0.5 });
+
+    expect(result.total).toBe(13);
+    expect(result.evaluation).toMatchObject({ success: true, target: { value: 10, type: 'difficulty' } });
+  });
+
+  test('ignores critical for d20 rolls', () => {
+    expect(rollDiceCommand(parseDiceCommand('1d20 crit')).rollType).toBe('normal');
+    expect(rollDiceCommand(parseDiceCommand('2d8 crit')).rollType).toBe('critical');
+  });
+});
+
+describe('describeDiceCommand', () => {
+  test('summarizes the roll', () => {
+    expect(describeDiceCommand(parseDiceCommand('2d12+3 adv vs 14 "Sneak"'))).toBe('2d12+3 with advantage vs Difficulty 14 · Sneak');
+    expect(describeDiceCommand(parseDiceCommand('d6'))).toBe('d6');
+    expect(describeDiceCommand(parseDiceCommand('1d20 dis dis adv'))).toBe('1d20 with 1 advantage − 2 disadvantage = 1 disadvantage die');
+  });
+});
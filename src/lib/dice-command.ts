@@ -0,0 +1,164 @@
+/**
+ * Dice commands - rolls typed as one line in the command bar
+ * e.g., `2d12+3 adv vs 14 "Sneak"`, `1d20+5 vs evasion 12`, `2d8+3 crit 'Longsword'`, `1d20 adv adv dis`
+ */
+
+import { DiceCommand, DiceError, DiceRollConfig, DiceRollResult, RollTarget, RollTypeStack } from '@/types/dice';
+import {
+  canApplyCritical,
+  DEFAULT_DICE_CONFIG,
+  formatRollTarget,
+  formatRollTypeStack,
+  resolveRollTypeStack,
+  rollDiceExpression,
+  validateDiceExpression
+} from '@/lib/dice-utils';
+
+const ROLL_TYPE_KEYWORDS: Record<string, DiceCommand['rollType']> = {
+  adv: 'advantage',
+  advantage: 'advantage',
+  dis: 'disadvantage',
+  disadv: 'disadvantage',
+  disadvantage: 'disadvantage',
+  crit: 'critical',
+  critical: 'critical',
+};
+
+const TARGET_TYPE_KEYWORDS: Record<string, RollTarget['type']> = {
+  dc: 'difficulty',
+  difficulty: 'difficulty',
+  ev: 'evasion',
+  evasion: 'evasion',
+};
+
+// Quoted text is the context label: "double", 'single' or “curly” quotes
+const CONTEXT_PATTERN = /"([^"]*)"|'([^']*)'|“([^”]*)”/;
+
+/**
+ * Build the error thrown for a command that can't be read
+ */
+function commandError(message: string, input: string): DiceError {
+  return { type: 'INVALID_EXPRESSION', message, expression: input };
+}
+
+/**
+ * Read a typed dice command
+ *
+ * Anything that isn't a keyword or a quoted label is the dice expression, so spaces inside it are fine
+ * ("2d6 + 3"). Roll types: adv, dis, crit (or spelled out); repeat adv and dis to stack them, and they cancel
+ * one for one. Targets: "vs 14", "dc 14", "vs evasion 12", "ev 12".
+ *
+ * @param input - Command text (e.g., `2d12+3 adv vs 14 "Sneak"`)
+ * @param config - Optional configuration for dice limits
+ * @returns The command, with a validated expression
+ * @throws {DiceError} When the command has no valid expression or a keyword is missing its number
+ */
+export function parseDiceCommand(input: string, config: DiceRollConfig = DEFAULT_DICE_CONFIG): DiceCommand {
+  const contextMatch = CONTEXT_PATTERN.exec(input);
+  const context = contextMatch
+    ? (contextMatch[1] ?? contextMatch[2] ?? contextMatch[3]).trim()
+    : undefined;
+  const rest = contextMatch ? input.replace(contextMatch[0], ' ') : input;
+
+  const tokens = rest.trim().split(/\s+/).filter(Boolean);
+  const expressionParts: string[] = [];
+  const stack: RollTypeStack = { advantage: 0, disadvantage: 0 };
+  let critical = false;
+  let target: RollTarget | undefined;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i].toLowerCase();
+
+    const keyword = ROLL_TYPE_KEYWORDS[token];
+    if (keyword === 'critical') {
+      critical = true;
+      continue;
+    }
+    if (keyword === 'advantage' || keyword === 'disadvantage') {
+      stack[keyword]++;
+      continue;
+    }
+
+    // "vs 14", "vs14", "vs evasion 12", "dc 14", "ev 12"
+    const targetMatch = /^(vs\.?|dc|difficulty|ev|evasion)(\d*)$/.exec(token);
+    if (targetMatch) {
+      if (target) {
+        throw commandError('Use only one Difficulty or Evasion', input);
+      }
+      let type: RollTarget['type'] = TARGET_TYPE_KEYWORDS[targetMatch[1]] ?? 'difficulty';
+      let value = targetMatch[2];
+
+      if (!value && TARGET_TYPE_KEYWORDS[tokens[i + 1]?.toLowerCase()]) {
+        type = TARGET_TYPE_KEYWORDS[tokens[++i].toLowerCase()];
+      }
+      if (!value && /^\d+$/.test(tokens[i + 1] ?? '')) {
+        value = tokens[++i];
+      }
+      if (!value || parseInt(value, 10) < 1) {
+        throw commandError(`"${tokens[i]}" needs a number (e.g., vs 14)`, input);
+      }
+
+      target = { value: parseInt(value, 10), type };
+      continue;
+    }
+
+    expressionParts.push(tokens[i]);
+  }
+
+  const expression = expressionParts.join('');
+  if (!expression) {
+    throw commandError('Type a dice expression (e.g., 2d12+3 adv vs 14 "Sneak")', input);
+  }
+
+  const validation = validateDiceExpression(expression, config);
+  if (!validation.isValid) {
+    throw validation.error ?? commandError('Invalid dice expression', input);
+  }
+
+  const stackCount = stack.advantage + stack.disadvantage;
+  if (critical && stackCount > 0) {
+    throw commandError("Critical can't be combined with advantage or disadvantage", input);
+  }
+
+  return {
+    expression,
+    rollType: critical ? 'critical' : resolveRollTypeStack(stack).rollType,
+    // A single adv or dis is just the roll type; more than one is a stack
+    ...(stackCount > 1 && { rollTypeStack: stack }),
+    ...(target && { target }),
+    ...(context && { context }),
+  };
+}
+
+/**
+ * Roll a dice command
+ * Critical only applies to damage rolls, so it falls back to a normal roll for d20s, like the Dice Roller tool
+ *
+ * @param command - Parsed command
+ * @param config - Optional configuration for dice limits and randomness
+ */
+export function rollDiceCommand(command: DiceCommand, config: DiceRollConfig = DEFAULT_DICE_CONFIG): DiceRollResult {
+  if (command.rollTypeStack) {
+    return rollDiceExpression(command.expression, command.rollTypeStack, config, command.target);
+  }
+  const rollType = command.rollType === 'critical' && !canApplyCritical(command.expression) ? 'normal' : command.rollType;
+  return rollDiceExpression(command.expression, rollType, config, command.target);
+}
+
+/**
+ * Describe a command before it is rolled
+ *
+ * @returns Description such as "2d12+3 with advantage vs Difficulty 14 · Sneak"
+ */
+export function describeDiceCommand(command: DiceCommand): string {
+  const parts = [command.expression];
+  if (command.rollTypeStack) {
+    parts.push(`with ${formatRollTypeStack(command.rollTypeStack)}`);
+  } else if (command.rollType !== 'normal') {
+    parts.push(`with ${command.rollType}`);
+  }
+  if (command.target) {
+    parts.push(`vs ${formatRollTarget(command.target)}`);
+  }
+  return parts.join(' ') + (command.context ? ` · ${command.context}` : '');
+}
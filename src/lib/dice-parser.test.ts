@@ -0,0 +1,257 @@
+/**
+ * Unit tests for the dice notation tokenizer, parser and evaluator
+ */
+
+import {
+  tokenizeDiceExpression,
+  parseDiceNotation,
+  validateDiceNode,
+  lowerDiceNode,
+  collectDiceTerms,
+  getAdditiveModifier,
+  evaluateDiceNode,
+  getDiceNodeRange,
+  getDiceNodeAverage,
+  getDieValueProbabilities,
+  MAX_DIE_CHAIN,
+} from './dice-parser';
+
+import { DEFAULT_DICE_CONFIG } from './dice-utils';
+import { expectDiceError, sequence } from '@/test/helpers';
+
+describe('tokenizeDiceExpression', () => {
+  test('splits dice, modifiers, operators and parentheses', () => {
+    const tokens = tokenizeDiceExpression('(2d20kh1 + 3) * 2');
+
+    expect(tokens.map(token => token.type)).toEqual([
+      'paren', 'number', 'dice', 'number', 'modifier', 'number',
+      'operator', 'number', 'paren', 'operator', 'number',
+    ]);
+  });
+
+  test('distinguishes drop modifiers from dice', () => {
+    const tokens = tokenizeDiceExpression('4d6dl1');
+
+    expect(tokens[3]).toMatchObject({ type: 'modifier', value: 'dl' });
+  });
+
+  test('rejects unknown characters', () => {
+    expectDiceError(() => tokenizeDiceExpression('2d6+x'), 'INVALID_EXPRESSION');
+  });
+});
+
+describe('parseDiceNotation', () => {
+  test('parses keep, drop, explode and reroll modifiers', () => {
+    expect(parseDiceNotation('2d20kh1')).toMatchObject({
+      kind: 'dice',
+      modifiers: [{ type: 'keep', which: 'highest', count: 1 }],
+      notation: '2d20kh1',
+    });
+    expect(parseDiceNotation('4d6dl1')).toMatchObject({
+      modifiers: [{ type: 'drop', which: 'lowest', count: 1 }],
+    });
+    expect(parseDiceNotation('1d6!')).toMatchObject({ modifiers: [{ type: 'explode' }] });
+    expect(parseDiceNotation('2d8ro1')).toMatchObject({
+      modifiers: [{ type: 'reroll', threshold: 1, once: true }],
+    });
+  });
+
+  test('normalizes implied counts and shorthand in term notation', () => {
+    expect(parseDiceNotation('d20k1')).toMatchObject({ count: 1, notation: '1d20kh1' });
+  });
+
+  test('gives multiplication precedence over addition', () => {
+    expect(parseDiceNotation('1d6+2*3')).toMatchObject({
+      kind: 'binary',
+      operator: '+',
+      right: { kind: 'binary', operator: '*' },
+    });
+  });
+
+  test('parses parentheses and a leading sign', () => {
+    expect(parseDiceNotation('-(1d4+1)')).toMatchObject({
+      kind: 'negate',
+      operand: { kind: 'group' },
+    });
+  });
+
+  test('rejects malformed expressions', () => {
+    ['2d', 'd', '++5', '(1d6', '1d6)', '2d6kh', '1d6*', '1d6!!'].forEach(expression => {
+      expectDiceError(() => parseDiceNotation(expression), 'INVALID_EXPRESSION');
+    });
+  });
+
+  test('rejects reroll thresholds that could never stop', () => {
+    expectDiceError(() => parseDiceNotation('1d6r6'), 'INVALID_EXPRESSION');
+  });
+
+  test('reports invalid die counts and sides', () => {
+    expectDiceError(() => parseDiceNotation('0d6'), 'INVALID_DIE_COUNT');
+    expectDiceError(() => parseDiceNotation('2d1'), 'INVALID_DIE_SIDES');
+  });
+});
+
+describe('validateDiceNode', () => {
+  test('rejects keeping or dropping more dice than are rolled', () => {
+    expectDiceError(() => validateDiceNode(parseDiceNotation('2d20kh3'), DEFAULT_DICE_CONFIG, '2d20kh3'), 'INVALID_EXPRESSION');
+    expectDiceError(() => validateDiceNode(parseDiceNotation('2d20dl2'), DEFAULT_DICE_CONFIG, '2d20dl2'), 'INVALID_EXPRESSION');
+  });
+
+  test('enforces die size and constant limits', () => {
+    expectDiceError(() => validateDiceNode(parseDiceNotation('1d1000'), DEFAULT_DICE_CONFIG, '1d1000'), 'INVALID_DIE_SIDES');
+    expectDiceError(() => validateDiceNode(parseDiceNotation('1d6*5000'), DEFAULT_DICE_CONFIG, '1d6*5000'), 'MODIFIER_TOO_LARGE');
+  });
+});
+
+describe('lowerDiceNode', () => {
+  test('reduces plain sums and merges dice of the same size', () => {
+    expect(lowerDiceNode(parseDiceNotation('2d6+1d8+1d6+3-1'))).toEqual({
+      dice: [{ count: 3, sides: 6 }, { count: 1, sides: 8 }],
+      modifier: 2,
+    });
+  });
+
+  test('folds constant arithmetic', () => {
+    expect(lowerDiceNode(parseDiceNotation('1d6+(2*3)'))).toEqual({
+      dice: [{ count: 1, sides: 6 }],
+      modifier: 6,
+    });
+  });
+
+  test('keeps trees that cannot be rolled as a plain sum', () => {
+    ['2d20kh1', '1d20-1d6', '(1d8+2)*2'].forEach(expression => {
+      expect(lowerDiceNode(parseDiceNotation(expression))).toBeNull();
+    });
+  });
+});
+
+describe('collectDiceTerms and getAdditiveModifier', () => {
+  test('list terms in order and sum top-level constants', () => {
+    const ast = parseDiceNotation('2d20kh1+3-1d6+(1d4*2)');
+
+    expect(collectDiceTerms(ast)).toEqual([
+      { count: 2, sides: 20 },
+      { count: 1, sides: 6 },
+      { count: 1, sides: 4 },
+    ]);
+    expect(getAdditiveModifier(ast)).toBe(3);
+  });
+});
+
+describe('evaluateDiceNode', () => {
+  test('keeps the highest die and marks the other as dropped', () => {
+    const result = evaluateDiceNode(parseDiceNotation('2d20kh1+3'), sequence([7, 15]));
+
+    expect(result.value).toBe(18);
+    expect(result.rolls.map(roll => !!roll.discarded)).toEqual([true, false]);
+    expect(result.breakdown).toEqual([
+      { dieSpec: '2d20kh1', values: [7, 15], subtotal: 15, droppedIndices: [0] },
+    ]);
+  });
+
+  test('drops the lowest die', () => {
+    const result = evaluateDiceNode(parseDiceNotation('4d6dl1'), sequence([3, 1, 6, 4]));
+
+    expect(result.value).toBe(13);
+    expect(result.breakdown[0].droppedIndices).toEqual([1]);
+  });
+
+  test('explodes on the maximum face', () => {
+    const result = evaluateDiceNode(parseDiceNotation('1d6!'), sequence([6, 6, 2]));
+
+    expect(result.value).toBe(14);
+    expect(result.breakdown[0].values).toEqual([6, 6, 2]);
+  });
+
+  test('stops exploding at the chain limit', () => {
+    const result = evaluateDiceNode(parseDiceNotation('1d6!'), () => 6);
+
+    expect(result.rolls).toHaveLength(MAX_DIE_CHAIN + 1);
+  });
+
+  test('keeps exploded dice together when keeping the highest', () => {
+    const result = evaluateDiceNode(parseDiceNotation('2d6!kh1'), sequence([6, 3, 5]));
+
+    expect(result.value).toBe(9);
+    expect(result.breakdown[0].droppedIndices).toEqual([2]);
+  });
+
+  test('rerolls low results until they are above the threshold', () => {
+    const result = evaluateDiceNode(parseDiceNotation('2d8r1'), sequence([1, 1, 5, 3]));
+
+    expect(result.value).toBe(8);
+    expect(result.breakdown[0]).toEqual({
+      dieSpec: '2d8r1', values: [1, 1, 5, 3], subtotal: 8, droppedIndices: [0, 1],
+    });
+  });
+
+  test('rerolls only once with ro', () => {
+    const result = evaluateDiceNode(parseDiceNotation('1d8ro1'), sequence([1, 1]));
+
+    expect(result.value).toBe(1);
+    expect(result.rolls).toHaveLength(2);
+  });
+
+  test('multiplies and reports the substituted formula', () => {
+    const result = evaluateDiceNode(parseDiceNotation('(1d8+2)*2'), sequence([5]));
+
+    expect(result.value).toBe(14);
+    expect(result.formula).toBe('(5 + 2) × 2');
+  });
+
+  test('reports subtracted dice terms with negative subtotals', () => {
+    const result = evaluateDiceNode(parseDiceNotation('1d20-1d6'), sequence([12, 4]));
+
+    expect(result.value).toBe(8);
+    expect(result.breakdown.map(entry => [entry.dieSpec, entry.subtotal])).toEqual([
+      ['1d20', 12],
+      ['-1d6', -4],
+    ]);
+  });
+});
+
+describe('getDiceNodeRange', () => {
+  test('accounts for keep/drop, rerolls and subtraction', () => {
+    expect(getDiceNodeRange(parseDiceNotation('2d20kh1+3'))).toEqual({ min: 4, max: 23 });
+    expect(getDiceNodeRange(parseDiceNotation('2d8r1'))).toEqual({ min: 4, max: 16 });
+    expect(getDiceNodeRange(parseDiceNotation('1d20-1d6'))).toEqual({ min: -5, max: 19 });
+    expect(getDiceNodeRange(parseDiceNotation('(1d4+1)*2'))).toEqual({ min: 4, max: 10 });
+  });
+
+  test('reports exploding dice as unbounded', () => {
+    expect(getDiceNodeRange(parseDiceNotation('1d6!')).max).toBe(Infinity);
+  });
+});
+
+describe('getDiceNodeAverage', () => {
+  test('matches known averages for keep highest and lowest', () => {
+    // 2d20 keep highest averages 13.825, keep lowest 7.175
+    expect(getDiceNodeAverage(parseDiceNotation('2d20kh1'))).toBeCloseTo(13.825, 6);
+    expect(getDiceNodeAverage(parseDiceNotation('2d20kl1'))).toBeCloseTo(7.175, 6);
+  });
+
+  test('matches the average of 4d6 drop lowest', () => {
+    expect(getDiceNodeAverage(parseDiceNotation('4d6dl1'))).toBeCloseTo(15869 / 1296, 6);
+  });
+
+  test('averages exploding and rerolled dice', () => {
+    expect(getDiceNodeAverage(parseDiceNotation('1d6!'))).toBeCloseTo(4.2, 6);
+    expect(getDiceNodeAverage(parseDiceNotation('1d8r1'))).toBeCloseTo(5, 6);
+    expect(getDiceNodeAverage(parseDiceNotation('1d8ro1'))).toBeCloseTo(4.5 + 3.5 / 8, 6);
+  });
+
+  test('multiplies averages of independent terms', () => {
+    expect(getDiceNodeAverage(parseDiceNotation('(1d6+1)*2'))).toBeCloseTo(9, 6);
+  });
+});
+
+describe('getDieValueProbabilities', () => {
+  test('sums to one', () => {
+    ['', '!', 'r2', 'ro2', 'r2!'].forEach(suffix => {
+      const ast = parseDiceNotation(`1d6${suffix}`);
+      if (ast.kind !== 'dice') throw new Error('Expected a dice term');
+      const total = getDieValueProbabilities(6, ast.modifiers).reduce((sum, chance) => sum + chance, 0);
+      expect(total).toBeCloseTo(1, 9);
+    });
+  });
+});
@@ -0,0 +1,875 @@
+/**
+ * Tokenizer, parser and evaluator for dice notation
+ * Turns expressions like "2d20kh1+3", "1d6!" or "(2d8r1+2)*2" into a syntax tree
+ * that can be validated, rolled and analysed
+ */
+
+import {
+  DiceBreakdown,
+  DiceError,
+  DiceNode,
+  DiceRollConfig,
+  DiceTermModifier,
+  Die,
+  SingleRoll
+} from '@/types/dice';
+
+/**
+ * Upper bound on extra dice a single die may generate by exploding or rerolling,
+ * so a run of maximum rolls can never hang the roller
+ */
+export const MAX_DIE_CHAIN = 20;
+
+type DiceModifierToken = 'k' | 'kh' | 'kl' | 'dh' | 'dl' | 'r' | 'ro' | '!';
+
+/**
+ * Lexical token of a dice expression
+ */
+export type DiceToken =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'dice'; position: number }
+  | { type: 'modifier'; value: DiceModifierToken; position: number }
+  | { type: 'operator'; value: '+' | '-' | '*'; position: number }
+  | { type: 'paren'; value: '(' | ')'; position: number };
+
+/**
+ * Result of evaluating a syntax tree with real dice
+ */
+export interface DiceNodeEvaluation {
+  /** Final value of the expression */
+  value: number;
+  /** Every die rolled, including dropped and rerolled dice */
+  rolls: SingleRoll[];
+  /** One entry per dice term, in expression order */
+  breakdown: DiceBreakdown[];
+  /** Arithmetic with each dice term replaced by its subtotal */
+  formula: string;
+}
+
+/**
+ * Build an INVALID_EXPRESSION error for the given input
+ */
+function invalidExpression(message: string, expression: string): DiceError {
+  return {
+    type: 'INVALID_EXPRESSION',
+    message,
+    expression,
+  };
+}
+
+/**
+ * Split a dice expression into tokens
+ *
+ * @param expression - Raw dice expression
+ * @returns Tokens in source order (whitespace is skipped)
+ * @throws DiceError if the expression contains characters outside the notation
+ */
+export function tokenizeDiceExpression(expression: string): DiceToken[] {
+  const source = expression.toLowerCase();
+  const tokens: DiceToken[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position];
+    const next = source[position + 1];
+
+    if (/\s/.test(char)) {
+      position++;
+    } else if (/\d/.test(char)) {
+      const start = position;
+      while (position < source.length && /\d/.test(source[position])) {
+        position++;
+      }
+      tokens.push({ type: 'number', value: parseInt(source.slice(start, position), 10), position: start });
+    } else if (char === 'd' && (next === 'h' || next === 'l')) {
+      // "dh"/"dl" can never be die sides, so they are always drop modifiers
+      tokens.push({ type: 'modifier', value: next === 'h' ? 'dh' : 'dl', position });
+      position += 2;
+    } else if (char === 'd') {
+      tokens.push({ type: 'dice', position });
+      position++;
+    } else if (char === 'k') {
+      const value = next === 'h' || next === 'l' ? (`k${next}` as DiceModifierToken) : 'k';
+      tokens.push({ type: 'modifier', value, position });
+      position += value.length;
+    } else if (char === 'r') {
+      const value = next === 'o' ? 'ro' : 'r';
+      tokens.push({ type: 'modifier', value, position });
+      position += value.length;
+    } else if (char === '!') {
+      tokens.push({ type: 'modifier', value: '!', position });
+      position++;
+    } else if (char === '+' || char === '-' || char === '*') {
+      tokens.push({ type: 'operator', value: char, position });
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char, position });
+      position++;
+    } else {
+      throw invalidExpression(`Unexpected character "${char}" at position ${position + 1}`, expression);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a dice expression into a syntax tree
+ *
+ * Grammar:
+ *   expression := [+|-] term (("+" | "-") term)*
+ *   term       := factor ("*" factor)*
+ *   factor     := NUMBER | [NUMBER] "d" NUMBER modifier* | "(" expression ")"
+ *   modifier   := ("k" | "kh" | "kl" | "dh" | "dl" | "r" | "ro") NUMBER | "!"
+ *
+ * @param expression - Raw dice expression
+ * @returns Root node of the syntax tree
+ * @throws DiceError if the expression is malformed
+ */
+export function parseDiceNotation(expression: string): DiceNode {
+  const tokens = tokenizeDiceExpression(expression);
+  let index = 0;
+
+  if (tokens.length === 0) {
+    throw invalidExpression('Empty or invalid dice expression', expression);
+  }
+
+  const peek = (): DiceToken | undefined => tokens[index];
+
+  const unexpected = (token: DiceToken | undefined): DiceError => invalidExpression(
+    token ? `Unexpected token at position ${token.position + 1}` : 'Unexpected end of expression',
+    expression
+  );
+
+  const expectNumber = (): number => {
+    const token = tokens[index];
+    if (token?.type !== 'number') {
+      throw unexpected(token);
+    }
+    index++;
+    return token.value;
+  };
+
+  const parseModifiers = (sides: number): DiceTermModifier[] => {
+    const modifiers: DiceTermModifier[] = [];
+
+    for (let token = peek(); token?.type === 'modifier'; token = peek()) {
+      index++;
+      switch (token.value) {
+        case '!':
+          modifiers.push({ type: 'explode' });
+          break;
+        case 'k':
+        case 'kh':
+          modifiers.push({ type: 'keep', which: 'highest', count: expectNumber() });
+          break;
+        case 'kl':
+          modifiers.push({ type: 'keep', which: 'lowest', count: expectNumber() });
+          break;
+        case 'dh':
+          modifiers.push({ type: 'drop', which: 'highest', count: expectNumber() });
+          break;
+        case 'dl':
+          modifiers.push({ type: 'drop', which: 'lowest', count: expectNumber() });
+          break;
+        case 'r':
+        case 'ro':
+          modifiers.push({ type: 'reroll', threshold: expectNumber(), once: token.value === 'ro' });
+          break;
+      }
+    }
+
+    validateTermModifiers(modifiers, sides, expression);
+    return modifiers;
+  };
+
+  const parseDiceTerm = (count: number, countText: string): DiceNode => {
+    index++; // consume "d"
+    const sides = expectNumber();
+
+    if (count < 1) {
+      throw {
+        type: 'INVALID_DIE_COUNT',
+        message: `Invalid die count: ${countText}`,
+        count,
+      } as DiceError;
+    }
+
+    if (sides < 2) {
+      throw {
+        type: 'INVALID_DIE_SIDES',
+        message: `Invalid die sides: ${sides}. Must be at least 2.`,
+        sides,
+      } as DiceError;
+    }
+
+    const modifiers = parseModifiers(sides);
+
+    return {
+      kind: 'dice',
+      count,
+      sides,
+      modifiers,
+      notation: `${count}d${sides}${modifiers.map(formatTermModifier).join('')}`,
+    };
+  };
+
+  const parseFactor = (): DiceNode => {
+    const token = peek();
+
+    if (token?.type === 'number') {
+      index++;
+      if (peek()?.type === 'dice') {
+        return parseDiceTerm(token.value, String(token.value));
+      }
+      return { kind: 'number', value: token.value };
+    }
+
+    if (token?.type === 'dice') {
+      return parseDiceTerm(1, '(empty)');
+    }
+
+    if (token?.type === 'paren' && token.value === '(') {
+      index++;
+      const inner = parseExpression();
+      const closing = peek();
+      if (closing?.type !== 'paren' || closing.value !== ')') {
+        throw unexpected(closing);
+      }
+      index++;
+      return { kind: 'group', expression: inner };
+    }
+
+    throw unexpected(token);
+  };
+
+  const parseTerm = (): DiceNode => {
+    let node = parseFactor();
+
+    for (let token = peek(); token?.type === 'operator' && token.value === '*'; token = peek()) {
+      index++;
+      node = { kind: 'binary', operator: '*', left: node, right: parseFactor() };
+    }
+
+    return node;
+  };
+
+  function parseExpression(): DiceNode {
+    // A single leading sign is allowed; chains like "++5" are rejected
+    const sign = peek();
+    let node: DiceNode;
+
+    if (sign?.type === 'operator' && sign.value !== '*') {
+      index++;
+      const operand = parseTerm();
+      node = sign.value === '-' ? { kind: 'negate', operand } : operand;
+    } else {
+      node = parseTerm();
+    }
+
+    for (let token = peek(); token?.type === 'operator' && token.value !== '*'; token = peek()) {
+      index++;
+      node = { kind: 'binary', operator: token.value, left: node, right: parseTerm() };
+    }
+
+    return node;
+  }
+
+  const root = parseExpression();
+
+  if (index < tokens.length) {
+    throw unexpected(tokens[index]);
+  }
+
+  return root;
+}
+
+/**
+ * Get the canonical notation of a dice term modifier (e.g., "kh1", "!", "ro1")
+ */
+function formatTermModifier(modifier: DiceTermModifier): string {
+  switch (modifier.type) {
+    case 'keep': return `k${modifier.which === 'highest' ? 'h' : 'l'}${modifier.count}`;
+    case 'drop': return `d${modifier.which === 'highest' ? 'h' : 'l'}${modifier.count}`;
+    case 'explode': return '!';
+    case 'reroll': return `${modifier.once ? 'ro' : 'r'}${modifier.threshold}`;
+  }
+}
+
+/**
+ * Check that the modifiers on a dice term can be combined and applied
+ */
+function validateTermModifiers(modifiers: DiceTermModifier[], sides: number, expression: string): void {
+  const selections = modifiers.filter(modifier => modifier.type === 'keep' || modifier.type === 'drop');
+  const rerolls = modifiers.filter(modifier => modifier.type === 'reroll');
+  const explosions = modifiers.filter(modifier => modifier.type === 'explode');
+
+  if (selections.length > 1 || rerolls.length > 1 || explosions.length > 1) {
+    throw invalidExpression('Each dice term may use at most one keep/drop, reroll and explode modifier', expression);
+  }
+
+  for (const reroll of rerolls) {
+    if (reroll.type === 'reroll' && (reroll.threshold < 1 || reroll.threshold >= sides)) {
+      throw invalidExpression(`Reroll threshold must be between 1 and ${sides - 1}`, expression);
+    }
+  }
+}
+
+/**
+ * Validate a syntax tree against the configured limits
+ *
+ * @param node - Root of the syntax tree
+ * @param config - Dice configuration for limits
+ * @param expression - Original expression, for error reporting
+ * @throws DiceError if any dice term or constant is out of range
+ */
+export function validateDiceNode(node: DiceNode, config: DiceRollConfig, expression: string): void {
+  switch (node.kind) {
+    case 'number':
+      if (node.value > config.maxModifier) {
+        throw {
+          type: 'MODIFIER_TOO_LARGE',
+          message: `Modifier ${node.value} exceeds maximum allowed ±${config.maxModifier}`,
+          modifier: node.value,
+        } as DiceError;
+      }
+      return;
+
+    case 'dice':
+      if (node.sides > config.maxDieSides) {
+        throw {
+          type: 'INVALID_DIE_SIDES',
+          message: `Die sides ${node.sides} exceeds maximum allowed ${config.maxDieSides}`,
+          sides: node.sides,
+        } as DiceError;
+      }
+      for (const modifier of node.modifiers) {
+        if (modifier.type === 'keep' && (modifier.count < 1 || modifier.count > node.count)) {
+          throw invalidExpression(`Cannot keep ${modifier.count} of ${node.count} dice`, expression);
+        }
+        if (modifier.type === 'drop' && (modifier.count < 1 || modifier.count >= node.count)) {
+          throw invalidExpression(`Cannot drop ${modifier.count} of ${node.count} dice`, expression);
+        }
+      }
+      return;
+
+    case 'binary':
+      validateDiceNode(node.left, config, expression);
+      validateDiceNode(node.right, config, expression);
+      return;
+
+    case 'negate':
+      validateDiceNode(node.operand, config, expression);
+      return;
+
+    case 'group':
+      validateDiceNode(node.expression, config, expression);
+      return;
+  }
+}
+
+/**
+ * Check whether a subtree contains any dice
+ */
+function containsDice(node: DiceNode): boolean {
+  switch (node.kind) {
+    case 'number': return false;
+    case 'dice': return true;
+    case 'binary': return containsDice(node.left) || containsDice(node.right);
+    case 'negate': return containsDice(node.operand);
+    case 'group': return containsDice(node.expression);
+  }
+}
+
+/**
+ * Evaluate a subtree that contains no dice
+ */
+function evaluateConstant(node: DiceNode): number {
+  switch (node.kind) {
+    case 'number': return node.value;
+    case 'dice': return 0;
+    case 'negate': return -evaluateConstant(node.operand);
+    case 'group': return evaluateConstant(node.expression);
+    case 'binary': {
+      const left = evaluateConstant(node.left);
+      const right = evaluateConstant(node.right);
+      if (node.operator === '*') return left * right;
+      return node.operator === '+' ? left + right : left - right;
+    }
+  }
+}
+
+/**
+ * Reduce a syntax tree to a plain sum of dice and a modifier, when possible
+ *
+ * Dice of the same size are merged in order of first appearance, so "2d6+1d6+3"
+ * becomes 3d6 with a +3 modifier. Trees that use term modifiers, subtract dice or
+ * multiply dice cannot be reduced.
+ *
+ * @param node - Root of the syntax tree
+ * @returns Dice and modifier, or null if the tree must be evaluated directly
+ */
+export function lowerDiceNode(node: DiceNode): { dice: Die[]; modifier: number } | null {
+  if (!containsDice(node)) {
+    return { dice: [], modifier: evaluateConstant(node) };
+  }
+
+  switch (node.kind) {
+    case 'dice':
+      return node.modifiers.length === 0
+        ? { dice: [{ count: node.count, sides: node.sides }], modifier: 0 }
+        : null;
+
+    case 'group':
+      return lowerDiceNode(node.expression);
+
+    case 'binary': {
+      if (node.operator === '*' || (node.operator === '-' && containsDice(node.right))) {
+        return null;
+      }
+      const left = lowerDiceNode(node.left);
+      const right = lowerDiceNode(node.right);
+      if (!left || !right) {
+        return null;
+      }
+      return node.operator === '+'
+        ? { dice: mergeDice(left.dice, right.dice), modifier: left.modifier + right.modifier }
+        : { dice: left.dice, modifier: left.modifier - right.modifier };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Merge two dice lists, combining dice of the same size
+ */
+function mergeDice(left: Die[], right: Die[]): Die[] {
+  const merged = left.map(die => ({ ...die }));
+
+  for (const die of right) {
+    const existing = merged.find(candidate => candidate.sides === die.sides);
+    if (existing) {
+      existing.count += die.count;
+    } else {
+      merged.push({ ...die });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * List every dice term in a syntax tree, in expression order
+ *
+ * @param node - Root of the syntax tree
+ * @returns One Die per dice term (terms are not merged)
+ */
+export function collectDiceTerms(node: DiceNode): Die[] {
+  switch (node.kind) {
+    case 'number': return [];
+    case 'dice': return [{ count: node.count, sides: node.sides }];
+    case 'binary': return [...collectDiceTerms(node.left), ...collectDiceTerms(node.right)];
+    case 'negate': return collectDiceTerms(node.operand);
+    case 'group': return collectDiceTerms(node.expression);
+  }
+}
+
+/**
+ * Sum the constants that are added or subtracted at the top level of an expression
+ * (e.g., +3 in "2d20kh1+3"). Constants inside a multiplication are not included.
+ *
+ * @param node - Root of the syntax tree
+ * @returns Flat modifier of the expression
+ */
+export function getAdditiveModifier(node: DiceNode): number {
+  if (!containsDice(node)) {
+    return evaluateConstant(node);
+  }
+
+  switch (node.kind) {
+    case 'binary':
+      if (node.operator === '*') return 0;
+      return node.operator === '+'
+        ? getAdditiveModifier(node.left) + getAdditiveModifier(node.right)
+        : getAdditiveModifier(node.left) - getAdditiveModifier(node.right);
+    case 'negate':
+      return -getAdditiveModifier(node.operand);
+    case 'group':
+      return getAdditiveModifier(node.expression);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Check whether a syntax tree multiplies anything that involves dice
+ */
+export function hasDiceMultiplication(node: DiceNode): boolean {
+  switch (node.kind) {
+    case 'binary':
+      if (node.operator === '*' && containsDice(node)) return true;
+      return hasDiceMultiplication(node.left) || hasDiceMultiplication(node.right);
+    case 'negate': return hasDiceMultiplication(node.operand);
+    case 'group': return hasDiceMultiplication(node.expression);
+    default: return false;
+  }
+}
+
+/**
+ * Count the operators in a syntax tree, for complexity limits
+ */
+export function countOperators(node: DiceNode): number {
+  switch (node.kind) {
+    case 'binary': return 1 + countOperators(node.left) + countOperators(node.right);
+    case 'negate': return 1 + countOperators(node.operand);
+    case 'group': return countOperators(node.expression);
+    default: return 0;
+  }
+}
+
+/**
+ * Roll a syntax tree with real dice
+ *
+ * @param node - Root of the syntax tree
+ * @param rollDie - Returns a random value from 1 to sides
+ * @returns Value, individual rolls, per-term breakdown and substituted formula
+ */
+export function evaluateDiceNode(
+  node: DiceNode,
+  rollDie: (sides: number) => number
+): DiceNodeEvaluation {
+  const rolls: SingleRoll[] = [];
+  const breakdown: DiceBreakdown[] = [];
+
+  // sign tracks whether a term is added or subtracted at the top level;
+  // inside a multiplication it is reset so subtotals stay as rolled
+  const visit = (current: DiceNode, sign: 1 | -1): { value: number; formula: string } => {
+    switch (current.kind) {
+      case 'number':
+        return { value: current.value, formula: String(current.value) };
+
+      case 'dice': {
+        const term = rollDiceTerm(current, rollDie);
+        rolls.push(...term.rolls);
+        breakdown.push({
+          dieSpec: sign === 1 ? current.notation : `-${current.notation}`,
+          values: term.rolls.map(roll => roll.value),
+          subtotal: sign * term.value,
+          ...(term.droppedIndices.length > 0 && { droppedIndices: term.droppedIndices }),
+        });
+        return { value: term.value, formula: String(term.value) };
+      }
+
+      case 'group': {
+        const inner = visit(current.expression, sign);
+        return { value: inner.value, formula: `(${inner.formula})` };
+      }
+
+      case 'negate': {
+        const operand = visit(current.operand, sign === 1 ? -1 : 1);
+        return { value: -operand.value, formula: `-${operand.formula}` };
+      }
+
+      case 'binary': {
+        if (current.operator === '*') {
+          const left = visit(current.left, 1);
+          const right = visit(current.right, 1);
+          return { value: left.value * right.value, formula: `${left.formula} × ${right.formula}` };
+        }
+        const left = visit(current.left, sign);
+        const rightSign = current.operator === '+' ? sign : (sign === 1 ? -1 : 1);
+        const right = visit(current.right, rightSign);
+        return {
+          value: current.operator === '+' ? left.value + right.value : left.value - right.value,
+          formula: `${left.formula} ${current.operator} ${right.formula}`,
+        };
+      }
+    }
+  };
+
+  const { value, formula } = visit(node, 1);
+  return { value, rolls, breakdown, formula };
+}
+
+/**
+ * Roll one dice term, applying rerolls, explosions and keep/drop
+ */
+function rollDiceTerm(
+  node: Extract<DiceNode, { kind: 'dice' }>,
+  rollDie: (sides: number) => number
+): { value: number; rolls: SingleRoll[]; droppedIndices: number[] } {
+  const reroll = node.modifiers.find(modifier => modifier.type === 'reroll');
+  const explodes = node.modifiers.some(modifier => modifier.type === 'explode');
+  const selection = node.modifiers.find(modifier => modifier.type === 'keep' || modifier.type === 'drop');
+
+  const rolls: SingleRoll[] = [];
+  // Each die keeps the indices of its rolls that count, so explosions stay with their die
+  const groups: { total: number; indices: number[] }[] = [];
+
+  const pushRoll = (value: number, discarded = false): number => {
+    rolls.push({
+      value,
+      sides: node.sides,
+      isCritical: value === node.sides,
+      ...(discarded && { discarded }),
+    });
+    return rolls.length - 1;
+  };
+
+  for (let i = 0; i < node.count; i++) {
+    let value = rollDie(node.sides);
+
+    if (reroll?.type === 'reroll') {
+      for (let attempt = 0; value <= reroll.threshold && attempt < MAX_DIE_CHAIN; attempt++) {
+        pushRoll(value, true);
+        value = rollDie(node.sides);
+        if (reroll.once) break;
+      }
+    }
+
+    const group = { total: value, indices: [pushRoll(value)] };
+
+    if (explodes) {
+      for (let explosion = 0; value === node.sides && explosion < MAX_DIE_CHAIN; explosion++) {
+        value = rollDie(node.sides);
+        group.total += value;
+        group.indices.push(pushRoll(value));
+      }
+    }
+
+    groups.push(group);
+  }
+
+  if (selection && (selection.type === 'keep' || selection.type === 'drop')) {
+    const keepCount = selection.type === 'keep' ? selection.count : groups.length - selection.count;
+    const keepHighest = (selection.type === 'keep') === (selection.which === 'highest');
+    const ranked = [...groups].sort((a, b) => keepHighest ? b.total - a.total : a.total - b.total);
+
+    for (const group of ranked.slice(keepCount)) {
+      for (const rollIndex of group.indices) {
+        rolls[rollIndex] = { ...rolls[rollIndex], discarded: true };
+      }
+    }
+  }
+
+  const droppedIndices: number[] = [];
+  let value = 0;
+  rolls.forEach((roll, rollIndex) => {
+    if (roll.discarded) {
+      droppedIndices.push(rollIndex);
+    } else {
+      value += roll.value;
+    }
+  });
+
+  return { value, rolls, droppedIndices };
+}
+
+/**
+ * Get the theoretical minimum and maximum values of a syntax tree
+ * Exploding dice have no upper bound and report Infinity
+ *
+ * @param node - Root of the syntax tree
+ * @returns Object with min and max possible values
+ */
+export function getDiceNodeRange(node: DiceNode): { min: number; max: number } {
+  switch (node.kind) {
+    case 'number':
+      return { min: node.value, max: node.value };
+
+    case 'dice': {
+      const reroll = node.modifiers.find(modifier => modifier.type === 'reroll');
+      const selection = node.modifiers.find(modifier => modifier.type === 'keep' || modifier.type === 'drop');
+      const explodes = node.modifiers.some(modifier => modifier.type === 'explode');
+
+      let counted = node.count;
+      if (selection?.type === 'keep') counted = selection.count;
+      if (selection?.type === 'drop') counted = node.count - selection.count;
+
+      // Rerolling until above the threshold raises the floor; a single reroll can still land low
+      const dieMin = reroll?.type === 'reroll' && !reroll.once ? reroll.threshold + 1 : 1;
+      return {
+        min: counted * dieMin,
+        max: explodes ? Infinity : counted * node.sides,
+      };
+    }
+
+    case 'group':
+      return getDiceNodeRange(node.expression);
+
+    case 'negate': {
+      const range = getDiceNodeRange(node.operand);
+      return { min: -range.max, max: -range.min };
+    }
+
+    case 'binary': {
+      const left = getDiceNodeRange(node.left);
+      const right = getDiceNodeRange(node.right);
+
+      if (node.operator === '+') {
+        return { min: left.min + right.min, max: left.max + right.max };
+      }
+      if (node.operator === '-') {
+        return { min: left.min - right.max, max: left.max - right.min };
+      }
+
+      const products = [
+        multiplyBounds(left.min, right.min),
+        multiplyBounds(left.min, right.max),
+        multiplyBounds(left.max, right.min),
+        multiplyBounds(left.max, right.max),
+      ];
+      return { min: Math.min(...products), max: Math.max(...products) };
+    }
+  }
+}
+
+/**
+ * Multiply two range bounds, treating 0 × Infinity as 0
+ */
+function multiplyBounds(a: number, b: number): number {
+  return a === 0 || b === 0 ? 0 : a * b;
+}
+
+/**
+ * Get the exact expected value of a syntax tree
+ *
+ * @param node - Root of the syntax tree
+ * @returns Expected average value
+ */
+export function getDiceNodeAverage(node: DiceNode): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'dice':
+      return getDiceTermAverage(node);
+    case 'group':
+      return getDiceNodeAverage(node.expression);
+    case 'negate':
+      return -getDiceNodeAverage(node.operand);
+    case 'binary': {
+      const left = getDiceNodeAverage(node.left);
+      const right = getDiceNodeAverage(node.right);
+      if (node.operator === '+') return left + right;
+      if (node.operator === '-') return left - right;
+      // Both sides roll different dice, so they are independent and E[XY] = E[X]E[Y]
+      return left * right;
+    }
+  }
+}
+
+/**
+ * Get the probability of each value of a single die in a dice term,
+ * after rerolls and explosions but before keep/drop
+ *
+ * @param sides - Number of sides on the die
+ * @param modifiers - Modifiers of the dice term
+ * @returns Array where index is the die value and entry is its probability
+ */
+export function getDieValueProbabilities(sides: number, modifiers: DiceTermModifier[]): number[] {
+  const reroll = modifiers.find(modifier => modifier.type === 'reroll');
+  const explodes = modifiers.some(modifier => modifier.type === 'explode');
+
+  // Value of the first face roll, after any rerolls
+  const base: number[] = new Array(sides + 1).fill(0);
+  for (let face = 1; face <= sides; face++) {
+    base[face] = 1 / sides;
+  }
+
+  if (reroll?.type === 'reroll') {
+    const rerollChance = reroll.threshold / sides;
+    // Rerolling until above the threshold is uniform over the remaining faces
+    const keptFaceChance = reroll.once
+      ? 1 / sides + rerollChance / sides
+      : 1 / (sides - reroll.threshold);
+    for (let face = 1; face <= sides; face++) {
+      base[face] = face <= reroll.threshold
+        ? (reroll.once ? rerollChance / sides : 0)
+        : keptFaceChance;
+    }
+  }
+
+  if (!explodes) {
+    return base;
+  }
+
+  // Each maximum face adds another (unrerolled) die, up to the chain limit
+  const probabilities: number[] = new Array(sides * (MAX_DIE_CHAIN + 1) + 1).fill(0);
+  let chainChance = 1;
+  for (let depth = 0; depth <= MAX_DIE_CHAIN; depth++) {
+    const offset = depth * sides;
+    for (let face = 1; face <= sides; face++) {
+      const faceChance = depth === 0 ? base[face] : 1 / sides;
+      if (face < sides || depth === MAX_DIE_CHAIN) {
+        probabilities[offset + face] += chainChance * faceChance;
+      }
+    }
+    chainChance *= depth === 0 ? base[sides] : 1 / sides;
+  }
+
+  return probabilities;
+}
+
+/**
+ * Expected value of a single dice term, including keep/drop
+ */
+function getDiceTermAverage(node: Extract<DiceNode, { kind: 'dice' }>): number {
+  const probabilities = getDieValueProbabilities(node.sides, node.modifiers);
+  const dieAverage = probabilities.reduce((sum, chance, value) => sum + chance * value, 0);
+  const selection = node.modifiers.find(modifier => modifier.type === 'keep' || modifier.type === 'drop');
+
+  if (!selection || (selection.type !== 'keep' && selection.type !== 'drop')) {
+    return node.count * dieAverage;
+  }
+
+  const keepCount = selection.type === 'keep' ? selection.count : node.count - selection.count;
+  const keepHighest = (selection.type === 'keep') === (selection.which === 'highest');
+
+  // The lowest k dice are everything except the highest n-k
+  return keepHighest
+    ? getTopDiceAverage(probabilities, node.count, keepCount)
+    : node.count * dieAverage - getTopDiceAverage(probabilities, node.count, node.count - keepCount);
+}
+
+/**
+ * Expected sum of the highest k of n independent dice
+ *
+ * Uses E[X] = Σ P(X ≥ x) on each order statistic: the i-th highest die is at
+ * least x exactly when at least i dice are at least x.
+ */
+function getTopDiceAverage(probabilities: number[], count: number, keep: number): number {
+  let average = 0;
+  let atLeast = 1; // P(die ≥ x), starting at x = 1
+
+  for (let value = 1; value < probabilities.length; value++) {
+    if (atLeast <= 0) break;
+
+    const binomial = getBinomialProbabilities(count, Math.min(atLeast, 1));
+    // Σ over i ≤ k of P(at least i dice ≥ x) = Σ_j P(j dice ≥ x) · min(j, k)
+    average += binomial.reduce((sum, chance, successes) => sum + chance * Math.min(successes, keep), 0);
+
+    atLeast -= probabilities[value];
+  }
+
+  return average;
+}
+
+/**
+ * Probability of each number of successes in n independent trials
+ */
+function getBinomialProbabilities(trials: number, chance: number): number[] {
+  let distribution = [1];
+
+  for (let trial = 0; trial < trials; trial++) {
+    const next: number[] = new Array(distribution.length + 1).fill(0);
+    distribution.forEach((probability, successes) => {
+      next[successes] += probability * (1 - chance);
+      next[successes + 1] += probability * chance;
+    });
+    distribution = next;
+  }
+
+  return distribution;
+}
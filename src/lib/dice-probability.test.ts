@@ -0,0 +1,201 @@
+/**
+ * Unit tests for exact dice probability distributions
+ */
+
+import {
+  getDiceDistribution,
+  getProbabilityOf,
+  getProbabilityAtLeast,
+  getDistributionPercentile,
+  getSuccessChance,
+  getDualityResolutionChances,
+  getRollSuccessChance,
+  getDistributionHistogram,
+  getSampledDistribution,
+  formatProbability,
+} from './dice-probability';
+
+import { rollDualityDice, rollDiceExpression, DEFAULT_DICE_CONFIG } from './dice-utils';
+import { createSeededRandom } from './random';
+
+// Distributions these tests build are always small enough to work out
+const exact = (...args: Parameters<typeof getDiceDistribution>) => getDiceDistribution(...args)!;
+
+const total = (probabilities: number[]) => probabilities.reduce((sum, chance) => sum + chance, 0);
+
+describe('getDiceDistribution', () => {
+  test('builds the triangular distribution of 2d6', () => {
+    const distribution = exact('2d6');
+
+    expect(distribution.min).toBe(2);
+    expect(distribution.max).toBe(12);
+    expect(getProbabilityOf(distribution, 7)).toBeCloseTo(6 / 36);
+    expect(getProbabilityOf(distribution, 2)).toBeCloseTo(1 / 36);
+    expect(distribution.mean).toBeCloseTo(7);
+    expect(total(distribution.probabilities)).toBeCloseTo(1);
+  });
+
+  test('shifts by the modifier and handles subtraction', () => {
+    expect(exact('1d20+5').min).toBe(6);
+
+    const difference = exact('1d6-1d4');
+    expect(difference.min).toBe(-3);
+    expect(difference.max).toBe(5);
+    expect(difference.mean).toBeCloseTo(1);
+  });
+
+  test('applies advantage, disadvantage and critical like the roller', () => {
+    expect(exact('1d20', 'advantage').mean).toBeCloseTo(14);
+    expect(exact('1d20', 'disadvantage').min).toBe(-5);
+    expect(exact('2d8+2', 'critical')).toMatchObject({ min: 20, max: 34 });
+  });
+
+  test('keeps only the highest d6 of stacked advantage or disadvantage', () => {
+    // The highest of three d6s averages 4.96
+    expect(exact('1d20', { advantage: 3, disadvantage: 0 }).mean).toBeCloseTo(10.5 + 1071 / 216);
+    expect(exact('1d20', { advantage: 1, disadvantage: 3 })).toMatchObject({ min: -5, max: 19 });
+    expect(exact('1d20', { advantage: 2, disadvantage: 2 })).toEqual(exact('1d20'));
+  });
+
+  test('handles keep highest and drop lowest', () => {
+    const keepHighest = exact('2d20kh1');
+    // P(max of two d20 = 20) = 39/400
+    expect(getProbabilityOf(keepHighest, 20)).toBeCloseTo(39 / 400);
+    expect(keepHighest.mean).toBeCloseTo(13.825);
+
+    const abilityScore = exact('4d6dl1');
+    expect(abilityScore).toMatchObject({ min: 3, max: 18 });
+    expect(getProbabilityOf(abilityScore, 18)).toBeCloseTo(21 / 1296);
+    expect(abilityScore.mean).toBeCloseTo(12.2446, 3);
+  });
+
+  test('handles rerolls, exploding dice and multiplication', () => {
+    expect(exact('1d6r1').min).toBe(2);
+    expect(exact('1d6!').mean).toBeCloseTo(4.2);
+    expect(getProbabilityOf(exact('1d6!'), 6)).toBe(0);
+
+    const doubled = exact('(1d4+1)*2');
+    expect(doubled.probabilities.filter(chance => chance > 0)).toHaveLength(4);
+    expect(getProbabilityOf(doubled, 5)).toBe(0);
+    expect(doubled.mean).toBeCloseTo(7);
+  });
+
+  test('throws a DiceError for invalid expressions', () => {
+    expect(() => getDiceDistribution('banana')).toThrow();
+  });
+
+  test('gives up on expressions too heavy to work out exactly', () => {
+    expect(getDiceDistribution('(3d20!)*(3d20!)')).toBeNull();
+    expect(getDiceDistribution('(5d100!)*(5d100!)')).toBeNull();
+    expect(getDiceDistribution('20d100!')).toBeNull();
+    expect(getSuccessChance('(2d100!)*(2d100!)', 50)).toBeNull();
+    expect(exact('5d100!').mean).toBeCloseTo(5 * 50.5 * 100 / 99, 1);
+  });
+});
+
+describe('getSampledDistribution', () => {
+  test('uses the share of sampled rolls for each total', () => {
+    const sampled = getSampledDistribution([2, 4, 4, 7]);
+
+    expect(sampled).toMatchObject({ min: 2, max: 7, mean: 4.25 });
+    expect(getProbabilityOf(sampled, 4)).toBe(0.5);
+    expect(getProbabilityOf(sampled, 3)).toBe(0);
+  });
+});
+
+describe('distribution queries', () => {
+  const d20 = exact('1d20');
+
+  test('getProbabilityAtLeast sums the upper tail', () => {
+    expect(getProbabilityAtLeast(d20, 11)).toBeCloseTo(0.5);
+    expect(getProbabilityAtLeast(d20, 1)).toBe(1);
+    expect(getProbabilityAtLeast(d20, 21)).toBe(0);
+  });
+
+  test('getDistributionPercentile finds the median and extremes', () => {
+    expect(getDistributionPercentile(d20, 50)).toBe(10);
+    expect(getDistributionPercentile(d20, 0)).toBe(1);
+    expect(getDistributionPercentile(d20, 100)).toBe(20);
+  });
+});
+
+describe('getSuccessChance', () => {
+  test('counts a natural 20 as a success', () => {
+    expect(getSuccessChance('1d20+2', 14)).toBeCloseTo(0.45);
+    // Only a natural 20 can meet Difficulty 30
+    expect(getSuccessChance('1d20+2', 30)).toBeCloseTo(0.05);
+  });
+
+  test('follows stacked advantage', () => {
+    expect(getSuccessChance('1d20', 20, { advantage: 3, disadvantage: 0 })).toBeCloseTo(0.298, 3);
+    expect(getSuccessChance('1d20', 20, { advantage: 1, disadvantage: 0 })).toBeCloseTo(getSuccessChance('1d20', 20, 'advantage')!);
+  });
+
+  test('uses only the total without a single d20 base die', () => {
+    expect(getSuccessChance('2d6', 13)).toBe(0);
+    expect(getSuccessChance('2d6', 12)).toBeCloseTo(1 / 36);
+  });
+});
+
+describe('Duality Dice odds', () => {
+  test('resolution chances sum to one and doubles always succeed', () => {
+    const chances = getDualityResolutionChances(40);
+
+    expect(total(Object.values(chances))).toBeCloseTo(1);
+    expect(chances['critical-success']).toBeCloseTo(12 / 144);
+    expect(chances['success-with-hope']).toBe(0);
+  });
+
+  test('Hope and Fear are symmetric', () => {
+    const chances = getDualityResolutionChances(14, 1);
+
+    expect(chances['success-with-hope']).toBeCloseTo(chances['success-with-fear']);
+    expect(chances['failure-with-hope']).toBeCloseTo(chances['failure-with-fear']);
+  });
+
+  test('getRollSuccessChance uses Duality rules for Duality results', () => {
+    const result = rollDualityDice({ modifier: 2, random: createSeededRandom('odds') });
+    const chances = getDualityResolutionChances(14, 2);
+
+    expect(getRollSuccessChance(result, 14)).toBeCloseTo(
+      chances['critical-success'] + chances['success-with-hope'] + chances['success-with-fear']
+    );
+  });
+
+  test('getRollSuccessChance follows the roll type of other results', () => {
+    const result = rollDiceExpression('1d20', 'advantage', {
+      ...DEFAULT_DICE_CONFIG,
+      random: createSeededRandom('odds'),
+    });
+
+    expect(getRollSuccessChance(result, 15)).toBeGreaterThan(getSuccessChance('1d20', 15)!);
+  });
+});
+
+describe('getDistributionHistogram', () => {
+  test('uses one bar per total when they fit', () => {
+    const bins = getDistributionHistogram(exact('2d6'));
+
+    expect(bins).toHaveLength(11);
+    expect(bins[5]).toEqual({ from: 7, to: 7, probability: expect.closeTo(6 / 36) });
+  });
+
+  test('groups totals and trims long tails', () => {
+    const bins = getDistributionHistogram(exact('10d10'), 10);
+
+    expect(bins.length).toBeLessThanOrEqual(10);
+    expect(bins[0].from).toBeGreaterThan(10);
+    expect(bins[bins.length - 1].to).toBeLessThan(100);
+  });
+});
+
+describe('formatProbability', () => {
+  test('formats percentages with at most one decimal', () => {
+    expect(formatProbability(0.625)).toBe('62.5%');
+    expect(formatProbability(0.5)).toBe('50%');
+    expect(formatProbability(0)).toBe('0%');
+    expect(formatProbability(1)).toBe('100%');
+    expect(formatProbability(0.0001)).toBe('<0.1%');
+    expect(formatProbability(0.99999)).toBe('>99.9%');
+  });
+});
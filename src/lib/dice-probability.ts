@@ -0,0 +1,597 @@
+/**
+ * Exact probability distributions for dice expressions
+ * Builds the full distribution of a roll's total by convolution, following the
+ * same advantage, disadvantage and critical rules as the roller, so GMs can see
+ * the odds of meeting a Difficulty before anyone rolls. Expressions too heavy to
+ * work out exactly (e.g. multiplied exploding dice) give null instead of freezing the page
+ */
+
+import {
+  DiceDistribution,
+  DiceExpression,
+  DiceNode,
+  DiceRollResult,
+  DiceTermModifier,
+  Die,
+  DistributionBin,
+  DualityResolution,
+  RollTypeStack
+} from '@/types/dice';
+import {
+  getDualityOutcome,
+  getDualityResolution,
+  getHighestD6Probabilities,
+  isDualityRollResult,
+  parseDiceExpression,
+  resolveRollTypeStack
+} from '@/lib/dice-utils';
+import { getDieValueProbabilities } from '@/lib/dice-parser';
+
+type RollType = 'normal' | 'advantage' | 'disadvantage' | 'critical' | RollTypeStack;
+
+/**
+ * Probability mass function over consecutive integers, where index i is the value min + i
+ */
+interface Pmf {
+  min: number;
+  probabilities: number[];
+}
+
+/**
+ * Probabilities below this are treated as zero when trimming and when drawing histograms
+ */
+const NEGLIGIBLE_PROBABILITY = 1e-12;
+
+/**
+ * Share of each tail a histogram may leave out, so exploding dice don't flatten the chart
+ */
+const HISTOGRAM_TAIL = 0.001;
+
+/**
+ * Most multiply-adds one distribution may take before its odds are given up on
+ */
+const MAX_DISTRIBUTION_WORK = 2e7;
+
+/**
+ * Most totals one distribution may span
+ */
+const MAX_DISTRIBUTION_SIZE = 1e5;
+
+/**
+ * Thrown while building a distribution that would be too costly; the exported functions return null instead.
+ * A shared instance rather than an Error subclass, since subclasses lose instanceof when compiled to ES5
+ */
+const DISTRIBUTION_TOO_LARGE = new Error('Distribution is too large to work out exactly');
+
+/**
+ * Work left for the distribution being built
+ */
+interface WorkBudget {
+  remaining: number;
+}
+
+/**
+ * Charge work to the budget before doing it
+ *
+ * @param budget - Budget of the distribution being built
+ * @param work - Number of multiply-adds about to be made
+ * @param size - Number of totals the result will span
+ * @throws DISTRIBUTION_TOO_LARGE if the budget runs out or the result would span too many totals
+ */
+function spend(budget: WorkBudget, work: number, size: number = 0): void {
+  budget.remaining -= work;
+  if (budget.remaining < 0 || size > MAX_DISTRIBUTION_SIZE) {
+    throw DISTRIBUTION_TOO_LARGE;
+  }
+}
+
+/**
+ * Run a computation with a fresh budget, returning null if it runs out
+ */
+function withinBudget<T>(compute: (budget: WorkBudget) => T): T | null {
+  try {
+    return compute({ remaining: MAX_DISTRIBUTION_WORK });
+  } catch (error) {
+    if (error === DISTRIBUTION_TOO_LARGE) return null;
+    throw error;
+  }
+}
+
+/**
+ * Distribution of a value that is always the same
+ */
+function pointMass(value: number): Pmf {
+  return { min: value, probabilities: [1] };
+}
+
+/**
+ * Distribution of the sum of two independent values
+ */
+function convolve(a: Pmf, b: Pmf, budget: WorkBudget): Pmf {
+  spend(budget, a.probabilities.length * b.probabilities.length, a.probabilities.length + b.probabilities.length - 1);
+  const probabilities: number[] = new Array(a.probabilities.length + b.probabilities.length - 1).fill(0);
+
+  a.probabilities.forEach((left, i) => {
+    if (left === 0) return;
+    b.probabilities.forEach((right, j) => {
+      probabilities[i + j] += left * right;
+    });
+  });
+
+  return { min: a.min + b.min, probabilities };
+}
+
+/**
+ * Distribution of the negated value
+ */
+function negate(pmf: Pmf): Pmf {
+  return {
+    min: -(pmf.min + pmf.probabilities.length - 1),
+    probabilities: [...pmf.probabilities].reverse(),
+  };
+}
+
+/**
+ * Distribution of the product of two independent values
+ */
+function multiply(a: Pmf, b: Pmf, budget: WorkBudget): Pmf {
+  const aMax = a.min + a.probabilities.length - 1;
+  const bMax = b.min + b.probabilities.length - 1;
+  // The extreme products are among the products of the extremes
+  const corners = [a.min * b.min, a.min * bMax, aMax * b.min, aMax * bMax];
+  const min = Math.min(...corners);
+  const max = Math.max(...corners);
+  spend(budget, a.probabilities.length * b.probabilities.length, max - min + 1);
+
+  const probabilities: number[] = new Array(max - min + 1).fill(0);
+  a.probabilities.forEach((left, i) => {
+    if (left === 0) return;
+    b.probabilities.forEach((right, j) => {
+      probabilities[(a.min + i) * (b.min + j) - min] += left * right;
+    });
+  });
+
+  return { min, probabilities };
+}
+
+/**
+ * Shift every value by a constant
+ */
+function shift(pmf: Pmf, offset: number): Pmf {
+  return { min: pmf.min + offset, probabilities: pmf.probabilities };
+}
+
+/**
+ * Convert a value → probability map into a consecutive distribution
+ */
+function fromMap(values: Map<number, number>): Pmf {
+  // A loop rather than Math.min(...keys), which overflows the stack for large maps
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach((_, value) => {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  });
+  const probabilities: number[] = new Array(max - min + 1).fill(0);
+
+  values.forEach((probability, value) => {
+    probabilities[value - min] += probability;
+  });
+
+  return { min, probabilities };
+}
+
+/**
+ * Number of ways to choose k items from n
+ */
+function binomialCoefficient(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+/**
+ * Distribution of a single dice term such as 4d6, 2d20kh1, 1d6! or 2d8r1
+ *
+ * @param count - Number of dice rolled
+ * @param sides - Number of sides on each die
+ * @param modifiers - Keep/drop, reroll and exploding modifiers of the term
+ * @param budget - Budget of the distribution being built
+ * @returns Distribution of the term's value
+ */
+function getDiceTermPmf(count: number, sides: number, modifiers: DiceTermModifier[], budget: WorkBudget): Pmf {
+  const dieProbabilities = trimTail(getDieValueProbabilities(sides, modifiers));
+  const selection = modifiers.find(modifier => modifier.type === 'keep' || modifier.type === 'drop');
+
+  if (selection?.type === 'keep' || selection?.type === 'drop') {
+    const keepCount = selection.type === 'keep' ? selection.count : count - selection.count;
+    const keepHighest = (selection.type === 'keep') === (selection.which === 'highest');
+    return getKeptDicePmf(dieProbabilities, count, keepCount, keepHighest, budget);
+  }
+
+  const die: Pmf = { min: 0, probabilities: dieProbabilities };
+  let pmf = pointMass(0);
+  for (let i = 0; i < count; i++) {
+    pmf = convolve(pmf, die, budget);
+  }
+  return pmf;
+}
+
+/**
+ * Drop the negligible end of a die's probabilities, such as the long chain of an exploding d100
+ */
+function trimTail(probabilities: number[]): number[] {
+  let last = probabilities.length - 1;
+  while (last > 0 && probabilities[last] < NEGLIGIBLE_PROBABILITY) last--;
+  return probabilities.slice(0, last + 1);
+}
+
+/**
+ * Distribution of the sum of the highest (or lowest) k of n independent dice
+ *
+ * Walks the die values from the kept end: after deciding how many dice show
+ * each value, the first k dice assigned are exactly the kept ones. The chance of
+ * m of the remaining dice showing a value is C(remaining, m) · p^m, which
+ * multiplies out to the multinomial probability of the whole roll.
+ */
+function getKeptDicePmf(
+  dieProbabilities: number[],
+  count: number,
+  keep: number,
+  highest: boolean,
+  budget: WorkBudget
+): Pmf {
+  const values = dieProbabilities
+    .map((_, value) => value)
+    .filter(value => dieProbabilities[value] > 0);
+  if (highest) values.reverse();
+
+  // states[j] maps the kept sum to its probability weight once j dice are assigned
+  let states: Map<number, number>[] = Array.from({ length: count + 1 }, () => new Map());
+  states[0].set(0, 1);
+
+  for (const value of values) {
+    const chance = dieProbabilities[value];
+    const next: Map<number, number>[] = Array.from({ length: count + 1 }, () => new Map());
+
+    states.forEach((sums, assigned) => {
+      for (let showing = 0; assigned + showing <= count; showing++) {
+        spend(budget, sums.size);
+        const weight = binomialCoefficient(count - assigned, showing) * chance ** showing;
+        const kept = Math.max(0, Math.min(showing, keep - assigned));
+
+        sums.forEach((probability, sum) => {
+          const keptSum = sum + kept * value;
+          next[assigned + showing].set(keptSum, (next[assigned + showing].get(keptSum) ?? 0) + probability * weight);
+        });
+      }
+    });
+
+    states = next;
+  }
+
+  return fromMap(states[count]);
+}
+
+/**
+ * Distribution of a syntax tree
+ */
+function getDiceNodePmf(node: DiceNode, budget: WorkBudget): Pmf {
+  switch (node.kind) {
+    case 'number':
+      return pointMass(node.value);
+    case 'dice':
+      return getDiceTermPmf(node.count, node.sides, node.modifiers, budget);
+    case 'group':
+      return getDiceNodePmf(node.expression, budget);
+    case 'negate':
+      return negate(getDiceNodePmf(node.operand, budget));
+    case 'binary': {
+      const left = getDiceNodePmf(node.left, budget);
+      const right = getDiceNodePmf(node.right, budget);
+      if (node.operator === '+') return convolve(left, right, budget);
+      if (node.operator === '-') return convolve(left, negate(right), budget);
+      return multiply(left, right, budget);
+    }
+  }
+}
+
+/**
+ * Distribution of plain dice plus a flat modifier
+ */
+function getDicePmf(dice: Die[], modifier: number, budget: WorkBudget): Pmf {
+  return dice.reduce(
+    (pmf, die) => convolve(pmf, getDiceTermPmf(die.count, die.sides, [], budget), budget),
+    pointMass(modifier)
+  );
+}
+
+/**
+ * Add the highest advantage d6, subtract the highest disadvantage d6 or add the
+ * critical bonus, mirroring applyRollTypeModifications
+ *
+ * @param pmf - Distribution before the roll type is applied
+ * @param rollType - Type of roll, or stacked advantage and disadvantage
+ * @param baseDie - First die of the expression, which sets the critical bonus
+ * @param budget - Budget of the distribution being built
+ */
+function applyRollType(pmf: Pmf, rollType: RollType, baseDie: Die | undefined, budget: WorkBudget): Pmf {
+  if (typeof rollType !== 'string' || rollType === 'advantage' || rollType === 'disadvantage') {
+    const stack = typeof rollType === 'string'
+      ? { advantage: rollType === 'advantage' ? 1 : 0, disadvantage: rollType === 'disadvantage' ? 1 : 0 }
+      : rollType;
+    const { rollType: kind, dice } = resolveRollTypeStack(stack);
+    if (kind === 'normal') return pmf;
+
+    // Only the highest of the stacked d6s counts
+    const bonus: Pmf = { min: 0, probabilities: getHighestD6Probabilities(dice) };
+    return convolve(pmf, kind === 'advantage' ? bonus : negate(bonus), budget);
+  }
+
+  // Critical bonus dice always count as their maximum value
+  if (rollType === 'critical' && baseDie) {
+    return shift(pmf, baseDie.count * baseDie.sides);
+  }
+
+  return pmf;
+}
+
+/**
+ * Distribution of an expression's total, including its roll type
+ */
+function getExpressionPmf(diceExpression: DiceExpression, rollType: RollType, budget: WorkBudget): Pmf {
+  const pmf = diceExpression.ast
+    ? getDiceNodePmf(diceExpression.ast, budget)
+    : getDicePmf(diceExpression.dice, diceExpression.modifier, budget);
+
+  return applyRollType(pmf, rollType, diceExpression.dice[0], budget);
+}
+
+/**
+ * Strip negligible tails and compute summary values
+ */
+function toDistribution(pmf: Pmf): DiceDistribution {
+  let first = 0;
+  let last = pmf.probabilities.length - 1;
+  while (first < last && pmf.probabilities[first] < NEGLIGIBLE_PROBABILITY) first++;
+  while (last > first && pmf.probabilities[last] < NEGLIGIBLE_PROBABILITY) last--;
+
+  const min = pmf.min + first;
+  const probabilities = pmf.probabilities.slice(first, last + 1);
+  const mean = probabilities.reduce((sum, probability, i) => sum + probability * (min + i), 0);
+
+  return {
+    min,
+    max: min + probabilities.length - 1,
+    probabilities,
+    mean,
+  };
+}
+
+/**
+ * Get the exact probability distribution of a dice expression's total
+ *
+ * Advantage adds a d6, disadvantage subtracts a d6 (the highest of several when
+ * stacked) and critical adds the maximum
+ * of every base die, exactly as rollDiceExpression does. Exploding dice are cut
+ * off at the same chain limit the roller uses.
+ *
+ * @param expression - Dice expression string or parsed DiceExpression object
+ * @param rollType - Type of roll (normal, advantage, disadvantage, critical), or stacked advantage and disadvantage
+ * @returns Probability of each possible total, or null if the expression is too heavy to work out exactly
+ * @throws DiceError if the expression is invalid
+ */
+export function getDiceDistribution(
+  expression: string | DiceExpression,
+  rollType: RollType = 'normal'
+): DiceDistribution | null {
+  const diceExpression = typeof expression === 'string'
+    ? parseDiceExpression(expression)
+    : expression;
+
+  return withinBudget(budget => toDistribution(getExpressionPmf(diceExpression, rollType, budget)));
+}
+
+/**
+ * Estimate a distribution from sampled totals, for expressions too heavy to work out exactly
+ *
+ * @param totals - Totals of many rolls (e.g., from sampleDiceTotals)
+ * @returns Share of the rolls that came to each total
+ */
+export function getSampledDistribution(totals: number[]): DiceDistribution {
+  const counts = new Map<number, number>();
+  totals.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  counts.forEach((count, value) => counts.set(value, count / totals.length));
+
+  return toDistribution(fromMap(counts));
+}
+
+/**
+ * Get the probability of rolling exactly a given total
+ *
+ * @param distribution - Distribution from getDiceDistribution
+ * @param total - Total to look up
+ * @returns Probability between 0 and 1
+ */
+export function getProbabilityOf(distribution: DiceDistribution, total: number): number {
+  return distribution.probabilities[total - distribution.min] ?? 0;
+}
+
+/**
+ * Get the probability of rolling a given total or higher
+ *
+ * @param distribution - Distribution from getDiceDistribution
+ * @param total - Total to meet or beat
+ * @returns Probability between 0 and 1
+ */
+export function getProbabilityAtLeast(distribution: DiceDistribution, total: number): number {
+  const start = Math.max(0, total - distribution.min);
+  const probability = distribution.probabilities
+    .slice(start)
+    .reduce((sum, chance) => sum + chance, 0);
+
+  // Floating point sums can drift just past the bounds
+  return Math.min(1, Math.max(0, probability));
+}
+
+/**
+ * Get the total at a given percentile (e.g., 50 for the median)
+ *
+ * @param distribution - Distribution from getDiceDistribution
+ * @param percentile - Percentile from 0 to 100
+ * @returns Smallest total that at least that share of rolls come in at or under
+ */
+export function getDistributionPercentile(distribution: DiceDistribution, percentile: number): number {
+  const share = Math.min(100, Math.max(0, percentile)) / 100;
+  let cumulative = 0;
+
+  for (let i = 0; i < distribution.probabilities.length; i++) {
+    cumulative += distribution.probabilities[i];
+    if (cumulative >= share - NEGLIGIBLE_PROBABILITY) {
+      return distribution.min + i;
+    }
+  }
+
+  return distribution.max;
+}
+
+/**
+ * Get the chance that a roll meets or beats a Difficulty (or Evasion)
+ *
+ * Follows evaluateRoll: a natural 20 on a single d20 base die succeeds even when
+ * the total falls short. For extended notation (keep/drop, exploding, rerolls,
+ * multiplication) only the total is compared.
+ *
+ * @param expression - Dice expression string or parsed DiceExpression object
+ * @param difficulty - Number the total must meet or beat
+ * @param rollType - Type of roll (normal, advantage, disadvantage, critical), or stacked advantage and disadvantage
+ * @returns Probability between 0 and 1, or null if the expression is too heavy to work out exactly
+ */
+export function getSuccessChance(
+  expression: string | DiceExpression,
+  difficulty: number,
+  rollType: RollType = 'normal'
+): number | null {
+  const diceExpression = typeof expression === 'string'
+    ? parseDiceExpression(expression)
+    : expression;
+
+  return withinBudget(budget => {
+    const chance = getProbabilityAtLeast(toDistribution(getExpressionPmf(diceExpression, rollType, budget)), difficulty);
+    const baseDie = diceExpression.dice[0];
+
+    if (diceExpression.ast || !baseDie || baseDie.sides !== 20 || baseDie.count !== 1) {
+      return chance;
+    }
+
+    // Everything except the base d20; a natural 20 rescues the rolls where 20 + rest falls short
+    const rest = toDistribution(applyRollType(
+      getDicePmf(diceExpression.dice.slice(1), diceExpression.modifier, budget),
+      rollType,
+      baseDie,
+      budget
+    ));
+    const rescued = (1 - getProbabilityAtLeast(rest, difficulty - 20)) / 20;
+
+    return Math.min(1, chance + rescued);
+  });
+}
+
+/**
+ * Get the chance of each Hope/Fear resolution for a Duality Dice roll
+ *
+ * @param difficulty - Difficulty of the action
+ * @param modifier - Trait modifier added to the dice
+ * @param rollType - Type of roll (normal, advantage, disadvantage, critical), or stacked advantage and disadvantage
+ * @returns Probability of each resolution; together they sum to 1
+ */
+export function getDualityResolutionChances(
+  difficulty: number,
+  modifier: number = 0,
+  rollType: RollType = 'normal'
+): Record<DualityResolution, number> {
+  const chances: Record<DualityResolution, number> = {
+    'critical-success': 0,
+    'success-with-hope': 0,
+    'success-with-fear': 0,
+    'failure-with-hope': 0,
+    'failure-with-fear': 0,
+  };
+  // A single d6 or critical bonus is always well within the budget
+  const bonus = applyRollType(pointMass(modifier), rollType, { count: 1, sides: 12 }, { remaining: MAX_DISTRIBUTION_WORK });
+
+  for (let hope = 1; hope <= 12; hope++) {
+    for (let fear = 1; fear <= 12; fear++) {
+      const outcome = getDualityOutcome(hope, fear);
+
+      bonus.probabilities.forEach((probability, i) => {
+        const total = hope + fear + bonus.min + i;
+        const success = outcome === 'critical' || total >= difficulty;
+        chances[getDualityResolution(outcome, success)] += probability / 144;
+      });
+    }
+  }
+
+  return chances;
+}
+
+/**
+ * Get the chance that the roll behind a result meets or beats a target,
+ * using its expression and roll type, including stacked advantage (and Hope/Fear rules for Duality Dice)
+ *
+ * @param result - A roll whose odds should be shown
+ * @param difficulty - Number the total must meet or beat
+ * @returns Probability between 0 and 1, or null if the expression is too heavy to work out exactly
+ */
+export function getRollSuccessChance(result: DiceRollResult, difficulty: number): number | null {
+  if (isDualityRollResult(result)) {
+    const chances = getDualityResolutionChances(difficulty, result.duality.traitModifier, result.rollTypeStack ?? result.rollType);
+    return chances['critical-success'] + chances['success-with-hope'] + chances['success-with-fear'];
+  }
+
+  return getSuccessChance(result.expression, difficulty, result.rollTypeStack ?? result.rollType);
+}
+
+/**
+ * Group a distribution into histogram bars
+ * Tails rarer than 0.1% on each side are left out, and neighbouring totals are
+ * grouped when there are more totals than bars
+ *
+ * @param distribution - Distribution from getDiceDistribution
+ * @param maxBins - Maximum number of bars
+ * @returns Bars in ascending order of total
+ */
+export function getDistributionHistogram(distribution: DiceDistribution, maxBins: number = 24): DistributionBin[] {
+  const from = getDistributionPercentile(distribution, HISTOGRAM_TAIL * 100);
+  const to = Math.max(from, getDistributionPercentile(distribution, 100 - HISTOGRAM_TAIL * 100));
+  const width = Math.ceil((to - from + 1) / Math.max(1, maxBins));
+  const bins: DistributionBin[] = [];
+
+  for (let start = from; start <= to; start += width) {
+    const end = Math.min(to, start + width - 1);
+    let probability = 0;
+    for (let total = start; total <= end; total++) {
+      probability += getProbabilityOf(distribution, total);
+    }
+    bins.push({ from: start, to: end, probability });
+  }
+
+  return bins;
+}
+
+/**
+ * Format a probability as a percentage (e.g., "62.5%", "<0.1%")
+ *
+ * @param probability - Probability between 0 and 1
+ * @returns Percentage with at most one decimal place
+ */
+export function formatProbability(probability: number): string {
+  const percent = probability * 100;
+
+  if (percent > 0 && percent < 0.1) return '<0.1%';
+  if (percent < 100 && percent > 99.9) return '>99.9%';
+
+  return `${Number(percent.toFixed(1))}%`;
+}
@@ -0,0 +1,179 @@
+/**
+ * Unit tests for bulk rolling and the dice roll service
+ */
+
+import { createDiceRollService } from './dice-roll-service';
+import { createDiceWorkerHandler, runDiceRollJob } from './dice-roll-worker';
+import { DEFAULT_DICE_CONFIG } from './dice-utils';
+import { DiceError } from '@/types/dice';
+import { DiceRollJob, DiceWorkerLike, DiceWorkerRequest } from '@/types/dice-worker';
+
+beforeAll(() => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+/**
+ * Worker that runs the real handler, delivering messages asynchronously like postMessage does
+ */
+class FakeWorker implements DiceWorkerLike {
+  onmessage: DiceWorkerLike['onmessage'] = null;
+  onerror: DiceWorkerLike['onerror'] = null;
+  requests: DiceWorkerRequest[] = [];
+  terminated = false;
+  private handle = createDiceWorkerHandler(response => setTimeout(() => this.onmessage?.({ data: response }), 0));
+
+  postMessage(message: DiceWorkerRequest) {
+    this.requests.push(message);
+    setTimeout(() => this.handle(message), 0);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const job = (extra: Partial<DiceRollJob> = {}): DiceRollJob => ({
+  expression: '2d6+1',
+  count: 10,
+  rollType: 'normal',
+  config: DEFAULT_DICE_CONFIG,
+  batchSize: 4,
+  ...extra,
+});
+
+const rejection = async (promise: Promise<unknown>): Promise<DiceError> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as DiceError;
+  }
+  throw new Error('Expected a rejection');
+};
+
+describe('runDiceRollJob', () => {
+  test('rolls in batches and reports progress after each one', async () => {
+    const progress: number[] = [];
+    const output = await runDiceRollJob(job(), () => 0.5, { onProgress: completed => progress.push(completed) });
+
+    expect(output.results).toHaveLength(10);
+    expect(output.totals).toEqual(new Array(10).fill(9));
+    expect(progress).toEqual([4, 8, 10]);
+  });
+
+  test('keeps only totals when asked', async () => {
+    const output = await runDiceRollJob(job({ totalsOnly: true }), () => 0);
+
+    expect(output.results).toEqual([]);
+    expect(output.totals).toHaveLength(10);
+  });
+
+  test('repeats the same rolls for the same seed', async () => {
+    const first = await runDiceRollJob(job({ seed: 'goblins' }));
+    const second = await runDiceRollJob(job({ seed: 'goblins' }));
+
+    expect(first.totals).toEqual(second.totals);
+  });
+
+  test('stops with a CANCELLED error between batches', async () => {
+    let batches = 0;
+    const error = await rejection(runDiceRollJob(job(), () => 0.5, {
+      onProgress: () => batches++,
+      isCancelled: () => batches >= 1,
+    }));
+
+    expect(error.type).toBe('CANCELLED');
+    expect(batches).toBe(1);
+  });
+});
+
+describe('createDiceRollService', () => {
+  test('rolls small jobs on the main thread', async () => {
+    const createWorker = jest.fn(() => new FakeWorker());
+    const service = createDiceRollService({ createWorker, workerThreshold: 100 });
+
+    const results = await service.rollMany('1d20', 10);
+
+    expect(results).toHaveLength(10);
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+
+  test('sends large jobs to the worker with the same results as the main thread', async () => {
+    const fake = new FakeWorker();
+    const service = createDiceRollService({ createWorker: () => fake, workerThreshold: 20, batchSize: 10 });
+    const progress = jest.fn();
+
+    const offloaded = await service.sampleTotals('1d20+2', 50, 'advantage', DEFAULT_DICE_CONFIG, undefined, { seed: 7, onProgress: progress });
+    const local = await runDiceRollJob({ ...job(), expression: '1d20+2', count: 50, rollType: 'advantage', seed: 7 });
+
+    expect(fake.requests[0]).toMatchObject({ type: 'roll', job: { count: 50, totalsOnly: true } });
+    expect(offloaded).toEqual(local.totals);
+    expect(progress).toHaveBeenLastCalledWith(50, 50);
+  });
+
+  test('keeps jobs with a custom random source on the main thread', async () => {
+    const createWorker = jest.fn(() => new FakeWorker());
+    const service = createDiceRollService({ createWorker, workerThreshold: 1 });
+
+    const totals = await service.sampleTotals('1d6', 5, 'normal', { ...DEFAULT_DICE_CONFIG, random: () => 0 });
+
+    expect(totals).toEqual([1, 1, 1, 1, 1]);
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+
+  test('rejects invalid expressions without starting the worker', async () => {
+    const createWorker = jest.fn(() => new FakeWorker());
+    const service = createDiceRollService({ createWorker, workerThreshold: 1 });
+
+    expect((await rejection(service.rollMany('banana', 5000))).type).toBe('INVALID_EXPRESSION');
+    expect(createWorker).not.toHaveBeenCalled();
+  });
+
+  test('cancels a worker job', async () => {
+    const fake = new FakeWorker();
+    const service = createDiceRollService({ createWorker: () => fake, workerThreshold: 1, batchSize: 1 });
+    const controller = new AbortController();
+    const onProgress = jest.fn(() => controller.abort());
+
+    const promise = service.rollMany('1d20', 1000, 'normal', DEFAULT_DICE_CONFIG, undefined, { signal: controller.signal, onProgress });
+
+    expect((await rejection(promise)).type).toBe('CANCELLED');
+    expect(fake.requests.map(request => request.type)).toEqual(['roll', 'cancel']);
+    expect(onProgress).toHaveBeenCalledTimes(1);
+  });
+
+  test('cancels a job that has not reached the worker yet', async () => {
+    const fake = new FakeWorker();
+    const service = createDiceRollService({ createWorker: () => fake, workerThreshold: 1 });
+    const controller = new AbortController();
+
+    const promise = service.rollMany('1d20', 1000, 'normal', DEFAULT_DICE_CONFIG, undefined, { signal: controller.signal });
+    controller.abort();
+
+    expect((await rejection(promise)).type).toBe('CANCELLED');
+    expect(fake.requests).toEqual([]);
+  });
+
+  test('finishes on the main thread when the worker fails', async () => {
+    const fake = new FakeWorker();
+    fake.postMessage = jest.fn(() => setTimeout(() => fake.onerror?.(new ErrorEvent('error', { message: 'boom' })), 0));
+    const service = createDiceRollService({ createWorker: () => fake, workerThreshold: 1 });
+
+    const totals = await service.sampleTotals('1d8', 30);
+
+    expect(totals).toHaveLength(30);
+    expect(fake.terminated).toBe(true);
+  });
+
+  test('rejects running jobs when disposed', async () => {
+    const service = createDiceRollService({ createWorker: () => new FakeWorker(), workerThreshold: 1 });
+    const promise = service.rollMany('1d20', 100);
+
+    service.dispose();
+
+    expect((await rejection(promise)).type).toBe('CANCELLED');
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Dice roll service - promise-based bulk rolling for simulations (thousands of rolls,
+ * distribution sampling, encounter Monte Carlo). Large jobs run in a Web Worker so the
+ * page stays responsive; small ones, and any without a worker, run on the main thread.
+ */
+
+import { DiceRollConfig, DiceRollResult, RollTarget, RollTypeStack } from '@/types/dice';
+import { DiceRollJob, DiceRollJobOutput, DiceWorkerLike, DiceWorkerResponse } from '@/types/dice-worker';
+import { DEFAULT_DICE_CONFIG, validateDiceExpression } from '@/lib/dice-utils';
+import { createCancelledError, DiceRollJobHooks, runDiceRollJob } from '@/lib/dice-roll-worker';
+
+/**
+ * Jobs with at least this many rolls go to the worker
+ */
+export const WORKER_THRESHOLD = 1000;
+
+/**
+ * Rolls made between progress updates and checks for cancellation
+ */
+export const DEFAULT_BATCH_SIZE = 500;
+
+type RollType = DiceRollResult['rollType'];
+
+/**
+ * Options for one bulk roll
+ */
+export interface DiceRollBatchOptions {
+  /** Cancels the job; its promise rejects with a CANCELLED DiceError */
+  signal?: AbortSignal;
+  /** Called after each batch with the number of rolls made so far */
+  onProgress?: (completed: number, total: number) => void;
+  /** Seed for reproducible rolls, on either thread */
+  seed?: string | number;
+}
+
+export interface DiceRollService {
+  /**
+   * Roll an expression many times; the arguments after `count` are those of rollDiceExpression
+   *
+   * @returns Every result, in roll order
+   * @throws DiceError (as a rejection) if the expression is invalid or the job is cancelled
+   */
+  rollMany: (
+    expression: string,
+    count: number,
+    rollType?: RollType | RollTypeStack,
+    config?: DiceRollConfig,
+    target?: RollTarget,
+    options?: DiceRollBatchOptions
+  ) => Promise<DiceRollResult[]>;
+  /**
+   * Like rollMany, but only the totals are kept and sent back, which is much lighter for large simulations
+   */
+  sampleTotals: (
+    expression: string,
+    count: number,
+    rollType?: RollType | RollTypeStack,
+    config?: DiceRollConfig,
+    target?: RollTarget,
+    options?: DiceRollBatchOptions
+  ) => Promise<number[]>;
+  /** Stop the worker; jobs still running reject as cancelled */
+  dispose: () => void;
+}
+
+export interface DiceRollServiceOptions {
+  /** Creates the worker; returns null where workers aren't available (default: the bundled dice roll worker) */
+  createWorker?: () => DiceWorkerLike | null | Promise<DiceWorkerLike | null>;
+  /** Jobs with at least this many rolls use the worker (default: WORKER_THRESHOLD) */
+  workerThreshold?: number;
+  /** Rolls between progress updates (default: DEFAULT_BATCH_SIZE) */
+  batchSize?: number;
+}
+
+interface PendingJob {
+  job: DiceRollJob;
+  hooks: DiceRollJobHooks;
+  resolve: (output: DiceRollJobOutput) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Start the bundled worker, or return null outside the browser
+ * The worker module is only loaded where workers exist, since its `import.meta` only works in the bundle
+ */
+async function createBrowserWorker(): Promise<DiceWorkerLike | null> {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    return null;
+  }
+
+  try {
+    const { startDiceRollWorker } = await import('@/lib/dice-roll-worker-factory');
+    return startDiceRollWorker();
+  } catch (error) {
+    console.warn('Dice roll worker unavailable, rolling on the main thread:', error);
+    return null;
+  }
+}
+
+/**
+ * Create a dice roll service
+ *
+ * The worker is started on the first job that needs it. Jobs with a custom `config.random` always
+ * run on the main thread, since functions can't be sent to a worker; use `options.seed` instead
+ * for reproducible rolls that can be offloaded.
+ */
+export function createDiceRollService(options: DiceRollServiceOptions = {}): DiceRollService {
+  const {
+    createWorker = createBrowserWorker,
+    workerThreshold = WORKER_THRESHOLD,
+    batchSize = DEFAULT_BATCH_SIZE,
+  } = options;
+
+  // Started on first use; null once there is no worker
+  let worker: Promise<DiceWorkerLike | null> | undefined;
+  let current: DiceWorkerLike | null = null;
+  let nextId = 1;
+  // Bumped on dispose, so jobs still waiting for the worker are cancelled
+  let generation = 0;
+  const pending = new Map<number, PendingJob>();
+
+  const handleResponse = (response: DiceWorkerResponse) => {
+    const job = pending.get(response.id);
+    if (!job) return;
+
+    switch (response.type) {
+      case 'progress':
+        job.hooks.onProgress?.(response.completed, response.total);
+        break;
+      case 'done':
+        pending.delete(response.id);
+        job.resolve(response.output);
+        break;
+      case 'error':
+        pending.delete(response.id);
+        job.reject(response.error);
+        break;
+    }
+  };
+
+  // A worker that fails to load or crashes is dropped, and its jobs finish on the main thread
+  const handleWorkerError = (event: ErrorEvent | Event) => {
+    console.warn('Dice roll worker failed, rolling on the main thread:', 'message' in event ? event.message : event.type);
+    current?.terminate();
+    current = null;
+    worker = Promise.resolve(null);
+
+    const jobs = Array.from(pending.values());
+    pending.clear();
+    jobs.forEach(({ job, hooks, resolve, reject }) => runDiceRollJob(job, undefined, hooks).then(resolve, reject));
+  };
+
+  const getWorker = (): Promise<DiceWorkerLike | null> => {
+    if (worker === undefined) {
+      const starting: Promise<DiceWorkerLike | null> = Promise.resolve(createWorker()).then(created => {
+        // Disposed while starting
+        if (worker !== starting) {
+          created?.terminate();
+          return null;
+        }
+        if (created) {
+          created.onmessage = event => handleResponse(event.data);
+          created.onerror = handleWorkerError;
+        }
+        current = created;
+        return created;
+      });
+      worker = starting;
+    }
+    return worker;
+  };
+
+  const run = async (
+    expression: string,
+    count: number,
+    rollType: RollType | RollTypeStack,
+    config: DiceRollConfig,
+    target: RollTarget | undefined,
+    batchOptions: DiceRollBatchOptions,
+    totalsOnly: boolean
+  ): Promise<DiceRollJobOutput> => {
+    const { signal, onProgress, seed } = batchOptions;
+
+    // Report a bad expression straight away rather than from the worker
+    const validation = validateDiceExpression(expression, config);
+    if (!validation.isValid) {
+      throw validation.error;
+    }
+
+    const { random, ...workerConfig } = config;
+    const job: DiceRollJob = {
+      expression,
+      count,
+      rollType,
+      config: workerConfig,
+      ...(target && { target }),
+      ...(seed !== undefined && { seed }),
+      ...(totalsOnly && { totalsOnly }),
+      batchSize,
+    };
+    const hooks: DiceRollJobHooks = { onProgress, isCancelled: () => !!signal?.aborted };
+
+    const started = generation;
+    const roller = count >= workerThreshold && !random ? await getWorker() : null;
+    if (signal?.aborted || generation !== started) {
+      throw createCancelledError();
+    }
+    if (!roller) {
+      return runDiceRollJob(job, random, hooks);
+    }
+
+    return new Promise<DiceRollJobOutput>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { job, hooks, resolve, reject });
+
+      signal?.addEventListener('abort', () => {
+        // Once the job moves to the main thread, the hooks see the abort instead
+        if (!pending.delete(id)) return;
+        current?.postMessage({ type: 'cancel', id });
+        reject(createCancelledError());
+      }, { once: true });
+
+      roller.postMessage({ type: 'roll', id, job });
+    });
+  };
+
+  return {
+    rollMany: (expression, count, rollType = 'normal', config = DEFAULT_DICE_CONFIG, target, batchOptions = {}) =>
+      run(expression, count, rollType, config, target, batchOptions, false).then(output => output.results),
+
+    sampleTotals: (expression, count, rollType = 'normal', config = DEFAULT_DICE_CONFIG, target, batchOptions = {}) =>
+      run(expression, count, rollType, config, target, batchOptions, true).then(output => output.totals),
+
+    dispose: () => {
+      current?.terminate();
+      current = null;
+      worker = undefined;
+      generation++;
+
+      const jobs = Array.from(pending.values());
+      pending.clear();
+      jobs.forEach(job => job.reject(createCancelledError()));
+    },
+  };
+}
+
+/**
+ * Shared service; its worker is only started when a large job needs it
+ */
+export const diceRollService = createDiceRollService();
+
+/**
+ * Roll an expression `count` times with the shared service, in a worker above WORKER_THRESHOLD rolls
+ *
+ * @example
+ * const results = await rollDiceExpressionBatch('2d12+3', 10000, 'advantage', DEFAULT_DICE_CONFIG, undefined, { signal });
+ */
+export function rollDiceExpressionBatch(
+  expression: string,
+  count: number,
+  rollType: RollType | RollTypeStack = 'normal',
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG,
+  target?: RollTarget,
+  options: DiceRollBatchOptions = {}
+): Promise<DiceRollResult[]> {
+  return diceRollService.rollMany(expression, count, rollType, config, target, options);
+}
+
+/**
+ * Sample the totals of `count` rolls with the shared service, in a worker above WORKER_THRESHOLD rolls
+ */
+export function sampleDiceTotals(
+  expression: string,
+  count: number,
+  rollType: RollType | RollTypeStack = 'normal',
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG,
+  target?: RollTarget,
+  options: DiceRollBatchOptions = {}
+): Promise<number[]> {
+  return diceRollService.sampleTotals(expression, count, rollType, config, target, options);
+}
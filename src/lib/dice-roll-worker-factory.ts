@@ -0,0 +1,9 @@
+/**
+ * Starts the dice roll worker; kept apart from the service so only the bundle sees `import.meta`
+ */
+
+import { DiceWorkerLike } from '@/types/dice-worker';
+
+export function startDiceRollWorker(): DiceWorkerLike {
+  return new Worker(new URL('./dice-roll.worker.ts', import.meta.url)) as unknown as DiceWorkerLike;
+}
@@ -0,0 +1,120 @@
+/**
+ * Bulk rolling - rolls one expression many times in batches, yielding between batches
+ * so progress can be reported and the job cancelled. Runs inside the dice roll worker,
+ * and on the main thread when there is no worker.
+ */
+
+import { DiceError, RandomSource } from '@/types/dice';
+import { DiceRollJob, DiceRollJobOutput, DiceWorkerRequest, DiceWorkerResponse } from '@/types/dice-worker';
+import { parseDiceExpression, rollDiceExpression } from '@/lib/dice-utils';
+import { createSeededRandom, defaultRandom } from '@/lib/random';
+
+/**
+ * Callbacks while a job runs
+ */
+export interface DiceRollJobHooks {
+  /** Called after each batch */
+  onProgress?: (completed: number, total: number) => void;
+  /** Checked before each batch; the job stops with a CANCELLED error once it returns true */
+  isCancelled?: () => boolean;
+  /** Waits between batches (default: a zero-delay timeout, so messages and events get through) */
+  pause?: () => Promise<void>;
+}
+
+/**
+ * Error for a job that was cancelled before it finished
+ */
+export function createCancelledError(): DiceError {
+  return { type: 'CANCELLED', message: 'Rolling was cancelled' };
+}
+
+function nextTask(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * Roll a job's expression `count` times
+ *
+ * @param job - What to roll
+ * @param random - Random source; defaults to the job's seed, or crypto-backed randomness without one
+ * @param hooks - Progress, cancellation and pause between batches
+ * @returns Results and totals in roll order
+ * @throws DiceError if the expression is invalid or the job is cancelled
+ */
+export async function runDiceRollJob(
+  job: DiceRollJob,
+  random?: RandomSource,
+  hooks: DiceRollJobHooks = {}
+): Promise<DiceRollJobOutput> {
+  const config = {
+    ...job.config,
+    random: random ?? (job.seed !== undefined ? createSeededRandom(job.seed) : defaultRandom),
+  };
+  const { onProgress, isCancelled, pause = nextTask } = hooks;
+  const batchSize = Math.max(1, job.batchSize);
+
+  // Parse once; every roll reuses the same expression
+  const expression = parseDiceExpression(job.expression, config);
+  const output: DiceRollJobOutput = { results: [], totals: [] };
+
+  let completed = 0;
+  while (completed < job.count) {
+    if (isCancelled?.()) {
+      throw createCancelledError();
+    }
+
+    const end = Math.min(job.count, completed + batchSize);
+    for (; completed < end; completed++) {
+      const result = rollDiceExpression(expression, job.rollType, config, job.target);
+      output.totals.push(result.total);
+      if (!job.totalsOnly) {
+        output.results.push(result);
+      }
+    }
+
+    onProgress?.(completed, job.count);
+    if (completed < job.count) {
+      await pause();
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Handle the messages sent to a dice roll worker
+ *
+ * @param post - Sends a response back to the service
+ * @returns Handler for each request
+ */
+export function createDiceWorkerHandler(post: (response: DiceWorkerResponse) => void): (request: DiceWorkerRequest) => void {
+  const cancelled = new Set<number>();
+
+  return request => {
+    if (request.type === 'cancel') {
+      cancelled.add(request.id);
+      return;
+    }
+
+    const { id, job } = request;
+    runDiceRollJob(job, undefined, {
+      onProgress: (completed, total) => post({ type: 'progress', id, completed, total }),
+      isCancelled: () => cancelled.has(id),
+    })
+      .then(output => post({ type: 'done', id, output }))
+      .catch(error => {
+        // A cancelled job's caller has already moved on
+        if (!cancelled.has(id)) {
+          post({ type: 'error', id, error: toDiceError(error) });
+        }
+      })
+      .finally(() => cancelled.delete(id));
+  };
+}
+
+function toDiceError(error: unknown): DiceError {
+  if (error && typeof error === 'object' && 'type' in error) {
+    return error as DiceError;
+  }
+  return { type: 'UNKNOWN_ERROR', message: error instanceof Error ? error.message : 'Bulk rolling failed' };
+}
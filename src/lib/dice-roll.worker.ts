@@ -0,0 +1,16 @@
+/**
+ * Dice roll worker - rolls large batches off the main thread (see dice-roll-service)
+ */
+
+import { DiceWorkerRequest, DiceWorkerResponse } from '@/types/dice-worker';
+import { createDiceWorkerHandler } from '@/lib/dice-roll-worker';
+
+// The DOM typings describe `self` as a Window; inside a worker it is the worker's global scope
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<DiceWorkerRequest>) => void) | null;
+  postMessage: (message: DiceWorkerResponse) => void;
+};
+
+const handle = createDiceWorkerHandler(response => scope.postMessage(response));
+
+scope.onmessage = event => handle(event.data);
@@ -0,0 +1,72 @@
+/**
+ * Unit tests for the dice tray layout
+ */
+
+import { describeDiceTray, formatDieOutline, getDieShape, layoutDiceTray } from './dice-tray';
+import { SingleRoll } from '@/types/dice';
+
+const die = (sides: number, value: number, extra: Partial<SingleRoll> = {}): SingleRoll => ({
+  value,
+  sides,
+  isCritical: value === sides,
+  ...extra,
+});
+
+describe('getDieShape', () => {
+  test('draws each die with its own outline', () => {
+    expect([4, 6, 8, 10, 12, 20].map(sides => getDieShape(sides).outline.length)).toEqual([3, 4, 4, 4, 5, 6]);
+    expect(getDieShape(8).outline).not.toEqual(getDieShape(10).outline);
+    expect(getDieShape(100).outline).toEqual([]);
+  });
+
+  test('keeps every point inside the die box', () => {
+    [4, 6, 8, 10, 12, 20].forEach(sides => {
+      const { outline, facets } = getDieShape(sides);
+      [...outline, ...facets.flat()].forEach(([x, y]) => {
+        expect(Math.abs(x)).toBeLessThanOrEqual(1);
+        expect(Math.abs(y)).toBeLessThanOrEqual(1);
+      });
+    });
+  });
+
+  test('formats an outline for SVG', () => {
+    expect(formatDieOutline(getDieShape(6).outline, 10)).toBe('-8,-8 8,-8 8,8 -8,8');
+  });
+});
+
+describe('layoutDiceTray', () => {
+  test('wraps dice into centred rows', () => {
+    const rolls = [die(6, 1), die(6, 2), die(6, 3), die(6, 4), die(6, 5)];
+    const { dice, height } = layoutDiceTray(rolls, { width: 200, dieSize: 40, gap: 10 });
+
+    // Four dice fit in a row; the fifth is centred on the next
+    expect(dice.map(d => [d.x, d.y])).toEqual([[25, 20], [75, 20], [125, 20], [175, 20], [100, 70]]);
+    expect(height).toBe(90);
+  });
+
+  test('staggers dice without a long wait for big rolls', () => {
+    const few = layoutDiceTray([die(6, 1), die(6, 2), die(6, 3)]).dice.map(d => d.delay);
+    const many = layoutDiceTray(Array.from({ length: 20 }, (_, i) => die(6, (i % 6) + 1))).dice;
+
+    expect(few).toEqual([0, 90, 180]);
+    expect(many[many.length - 1].delay).toBeLessThanOrEqual(600);
+  });
+
+  test('tumbles the same roll the same way every time', () => {
+    const rolls = [die(12, 9, { role: 'hope' }), die(12, 4, { role: 'fear' })];
+
+    expect(layoutDiceTray(rolls)).toEqual(layoutDiceTray(rolls));
+    layoutDiceTray(rolls).dice.forEach(d => expect(Math.abs(d.spin)).toBeGreaterThanOrEqual(360));
+  });
+
+  test('leaves an empty tray for no dice', () => {
+    expect(layoutDiceTray([])).toEqual({ dice: [], width: 300, height: 0 });
+  });
+});
+
+describe('describeDiceTray', () => {
+  test('names Duality Dice and dropped dice', () => {
+    expect(describeDiceTray([die(12, 9, { role: 'hope' }), die(12, 4, { role: 'fear' }), die(6, 2, { discarded: true })]))
+      .toBe('Hope d12 showing 9, Fear d12 showing 4, d6 showing 2 (dropped)');
+  });
+});
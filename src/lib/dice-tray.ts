@@ -0,0 +1,170 @@
+/**
+ * Dice tray - die shapes and the layout of rolled dice for the animated tray
+ */
+
+import { SingleRoll } from '@/types/dice';
+
+type Point = [number, number];
+
+/**
+ * Outline of a die as seen in the tray, in a box from -1 to 1 around its centre
+ */
+export interface DieShape {
+  /** Outline vertices; empty for dice drawn as a circle (d2, d3, d100...) */
+  outline: Point[];
+  /** Facet edges drawn inside the outline */
+  facets: [Point, Point][];
+  /** Vertical offset of the value so it sits in the die's main face */
+  labelOffset: number;
+}
+
+/**
+ * A rolled die placed in the tray
+ */
+export interface DiceTrayDie {
+  roll: SingleRoll;
+  /** Centre of the die in tray units */
+  x: number;
+  y: number;
+  /** Spin in degrees while tumbling in; the sign is the direction */
+  spin: number;
+  /** Horizontal distance the die tumbles from, in die widths */
+  fromX: number;
+  /** Delay before the die starts tumbling, in milliseconds */
+  delay: number;
+}
+
+export interface DiceTrayLayout {
+  dice: DiceTrayDie[];
+  width: number;
+  height: number;
+}
+
+export interface DiceTrayLayoutOptions {
+  /** Width of the tray in tray units (default: 300) */
+  width?: number;
+  /** Width of one die in tray units (default: 48) */
+  dieSize?: number;
+  /** Space between dice (default: 12) */
+  gap?: number;
+}
+
+// Dice land one after another, but the last one never waits longer than this
+const STAGGER_MS = 90;
+const MAX_DELAY_MS = 600;
+
+/**
+ * Vertices of a regular polygon, the first one pointing up
+ */
+function regularPolygon(corners: number, radius: number = 1, rotation: number = 0): Point[] {
+  return Array.from({ length: corners }, (_, i) => {
+    const angle = rotation - Math.PI / 2 + (i * 2 * Math.PI) / corners;
+    return [round(Math.cos(angle) * radius), round(Math.sin(angle) * radius)];
+  });
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Get the shape a die is drawn with: d4 triangle, d6 square, d8 diamond, d10 kite, d12 pentagon, d20 hexagon
+ *
+ * @param sides - Number of sides on the die
+ */
+export function getDieShape(sides: number): DieShape {
+  switch (sides) {
+    case 4: {
+      const outline = regularPolygon(3);
+      return { outline, facets: [], labelOffset: 0.25 };
+    }
+    case 6:
+      return { outline: [[-0.8, -0.8], [0.8, -0.8], [0.8, 0.8], [-0.8, 0.8]], facets: [], labelOffset: 0 };
+    case 8:
+      return { outline: regularPolygon(4), facets: [[[-1, 0], [1, 0]]], labelOffset: 0.3 };
+    case 10: {
+      const outline: Point[] = [[0, -1], [0.95, -0.1], [0, 1], [-0.95, -0.1]];
+      return { outline, facets: [[[-0.95, -0.1], [0, 0.35]], [[0, 0.35], [0.95, -0.1]], [[0, 0.35], [0, 1]]], labelOffset: -0.2 };
+    }
+    case 12: {
+      const outline = regularPolygon(5);
+      const face = regularPolygon(5, 0.55);
+      return { outline, facets: outline.map((corner, i) => [corner, face[i]] as [Point, Point]), labelOffset: 0.05 };
+    }
+    case 20: {
+      const outline = regularPolygon(6);
+      const face = regularPolygon(3, 0.6);
+      // The front triangle, with every corner of the outline joined to its nearest triangle corners
+      const facets: [Point, Point][] = face.map((corner, i) => [corner, face[(i + 1) % 3]] as [Point, Point]);
+      const nearest = [[0], [0, 1], [1], [1, 2], [2], [2, 0]];
+      outline.forEach((corner, i) => nearest[i].forEach(j => facets.push([corner, face[j]])));
+      return { outline, facets, labelOffset: 0.1 };
+    }
+    default:
+      return { outline: [], facets: [], labelOffset: 0 };
+  }
+}
+
+/**
+ * Format an outline as the points attribute of an SVG polygon
+ *
+ * @param outline - Outline vertices from getDieShape
+ * @param scale - Half the die width
+ */
+export function formatDieOutline(outline: Point[], scale: number): string {
+  return outline.map(([x, y]) => `${round(x * scale)},${round(y * scale)}`).join(' ');
+}
+
+/**
+ * Small deterministic hash, so a roll always tumbles the same way (and server and client render agree)
+ */
+function hashRoll(roll: SingleRoll, index: number): number {
+  return ((roll.value * 7919 + roll.sides * 104729 + index * 1299709) % 997 + 997) % 997;
+}
+
+/**
+ * Lay out rolled dice in rows, with how each one tumbles in
+ *
+ * @param rolls - Dice of a roll, in order
+ * @param options - Tray and die sizes
+ * @returns Placed dice and the size of the tray they fill
+ */
+export function layoutDiceTray(rolls: SingleRoll[], options: DiceTrayLayoutOptions = {}): DiceTrayLayout {
+  const { width = 300, dieSize = 48, gap = 12 } = options;
+  const perRow = Math.max(1, Math.floor((width + gap) / (dieSize + gap)));
+  const rows = Math.ceil(rolls.length / perRow);
+  const stagger = rolls.length > 1 ? Math.min(STAGGER_MS, MAX_DELAY_MS / (rolls.length - 1)) : 0;
+
+  const dice = rolls.map((roll, index) => {
+    const row = Math.floor(index / perRow);
+    const column = index % perRow;
+    // Centre each row, including a short last one
+    const inRow = Math.min(perRow, rolls.length - row * perRow);
+    const rowWidth = inRow * dieSize + (inRow - 1) * gap;
+    const hash = hashRoll(roll, index);
+
+    return {
+      roll,
+      x: (width - rowWidth) / 2 + column * (dieSize + gap) + dieSize / 2,
+      y: row * (dieSize + gap) + dieSize / 2,
+      spin: (hash % 2 === 0 ? 1 : -1) * (360 + (hash % 180)),
+      fromX: round(((hash % 5) - 2) * 0.5),
+      delay: Math.round(index * stagger),
+    };
+  });
+
+  return { dice, width, height: Math.max(0, rows * dieSize + (rows - 1) * gap) };
+}
+
+/**
+ * Describe the dice in the tray for screen readers
+ *
+ * @returns Description such as "Hope d12 showing 9, Fear d12 showing 4, d6 showing 2 (dropped)"
+ */
+export function describeDiceTray(rolls: SingleRoll[]): string {
+  return rolls.map(roll => {
+    const kind = roll.role ?? roll.bonus;
+    const role = kind ? `${kind.charAt(0).toUpperCase()}${kind.slice(1)} ` : '';
+    return `${role}d${roll.sides} showing ${roll.value}${roll.discarded ? ' (dropped)' : ''}`;
+  }).join(', ');
+}
@@ -12,6 +12,7 @@ import {
   rollCritical,
   isDiceExpression,
   extractDiceExpressions,
+  findDiceExpressionsInText,
   getDiceRange,
   getDiceAverage,
   isValidDiceExpression,
@@ -21,16 +22,30 @@ import {
   sanitizeDiceInput,
   checkDiceExpressionSafety,
   validateMultipleDiceExpressions,
+  rollDualityDice,
+  getDualityOutcome,
+  getDualityOutcomeLabel,
+  isDualityRollResult,
+  applyRollTypeToExistingResult,
+  canApplyCritical,
+  evaluateRoll,
+  getRollEvaluationLabel,
+  addDieToExpression,
+  adjustExpressionModifier,
+  resolveRollTypeStack,
+  formatRollTypeStack,
   DEFAULT_DICE_CONFIG,
 } from './dice-utils';
 
 import { DiceError, DiceRollConfig } from '@/types/dice';
 
-// Mock Math.random for predictable test results
-const mockMath = Object.create(global.Math);
+// Replace the crypto-backed default random source for predictable test results
+const mockRandom = { next: () => mockRandomValue };
 let mockRandomValue = 0.5;
-mockMath.random = () => mockRandomValue;
-global.Math = mockMath;
+jest.mock('./random', () => ({
+  ...jest.requireActual('./random'),
+  defaultRandom: () => mockRandom.next(),
+}));
 
 // Helper function to set mock random value
 const setMockRandom = (value: number) => {
@@ -257,6 +272,323 @@ describe('rollCritical', () => {
   });
 });
 
+describe('stacked advantage and disadvantage', () => {
+  // floor(random * sides) + 1 gives the face
+  const withRolls = (...values: number[]): DiceRollConfig => {
+    let index = 0;
+    return { ...DEFAULT_DICE_CONFIG, random: () => values[index++ % values.length] };
+  };
+
+  test('cancels one for one', () => {
+    expect(resolveRollTypeStack({ advantage: 3, disadvantage: 1 })).toEqual({ rollType: 'advantage', dice: 2, cancelled: 1 });
+    expect(resolveRollTypeStack({ advantage: 1, disadvantage: 2 })).toEqual({ rollType: 'disadvantage', dice: 1, cancelled: 1 });
+    expect(resolveRollTypeStack({ advantage: 2, disadvantage: 2 })).toEqual({ rollType: 'normal', dice: 0, cancelled: 2 });
+  });
+
+  test('keeps the highest of several advantage dice', () => {
+    const result = rollDiceExpression('1d20', { advantage: 2, disadvantage: 0 }, withRolls(0.5, 1 / 6, 4 / 6)); // 11, d6s 2 and 5
+
+    expect(result.total).toBe(16);
+    expect(result.rollType).toBe('advantage');
+    expect(result.rollTypeStack).toEqual({ advantage: 2, disadvantage: 0 });
+    expect(result.rolls.slice(1)).toEqual([
+      { value: 2, sides: 6, isCritical: false, bonus: 'advantage', discarded: true },
+      { value: 5, sides: 6, isCritical: false, bonus: 'advantage' },
+    ]);
+    expect(result.breakdown[1]).toEqual({ dieSpec: 'advantage', values: [2, 5], subtotal: 5, droppedIndices: [0] });
+  });
+
+  test('subtracts the highest disadvantage die left after cancelling', () => {
+    const result = rollDiceExpression('1d20+2', { advantage: 1, disadvantage: 3 }, withRolls(0.5, 2 / 6, 5 / 6)); // 11, d6s 3 and 6
+
+    expect(result.total).toBe(7);
+    expect(result.rollType).toBe('disadvantage');
+    expect(result.breakdown[1]).toEqual({ dieSpec: 'disadvantage', values: [3, 6], subtotal: -6, droppedIndices: [0] });
+  });
+
+  test('rolls normally when advantage and disadvantage cancel out', () => {
+    const result = rollDiceExpression('1d20', { advantage: 2, disadvantage: 2 }, withRolls(0.5));
+
+    expect(result.total).toBe(11);
+    expect(result.rollType).toBe('normal');
+    expect(result.rolls).toHaveLength(1);
+    expect(formatRollTypeStack(result.rollTypeStack!)).toBe('2 advantage − 2 disadvantage = cancelled');
+    expect(formatRollTypeStack({ advantage: 3, disadvantage: 1 })).toBe('3 advantage − 1 disadvantage = 2 advantage dice');
+  });
+
+  test('tags bonus dice instead of giving them negative sides', () => {
+    const advantaged = rollDiceExpression('1d20', 'advantage', withRolls(0.5, 5 / 6)); // advantage d6 rolls a 6
+    const critical = rollDiceExpression('2d8', 'critical', withRolls(0.5));
+
+    expect(advantaged.rolls[1]).toMatchObject({ value: 6, sides: 6, bonus: 'advantage' });
+    expect(advantaged.breakdown.map(entry => entry.dieSpec)).toEqual(['1d20', 'advantage']);
+    expect(critical.rolls.filter(roll => roll.bonus === 'critical')).toEqual([
+      { value: 8, sides: 8, isCritical: true, bonus: 'critical' },
+      { value: 8, sides: 8, isCritical: true, bonus: 'critical' },
+    ]);
+    expect(critical.rolls.every(roll => roll.sides > 0)).toBe(true);
+  });
+
+  test('stacks on Duality Dice and switches back to a single roll type', () => {
+    const result = rollDualityDice({ rollType: { advantage: 2, disadvantage: 1 }, random: withRolls(0.5, 0.25, 0.5).random });
+    const disadvantaged = applyRollTypeToExistingResult(result, 'disadvantage', () => 0);
+
+    expect(result.total).toBe(7 + 4 + 4);
+    expect(result.rollTypeStack).toEqual({ advantage: 2, disadvantage: 1 });
+    expect(disadvantaged.total).toBe(7 + 4 - 1);
+    expect(disadvantaged.rollTypeStack).toBeUndefined();
+  });
+});
+
+describe('extended dice notation', () => {
+  const setMockRandomSequence = (values: number[]) => {
+    let index = 0;
+    mockRandom.next = () => values[index++ % values.length];
+  };
+
+  afterEach(() => {
+    mockRandom.next = () => mockRandomValue;
+  });
+
+  test('keeps a syntax tree for expressions that are not plain sums', () => {
+    const result = parseDiceExpression('2d20kh1+3');
+
+    expect(result.dice).toEqual([{ count: 2, sides: 20 }]);
+    expect(result.modifier).toBe(3);
+    expect(result.ast).toBeDefined();
+  });
+
+  test('rolls keep highest with a per-term breakdown', () => {
+    setMockRandomSequence([0.1, 0.7]); // d20s give 3 and 15
+
+    const result = rollDiceExpression('2d20kh1+3');
+
+    expect(result.total).toBe(18);
+    expect(result.breakdown).toEqual([
+      { dieSpec: '2d20kh1', values: [3, 15], subtotal: 15, droppedIndices: [0] },
+    ]);
+    expect(result.formula).toBeUndefined();
+  });
+
+  test('includes the substituted formula for multiplication', () => {
+    setMockRandom(0.5); // d8 gives 5
+
+    const result = rollDiceExpression('(1d8+2)*2');
+
+    expect(result.total).toBe(14);
+    expect(result.formula).toBe('(5 + 2) × 2');
+  });
+
+  test('adds advantage on top of the evaluated total', () => {
+    setMockRandom(0.5); // d20 gives 11, d6 gives 4
+
+    const result = rollDiceExpression('1d20-1d6', 'advantage');
+
+    expect(result.total).toBe(11);
+    expect(result.breakdown.map(entry => entry.dieSpec)).toEqual(['1d20', '-1d6', 'advantage']);
+  });
+
+  test('switches roll type without re-rolling the terms', () => {
+    setMockRandom(0.5);
+    const original = rollDiceExpression('(1d8+2)*2');
+
+    const advantaged = applyRollTypeToExistingResult(original, 'advantage');
+    const disadvantaged = applyRollTypeToExistingResult(advantaged, 'disadvantage');
+
+    expect(advantaged.total).toBe(18);
+    expect(disadvantaged.total).toBe(10);
+    expect(disadvantaged.breakdown.map(entry => entry.dieSpec)).toEqual(['1d8', 'disadvantage']);
+  });
+
+  test('reports range and average for extended expressions', () => {
+    expect(getDiceRange('2d20kh1+3')).toEqual({ min: 4, max: 23 });
+    expect(getDiceAverage('2d20kh1')).toBeCloseTo(13.825, 6);
+  });
+
+  test('finds extended expressions in text', () => {
+    const expressions = extractDiceExpressions('Roll 2d20kh1+3 to strike, then 1d6! damage.');
+
+    expect(expressions).toContain('2d20kh1+3');
+    expect(expressions).toContain('1d6!');
+  });
+});
+
+describe('rollDualityDice', () => {
+  // Feed a fixed sequence of random values (Hope die first, then Fear die)
+  const setMockRandomSequence = (values: number[]) => {
+    let index = 0;
+    mockRandom.next = () => values[index++ % values.length];
+  };
+
+  afterEach(() => {
+    mockRandom.next = () => mockRandomValue;
+  });
+
+  test('labels the Hope and Fear dice', () => {
+    setMockRandomSequence([0.7, 0.2]); // Hope 9, Fear 3
+    
+    const result = rollDualityDice();
+    
+    expect(result.duality.hope).toBe(9);
+    expect(result.duality.fear).toBe(3);
+    expect(result.rolls.map(roll => roll.role)).toEqual(['hope', 'fear']);
+    expect(result.breakdown.map(b => b.label)).toEqual(['Hope', 'Fear']);
+    expect(result.total).toBe(12);
+  });
+
+  test('reports the outcome with Hope or with Fear', () => {
+    setMockRandomSequence([0.7, 0.2]);
+    expect(rollDualityDice().duality.outcome).toBe('hope');
+    
+    setMockRandomSequence([0.2, 0.7]);
+    expect(rollDualityDice().duality.outcome).toBe('fear');
+  });
+
+  test('treats doubles as a Critical Success', () => {
+    setMockRandom(0.5);
+    
+    const result = rollDualityDice();
+    
+    expect(result.duality.outcome).toBe('critical');
+  });
+
+  test('applies trait modifier', () => {
+    setMockRandomSequence([0.7, 0.2]);
+    
+    const result = rollDualityDice({ modifier: 2 });
+    
+    expect(result.total).toBe(14);
+    expect(result.duality.traitModifier).toBe(2);
+    expect(result.expression.originalExpression).toBe('2d12+2');
+  });
+
+  test('adds advantage d6 without changing the outcome', () => {
+    setMockRandomSequence([0.2, 0.7, 0.5]); // Hope 3, Fear 9, advantage 4
+    
+    const result = rollDualityDice({ modifier: -1, rollType: 'advantage' });
+    
+    expect(result.rollType).toBe('advantage');
+    expect(result.total).toBe(15); // 3 + 9 + 4 - 1
+    expect(result.duality.outcome).toBe('fear');
+    expect(result.breakdown[2].dieSpec).toBe('advantage');
+  });
+
+  test('keeps duality details when applying disadvantage to an existing roll', () => {
+    setMockRandomSequence([0.7, 0.2, 0.5]);
+    
+    const result = applyRollTypeToExistingResult(rollDualityDice(), 'disadvantage');
+    
+    expect(isDualityRollResult(result)).toBe(true);
+    expect(result.total).toBe(8); // 9 + 3 - 4
+    expect(result.breakdown.map(b => b.label)).toEqual(['Hope', 'Fear', undefined]);
+  });
+
+  test('does not allow critical damage on action rolls', () => {
+    setMockRandom(0.5);
+    expect(canApplyCritical(rollDualityDice())).toBe(false);
+  });
+
+  test('rejects oversized modifiers', () => {
+    expect(() => rollDualityDice({ modifier: 5000 })).toThrow();
+  });
+});
+
+describe('getDualityOutcome', () => {
+  test('compares Hope and Fear dice', () => {
+    expect(getDualityOutcome(10, 4)).toBe('hope');
+    expect(getDualityOutcome(4, 10)).toBe('fear');
+    expect(getDualityOutcome(7, 7)).toBe('critical');
+  });
+
+  test('provides display labels', () => {
+    expect(getDualityOutcomeLabel('hope')).toBe('with Hope');
+    expect(getDualityOutcomeLabel('fear')).toBe('with Fear');
+    expect(getDualityOutcomeLabel('critical')).toBe('Critical Success');
+  });
+
+  test('does not treat regular rolls as duality rolls', () => {
+    expect(isDualityRollResult(rollDiceExpression('2d12'))).toBe(false);
+  });
+});
+
+describe('evaluateRoll', () => {
+  const setMockRandomSequence = (values: number[]) => {
+    let index = 0;
+    mockRandom.next = () => values[index++ % values.length];
+  };
+
+  afterEach(() => {
+    mockRandom.next = () => mockRandomValue;
+  });
+
+  test('succeeds when the total meets the Difficulty', () => {
+    setMockRandom(0.5); // d20 gives 11
+    
+    const result = rollDiceExpression('1d20+3', 'normal', DEFAULT_DICE_CONFIG, { value: 14, type: 'difficulty' });
+    
+    expect(result.evaluation).toEqual({
+      target: { value: 14, type: 'difficulty' },
+      success: true,
+      margin: 0,
+      isCriticalSuccess: false,
+    });
+    expect(getRollEvaluationLabel(result.evaluation!)).toBe('Success');
+  });
+
+  test('reports hits and misses against Evasion', () => {
+    setMockRandom(0.5);
+    
+    const result = rollDiceExpression('1d20+1', 'normal', DEFAULT_DICE_CONFIG, { value: 13, type: 'evasion' });
+    
+    expect(result.evaluation?.success).toBe(false);
+    expect(result.evaluation?.margin).toBe(-1);
+    expect(getRollEvaluationLabel(result.evaluation!)).toBe('Miss');
+  });
+
+  test('treats a natural 20 as a critical hit', () => {
+    setMockRandom(0.99);
+    
+    const result = rollDiceExpression('1d20-5', 'normal', DEFAULT_DICE_CONFIG, { value: 30, type: 'evasion' });
+    
+    expect(result.evaluation?.success).toBe(true);
+    expect(result.evaluation?.isCriticalSuccess).toBe(true);
+    expect(getRollEvaluationLabel(result.evaluation!)).toBe('Critical Hit');
+  });
+
+  test('resolves the full Hope/Fear matrix for Duality Dice', () => {
+    setMockRandomSequence([0.7, 0.2]); // Hope 9, Fear 3 = 12
+    expect(rollDualityDice({ difficulty: 12 }).evaluation?.dualityResolution).toBe('success-with-hope');
+    
+    setMockRandomSequence([0.2, 0.7]); // Hope 3, Fear 9 = 12
+    expect(rollDualityDice({ difficulty: 13 }).evaluation?.dualityResolution).toBe('failure-with-fear');
+    
+    setMockRandomSequence([0.1]); // Doubles always succeed
+    const critical = rollDualityDice({ difficulty: 30 });
+    expect(critical.evaluation?.success).toBe(true);
+    expect(getRollEvaluationLabel(critical.evaluation!)).toBe('Critical Success');
+  });
+
+  test('re-evaluates when advantage changes the total', () => {
+    setMockRandom(0.5); // d20 gives 11, advantage d6 gives 4
+    
+    const result = rollDiceExpression('1d20', 'normal', DEFAULT_DICE_CONFIG, { value: 14, type: 'difficulty' });
+    expect(result.evaluation?.success).toBe(false);
+    
+    const withAdvantage = applyRollTypeToExistingResult(result, 'advantage');
+    expect(withAdvantage.evaluation?.success).toBe(true);
+    expect(withAdvantage.evaluation?.margin).toBe(1);
+  });
+
+  test('can evaluate an existing roll', () => {
+    setMockRandom(0.5);
+    
+    const evaluation = evaluateRoll(rollDiceExpression('2d6'), { value: 9, type: 'difficulty' });
+    
+    expect(evaluation.success).toBe(false);
+    expect(evaluation.margin).toBe(-1);
+  });
+});
+
 describe('isDiceExpression', () => {
   test('recognizes valid dice expressions', () => {
     const validExpressions = ['2d6', 'd20', '1d8+3', '5', '+7', '-2'];
@@ -308,6 +640,35 @@ describe('extractDiceExpressions', () => {
   });
 });
 
+describe('findDiceExpressionsInText', () => {
+  test('finds only expressions with dice, with their positions', () => {
+    const text = 'Mark a Stress to gain +2. Targets take 2d20 magic damage and 3 Stress.';
+    const matches = findDiceExpressionsInText(text);
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({ expression: '2d20', sentence: 'Targets take 2d20 magic damage and 3 Stress.' });
+    expect(text.slice(matches[0].start, matches[0].end)).toBe('2d20');
+  });
+
+  test('finds repeated expressions and dice without a count', () => {
+    const matches = findDiceExpressionsInText('Clear 1d4 HP. Clear 1d4 Stress, then roll a d6.');
+
+    expect(matches.map(match => match.expression)).toEqual(['1d4', '1d4', 'd6']);
+    expect(matches.map(match => match.sentence)).toEqual([
+      'Clear 1d4 HP.',
+      'Clear 1d4 Stress, then roll a d6.',
+      'Clear 1d4 Stress, then roll a d6.'
+    ]);
+    expect(matches[1].start).toBe(20);
+  });
+
+  test('ends sentences at line breaks', () => {
+    const matches = findDiceExpressionsInText('Venom Bite\nDeal 1d8+2 damage');
+
+    expect(matches).toEqual([{ expression: '1d8+2', start: 16, end: 21, sentence: 'Deal 1d8+2 damage' }]);
+  });
+});
+
 describe('getDiceRange', () => {
   test('calculates range for simple dice', () => {
     const range = getDiceRange('2d6');
@@ -485,6 +846,41 @@ describe('validateMultipleDiceExpressions', () => {
   });
 });
 
+describe('addDieToExpression', () => {
+  test('starts an empty expression with one die', () => {
+    expect(addDieToExpression('', 6)).toBe('1d6');
+  });
+
+  test('increases the count when the last term is the same die', () => {
+    expect(addDieToExpression('1d6', 6)).toBe('2d6');
+    expect(addDieToExpression('1d20+d6', 6)).toBe('1d20+2d6');
+  });
+
+  test('appends a new term otherwise', () => {
+    expect(addDieToExpression('1d20+3', 6)).toBe('1d20+3+1d6');
+    expect(addDieToExpression('1d100', 10)).toBe('1d100+1d10');
+    expect(addDieToExpression('2d20kh1', 20)).toBe('2d20kh1+1d20');
+  });
+});
+
+describe('adjustExpressionModifier', () => {
+  test('adds a modifier when there is none', () => {
+    expect(adjustExpressionModifier('2d6', 1)).toBe('2d6+1');
+    expect(adjustExpressionModifier('2d20kh1', -1)).toBe('2d20kh1-1');
+  });
+
+  test('adjusts an existing modifier', () => {
+    expect(adjustExpressionModifier('2d6+1', 1)).toBe('2d6+2');
+    expect(adjustExpressionModifier('2d6 - 1', -1)).toBe('2d6-2');
+    expect(adjustExpressionModifier('1d6+1', -2)).toBe('1d6-1');
+    expect(adjustExpressionModifier('+3', 1)).toBe('+4');
+  });
+
+  test('removes a modifier that reaches zero', () => {
+    expect(adjustExpressionModifier('1d8+1', -1)).toBe('1d8');
+  });
+});
+
 describe('Edge cases and error handling', () => {
   test('handles very large dice counts gracefully', () => {
     const config: DiceRollConfig = { ...DEFAULT_DICE_CONFIG, maxDiceCount: 1000 };
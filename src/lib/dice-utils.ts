@@ -10,9 +10,33 @@ import {
   Die,
   DiceRollConfig,
   DiceRollResult,
+  DiceTextMatch,
   SingleRoll,
-  DiceBreakdown
+  DiceBreakdown,
+  DualityOutcome,
+  DualityResolution,
+  DualityRollOptions,
+  DualityRollResult,
+  RandomSource,
+  RollEvaluation,
+  RollTarget,
+  RollTypeStack,
+  BonusDieKind
 } from '@/types/dice';
+import { defaultRandom } from '@/lib/random';
+import {
+  collectDiceTerms,
+  countOperators,
+  evaluateDiceNode,
+  getAdditiveModifier,
+  getDiceNodeAverage,
+  getDiceNodeRange,
+  hasDiceMultiplication,
+  lowerDiceNode,
+  parseDiceNotation,
+  validateDiceNode
+} from '@/lib/dice-parser';
+import { hasDiceVariables, resolveDiceVariables } from '@/lib/dice-variables';
 
 /**
  * Default configuration for dice rolling
@@ -44,8 +68,16 @@ export const STANDARD_DICE: DieType[] = [
   { sides: 100, name: 'd100', common: false }
 ];
 
-export const COMMON_DAGGERHEART_ROLLS = [
-  { name: 'Action Roll', expression: '2d12', description: 'Standard action roll with dual d12s' },
+export interface CommonRoll {
+  name: string;
+  expression: string;
+  description: string;
+  /** Whether the roll should be made with the Duality Dice (Hope/Fear) */
+  duality?: boolean;
+}
+
+export const COMMON_DAGGERHEART_ROLLS: CommonRoll[] = [
+  { name: 'Action Roll', expression: '2d12', description: 'Duality Dice: a Hope d12 and a Fear d12', duality: true },
   { name: 'Hope Die', expression: '1d20', description: 'Hope die for adding to action rolls' },
   { name: 'Damage (Light)', expression: '1d4', description: 'Light weapon damage' },
   { name: 'Damage (Medium)', expression: '1d6', description: 'Medium weapon damage' },
@@ -55,22 +87,9 @@ export const COMMON_DAGGERHEART_ROLLS = [
 ];
 
 /**
- * Regular expression patterns for dice notation parsing
+ * Pattern for finding dice expressions embedded in text, e.g. "2d6+2+1d4", "2d20kh1+3", "+5"
  */
-const DICE_PATTERNS = {
-  // Matches full dice expressions like "2d6+3", "1d20-2", "d8+1", "+5", "2d6+2+1d4"
-  FULL_EXPRESSION: /^([+-]?)(?:(\d*)d(\d+))?([+-]\d+)?$/i,
-  // Matches individual dice components
-  DICE_COMPONENT: /(\d*)d(\d+)/gi,
-  // Matches modifiers
-  MODIFIER: /([+-])(\d+)/g,
-  // Validates clean expression format - now supports multiple dice and modifiers
-  CLEAN_FORMAT: /^[+-]?(?:(?:\d*d\d+)|(?:\d+))(?:[+-](?:(?:\d*d\d+)|(?:\d+)))*$/i,
-  // Matches complete complex expressions with multiple dice types and modifiers
-  COMPLEX_EXPRESSION: /^[+-]?(?:(?:\d*d\d+)|(?:\d+))(?:[+-](?:(?:\d*d\d+)|(?:\d+)))*$/i,
-  // Matches individual terms (dice or numbers) in complex expressions
-  TERM: /([+-]?)(?:(\d*)d(\d+)|(\d+))/g,
-};
+const EXTRACT_PATTERN = /(?:^|\s|[(\[{])((?:[+-]?(?:(?:\d*d\d+(?:k[hl]?\d+|d[hl]\d+|ro?\d+|!)*)|(?:\d+))(?:[+\-*](?:(?:\d*d\d+(?:k[hl]?\d+|d[hl]\d+|ro?\d+|!)*)|(?:\d+)))*))(?=\s|$|[)\]}.,;!?])/gi;
 
 /**
  * Parse a dice expression string into a structured DiceExpression object
@@ -82,7 +101,10 @@ const DICE_PATTERNS = {
  * - "+5" - modifier only, no dice
  * - "2d6+2+1d4" - complex expressions with multiple dice types and modifiers
  * - "1d20+1d4+3-1d6" - complex expressions with positive and negative dice
- * - "3d6+1+2d8+5" - multiple dice types with multiple modifiers
+ * - "2d20kh1", "4d6dl1" - keep highest/lowest, drop highest/lowest
+ * - "1d6!" - exploding dice (roll again on the maximum)
+ * - "2d8r1", "2d8ro1" - reroll results of 1 or lower (repeatedly, or once)
+ * - "(1d8+2)*2" - multiplication and parentheses
  * 
  * @param expression - The dice expression string to parse
  * @param config - Optional configuration for validation limits
@@ -114,10 +136,7 @@ export function validateDiceExpression(
   config: DiceRollConfig = DEFAULT_DICE_CONFIG
 ): DiceValidationResult {
   try {
-    // Clean and normalize the expression
-    const cleanExpression = normalizeExpression(expression);
-    
-    if (!cleanExpression) {
+    if (typeof expression !== 'string' || !expression.trim()) {
       return {
         isValid: false,
         error: {
@@ -128,12 +147,21 @@ export function validateDiceExpression(
       };
     }
 
-    // Parse dice components and modifiers
-    const dice = parseDiceComponents(cleanExpression, config);
-    const modifier = parseModifier(cleanExpression);
+    // Replace "@name" variables with their values, so the rest only sees literals
+    const bound = hasDiceVariables(expression) ? resolveDiceVariables(expression, config.variables) : null;
+    const literal = bound ? bound.expression : expression;
+
+    // Tokenize and parse into a syntax tree
+    const ast = parseDiceNotation(literal);
+    validateDiceNode(ast, config, literal);
+    
+    // Plain sums are stored as dice + modifier; anything else keeps its tree for rolling
+    const sum = lowerDiceNode(ast);
+    const dice = sum ? sum.dice : collectDiceTerms(ast);
+    const modifier = sum ? sum.modifier : getAdditiveModifier(ast);
     
     // Validate parsed components
-    const validationError = validateComponents(dice, modifier, config);
+    const validationError = validateComponents(dice, modifier, config, countOperators(ast));
     if (validationError) {
       return {
         isValid: false,
@@ -145,7 +173,9 @@ export function validateDiceExpression(
     const diceExpression: DiceExpression = {
       dice,
       modifier,
-      originalExpression: expression,
+      originalExpression: literal,
+      ...(bound && { template: expression, variables: bound.variables }),
+      ...(!sum && { ast }),
     };
 
     return {
@@ -172,212 +202,20 @@ export function validateDiceExpression(
   }
 }
 
-/**
- * Normalize a dice expression by removing whitespace and standardizing format
- * Supports complex expressions like "2d6+2+1d4"
- * 
- * @param expression - Raw dice expression
- * @returns Cleaned expression string or null if invalid
- */
-function normalizeExpression(expression: string): string | null {
-  if (typeof expression !== 'string') {
-    return null;
-  }
-
-  // Remove all whitespace and convert to lowercase
-  let cleaned = expression.replace(/\s+/g, '').toLowerCase();
-  
-  // Handle edge cases
-  if (!cleaned || cleaned === '+' || cleaned === '-') {
-    return null;
-  }
-  
-  // Add leading + if expression starts with a digit or 'd' but only if it doesn't already start with + or -
-  if (/^[0-9d]/.test(cleaned) && !/^[+-]/.test(cleaned)) {
-    cleaned = '+' + cleaned;
-  }
-  
-  // Validate basic format using the complex expression pattern
-  if (!DICE_PATTERNS.COMPLEX_EXPRESSION.test(cleaned)) {
-    return null;
-  }
-  
-  return cleaned;
-}
-
-/**
- * Parse dice components from a normalized expression
- * Supports complex expressions like "2d6+2+1d4" with multiple dice types
- * 
- * @param expression - Normalized dice expression
- * @param config - Dice configuration for validation
- * @returns Array of Die objects
- */
-function parseDiceComponents(expression: string, config: DiceRollConfig): Die[] {
-  const dice: Die[] = [];
-  
-  // For simple expressions, try the old method first for backwards compatibility
-  const simpleMatches = Array.from(expression.matchAll(DICE_PATTERNS.DICE_COMPONENT));
-  
-  // If we have a simple expression (one dice type), use the old logic
-  // Simple expressions have only one dice component and no additional + or - operations
-  const hasOnlyOneDiceComponent = simpleMatches.length === 1;
-  const hasNoAdditionalOperations = (expression.match(/[+-]/g) || []).length <= 1;
-  
-  if (hasOnlyOneDiceComponent && hasNoAdditionalOperations) {
-    const match = simpleMatches[0];
-    const countStr = match[1];
-    const sidesStr = match[2];
-    
-    // Handle implied 1 for expressions like "d20"
-    const count = countStr === '' ? 1 : parseInt(countStr, 10);
-    const sides = parseInt(sidesStr, 10);
-    
-    // Validate individual die specification
-    if (isNaN(count) || count < 1) {
-      throw {
-        type: 'INVALID_DIE_COUNT',
-        message: `Invalid die count: ${countStr || '(empty)'}`,
-        count: count,
-      } as DiceError;
-    }
-    
-    if (isNaN(sides) || sides < 2) {
-      throw {
-        type: 'INVALID_DIE_SIDES',
-        message: `Invalid die sides: ${sidesStr}. Must be at least 2.`,
-        sides: sides,
-      } as DiceError;
-    }
-    
-    if (sides > config.maxDieSides) {
-      throw {
-        type: 'INVALID_DIE_SIDES',
-        message: `Die sides ${sides} exceeds maximum allowed ${config.maxDieSides}`,
-        sides: sides,
-      } as DiceError;
-    }
-    
-    dice.push({ count, sides });
-    return dice;
-  }
-  
-  // For complex expressions, use the new logic
-  const diceMap = new Map<string, number>(); // Map die type to total count
-  
-  // Use the TERM pattern to match all terms in the expression
-  const matches = Array.from(expression.matchAll(DICE_PATTERNS.TERM));
-  
-  for (const match of matches) {
-    const sign = match[1] || '+'; // Default to positive if no sign
-    const countStr = match[2]; // Dice count (empty for "d20")
-    const sidesStr = match[3]; // Die sides
-    const numberStr = match[4]; // Plain number (modifier)
-    
-    // Skip plain numbers - they're handled as modifiers
-    if (numberStr) {
-      continue;
-    }
-    
-    // Handle dice terms
-    if (sidesStr) {
-      // Handle implied 1 for expressions like "d20"
-      const count = countStr === '' ? 1 : parseInt(countStr, 10);
-      const sides = parseInt(sidesStr, 10);
-      
-      // Validate individual die specification
-      if (isNaN(count) || count < 1) {
-        throw {
-          type: 'INVALID_DIE_COUNT',
-          message: `Invalid die count: ${countStr || '(empty)'}`,
-          count: count,
-        } as DiceError;
-      }
-      
-      if (isNaN(sides) || sides < 2) {
-        throw {
-          type: 'INVALID_DIE_SIDES',
-          message: `Invalid die sides: ${sidesStr}. Must be at least 2.`,
-          sides: sides,
-        } as DiceError;
-      }
-      
-      if (sides > config.maxDieSides) {
-        throw {
-          type: 'INVALID_DIE_SIDES',
-          message: `Die sides ${sides} exceeds maximum allowed ${config.maxDieSides}`,
-          sides: sides,
-        } as DiceError;
-      }
-      
-      // Apply sign and accumulate dice of the same type
-      const effectiveCount = sign === '-' ? -count : count;
-      const dieKey = `d${sides}`;
-      
-      const currentCount = diceMap.get(dieKey) || 0;
-      const newCount = currentCount + effectiveCount;
-      
-      if (newCount <= 0) {
-        diceMap.delete(dieKey);
-      } else {
-        diceMap.set(dieKey, newCount);
-      }
-    }
-  }
-  
-  // Convert map to Die array
-  diceMap.forEach((count, dieKey) => {
-    const sides = parseInt(dieKey.substring(1), 10);
-    dice.push({ count, sides });
-  });
-  
-  return dice;
-}
-
-/**
- * Parse modifier from a normalized expression
- * Supports complex expressions like "2d6+2+1d4" with multiple modifiers
- * 
- * @param expression - Normalized dice expression
- * @returns Modifier value (positive or negative)
- */
-function parseModifier(expression: string): number {
-  let totalModifier = 0;
-  
-  // Use the TERM pattern to match all terms and filter for numbers (modifiers)
-  const matches = Array.from(expression.matchAll(DICE_PATTERNS.TERM));
-  
-  for (const match of matches) {
-    const sign = match[1] || '+'; // Default to positive if no sign
-    const numberStr = match[4]; // Plain number (modifier)
-    
-    // Only process plain numbers as modifiers
-    if (numberStr) {
-      const value = parseInt(numberStr, 10);
-      
-      if (isNaN(value)) {
-        continue;
-      }
-      
-      totalModifier += sign === '+' ? value : -value;
-    }
-  }
-  
-  return totalModifier;
-}
-
 /**
  * Validate parsed dice components and modifier
  * 
  * @param dice - Array of parsed dice
  * @param modifier - Parsed modifier value
  * @param config - Dice configuration for limits
+ * @param operatorCount - Number of operators in the expression
  * @returns DiceError if validation fails, null if valid
  */
 function validateComponents(
   dice: Die[], 
   modifier: number, 
-  config: DiceRollConfig
+  config: DiceRollConfig,
+  operatorCount: number
 ): DiceError | null {
   // Check total dice count
   const totalDiceCount = dice.reduce((sum, die) => sum + die.count, 0);
@@ -399,9 +237,9 @@ function validateComponents(
     };
   }
   
-  // Check complexity (combination of dice types and total dice)
+  // Check complexity (combination of dice terms, total dice and operators)
   // Use a more reasonable complexity calculation that doesn't penalize simple large dice counts
-  const complexityScore = dice.length * 5 + Math.min(totalDiceCount, 100);
+  const complexityScore = dice.length * 5 + Math.min(totalDiceCount, 100) + operatorCount;
   if (complexityScore > 200) {
     return {
       type: 'EXPRESSION_TOO_COMPLEX',
@@ -425,39 +263,35 @@ function validateComponents(
 /**
  * Check if a string looks like a dice expression
  * Useful for quick validation before full parsing
- * Supports complex expressions like "2d6+2+1d4"
+ * Supports complex expressions like "2d6+2+1d4" or "2d20kh1+3"
  * 
  * @param text - Text to check
  * @returns True if text appears to be a dice expression
  */
 export function isDiceExpression(text: string): boolean {
-  if (typeof text !== 'string') {
+  if (typeof text !== 'string' || !text.trim()) {
     return false;
   }
   
-  const cleaned = text.replace(/\s+/g, '').toLowerCase();
-  
-  // Check for dice patterns or standalone modifiers using the complex expression pattern
-  return DICE_PATTERNS.COMPLEX_EXPRESSION.test(cleaned) && (
-    /d\d+/.test(cleaned) || // Contains dice notation
-    /^[+-]?\d+$/.test(cleaned) // Is a standalone number/modifier
-  );
+  try {
+    parseDiceNotation(text);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 /**
  * Extract dice expressions from text content
  * Useful for finding rollable expressions within larger text blocks
- * Supports complex expressions like "2d6+2+1d4"
+ * Supports complex expressions like "2d6+2+1d4" or "2d20kh1+3"
  * 
  * @param text - Text to search for dice expressions
  * @returns Array of found dice expression strings
  */
 export function extractDiceExpressions(text: string): string[] {
   const expressions: string[] = [];
-  
-  // Enhanced pattern to match complex dice expressions in text
-  // Matches sequences like "2d6+2+1d4", "1d20-1", "3d8", "+5", etc.
-  const extractPattern = /(?:^|\s|[(\[{])((?:[+-]?(?:(?:\d*d\d+)|(?:\d+))(?:[+-](?:(?:\d*d\d+)|(?:\d+)))*))(?=\s|$|[)\]}.,;!?])/gi;
+  const extractPattern = new RegExp(EXTRACT_PATTERN.source, EXTRACT_PATTERN.flags);
   
   let match;
   while ((match = extractPattern.exec(text)) !== null) {
@@ -470,60 +304,155 @@ export function extractDiceExpressions(text: string): string[] {
   return expressions;
 }
 
+/**
+ * Find the rollable dice expressions in free text, with their positions and sentences
+ * Unlike extractDiceExpressions, bare numbers ("+2", "3 attacks") are skipped so only
+ * expressions with at least one die are returned, and repeated expressions are all found
+ *
+ * @param text - Text to search (e.g., "Clear 1d4+1 HP. Then roll a d6.")
+ * @returns Matches in the order they appear
+ */
+export function findDiceExpressionsInText(text: string): DiceTextMatch[] {
+  const matches: DiceTextMatch[] = [];
+  const extractPattern = new RegExp(EXTRACT_PATTERN.source, EXTRACT_PATTERN.flags);
+
+  let match;
+  while ((match = extractPattern.exec(text)) !== null) {
+    const candidate = match[1].trim();
+    if (!/\d*d\d+/i.test(candidate) || !isDiceExpression(candidate)) {
+      continue;
+    }
+
+    const start = match.index + match[0].indexOf(candidate);
+    const end = start + candidate.length;
+    matches.push({ expression: candidate, start, end, sentence: getSentenceAt(text, start, end) });
+  }
+
+  return matches;
+}
+
+/**
+ * Get the sentence around a range of text, ending at ., ! or ? followed by whitespace, or a line break
+ */
+function getSentenceAt(text: string, start: number, end: number): string {
+  const boundary = /[.!?]\s|\n/g;
+  let sentenceStart = 0;
+  let match;
+  while ((match = boundary.exec(text)) !== null && match.index < start) {
+    sentenceStart = match.index + match[0].length;
+  }
+
+  // Keep the closing punctuation, but not a line break
+  const closing = /[.!?](?=\s|$)|\n/.exec(text.slice(end));
+  const sentenceEnd = closing ? end + closing.index + (closing[0] === '\n' ? 0 : 1) : text.length;
+
+  return text.slice(sentenceStart, sentenceEnd).trim();
+}
+
+type RollType = DiceRollResult['rollType'];
+
 /**
  * Roll a dice expression and return the complete result
  * 
  * @param expression - Dice expression string or parsed DiceExpression object
- * @param rollType - Type of roll (normal, advantage, disadvantage, critical)
- * @param config - Optional configuration for dice limits
+ * @param rollType - Type of roll (normal, advantage, disadvantage, critical), or stacked advantage and disadvantage
+ * @param config - Optional configuration for dice limits and random source
+ * @param target - Optional Difficulty or Evasion to evaluate the roll against
  * @returns Complete dice roll result
  */
 export function rollDiceExpression(
   expression: string | DiceExpression,
-  rollType: 'normal' | 'advantage' | 'disadvantage' | 'critical' = 'normal',
-  config: DiceRollConfig = DEFAULT_DICE_CONFIG
+  rollType: RollType | RollTypeStack = 'normal',
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG,
+  target?: RollTarget
 ): DiceRollResult {
   // Parse expression if it's a string
   const diceExpression = typeof expression === 'string' 
     ? parseDiceExpression(expression, config)
     : expression;
 
+  const random = config.random ?? defaultRandom;
+
+  if (diceExpression.ast) {
+    return rollDiceNodeExpression(diceExpression, rollType, random, target);
+  }
+
   // Roll all dice
-  const rolls = rollAllDice(diceExpression.dice);
+  const rolls = rollAllDice(diceExpression.dice, random);
   
   // Apply roll type modifications
-  const modifiedRolls = applyRollTypeModifications(rolls, rollType, diceExpression.dice);
+  const modifiedRolls = applyRollTypeModifications(rolls, rollType, diceExpression.dice, random);
   
   // Calculate breakdown by die type
   const breakdown = calculateBreakdown(diceExpression.dice, modifiedRolls);
   
   // Calculate total
-  const diceTotal = modifiedRolls.reduce((sum, roll) => sum + roll.value, 0);
+  const diceTotal = modifiedRolls.reduce((sum, roll) => sum + getRollContribution(roll), 0);
   const total = diceTotal + diceExpression.modifier;
   
-  return {
+  const result: DiceRollResult = {
     expression: diceExpression,
     rolls: modifiedRolls,
     modifier: diceExpression.modifier,
     total,
     breakdown,
     timestamp: new Date(),
-    rollType,
+    ...describeRollType(rollType),
+  };
+  
+  return target ? { ...result, evaluation: evaluateRoll(result, target) } : result;
+}
+
+/**
+ * Roll an expression that carries a syntax tree (keep/drop, exploding, rerolls, multiplication)
+ * Advantage, disadvantage and critical bonuses are added on top of the evaluated total
+ * 
+ * @param diceExpression - Parsed expression with an ast
+ * @param rollType - Type of roll (normal, advantage, disadvantage, critical), or stacked advantage and disadvantage
+ * @param random - Random source for the dice
+ * @param target - Optional Difficulty or Evasion to evaluate the roll against
+ * @returns Complete dice roll result with one breakdown entry per dice term
+ */
+function rollDiceNodeExpression(
+  diceExpression: DiceExpression,
+  rollType: RollType | RollTypeStack,
+  random: RandomSource,
+  target?: RollTarget
+): DiceRollResult {
+  const ast = diceExpression.ast!;
+  const evaluation = evaluateDiceNode(ast, sides => rollSingleDie(sides, random).value);
+  
+  const modifiedRolls = applyRollTypeModifications(evaluation.rolls, rollType, diceExpression.dice, random);
+  const bonusRolls = modifiedRolls.slice(evaluation.rolls.length);
+  const bonusTotal = bonusRolls.reduce((sum, roll) => sum + getRollContribution(roll), 0);
+  
+  const result: DiceRollResult = {
+    expression: diceExpression,
+    rolls: modifiedRolls,
+    modifier: diceExpression.modifier,
+    total: evaluation.value + bonusTotal,
+    breakdown: [...evaluation.breakdown, ...calculateBonusBreakdown(bonusRolls)],
+    timestamp: new Date(),
+    ...describeRollType(rollType),
+    ...(hasDiceMultiplication(ast) && { formula: evaluation.formula }),
   };
+  
+  return target ? { ...result, evaluation: evaluateRoll(result, target) } : result;
 }
 
 /**
  * Roll all dice in a dice expression
  * 
  * @param dice - Array of dice to roll
+ * @param random - Random source for the dice
  * @returns Array of individual roll results
  */
-function rollAllDice(dice: Die[]): SingleRoll[] {
+function rollAllDice(dice: Die[], random: RandomSource): SingleRoll[] {
   const rolls: SingleRoll[] = [];
   
   for (const die of dice) {
     for (let i = 0; i < die.count; i++) {
-      const roll = rollSingleDie(die.sides);
+      const roll = rollSingleDie(die.sides, random);
       rolls.push(roll);
     }
   }
@@ -535,10 +464,11 @@ function rollAllDice(dice: Die[]): SingleRoll[] {
  * Roll a single die with the specified number of sides
  * 
  * @param sides - Number of sides on the die
+ * @param random - Random source for the die
  * @returns Single roll result
  */
-function rollSingleDie(sides: number): SingleRoll {
-  const value = Math.floor(Math.random() * sides) + 1;
+function rollSingleDie(sides: number, random: RandomSource): SingleRoll {
+  const value = Math.floor(random() * sides) + 1;
   
   return {
     value,
@@ -547,72 +477,130 @@ function rollSingleDie(sides: number): SingleRoll {
   };
 }
 
+/**
+ * Resolve stacked advantage and disadvantage, which cancel one for one
+ *
+ * @param stack - Advantage and disadvantage dice from every source
+ * @returns Roll type left over, how many d6s to roll for it, and how many pairs cancelled
+ */
+export function resolveRollTypeStack(stack: RollTypeStack): {
+  rollType: 'normal' | 'advantage' | 'disadvantage';
+  dice: number;
+  cancelled: number;
+} {
+  const advantage = Math.max(0, Math.floor(stack.advantage));
+  const disadvantage = Math.max(0, Math.floor(stack.disadvantage));
+  const net = advantage - disadvantage;
+
+  return {
+    rollType: net > 0 ? 'advantage' : net < 0 ? 'disadvantage' : 'normal',
+    dice: Math.abs(net),
+    cancelled: Math.min(advantage, disadvantage),
+  };
+}
+
+/**
+ * Chance of each value of the highest of several d6s, which is what stacked advantage adds
+ * (or stacked disadvantage subtracts)
+ *
+ * @param count - Number of d6s rolled
+ * @returns Array where index is the value and entry is its probability
+ */
+export function getHighestD6Probabilities(count: number): number[] {
+  const probabilities: number[] = new Array(7).fill(0);
+  for (let value = 1; value <= 6; value++) {
+    probabilities[value] = (value / 6) ** count - ((value - 1) / 6) ** count;
+  }
+  return probabilities;
+}
+
+/**
+ * Describe stacked advantage and disadvantage
+ *
+ * @returns Description such as "2 advantage − 1 disadvantage = 1 advantage die"
+ */
+export function formatRollTypeStack(stack: RollTypeStack): string {
+  const { rollType, dice } = resolveRollTypeStack(stack);
+  const parts = [
+    ...(stack.advantage > 0 ? [`${stack.advantage} advantage`] : []),
+    ...(stack.disadvantage > 0 ? [`${stack.disadvantage} disadvantage`] : []),
+  ];
+  const outcome = rollType === 'normal' ? 'cancelled' : `${dice} ${rollType} ${dice === 1 ? 'die' : 'dice'}`;
+  return `${parts.join(' − ') || 'No advantage'} = ${outcome}`;
+}
+
+/**
+ * The rollType of a result, plus the stack it came from when advantage and disadvantage were stacked
+ */
+function describeRollType(rollType: RollType | RollTypeStack): Pick<DiceRollResult, 'rollType' | 'rollTypeStack'> {
+  return typeof rollType === 'string'
+    ? { rollType }
+    : { rollType: resolveRollTypeStack(rollType).rollType, rollTypeStack: rollType };
+}
+
+/**
+ * How much a die adds to the total: disadvantage dice subtract and dropped dice count for nothing
+ */
+function getRollContribution(roll: SingleRoll): number {
+  if (roll.discarded) return 0;
+  return roll.bonus === 'disadvantage' ? -roll.value : roll.value;
+}
+
+/**
+ * Roll advantage or disadvantage d6s; only the highest counts, the others are dropped
+ */
+function rollBonusD6s(kind: 'advantage' | 'disadvantage', count: number, random: RandomSource): SingleRoll[] {
+  const rolls: SingleRoll[] = Array.from({ length: count }, () => ({ ...rollSingleDie(6, random), bonus: kind }));
+  const highest = rolls.reduce((best, roll, index) => roll.value > rolls[best].value ? index : best, 0);
+  return rolls.map((roll, index) => index === highest ? roll : { ...roll, discarded: true });
+}
+
 /**
  * Apply roll type modifications (advantage, disadvantage, critical)
  * 
  * @param rolls - Original roll results
- * @param rollType - Type of modification to apply
+ * @param rollType - Type of modification to apply, or stacked advantage and disadvantage
  * @param dice - Original dice specification for critical calculations
- * @returns Modified roll results with advantage/disadvantage d6 or critical bonus as separate roll
+ * @param random - Random source for the advantage/disadvantage d6s
+ * @returns Rolls followed by the bonus dice, each tagged with the roll type that added it
  */
 function applyRollTypeModifications(
   rolls: SingleRoll[], 
-  rollType: 'normal' | 'advantage' | 'disadvantage' | 'critical',
-  dice?: Die[]
+  rollType: RollType | RollTypeStack,
+  dice: Die[] | undefined,
+  random: RandomSource
 ): SingleRoll[] {
-  let modifiedRolls = [...rolls];
-  
-  switch (rollType) {
-    case 'advantage':
-      // Add d6 to the roll (Daggerheart mechanics)
-      const advantageRoll = rollSingleDie(6);
-      modifiedRolls.push({
-        ...advantageRoll,
-        // Mark as advantage roll for breakdown identification
-        sides: -6, // Use negative sides to identify as advantage d6
-      });
-      break;
-      
-    case 'disadvantage':
-      // Subtract d6 from the roll (Daggerheart mechanics)
-      const disadvantageRoll = rollSingleDie(6);
+  const modifiedRolls = [...rolls];
+
+  // Advantage adds a d6 and disadvantage subtracts one (Daggerheart mechanics); stacked ones cancel first
+  if (typeof rollType !== 'string' || rollType === 'advantage' || rollType === 'disadvantage') {
+    const stack = typeof rollType === 'string'
+      ? { advantage: rollType === 'advantage' ? 1 : 0, disadvantage: rollType === 'disadvantage' ? 1 : 0 }
+      : rollType;
+    const { rollType: kind, dice: count } = resolveRollTypeStack(stack);
+    return kind === 'normal' ? modifiedRolls : [...modifiedRolls, ...rollBonusD6s(kind, count, random)];
+  }
+
+  // Critical: mark the base dice as critical and add the maximum value of the base die for each one (Daggerheart mechanics)
+  if (rollType === 'critical' && dice && dice.length > 0) {
+    const baseDie = dice[0]; // First die type is the base die
+
+    for (let i = 0; i < modifiedRolls.length; i++) {
+      if (modifiedRolls[i].sides === baseDie.sides) {
+        modifiedRolls[i] = { ...modifiedRolls[i], isCritical: true };
+      }
+    }
+
+    for (let i = 0; i < baseDie.count; i++) {
       modifiedRolls.push({
-        ...disadvantageRoll,
-        value: -disadvantageRoll.value, // Negative value for subtraction
-        // Mark as disadvantage roll for breakdown identification
-        sides: -6, // Use negative sides to identify as disadvantage d6
+        value: baseDie.sides, // Max value of the die
+        sides: baseDie.sides,
+        isCritical: true,
+        bonus: 'critical',
       });
-      break;
-      
-    case 'critical':
-      // Mark all existing rolls as critical and add maximum value of base die for each base die rolled (Daggerheart mechanics)
-      if (dice && dice.length > 0) {
-        const baseDie = dice[0]; // First die type is the base die
-        
-        // Mark all base dice rolls as critical
-        for (let i = 0; i < modifiedRolls.length; i++) {
-          if (modifiedRolls[i].sides === baseDie.sides) {
-            modifiedRolls[i] = { ...modifiedRolls[i], isCritical: true };
-          }
-        }
-        
-        // Add one critical bonus roll for each base die
-        for (let i = 0; i < baseDie.count; i++) {
-          modifiedRolls.push({
-            value: baseDie.sides, // Max value of the die
-            sides: -baseDie.sides, // Use negative sides to identify as critical bonus
-            isCritical: true,
-          });
-        }
-      }
-      break;
-      
-    case 'normal':
-    default:
-      // No modifications
-      break;
+    }
   }
-  
+
   return modifiedRolls;
 }
 
@@ -632,55 +620,51 @@ function calculateBreakdown(dice: Die[], rolls: SingleRoll[]): DiceBreakdown[] {
     const dieRolls = rolls.slice(rollIndex, rollIndex + die.count);
     const values = dieRolls.map(roll => roll.value);
     const subtotal = values.reduce((sum, value) => sum + value, 0);
+    const role = dieRolls.length === 1 ? dieRolls[0].role : undefined;
     
     breakdown.push({
       dieSpec: `${die.count}d${die.sides}`,
       values,
       subtotal,
+      ...(role && { label: role === 'hope' ? 'Hope' : 'Fear' }),
     });
     
     rollIndex += die.count;
   }
   
-  // Handle advantage/disadvantage/critical dice (identified by negative sides)
-  const extraRolls = rolls.slice(rollIndex);
-  
-  // Group critical rolls and other special rolls
-  const criticalRolls: SingleRoll[] = [];
-  const otherExtraRolls: SingleRoll[] = [];
-  
-  for (const extraRoll of extraRolls) {
-    if (extraRoll.isCritical) {
-      criticalRolls.push(extraRoll);
-    } else if (extraRoll.sides === -6) {
-      otherExtraRolls.push(extraRoll);
-    }
-  }
-  
-  // Process advantage/disadvantage
-  for (const extraRoll of otherExtraRolls) {
-    const isAdvantage = extraRoll.value > 0;
-    
-    breakdown.push({
-      dieSpec: isAdvantage ? 'advantage' : 'disadvantage',
-      values: [Math.abs(extraRoll.value)], // Show absolute value in breakdown
-      subtotal: extraRoll.value, // Keep actual value (positive/negative) for subtotal
-    });
-  }
-  
-  // Process critical rolls (group them together)
-  if (criticalRolls.length > 0) {
-    const baseDieSides = Math.abs(criticalRolls[0].sides);
-    const criticalValues = criticalRolls.map(roll => roll.value);
-    const criticalSubtotal = criticalValues.reduce((sum, value) => sum + value, 0);
-    
+  return [...breakdown, ...calculateBonusBreakdown(rolls.slice(rollIndex))];
+}
+
+/**
+ * Breakdown entries that describe advantage, disadvantage and critical bonuses
+ */
+const BONUS_BREAKDOWN_SPECS: BonusDieKind[] = ['advantage', 'disadvantage', 'critical'];
+
+/**
+ * Calculate breakdown entries for advantage/disadvantage/critical dice
+ * 
+ * @param extraRolls - Bonus dice added by applyRollTypeModifications
+ * @returns One entry per roll type, with dropped advantage/disadvantage dice in droppedIndices
+ */
+function calculateBonusBreakdown(extraRolls: SingleRoll[]): DiceBreakdown[] {
+  const breakdown: DiceBreakdown[] = [];
+
+  for (const kind of BONUS_BREAKDOWN_SPECS) {
+    const bonusRolls = extraRolls.filter(roll => roll.bonus === kind);
+    if (bonusRolls.length === 0) continue;
+
+    const droppedIndices = bonusRolls
+      .map((roll, index) => roll.discarded ? index : -1)
+      .filter(index => index >= 0);
+
     breakdown.push({
-      dieSpec: 'critical',
-      values: criticalValues, // Show all individual max values
-      subtotal: criticalSubtotal,
+      dieSpec: kind,
+      values: bonusRolls.map(roll => roll.value), // Faces as rolled; subtotal carries the sign
+      subtotal: bonusRolls.reduce((sum, roll) => sum + getRollContribution(roll), 0),
+      ...(droppedIndices.length > 0 && { droppedIndices }),
     });
   }
-  
+
   return breakdown;
 }
 
@@ -703,6 +687,11 @@ export function canApplyCritical(expression: string | DiceExpression | DiceRollR
     diceExpression = expression;
   }
   
+  // Critical damage does not apply to action rolls
+  if (typeof expression !== 'string' && 'duality' in expression) {
+    return false;
+  }
+  
   // Check if the first (base) die is a d20
   if (diceExpression.dice.length === 0) {
     return false;
@@ -717,11 +706,13 @@ export function canApplyCritical(expression: string | DiceExpression | DiceRollR
  * 
  * @param existingResult - The existing roll result to modify
  * @param rollType - The type of modification to apply ('advantage', 'disadvantage', or 'critical')
+ * @param random - Random source for the advantage/disadvantage d6
  * @returns New roll result with roll type applied to existing rolls
  */
 export function applyRollTypeToExistingResult(
   existingResult: DiceRollResult,
-  rollType: 'advantage' | 'disadvantage' | 'critical'
+  rollType: 'advantage' | 'disadvantage' | 'critical',
+  random: RandomSource = defaultRandom
 ): DiceRollResult {
   // Don't modify if it's already the same roll type
   if (existingResult.rollType === rollType) {
@@ -749,26 +740,42 @@ export function applyRollTypeToExistingResult(
   }
 
   // Remove any existing advantage/disadvantage/critical modifications
-  const originalRolls = existingResult.rolls.filter(roll => roll.sides > 0);
+  const originalRolls = existingResult.rolls.filter(roll => !roll.bonus);
+  const previousBonusTotal = existingResult.rolls
+    .filter(roll => roll.bonus)
+    .reduce((sum, roll) => sum + getRollContribution(roll), 0);
   
   // Apply new roll type modifications to the original rolls
-  const modifiedRolls = applyRollTypeModifications(originalRolls, rollType, existingResult.expression.dice);
-  
-  // Calculate new breakdown
-  const breakdown = calculateBreakdown(existingResult.expression.dice, modifiedRolls);
-  
-  // Calculate new total
-  const diceTotal = modifiedRolls.reduce((sum, roll) => sum + roll.value, 0);
-  const total = diceTotal + existingResult.modifier;
-  
-  return {
-    ...existingResult,
+  const modifiedRolls = applyRollTypeModifications(originalRolls, rollType, existingResult.expression.dice, random);
+  const bonusRolls = modifiedRolls.slice(originalRolls.length);
+  
+  // Keep the per-term breakdown and replace only the bonus entries
+  const breakdown = [
+    ...existingResult.breakdown.filter(entry => !(BONUS_BREAKDOWN_SPECS as string[]).includes(entry.dieSpec)),
+    ...calculateBonusBreakdown(bonusRolls),
+  ];
+  
+  // Calculate new total from the unmodified total, which may not be a plain sum of rolls
+  const baseTotal = existingResult.total - previousBonusTotal;
+  const total = baseTotal + bonusRolls.reduce((sum, roll) => sum + getRollContribution(roll), 0);
+  
+  // The new roll type replaces any stacked advantage and disadvantage
+  const { rollTypeStack, ...unstackedResult } = existingResult;
+  const modifiedResult: DiceRollResult = {
+    ...unstackedResult,
     rolls: modifiedRolls,
     total,
     breakdown,
     rollType,
     timestamp: new Date(),
   };
+  
+  // Re-evaluate against the original target since the total changed
+  if (existingResult.evaluation) {
+    modifiedResult.evaluation = evaluateRoll(modifiedResult, existingResult.evaluation.target);
+  }
+  
+  return modifiedResult;
 }
 
 /**
@@ -813,8 +820,195 @@ export function rollCritical(
   return rollDiceExpression(expression, 'critical', config);
 }
 
+/**
+ * Roll the Duality Dice - a Hope d12 and a Fear d12 plus a trait modifier
+ * The higher die decides whether the roll is made "with Hope" or "with Fear";
+ * matching dice are a Critical Success
+ * 
+ * @param options - Trait modifier, advantage/disadvantage and optional random source
+ * @returns Roll result with labelled Hope and Fear dice
+ */
+export function rollDualityDice(options: DualityRollOptions = {}): DualityRollResult {
+  const { modifier = 0, rollType = 'normal', difficulty, random = defaultRandom } = options;
+  
+  if (Math.abs(modifier) > DEFAULT_DICE_CONFIG.maxModifier) {
+    throw {
+      type: 'MODIFIER_TOO_LARGE',
+      message: `Modifier ${modifier} exceeds maximum allowed ±${DEFAULT_DICE_CONFIG.maxModifier}`,
+      modifier,
+    } as DiceError;
+  }
+  
+  const expression: DiceExpression = {
+    // Hope and Fear are kept as separate entries so each gets its own breakdown row
+    dice: [{ count: 1, sides: 12 }, { count: 1, sides: 12 }],
+    modifier,
+    originalExpression: formatDualityExpression(modifier),
+  };
+  
+  const hopeRoll: SingleRoll = { ...rollSingleDie(12, random), role: 'hope' };
+  const fearRoll: SingleRoll = { ...rollSingleDie(12, random), role: 'fear' };
+  
+  const modifiedRolls = applyRollTypeModifications([hopeRoll, fearRoll], rollType, expression.dice, random);
+  const breakdown = calculateBreakdown(expression.dice, modifiedRolls);
+  const diceTotal = modifiedRolls.reduce((sum, roll) => sum + getRollContribution(roll), 0);
+  
+  const result: DualityRollResult = {
+    expression,
+    rolls: modifiedRolls,
+    modifier,
+    total: diceTotal + modifier,
+    breakdown,
+    timestamp: new Date(),
+    ...describeRollType(rollType),
+    duality: {
+      hope: hopeRoll.value,
+      fear: fearRoll.value,
+      outcome: getDualityOutcome(hopeRoll.value, fearRoll.value),
+      traitModifier: modifier,
+    },
+  };
+  
+  if (difficulty !== undefined) {
+    result.evaluation = evaluateRoll(result, { value: difficulty, type: 'difficulty' });
+  }
+  
+  return result;
+}
+
+/**
+ * Build the display expression for a Duality Dice roll (e.g., "2d12+2")
+ */
+function formatDualityExpression(modifier: number): string {
+  if (modifier === 0) {
+    return '2d12';
+  }
+  return `2d12${modifier > 0 ? '+' : ''}${modifier}`;
+}
+
+/**
+ * Determine the outcome of a Duality Dice roll from its two dice
+ * 
+ * @param hope - Value of the Hope die
+ * @param fear - Value of the Fear die
+ * @returns 'critical' on doubles, otherwise whichever die is higher
+ */
+export function getDualityOutcome(hope: number, fear: number): DualityOutcome {
+  if (hope === fear) {
+    return 'critical';
+  }
+  return hope > fear ? 'hope' : 'fear';
+}
+
+/**
+ * Get the display label for a Duality Dice outcome
+ */
+export function getDualityOutcomeLabel(outcome: DualityOutcome): string {
+  switch (outcome) {
+    case 'critical':
+      return 'Critical Success';
+    case 'hope':
+      return 'with Hope';
+    case 'fear':
+      return 'with Fear';
+  }
+}
+
+/**
+ * Type guard for Duality Dice results
+ */
+export function isDualityRollResult(result: DiceRollResult | null | undefined): result is DualityRollResult {
+  return !!result && 'duality' in result && !!(result as DualityRollResult).duality;
+}
+
+/**
+ * Compare a roll against a Difficulty or Evasion
+ * 
+ * A roll succeeds when its total meets or beats the target. Matching Duality
+ * Dice and a natural 20 on a single d20 attack always succeed.
+ * 
+ * @param result - The roll to evaluate
+ * @param target - Difficulty or Evasion to compare against
+ * @returns Success/failure, margin and (for Duality Dice) the Hope/Fear resolution
+ */
+export function evaluateRoll(result: DiceRollResult, target: RollTarget): RollEvaluation {
+  const isCriticalSuccess = isDualityRollResult(result)
+    ? result.duality.outcome === 'critical'
+    : isNaturalTwenty(result);
+  const success = isCriticalSuccess || result.total >= target.value;
+  
+  const evaluation: RollEvaluation = {
+    target,
+    success,
+    margin: result.total - target.value,
+    isCriticalSuccess,
+  };
+  
+  if (isDualityRollResult(result)) {
+    evaluation.dualityResolution = getDualityResolution(result.duality.outcome, success);
+  }
+  
+  return evaluation;
+}
+
+/**
+ * Check whether a roll's base die is a single d20 that rolled a 20
+ */
+function isNaturalTwenty(result: DiceRollResult): boolean {
+  const baseDie = result.expression.dice[0];
+  if (!baseDie || baseDie.sides !== 20 || baseDie.count !== 1) {
+    return false;
+  }
+  return result.rolls[0]?.sides === 20 && result.rolls[0].value === 20;
+}
+
+/**
+ * Combine a Duality Dice outcome with success/failure
+ */
+export function getDualityResolution(outcome: DualityOutcome, success: boolean): DualityResolution {
+  if (outcome === 'critical') {
+    return 'critical-success';
+  }
+  if (success) {
+    return outcome === 'hope' ? 'success-with-hope' : 'success-with-fear';
+  }
+  return outcome === 'hope' ? 'failure-with-hope' : 'failure-with-fear';
+}
+
+/**
+ * Get the display label for a roll evaluation
+ * 
+ * @param evaluation - The evaluation to describe
+ * @returns Label such as "Success with Hope", "Hit" or "Failure"
+ */
+export function getRollEvaluationLabel(evaluation: RollEvaluation): string {
+  switch (evaluation.dualityResolution) {
+    case 'critical-success': return 'Critical Success';
+    case 'success-with-hope': return 'Success with Hope';
+    case 'success-with-fear': return 'Success with Fear';
+    case 'failure-with-hope': return 'Failure with Hope';
+    case 'failure-with-fear': return 'Failure with Fear';
+  }
+  
+  if (evaluation.target.type === 'evasion') {
+    if (evaluation.isCriticalSuccess) return 'Critical Hit';
+    return evaluation.success ? 'Hit' : 'Miss';
+  }
+  
+  if (evaluation.isCriticalSuccess) return 'Critical Success';
+  return evaluation.success ? 'Success' : 'Failure';
+}
+
+/**
+ * Get the display name of a roll target (e.g., "Difficulty 14", "Evasion 11")
+ */
+export function formatRollTarget(target: RollTarget): string {
+  return `${target.type === 'evasion' ? 'Evasion' : 'Difficulty'} ${target.value}`;
+}
+
 /**
  * Get the theoretical minimum and maximum values for a dice expression
+ * Exploding dice have no upper bound and report Infinity as the maximum
  * 
  * @param expression - Dice expression to analyze
  * @returns Object with min and max possible values
@@ -824,6 +1018,10 @@ export function getDiceRange(expression: string | DiceExpression): { min: number
     ? parseDiceExpression(expression)
     : expression;
   
+  if (diceExpression.ast) {
+    return getDiceNodeRange(diceExpression.ast);
+  }
+  
   let min = 0;
   let max = 0;
   
@@ -851,6 +1049,10 @@ export function getDiceAverage(expression: string | DiceExpression): number {
     ? parseDiceExpression(expression)
     : expression;
   
+  if (diceExpression.ast) {
+    return getDiceNodeAverage(diceExpression.ast);
+  }
+  
   let average = 0;
   
   // Calculate average for each die type
@@ -912,7 +1114,7 @@ export function formatDiceError(error: DiceError): string {
       if (error.expression === 'empty') {
         return 'Please enter a dice expression (e.g., "2d6+3", "d20", or "+5")';
       }
-      return `Invalid dice expression: "${error.expression}". Try formats like "2d6+3", "d20-1", or "+5"`;
+      return `Invalid dice expression: "${error.expression}". Try formats like "2d6+3", "d20-1", "2d20kh1", or "+5"`;
       
     case 'INVALID_DIE_COUNT':
       if (error.count > DEFAULT_DICE_CONFIG.maxDiceCount) {
@@ -931,6 +1133,9 @@ export function formatDiceError(error: DiceError): string {
       
     case 'EXPRESSION_TOO_COMPLEX':
       return `Dice expression is too complex. Try using fewer dice or simpler combinations`;
+
+    case 'INVALID_VARIABLE':
+      return error.message;
       
     case 'UNKNOWN_ERROR':
     default:
@@ -968,8 +1173,8 @@ export function getDiceExpressionSuggestions(expression: string): string[] {
     suggestions.push('Use "d" notation instead of words (e.g., "2d6" instead of "2 dice")');
   }
   
-  if (cleaned.includes('x') || cleaned.includes('*')) {
-    suggestions.push('Use "d" for dice notation (e.g., "2d6" instead of "2x6" or "2*6")');
+  if (/\d+x\d+/.test(cleaned)) {
+    suggestions.push('Use "d" for dice notation (e.g., "2d6" instead of "2x6")');
   }
   
   if (/\d+\s*-\s*\d+/.test(cleaned) && !cleaned.includes('d')) {
@@ -1023,7 +1228,7 @@ export function sanitizeDiceInput(input: string): string {
     .replace(/[xX×]/g, 'd')  // x, X, × to d
     .replace(/[Dd](?=[0-9])/g, 'd')  // D to d
     // Remove problematic characters
-    .replace(/[^\d+\-d]/g, '')
+    .replace(/[^\d+\-*()dkhlro!]/gi, '')
     // Fix double operators
     .replace(/\+\+/g, '+')
     .replace(/--/g, '-')
@@ -1097,16 +1302,63 @@ export function getCommonDice(): DieType[] {
   return STANDARD_DICE.filter(die => die.common);
 }
 
+/**
+ * Add one die to an expression, as a dice tray button would
+ * Adding a die of the same type as the last term increases its count (e.g., "1d20+1d6" → "1d20+2d6")
+ *
+ * @param expression - Current expression (may be empty)
+ * @param sides - Number of sides on the die to add
+ * @returns Expression with the die added
+ */
+export function addDieToExpression(expression: string, sides: number): string {
+  const trimmed = expression.trim();
+  if (!trimmed) {
+    return `1d${sides}`;
+  }
+
+  const lastTerm = trimmed.match(new RegExp(`(^|[+-])(\\d*)d${sides}$`, 'i'));
+  if (lastTerm) {
+    const count = (parseInt(lastTerm[2], 10) || 1) + 1;
+    return `${trimmed.slice(0, lastTerm.index)}${lastTerm[1]}${count}d${sides}`;
+  }
+
+  return `${trimmed}+1d${sides}`;
+}
+
+/**
+ * Adjust the flat modifier at the end of an expression (e.g., "2d6+1" → "2d6+2")
+ * A trailing modifier that reaches zero is removed
+ *
+ * @param expression - Current expression (may be empty)
+ * @param delta - Amount to add to the modifier
+ * @returns Expression with the modifier adjusted
+ */
+export function adjustExpressionModifier(expression: string, delta: number): string {
+  const trimmed = expression.trim();
+  // A trailing number only counts as a modifier if it is signed (so the "6" in "2d6" or the "1" in "kh1" is not)
+  const modifier = trimmed.match(/(?<=^|[\d)\s])\s*([+-])\s*(\d+)$/);
+  const base = modifier ? trimmed.slice(0, modifier.index) : trimmed;
+  const current = modifier ? parseInt(modifier[2], 10) * (modifier[1] === '-' ? -1 : 1) : 0;
+  const next = current + delta;
+
+  if (next === 0) {
+    return base;
+  }
+
+  return `${base}${next > 0 ? '+' : '-'}${Math.abs(next)}`;
+}
+
 /**
  * Roll multiple dice of the same type (migrated from data/utilities/dice.ts)
  * @param count Number of dice to roll
  * @param sides Number of sides on each die
+ * @param random Random source for the dice (default: crypto-backed)
  * @returns Array of roll results
  */
-export function rollMultipleDice(count: number, sides: number): number[] {
+export function rollMultipleDice(count: number, sides: number, random: RandomSource = defaultRandom): number[] {
   const rolls: number[] = [];
   for (let i = 0; i < count; i++) {
-    rolls.push(Math.floor(Math.random() * sides) + 1);
+    rolls.push(Math.floor(random() * sides) + 1);
   }
   return rolls;
 } 
\ No newline at end of file
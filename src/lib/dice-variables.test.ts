@@ -0,0 +1,97 @@
+/**
+ * Unit tests for dice variables
+ */
+
+import {
+  getCharacterDiceVariables,
+  getCharacterTier,
+  resolveDiceVariables,
+} from './dice-variables';
+import { DEFAULT_DICE_CONFIG, formatDiceError, rollDiceExpression, validateDiceExpression } from './dice-utils';
+import { DiceError } from '@/types/dice';
+
+const catchDiceError = (action: () => unknown): DiceError => {
+  try {
+    action();
+  } catch (error) {
+    return error as DiceError;
+  }
+  throw new Error('Expected a DiceError');
+};
+
+describe('resolveDiceVariables', () => {
+  test('replaces variables with their values', () => {
+    expect(resolveDiceVariables('1d20+@attack', { attack: 3 })).toEqual({
+      expression: '1d20+3',
+      variables: { attack: 3 },
+    });
+  });
+
+  test('uses a variable before "d" as the number of dice', () => {
+    expect(resolveDiceVariables('@tier d8+@Tier', { tier: 2 }).expression).toBe('2d8+2');
+  });
+
+  test('flips the sign in front of a negative value', () => {
+    expect(resolveDiceVariables('1d20+@attack', { attack: -1 }).expression).toBe('1d20-1');
+    expect(resolveDiceVariables('1d20 - @attack', { attack: -1 }).expression).toBe('1d20 + 1');
+    expect(resolveDiceVariables('(1d6+2)*@x', { x: -2 }).expression).toBe('(1d6+2)*(-2)');
+  });
+
+  test('matches names case-insensitively', () => {
+    expect(resolveDiceVariables('1d12+@PROFICIENCY', { Proficiency: 2 }).variables).toEqual({ proficiency: 2 });
+  });
+
+  test('throws INVALID_VARIABLE for names and values that cannot be used', () => {
+    expect(catchDiceError(() => resolveDiceVariables('1d20+@attack', {}))).toEqual({
+      type: 'INVALID_VARIABLE',
+      message: 'Unknown variable "@attack"',
+      variable: 'attack',
+    });
+    expect(catchDiceError(() => resolveDiceVariables('1d20+@', {})).type).toBe('INVALID_VARIABLE');
+    expect(catchDiceError(() => resolveDiceVariables('1d20+@half', { half: 1.5 }))).toMatchObject({ variable: 'half' });
+    expect(catchDiceError(() => resolveDiceVariables('@tier d8', { tier: 0 })).type).toBe('INVALID_VARIABLE');
+  });
+});
+
+describe('variables in dice expressions', () => {
+  test('rolls the resolved expression and keeps the template', () => {
+    const config = { ...DEFAULT_DICE_CONFIG, variables: { tier: 3 }, random: () => 0.5 };
+    const result = rollDiceExpression('@tier d8', 'normal', config);
+
+    expect(result.rolls).toHaveLength(3);
+    expect(result.total).toBe(15);
+    expect(result.expression).toMatchObject({ originalExpression: '3d8', template: '@tier d8', variables: { tier: 3 } });
+  });
+
+  test('leaves expressions without variables as they were', () => {
+    const expression = validateDiceExpression('1d20+1').expression!;
+
+    expect(expression.template).toBeUndefined();
+    expect(expression.variables).toBeUndefined();
+  });
+
+  test('surfaces unknown variables as validation errors', () => {
+    const validation = validateDiceExpression('1d20+@attack');
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.error?.type).toBe('INVALID_VARIABLE');
+    expect(formatDiceError(validation.error!)).toBe('Unknown variable "@attack"');
+  });
+
+  test('still checks the limits after resolving', () => {
+    const validation = validateDiceExpression('@count d6', { ...DEFAULT_DICE_CONFIG, variables: { count: 50 } });
+
+    expect(validation.error?.type).toBe('INVALID_DIE_COUNT');
+  });
+});
+
+describe('getCharacterDiceVariables', () => {
+  test('includes level, tier, proficiency and the traits that are set', () => {
+    expect(getCharacterDiceVariables({ level: 5, proficiency: 2, evasion: 11, traits: { agility: 2, presence: -1 } }))
+      .toEqual({ level: 5, tier: 3, proficiency: 2, evasion: 11, agility: 2, presence: -1 });
+  });
+
+  test('maps levels to tiers', () => {
+    expect([1, 2, 4, 5, 7, 8, 10].map(getCharacterTier)).toEqual([1, 2, 2, 3, 3, 4, 4]);
+  });
+});
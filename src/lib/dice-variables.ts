@@ -0,0 +1,115 @@
+/**
+ * Dice variables - named stats in dice expressions (e.g., "1d20+@attack", "@tier d8", "1d12+@proficiency")
+ * resolved from an adversary (getMonsterDiceVariables in monster-utils), a PC sheet, or any map of names to values
+ */
+
+import { CharacterStats, CharacterTrait, DiceError, DiceVariables } from '@/types/dice';
+
+// An optional sign before the variable, the name, and spaces before a "d" when the variable counts dice
+const VARIABLE_PATTERN = /([+-]\s*)?@([a-z0-9_]*)(\s*(?=d\d))?/gi;
+const VARIABLE_NAME = /^[a-z][a-z0-9_]*$/;
+
+const CHARACTER_TRAITS: CharacterTrait[] = ['agility', 'strength', 'finesse', 'instinct', 'presence', 'knowledge'];
+
+/**
+ * Result of replacing the variables in an expression
+ */
+export interface ResolvedDiceVariables {
+  /** Expression with every variable replaced by its value (e.g., "1d20+3") */
+  expression: string;
+  /** Values of the variables that were used, by lowercase name */
+  variables: DiceVariables;
+}
+
+/**
+ * Check whether an expression refers to any variables
+ */
+export function hasDiceVariables(expression: string): boolean {
+  return expression.includes('@');
+}
+
+function variableError(variable: string, message: string): DiceError {
+  return { type: 'INVALID_VARIABLE', message, variable };
+}
+
+/**
+ * Replace the variables in an expression with their values
+ *
+ * A negative value flips the sign in front of it ("1d20+@attack" with attack -1 is "1d20-1"),
+ * and a variable right before "d" is the number of dice ("@tier d8" with tier 2 is "2d8").
+ *
+ * @param expression - Expression that may contain "@name" variables
+ * @param variables - Values by name, matched case-insensitively
+ * @returns Expression with literal values and the values that were used
+ * @throws DiceError of type INVALID_VARIABLE for unknown names and values that can't be used
+ */
+export function resolveDiceVariables(expression: string, variables: DiceVariables = {}): ResolvedDiceVariables {
+  const values = new Map(Object.entries(variables).map(([name, value]) => [name.toLowerCase(), value]));
+  const used: DiceVariables = {};
+
+  const resolved = expression.replace(VARIABLE_PATTERN, (_match, sign: string | undefined, rawName: string, countsDice: string | undefined) => {
+    const name = rawName.toLowerCase();
+    if (!VARIABLE_NAME.test(name)) {
+      throw variableError(rawName, rawName ? `Invalid variable name "@${rawName}"` : 'Expected a variable name after "@"');
+    }
+
+    const value = values.get(name);
+    if (value === undefined) {
+      throw variableError(name, `Unknown variable "@${name}"`);
+    }
+    if (!Number.isInteger(value)) {
+      throw variableError(name, `Variable "@${name}" must be a whole number, not ${value}`);
+    }
+    if (countsDice !== undefined && value < 1) {
+      throw variableError(name, `Variable "@${name}" is ${value}, but a number of dice must be at least 1`);
+    }
+
+    used[name] = value;
+
+    if (sign) {
+      const operator = sign.trim();
+      const flipped = value < 0 ? (operator === '+' ? '-' : '+') : operator;
+      return `${flipped}${sign.slice(1)}${Math.abs(value)}`;
+    }
+    return value < 0 ? `(${value})` : String(value);
+  });
+
+  return { expression: resolved, variables: used };
+}
+
+/**
+ * Get a character's tier from their level (1 at level 1, 2 at levels 2-4, 3 at 5-7, 4 at 8-10)
+ */
+export function getCharacterTier(level: number): number {
+  if (level <= 1) return 1;
+  if (level <= 4) return 2;
+  if (level <= 7) return 3;
+  return 4;
+}
+
+/**
+ * Variables for a PC: @level, @tier, @proficiency, @evasion, and one per trait (@agility, @strength...)
+ *
+ * @param character - Stats from the PC sheet
+ * @returns Variables for expressions such as "1d12+@proficiency" or "@proficiency d8"
+ */
+export function getCharacterDiceVariables(character: CharacterStats): DiceVariables {
+  const variables: DiceVariables = {
+    level: character.level,
+    tier: getCharacterTier(character.level),
+    proficiency: character.proficiency,
+  };
+
+  if (character.evasion !== undefined) {
+    variables.evasion = character.evasion;
+  }
+
+  CHARACTER_TRAITS.forEach(trait => {
+    const value = character.traits[trait];
+    if (value !== undefined) {
+      variables[trait] = value;
+    }
+  });
+
+  return variables;
+}
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the stat block editor
+ */
+
+import {
+  applyStatBlockDraft,
+  createStatBlockDraft,
+  getStatDeviations,
+  validateStatBlockDraft
+} from './monster-editor'
+import { bruiser } from '@/test/helpers'
+
+describe('stat block drafts', () => {
+  test('round-trips a monster unchanged', () => {
+    const monster = bruiser()
+    const draft = createStatBlockDraft(monster)
+
+    expect(validateStatBlockDraft(draft)).toEqual({})
+    expect(JSON.stringify(applyStatBlockDraft(monster, draft))).toBe(JSON.stringify(monster))
+  })
+
+  test('applies every edited field', () => {
+    const monster = bruiser()
+    const edited = applyStatBlockDraft(monster, {
+      ...createStatBlockDraft(monster),
+      description: ' A chained brute. ',
+      motivesAndTactics: 'Smash, guard the bridge',
+      difficulty: '15',
+      hitpoints: '9',
+      stress: '4',
+      major: '12',
+      severe: '24',
+      attackName: 'Chain Flail',
+      attackModifier: '-1',
+      range: 'Very Close',
+      damage: '+7',
+      damageType: 'physical',
+      experiences: [{ name: 'Intimidation ', modifier: '+3' }],
+    })
+
+    expect(edited.stats).toMatchObject({ difficulty: 15, hitpoints: 9, stress: 4, threshold: '12 / 24', attack: '1d20-1', damage: '7' })
+    expect(edited).toMatchObject({
+      description: 'A chained brute.',
+      attackName: 'Chain Flail',
+      range: 'Very Close',
+      damageType: 'physical',
+      experiences: [{ name: 'Intimidation', modifier: 3 }],
+    })
+  })
+
+  test('drops thresholds when the monster has none', () => {
+    const monster = bruiser()
+    const edited = applyStatBlockDraft(monster, { ...createStatBlockDraft(monster), hasThresholds: false, major: 'x' })
+
+    expect(edited.stats.threshold).toBe('N/A')
+  })
+
+  test('reports every invalid field', () => {
+    const errors = validateStatBlockDraft({
+      ...createStatBlockDraft(bruiser()),
+      difficulty: '12.5',
+      hitpoints: '0',
+      major: '20',
+      severe: '10',
+      attackModifier: '',
+      damage: '2d',
+      experiences: [{ name: '', modifier: '+1' }],
+    })
+
+    expect(Object.keys(errors).sort()).toEqual(['attackModifier', 'damage', 'difficulty', 'experiences', 'hitpoints', 'severe'])
+    expect(errors.severe).toBe('Severe threshold must be higher than Major')
+    expect(errors.hitpoints).toBe('HP must be between 1 and 99')
+  })
+})
+
+describe('getStatDeviations', () => {
+  test('is empty for the baseline itself', () => {
+    expect(getStatDeviations(bruiser().stats)).toEqual([])
+  })
+
+  test('compares edited stats with the tier baseline', () => {
+    const monster = bruiser()
+    const edited = applyStatBlockDraft(monster, {
+      ...createStatBlockDraft(monster),
+      hitpoints: String(monster.stats.hitpoints + 2),
+      attackModifier: '+0',
+      damage: '1d4',
+    })
+
+    const deviations = getStatDeviations(edited.stats)
+
+    expect(deviations.map(deviation => deviation.field)).toEqual(['hitpoints', 'attack', 'damage'])
+    expect(deviations[0]).toEqual({ field: 'hitpoints', baseline: monster.stats.hitpoints, value: monster.stats.hitpoints + 2, delta: 2 })
+    expect(deviations[2].delta).toBeLessThan(0)
+  })
+})
@@ -0,0 +1,211 @@
+// Hand editing of a monster's stat block: the form's draft, its validation, and how far the
+// edited stats have moved from the table baseline for the monster's type and tier
+import { formatDamageThresholds, parseDamageThresholds } from '@/lib/damage-thresholds'
+import { getDiceAverage, getDiceExpressionError } from '@/lib/dice-utils'
+import { rescaleFeature } from '@/lib/monster-features'
+import {
+  formatModifier,
+  getAttackModifier,
+  getMonsterStats,
+  isValidMonsterType,
+  isValidTier,
+  type AttackRange,
+  type DamageType,
+  type GeneratedMonster,
+  type MonsterStats
+} from '@/lib/monster-utils'
+
+// Every field is kept as typed, so half-written numbers don't get lost while editing
+export interface StatBlockDraft {
+  description: string
+  motivesAndTactics: string
+  difficulty: string
+  hitpoints: string
+  stress: string
+  // Without thresholds the monster is defeated by any damage (e.g. Minions)
+  hasThresholds: boolean
+  major: string
+  severe: string
+  attackName: string
+  // The bonus on the d20 attack roll, e.g. "+3"
+  attackModifier: string
+  range: AttackRange
+  damage: string
+  damageType: DamageType
+  experiences: { name: string; modifier: string }[]
+}
+
+export type StatBlockField = keyof StatBlockDraft
+
+// Messages for the fields that are wrong; empty when the draft can be saved
+export type StatBlockErrors = Partial<Record<StatBlockField, string>>
+
+// Stats compared against the baseline; damage is compared by its average
+export type StatField = 'difficulty' | 'hitpoints' | 'stress' | 'attack' | 'major' | 'severe' | 'damage'
+
+export interface StatDeviation {
+  field: StatField
+  baseline: number
+  value: number
+  delta: number
+}
+
+const INTEGER = /^[+-]?\d+$/
+
+// Limits generous enough for homebrew, tight enough to catch typos
+const LIMITS = {
+  difficulty: [1, 40],
+  hitpoints: [1, 99],
+  stress: [0, 99],
+  threshold: [1, 200],
+  attackModifier: [-10, 20],
+  experience: [-10, 10],
+} as const
+
+export function createStatBlockDraft(monster: GeneratedMonster): StatBlockDraft {
+  const { stats } = monster
+  const thresholds = parseDamageThresholds(stats.threshold)
+  const attackModifier = getAttackModifier(stats.attack)
+
+  return {
+    description: monster.description,
+    motivesAndTactics: monster.motivesAndTactics,
+    difficulty: String(stats.difficulty),
+    hitpoints: String(stats.hitpoints),
+    stress: String(stats.stress),
+    hasThresholds: thresholds !== null,
+    major: thresholds ? String(thresholds.major) : '',
+    severe: thresholds ? String(thresholds.severe) : '',
+    attackName: monster.attackName,
+    attackModifier: attackModifier === null ? '' : formatModifier(attackModifier),
+    range: monster.range,
+    damage: stats.damage === 'N/A' ? '' : stats.damage,
+    damageType: monster.damageType,
+    experiences: monster.experiences.map(experience => ({
+      name: experience.name,
+      modifier: formatModifier(experience.modifier),
+    })),
+  }
+}
+
+// Check a whole number field, returning the message for it if it's wrong
+function checkInteger(value: string, [min, max]: readonly [number, number], label: string): string | undefined {
+  if (!INTEGER.test(value.trim())) return `${label} must be a whole number`
+  const number = parseInt(value, 10)
+  if (number < min || number > max) return `${label} must be between ${min} and ${max}`
+  return undefined
+}
+
+export function validateStatBlockDraft(draft: StatBlockDraft): StatBlockErrors {
+  const errors: StatBlockErrors = {}
+  const set = (field: StatBlockField, message: string | undefined) => {
+    if (message) errors[field] = message
+  }
+
+  set('difficulty', checkInteger(draft.difficulty, LIMITS.difficulty, 'Difficulty'))
+  set('hitpoints', checkInteger(draft.hitpoints, LIMITS.hitpoints, 'HP'))
+  set('stress', checkInteger(draft.stress, LIMITS.stress, 'Stress'))
+  set('attackModifier', checkInteger(draft.attackModifier, LIMITS.attackModifier, 'Attack modifier'))
+
+  if (draft.hasThresholds) {
+    set('major', checkInteger(draft.major, LIMITS.threshold, 'Major threshold'))
+    set('severe', checkInteger(draft.severe, LIMITS.threshold, 'Severe threshold'))
+    if (!errors.major && !errors.severe && parseInt(draft.severe, 10) <= parseInt(draft.major, 10)) {
+      errors.severe = 'Severe threshold must be higher than Major'
+    }
+  }
+
+  const damage = draft.damage.trim()
+  if (!damage) {
+    errors.damage = 'Damage is required'
+  } else if (INTEGER.test(damage)) {
+    if (parseInt(damage, 10) < 1) errors.damage = 'Damage must be at least 1'
+  } else {
+    set('damage', getDiceExpressionError(damage) ?? undefined)
+  }
+
+  const experience = draft.experiences.find(item => !item.name.trim() || checkInteger(item.modifier, LIMITS.experience, ''))
+  if (experience) {
+    errors.experiences = !experience.name.trim()
+      ? 'Every experience needs a name'
+      : checkInteger(experience.modifier, LIMITS.experience, `${experience.name.trim()} modifier`)
+  }
+
+  return errors
+}
+
+// Write a draft back onto the monster; only call this with a draft that validates
+export function applyStatBlockDraft(monster: GeneratedMonster, draft: StatBlockDraft): GeneratedMonster {
+  const experiences = draft.experiences.map(item => ({ name: item.name.trim(), modifier: parseInt(item.modifier, 10) }))
+  const threshold = draft.hasThresholds
+    ? formatDamageThresholds({ major: parseInt(draft.major, 10), severe: parseInt(draft.severe, 10) })
+    : 'N/A'
+
+  const stats: MonsterStats = {
+    ...monster.stats,
+    difficulty: parseInt(draft.difficulty, 10),
+    hitpoints: parseInt(draft.hitpoints, 10),
+    stress: parseInt(draft.stress, 10),
+    threshold,
+    attack: `1d20${formatModifier(parseInt(draft.attackModifier, 10))}`,
+    damage: draft.damage.trim().replace(/^\+/, ''),
+  }
+
+  // Generated feature text follows the new numbers and damage type
+  return {
+    ...monster,
+    stats,
+    selectedFeatures: monster.selectedFeatures.map(feature => rescaleFeature(feature, stats, draft.damageType)),
+    description: draft.description.trim(),
+    motivesAndTactics: draft.motivesAndTactics.trim(),
+    attackName: draft.attackName.trim(),
+    range: draft.range,
+    damageType: draft.damageType,
+    experiences,
+  }
+}
+
+// The compared stats as numbers; ones that can't be read (e.g. "N/A") are left out
+function getStatValues(stats: MonsterStats): Partial<Record<StatField, number>> {
+  const values: Partial<Record<StatField, number>> = {}
+  const thresholds = parseDamageThresholds(stats.threshold)
+  const attack = getAttackModifier(stats.attack)
+
+  if (Number.isFinite(stats.difficulty)) values.difficulty = stats.difficulty
+  if (Number.isFinite(stats.hitpoints)) values.hitpoints = stats.hitpoints
+  if (Number.isFinite(stats.stress)) values.stress = stats.stress
+  if (attack !== null) values.attack = attack
+  if (thresholds) {
+    values.major = thresholds.major
+    values.severe = thresholds.severe
+  }
+  if (stats.damage && stats.damage !== 'N/A' && !getDiceExpressionError(stats.damage)) {
+    values.damage = getDiceAverage(stats.damage)
+  }
+
+  return values
+}
+
+// The table row for the monster's type and tier, or null for types and tiers the table doesn't have
+export function getBaselineStats(stats: MonsterStats): MonsterStats | null {
+  if (!isValidMonsterType(stats.type) || !isValidTier(stats.tier)) return null
+  return getMonsterStats(stats.type, stats.tier)
+}
+
+// How the stats differ from the baseline for their type and tier, in stat block order
+export function getStatDeviations(stats: MonsterStats): StatDeviation[] {
+  const baselineStats = getBaselineStats(stats)
+  if (!baselineStats) return []
+
+  const baseline = getStatValues(baselineStats)
+  const values = getStatValues(stats)
+
+  return (Object.keys(values) as StatField[])
+    .filter(field => baseline[field] !== undefined && values[field] !== baseline[field])
+    .map(field => ({
+      field,
+      baseline: baseline[field]!,
+      value: values[field]!,
+      delta: values[field]! - baseline[field]!,
+    }))
+}
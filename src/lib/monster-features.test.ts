@@ -0,0 +1,121 @@
+/**
+ * Unit tests for generated adversary feature text
+ */
+
+import adversaryFeaturesData from '@/data/combat/adversary-features.json'
+import {
+  generateFeatureText,
+  getFeatureTemplates,
+  getFeatureValues,
+  reduceDamage,
+  rescaleFeature
+} from './monster-features'
+import { FEATURE_KINDS, generateMonster, getMonsterStats, MONSTER_TYPES, TIERS, type FeatureKind, type MonsterFeature } from './monster-utils'
+import { createSeededRandom } from './random'
+import { findDiceExpressionsInText } from './dice-utils'
+
+const archetype = (name: string): MonsterFeature => {
+  const entry = adversaryFeaturesData.find(feature => feature['Feature Type'] === name)!
+  return { category: entry.Category, name, kind: entry.Kind as FeatureKind, description: entry.Description }
+}
+
+const standard = (tier: 1 | 2 | 3 | 4) => getMonsterStats('Standard', tier)!
+
+describe('feature templates', () => {
+  test('every archetype has at least one template', () => {
+    adversaryFeaturesData.forEach(feature => {
+      expect(getFeatureTemplates(feature['Feature Type']).length).toBeGreaterThan(0)
+    })
+  })
+
+  test('every generated feature is filled in for every type and tier', () => {
+    MONSTER_TYPES.forEach(type => TIERS.forEach(tier => {
+      const monster = generateMonster(type, tier, createSeededRandom(`${type}-${tier}`))
+      if (!monster || !Number.isFinite(monster.stats.difficulty)) return
+
+      monster.selectedFeatures.forEach(feature => {
+        expect(feature.name).not.toMatch(/[{}]|\(X\)/)
+        expect(FEATURE_KINDS).toContain(feature.kind)
+        expect(feature.description).toMatch(/^[^{}]+$/)
+      })
+    }))
+  })
+})
+
+describe('generateFeatureText', () => {
+  test('writes rollable damage and Fear costs from the stats', () => {
+    const random = createSeededRandom('area')
+    const features = Array.from({ length: 10 }, () => generateFeatureText(archetype('Area Attack'), standard(2), 'physical', random))
+    const fearAttack = features.find(feature => feature.description.startsWith('Spend a Fear'))!
+
+    expect(fearAttack.kind).toBe('Action')
+    expect(fearAttack.description).toMatch(/^Spend a Fear to make an attack against all targets within (Very Close|Close) range; deal 2d8\+3 physical damage\.$/)
+    expect(findDiceExpressionsInText(fearAttack.description).map(match => match.expression)).toEqual(['2d8+3'])
+    expect(fearAttack.template).toMatchObject({ archetype: 'Area Attack' })
+  })
+
+  test('fills in the X of scaled archetypes', () => {
+    expect(generateFeatureText(archetype('Relentless (X)'), standard(3)).name).toBe('Relentless (3)')
+    expect(generateFeatureText(archetype('Minion (X)'), getMonsterStats('Minion', 2)!).name).toBe('Minion (5)')
+    expect(generateFeatureText(archetype('Horde (X)'), getMonsterStats('Horde', 1)!).name).toBe('Horde (1d4+1)')
+  })
+
+  test('is reproducible with a seeded source', () => {
+    const first = generateFeatureText(archetype('Inflict Condition'), standard(1), 'physical', createSeededRandom(7))
+    const second = generateFeatureText(archetype('Inflict Condition'), standard(1), 'physical', createSeededRandom(7))
+
+    expect(first).toEqual(second)
+  })
+
+  test('keeps features it has no template for', () => {
+    const custom: MonsterFeature = { category: 'General', name: 'Homebrew', kind: 'Action', description: 'Something odd.' }
+
+    expect(generateFeatureText(custom, standard(1))).toBe(custom)
+  })
+})
+
+describe('rescaleFeature', () => {
+  test('keeps the wording and updates the numbers for new stats', () => {
+    const tier1 = generateFeatureText(archetype('Counterattack'), standard(1), 'physical', createSeededRandom(1))
+    const tier3 = rescaleFeature(tier1, standard(3))
+
+    expect(tier3.template).toEqual(tier1.template)
+    expect(tier1.description).toContain('1d6+1')
+    expect(tier3.description).toBe(tier1.description.replace('1d6+1', '3d8+6'))
+  })
+
+  test('follows a change of damage type', () => {
+    const physical = generateFeatureText(archetype('Counterattack'), standard(1), 'physical', createSeededRandom(1))
+    const magic = rescaleFeature(physical, standard(1), 'magic')
+
+    expect(physical.description).toContain('1d6+1 physical damage')
+    expect(magic.description).toBe(physical.description.replace('physical', 'magic'))
+  })
+})
+
+describe('helpers', () => {
+  test('reduceDamage halves dice, die size and modifier', () => {
+    expect(reduceDamage('1d8+2')).toBe('1d4+1')
+    expect(reduceDamage('2d6+4')).toBe('1d6+2')
+    expect(reduceDamage('3d12+10')).toBe('1d12+5')
+    expect(reduceDamage('1d12-3')).toBe('1d6-1')
+    expect(reduceDamage('5')).toBe('2')
+  })
+
+  test('getFeatureValues leaves out stats the monster does not have', () => {
+    const values = getFeatureValues({ ...standard(1), damage: 'N/A', difficulty: NaN })
+
+    expect(values).not.toHaveProperty('damage')
+    expect(values).not.toHaveProperty('difficulty')
+    expect(values.fearCost).toBe('a Fear')
+  })
+
+  test('generated features carry their kind apart from the text', () => {
+    const momentum = generateFeatureText(archetype('Momentum'), standard(1))
+    const horde = generateFeatureText(archetype('Horde (X)'), getMonsterStats('Horde', 1)!)
+
+    expect(momentum.kind).toBe('Reaction')
+    expect(horde.kind).toBe('Passive')
+    expect(momentum.description).not.toMatch(/^(Passive|Action|Reaction):/)
+  })
+})
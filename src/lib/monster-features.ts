@@ -0,0 +1,146 @@
+// Concrete adversary feature text, filled in from templates for a monster's tier and stats
+// e.g. "Area Attack" becomes an Action: "Spend a Fear to make an attack against all targets within
+// Very Close range; deal 2d8+3 physical damage."
+import featureTemplatesData from '@/data/combat/adversary-feature-templates.json'
+import { defaultRandom, randomInt, type RandomSource } from '@/lib/random'
+import type { DamageType, FeatureKind, FeatureTemplateRef, MonsterFeature, MonsterStats } from '@/lib/monster-utils'
+
+// One way an archetype can be written; {placeholders} are filled from the stats and the choices
+export interface FeatureTemplate {
+  name?: string
+  kind: FeatureKind
+  text: string
+  choices?: Record<string, string[]>
+}
+
+// The JSON's types are widened (kind is a plain string), so they don't line up on their own
+const FEATURE_TEMPLATES = featureTemplatesData as unknown as Record<string, FeatureTemplate[]>
+
+const PLACEHOLDER = /\{(\w+)\}/g
+const STANDARD_DICE = [20, 12, 10, 8, 6, 4]
+
+// Scaled by tier, Tier 1 first
+const MINION_THRESHOLDS = [3, 5, 8, 12]
+const COUNTDOWNS = [4, 6, 8, 10]
+
+export function getFeatureTemplates(archetype: string): FeatureTemplate[] {
+  return FEATURE_TEMPLATES[archetype] ?? []
+}
+
+// Halve a damage roll: half the dice when there are several, a smaller die when there is one
+export function reduceDamage(damage: string): string {
+  const match = /^\s*(\d*)d(\d+)\s*([+-]\s*\d+)?\s*$/i.exec(damage)
+  if (!match) {
+    const flat = parseInt(damage, 10)
+    return Number.isNaN(flat) ? damage : String(Math.max(1, Math.floor(flat / 2)))
+  }
+
+  const count = parseInt(match[1] || '1', 10)
+  const sides = parseInt(match[2], 10)
+  const modifier = Math.trunc((match[3] ? parseInt(match[3].replace(/\s/g, ''), 10) : 0) / 2)
+
+  const dice = count > 1
+    ? `${Math.floor(count / 2)}d${sides}`
+    : `1d${STANDARD_DICE.find(die => die <= sides / 2) ?? 4}`
+  if (modifier === 0) return dice
+  return modifier > 0 ? `${dice}+${modifier}` : `${dice}${modifier}`
+}
+
+// Values the templates can use; stats a monster doesn't have (e.g. "N/A") are left out.
+// The damage type is the standard attack's, which the features' attacks share.
+export function getFeatureValues(stats: MonsterStats, damageType: DamageType = 'physical'): Record<string, string> {
+  const tier = Math.min(Math.max(stats.tier, 1), 4)
+  const values: Record<string, string> = {
+    tier: String(tier),
+    relentless: String(tier >= 3 ? 3 : 2),
+    fearCost: tier >= 3 ? '2 Fear' : 'a Fear',
+    allies: `${tier}d4`,
+    bonusDamage: `${tier}d6`,
+    minion: String(MINION_THRESHOLDS[tier - 1]),
+    countdown: String(COUNTDOWNS[tier - 1]),
+    reduction: String(tier * 3),
+    damageType,
+  }
+
+  if (stats.damage && stats.damage !== 'N/A') {
+    values.damage = stats.damage
+    values.reducedDamage = reduceDamage(stats.damage)
+  }
+  if (Number.isFinite(stats.difficulty)) {
+    values.difficulty = String(stats.difficulty)
+  }
+
+  return values
+}
+
+// Fill every {placeholder}, or null if one has no value
+function fillTemplate(text: string, values: Record<string, string>): string | null {
+  let missing = false
+  const filled = text.replace(PLACEHOLDER, (_match, key: string) => {
+    if (values[key] === undefined) {
+      missing = true
+      return ''
+    }
+    return values[key]
+  })
+  return missing ? null : filled
+}
+
+function canFill(template: FeatureTemplate, values: Record<string, string>): boolean {
+  const available = { ...values }
+  Object.keys(template.choices ?? {}).forEach(key => { available[key] = '' })
+  return fillTemplate(template.name ?? '', available) !== null && fillTemplate(template.text, available) !== null
+}
+
+// Write out a feature from a template reference, for the given stats
+export function renderFeatureTemplate(
+  category: string,
+  ref: FeatureTemplateRef,
+  stats: MonsterStats,
+  damageType: DamageType = 'physical'
+): MonsterFeature | null {
+  const template = getFeatureTemplates(ref.archetype)[ref.variant]
+  if (!template) return null
+
+  const values = { ...getFeatureValues(stats, damageType), ...ref.choices }
+  const name = fillTemplate(template.name ?? ref.archetype, values)
+  const text = fillTemplate(template.text, values)
+  if (name === null || text === null) return null
+
+  return { category, name, kind: template.kind, description: text, template: ref }
+}
+
+// Pick one of an archetype's templates and its choices, and fill it in from the monster's stats.
+// Features without a usable template keep their generic text.
+export function generateFeatureText(
+  feature: MonsterFeature,
+  stats: MonsterStats,
+  damageType: DamageType = 'physical',
+  random: RandomSource = defaultRandom
+): MonsterFeature {
+  const archetype = feature.template?.archetype ?? feature.name
+  const values = getFeatureValues(stats, damageType)
+  const usable = getFeatureTemplates(archetype)
+    .map((template, variant) => ({ template, variant }))
+    .filter(({ template }) => canFill(template, values))
+
+  if (usable.length === 0) return feature
+
+  const { template, variant } = usable[randomInt(usable.length, random)]
+  const choices: Record<string, string> = {}
+  Object.entries(template.choices ?? {}).forEach(([key, options]) => {
+    choices[key] = options[randomInt(options.length, random)]
+  })
+
+  return renderFeatureTemplate(feature.category, { archetype, variant, choices }, stats, damageType) ?? feature
+}
+
+// Re-fill a generated feature for new stats (e.g. after a change of tier or damage type), keeping its wording
+export function rescaleFeature(
+  feature: MonsterFeature,
+  stats: MonsterStats,
+  damageType: DamageType = 'physical'
+): MonsterFeature {
+  if (!feature.template) return feature
+  return renderFeatureTemplate(feature.category, feature.template, stats, damageType) ?? feature
+}
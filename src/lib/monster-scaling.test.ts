@@ -0,0 +1,61 @@
+/**
+ * Unit tests for moving monsters between tiers
+ */
+
+import { getScalableTiers, scaleMonsterToTier } from './monster-scaling'
+import { generateMonster, getMonsterStats, type GeneratedMonster } from './monster-utils'
+import { createSeededRandom } from './random'
+import { bruiser } from '@/test/helpers'
+
+describe('scaleMonsterToTier', () => {
+  test('moves a baseline monster onto the baseline of the new tier', () => {
+    const scaled = scaleMonsterToTier(bruiser(), 3)!
+
+    expect(scaled.tier).toBe(3)
+    expect(scaled.stats).toEqual(getMonsterStats('Bruiser', 3))
+  })
+
+  test('keeps custom edits the same distance from the baseline', () => {
+    const monster = bruiser()
+    const edited: GeneratedMonster = {
+      ...monster,
+      stats: { ...monster.stats, difficulty: 16, threshold: '16 / 30', attack: '1d20+4', damage: '2d12+4', hitpoints: 9 },
+    }
+
+    expect(scaleMonsterToTier(edited, 3)!.stats).toMatchObject({
+      difficulty: 18,
+      threshold: '25 / 42',
+      attack: '1d20+5',
+      damage: '3d12+4',
+      hitpoints: 10,
+    })
+  })
+
+  test('keeps the name, details and features, with generated text following the new stats', () => {
+    const monster = { ...bruiser(), name: 'Bridge Ogre' }
+    const scaled = scaleMonsterToTier(monster, 4)!
+
+    expect(scaled).toMatchObject({ id: monster.id, name: 'Bridge Ogre', motivesAndTactics: monster.motivesAndTactics })
+    expect(scaled.selectedFeatures.map(feature => feature.name)).toEqual(monster.selectedFeatures.map(feature => feature.name))
+    expect(JSON.stringify(scaleMonsterToTier(scaled, 2))).toBe(JSON.stringify(monster))
+  })
+
+  test('moves flat damage by the difference in average damage', () => {
+    const minion = generateMonster('Minion', 1, createSeededRandom('rat'))!
+    const scaled = scaleMonsterToTier({ ...minion, stats: { ...minion.stats, damage: '4' } }, 3)!
+
+    expect(scaled.stats).toMatchObject({ damage: '9', threshold: 'N/A' })
+  })
+
+  test('is null without table rows for the type and tier', () => {
+    expect(scaleMonsterToTier({ ...bruiser(), type: 'Dragon' }, 3)).toBeNull()
+    expect(scaleMonsterToTier(generateMonster('Skulk', 2)!, 4)).toBeNull()
+  })
+})
+
+describe('getScalableTiers', () => {
+  test('lists the other tiers the type has rows for', () => {
+    expect(getScalableTiers(bruiser())).toEqual([1, 3, 4])
+    expect(getScalableTiers(generateMonster('Skulk', 2)!)).toEqual([1, 3])
+  })
+})
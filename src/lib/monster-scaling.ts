@@ -0,0 +1,121 @@
+// Moving a monster to another tier. Each stat shifts by the difference between the table rows for
+// its type at the old and the new tier, so stats edited away from the baseline stay that far away
+import { formatDamageThresholds, parseDamageThresholds } from '@/lib/damage-thresholds'
+import { getDiceAverage, getDiceExpressionError } from '@/lib/dice-utils'
+import { rescaleFeature } from '@/lib/monster-features'
+import {
+  formatModifier,
+  getAttackModifier,
+  getAvailableTiersForType,
+  getMonsterStats,
+  isValidMonsterType,
+  isValidTier,
+  type GeneratedMonster,
+  type MonsterStats,
+  type Tier
+} from '@/lib/monster-utils'
+
+const DAMAGE_ROLL = /^\s*(\d*)d(\d+)\s*([+-]\s*\d+)?\s*$/i
+const FLAT_DAMAGE = /^\s*\d+\s*$/
+
+interface DamageRoll {
+  count: number
+  sides: number
+  modifier: number
+}
+
+function parseDamageRoll(damage: string): DamageRoll | null {
+  const match = DAMAGE_ROLL.exec(damage)
+  if (!match) return null
+  return {
+    count: parseInt(match[1] || '1', 10),
+    sides: parseInt(match[2], 10),
+    modifier: match[3] ? parseInt(match[3].replace(/\s/g, ''), 10) : 0,
+  }
+}
+
+function formatDamageRoll({ count, sides, modifier }: DamageRoll): string {
+  const dice = `${count}d${sides}`
+  if (modifier === 0) return dice
+  return modifier > 0 ? `${dice}+${modifier}` : `${dice}${modifier}`
+}
+
+// The table's dice count and modifier move by the same amount, and a die size that was never
+// changed from the table's follows the new row. Damage that doesn't line up with the table's
+// dice (e.g. flat Minion damage) moves by the difference in average damage instead.
+function scaleDamage(damage: string, from: string, to: string): string {
+  const roll = parseDamageRoll(damage)
+  const fromRoll = parseDamageRoll(from)
+  const toRoll = parseDamageRoll(to)
+
+  if (roll && fromRoll && toRoll) {
+    return formatDamageRoll({
+      count: Math.max(1, roll.count + toRoll.count - fromRoll.count),
+      sides: roll.sides === fromRoll.sides ? toRoll.sides : roll.sides,
+      modifier: roll.modifier + toRoll.modifier - fromRoll.modifier,
+    })
+  }
+
+  if (getDiceExpressionError(from) || getDiceExpressionError(to)) return damage
+  const delta = Math.round(getDiceAverage(to) - getDiceAverage(from))
+  if (FLAT_DAMAGE.test(damage)) return String(Math.max(1, parseInt(damage, 10) + delta))
+  return roll ? formatDamageRoll({ ...roll, modifier: roll.modifier + delta }) : damage
+}
+
+// Monsters without thresholds (e.g. Minions) keep having none
+function scaleThreshold(threshold: string, from: string, to: string): string {
+  const thresholds = parseDamageThresholds(threshold)
+  const fromThresholds = parseDamageThresholds(from)
+  const toThresholds = parseDamageThresholds(to)
+  if (!thresholds || !fromThresholds || !toThresholds) return threshold
+
+  const major = Math.max(1, thresholds.major + toThresholds.major - fromThresholds.major)
+  const severe = Math.max(major + 1, thresholds.severe + toThresholds.severe - fromThresholds.severe)
+  return formatDamageThresholds({ major, severe })
+}
+
+function scaleAttack(attack: string, from: string, to: string): string {
+  const modifier = getAttackModifier(attack)
+  const fromModifier = getAttackModifier(from)
+  const toModifier = getAttackModifier(to)
+  if (modifier === null || fromModifier === null || toModifier === null) return attack
+
+  return `1d20${formatModifier(modifier + toModifier - fromModifier)}`
+}
+
+export function scaleMonsterStats(stats: MonsterStats, from: MonsterStats, to: MonsterStats): MonsterStats {
+  return {
+    ...stats,
+    tier: to.tier,
+    difficulty: Math.max(1, stats.difficulty + to.difficulty - from.difficulty),
+    threshold: scaleThreshold(stats.threshold, from.threshold, to.threshold),
+    attack: scaleAttack(stats.attack, from.attack, to.attack),
+    damage: scaleDamage(stats.damage, from.damage, to.damage),
+    hitpoints: Math.max(1, stats.hitpoints + to.hitpoints - from.hitpoints),
+    stress: Math.max(0, stats.stress + to.stress - from.stress),
+    features: to.features,
+  }
+}
+
+// Tiers the monster can be moved to: every other tier its type has a table row for
+export function getScalableTiers(monster: GeneratedMonster): Tier[] {
+  if (!isValidMonsterType(monster.type)) return []
+  return getAvailableTiersForType(monster.type).filter(tier => tier !== monster.tier)
+}
+
+// The monster at another tier, or null if the table has no row for its type at either tier.
+// Name, details and features are kept; generated feature text follows the new numbers.
+export function scaleMonsterToTier(monster: GeneratedMonster, tier: Tier): GeneratedMonster | null {
+  if (!isValidMonsterType(monster.type) || !isValidTier(monster.tier)) return null
+  const from = getMonsterStats(monster.type, monster.tier)
+  const to = getMonsterStats(monster.type, tier)
+  if (!from || !to) return null
+
+  const stats = scaleMonsterStats(monster.stats, from, to)
+  return {
+    ...monster,
+    tier,
+    stats,
+    selectedFeatures: monster.selectedFeatures.map(feature => rescaleFeature(feature, stats, monster.damageType)),
+  }
+}
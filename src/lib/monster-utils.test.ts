@@ -0,0 +1,119 @@
+/**
+ * Unit tests for monster generation and the stat block export
+ */
+
+import {
+  FEATURE_KINDS,
+  formatModifier,
+  formatMonsterForExport,
+  getAttackModifier,
+  getMonsterDiceVariables,
+  parseGeneratedMonster,
+  type GeneratedMonster
+} from './monster-utils'
+import { bruiser } from '@/test/helpers'
+
+describe('generateMonster', () => {
+  test('fills the stat block details from the type defaults', () => {
+    const monster = bruiser()
+
+    expect(monster).toMatchObject({ description: '', range: 'Very Close', damageType: 'physical', experiences: [] })
+    expect(monster.attackName).not.toBe('')
+    expect(monster.motivesAndTactics).not.toBe('')
+    monster.selectedFeatures.forEach(feature => {
+      expect(FEATURE_KINDS).toContain(feature.kind)
+      expect(feature.description).not.toMatch(/^(Passive|Action|Reaction):/)
+    })
+  })
+})
+
+describe('parseGeneratedMonster', () => {
+  test('moves feature kinds out of older descriptions', () => {
+    const monster = {
+      ...bruiser(),
+      selectedFeatures: [
+        { category: 'Combat', name: 'Ramp Up', description: 'Passive: Mark a Stress to gain advantage.' },
+        { category: 'Combat', name: 'Momentum - Reaction', description: 'Gain a Fear.' },
+      ],
+    }
+
+    expect(parseGeneratedMonster(monster)!.selectedFeatures).toEqual([
+      { category: 'Combat', name: 'Ramp Up', kind: 'Passive', description: 'Mark a Stress to gain advantage.' },
+      { category: 'Combat', name: 'Momentum - Reaction', kind: 'Reaction', description: 'Gain a Fear.' },
+    ])
+  })
+})
+
+describe('attack modifiers', () => {
+  test('reads attack modifiers from d20 rolls', () => {
+    expect(getAttackModifier('1d20+3')).toBe(3)
+    expect(getAttackModifier('d20 - 1')).toBe(-1)
+    expect(getAttackModifier('N/A')).toBeNull()
+  })
+
+  test('formats modifiers with their sign', () => {
+    expect(formatModifier(3)).toBe('+3')
+    expect(formatModifier(0)).toBe('+0')
+    expect(formatModifier(-1)).toBe('-1')
+  })
+})
+
+describe('getMonsterDiceVariables', () => {
+  const goblin = (): GeneratedMonster => {
+    const monster = bruiser()
+    return { ...monster, stats: { ...monster.stats, difficulty: 14, threshold: '10 / 19', attack: '1d20+1', hitpoints: 4, stress: 3 } }
+  }
+
+  test('reads the attack modifier, tier and thresholds from the stat block', () => {
+    expect(getMonsterDiceVariables(goblin())).toEqual({
+      tier: 2,
+      difficulty: 14,
+      hp: 4,
+      stress: 3,
+      attack: 1,
+      major: 10,
+      severe: 19,
+    })
+  })
+
+  test('leaves out stats a monster does not have', () => {
+    const monster = goblin()
+    const variables = getMonsterDiceVariables({ ...monster, stats: { ...monster.stats, attack: 'N/A', threshold: 'N/A' } })
+
+    expect(variables).not.toHaveProperty('attack')
+    expect(variables).not.toHaveProperty('major')
+    expect(getMonsterDiceVariables({ ...monster, stats: { ...monster.stats, attack: '1d20-3' } }).attack).toBe(-3)
+  })
+})
+
+describe('formatMonsterForExport', () => {
+  test('lays the stat block out like the book', () => {
+    const monster: GeneratedMonster = {
+      ...bruiser(),
+      name: 'Bridge Ogre',
+      description: 'A hulking brute wrapped in rusted chains.',
+      motivesAndTactics: 'Crush, guard the bridge',
+      stats: { ...bruiser().stats, difficulty: 14, threshold: '10 / 20', attack: '1d20+3', damage: '2d8+3', hitpoints: 7, stress: 4 },
+      attackName: 'Chain Flail',
+      range: 'Very Close',
+      damageType: 'physical',
+      experiences: [{ name: 'Intimidation', modifier: 2 }],
+      selectedFeatures: [{ category: 'Combat', name: 'Ramp Up', kind: 'Passive', description: 'Mark a Stress to gain advantage.' }],
+    }
+
+    expect(formatMonsterForExport(monster).split('\n')).toEqual([
+      'BRIDGE OGRE',
+      'Tier 2 Bruiser',
+      'A hulking brute wrapped in rusted chains.',
+      'Motives & Tactics: Crush, guard the bridge',
+      '',
+      'Difficulty: 14 | Thresholds: 10/20 | HP: 7 | Stress: 4',
+      'ATK: +3 | Chain Flail: Very Close | 2d8+3 phy',
+      'Experience: Intimidation +2',
+      '',
+      'FEATURES',
+      'Ramp Up - Passive: Mark a Stress to gain advantage.',
+      '',
+    ])
+  })
+})
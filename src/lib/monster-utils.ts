@@ -1,6 +1,11 @@
 // Import the data files
 import adversaryStatsData from '@/data/combat/adversary-stats.json'
 import adversaryFeaturesData from '@/data/combat/adversary-features.json'
+import adversaryTypeDefaultsData from '@/data/combat/adversary-type-defaults.json'
+import { defaultRandom, randomInt, type RandomSource } from '@/lib/random'
+import { generateFeatureText } from '@/lib/monster-features'
+import { parseDamageThresholds } from '@/lib/damage-thresholds'
+import type { DiceVariables } from '@/types/dice'
 
 // Interfaces
 export interface MonsterStats {
@@ -18,18 +23,52 @@ export interface MonsterStats {
 export interface MonsterFeature {
   category: string
   name: string
+  kind: FeatureKind
+  // The rules text, without the "Passive:" / "Action:" / "Reaction:" label
   description: string
+  // Set when the text was generated from a template, so it can be filled in again for other stats
+  template?: FeatureTemplateRef
 }
 
+// Which template a feature was written from, and the choices made for it
+export interface FeatureTemplateRef {
+  // Generic feature from adversary-features.json (e.g. "Relentless (X)")
+  archetype: string
+  // Index of the template in adversary-feature-templates.json
+  variant: number
+  choices: Record<string, string>
+}
+
+export interface MonsterExperience {
+  name: string
+  modifier: number
+}
+
+// Laid out like the book's adversary stat blocks
 export interface GeneratedMonster {
   id: string
   name: string
   type: string
   tier: number
+  description: string
+  motivesAndTactics: string
   stats: MonsterStats
+  // The standard attack; its roll and damage are in stats
+  attackName: string
+  range: AttackRange
+  damageType: DamageType
+  experiences: MonsterExperience[]
   selectedFeatures: MonsterFeature[]
 }
 
+// What a new monster of a type starts with before it is edited
+export interface MonsterTypeDefaults {
+  attackName: string
+  range: AttackRange
+  damageType: DamageType
+  motivesAndTactics: string
+}
+
 // Constants
 export const MONSTER_TYPES = [
   'Standard', 'Bruiser', 'Horde', 'Minion', 'Solo', 
@@ -43,9 +82,21 @@ export const FEATURE_CATEGORIES = [
 
 export const TIERS = [1, 2, 3, 4] as const
 
+export const ATTACK_RANGES = ['Melee', 'Very Close', 'Close', 'Far', 'Very Far'] as const
+
+export const DAMAGE_TYPES = ['physical', 'magic'] as const
+
+export const FEATURE_KINDS = ['Passive', 'Action', 'Reaction'] as const
+
 export type MonsterType = typeof MONSTER_TYPES[number]
 export type FeatureCategory = typeof FEATURE_CATEGORIES[number]
 export type Tier = typeof TIERS[number]
+export type AttackRange = typeof ATTACK_RANGES[number]
+export type DamageType = typeof DAMAGE_TYPES[number]
+export type FeatureKind = typeof FEATURE_KINDS[number]
+
+// The JSON's values are widened to strings, so they don't line up with the unions on their own
+const TYPE_DEFAULTS = adversaryTypeDefaultsData as unknown as Record<MonsterType, MonsterTypeDefaults>
 
 // Helper functions
 function processAdversaryData() {
@@ -106,6 +157,7 @@ export function getAvailableFeatures(type: MonsterType): MonsterFeature[] {
     .map(feature => ({
       category: feature.Category,
       name: feature['Feature Type'],
+      kind: feature.Kind as FeatureKind,
       description: feature.Description
     }))
   
@@ -114,7 +166,8 @@ export function getAvailableFeatures(type: MonsterType): MonsterFeature[] {
 
 export function selectRandomFeatures(
   availableFeatures: MonsterFeature[], 
-  maxFeatures: number
+  maxFeatures: number,
+  random: RandomSource = defaultRandom
 ): MonsterFeature[] {
   if (availableFeatures.length <= maxFeatures) {
     return [...availableFeatures]
@@ -127,7 +180,7 @@ export function selectRandomFeatures(
   // Always include at least one general feature if available
   const generalFeatures = featuresCopy.filter(f => f.category === 'General')
   if (generalFeatures.length > 0) {
-    const randomGeneral = generalFeatures[Math.floor(Math.random() * generalFeatures.length)]
+    const randomGeneral = generalFeatures[randomInt(generalFeatures.length, random)]
     selected.push(randomGeneral)
     selectedFeatureNames.add(randomGeneral.name)
     featuresCopy.splice(featuresCopy.indexOf(randomGeneral), 1)
@@ -141,7 +194,7 @@ export function selectRandomFeatures(
       break // No more unique features available
     }
     
-    const randomIndex = Math.floor(Math.random() * availableUniqueFeatures.length)
+    const randomIndex = randomInt(availableUniqueFeatures.length, random)
     const selectedFeature = availableUniqueFeatures[randomIndex]
     
     selected.push(selectedFeature)
@@ -152,32 +205,47 @@ export function selectRandomFeatures(
   return selected
 }
 
-export function generateMonster(type: MonsterType, tier: Tier): GeneratedMonster | null {
+export function generateMonster(
+  type: MonsterType, 
+  tier: Tier, 
+  random: RandomSource = defaultRandom
+): GeneratedMonster | null {
   const stats = getMonsterStats(type, tier)
   if (!stats) return null
   
+  const defaults = getMonsterTypeDefaults(type)
   const availableFeatures = getAvailableFeatures(type)
-  const selectedFeatures = selectRandomFeatures(availableFeatures, stats.features)
+  const selectedFeatures = selectRandomFeatures(availableFeatures, stats.features, random)
+    .map(feature => generateFeatureText(feature, stats, defaults.damageType, random))
   
   return {
     id: generateMonsterId(),
     name: '',
     type,
     tier,
+    description: '',
     stats,
+    ...defaults,
+    experiences: [],
     selectedFeatures
   }
 }
 
+// Types the table doesn't know (e.g. hand-authored ones) get the Standard defaults
+export function getMonsterTypeDefaults(type: string): MonsterTypeDefaults {
+  return { ...(TYPE_DEFAULTS[type as MonsterType] ?? TYPE_DEFAULTS.Standard) }
+}
+
 export function generateMultipleMonsters(
   type: MonsterType, 
   tier: Tier, 
-  count: number
+  count: number,
+  random: RandomSource = defaultRandom
 ): GeneratedMonster[] {
   const monsters: GeneratedMonster[] = []
   
   for (let i = 0; i < count; i++) {
-    const monster = generateMonster(type, tier)
+    const monster = generateMonster(type, tier, random)
     if (monster) {
       monsters.push(monster)
     }
@@ -186,20 +254,73 @@ export function generateMultipleMonsters(
   return monsters
 }
 
+const ATTACK_ROLL = /^\s*1?d20\s*([+-]\s*\d+)?\s*$/i
+
+// A modifier with its sign, e.g. "+3" or "-1"
+export function formatModifier(value: number): string {
+  return value < 0 ? String(value) : `+${value}`
+}
+
+// The attack bonus from "1d20+3", or null if the attack isn't a d20 roll
+export function getAttackModifier(attack: string): number | null {
+  const match = ATTACK_ROLL.exec(attack)
+  if (!match) return null
+  return match[1] ? parseInt(match[1].replace(/\s/g, ''), 10) : 0
+}
+
+// Dice variables for rolling from the stat block, e.g. "1d20+@attack" or "@tier d8": @attack (the
+// attack modifier), @tier, @difficulty, @hp, @stress, and @major and @severe when it has thresholds
+export function getMonsterDiceVariables(monster: GeneratedMonster): DiceVariables {
+  const { stats } = monster
+  const variables: DiceVariables = {
+    tier: monster.tier,
+    difficulty: stats.difficulty,
+    hp: stats.hitpoints,
+    stress: stats.stress,
+  }
+
+  const attack = getAttackModifier(stats.attack)
+  if (attack !== null) {
+    variables.attack = attack
+  }
+
+  const thresholds = parseDamageThresholds(stats.threshold)
+  if (thresholds) {
+    variables.major = thresholds.major
+    variables.severe = thresholds.severe
+  }
+
+  return variables
+}
+
+// Plain-text stat block in the book's layout
 export function formatMonsterForExport(monster: GeneratedMonster): string {
   const { name, type, tier, stats, selectedFeatures } = monster
   const monsterName = name.trim() || 'Unnamed Monster'
-  const thresholdText = stats.threshold === "N/A" ? "No Threshold" : stats.threshold
+  const thresholdText = stats.threshold === "N/A" ? "None" : stats.threshold.replace(/\s*\/\s*/, '/')
+  const attackModifier = getAttackModifier(stats.attack)
+  const attackText = attackModifier === null ? stats.attack : formatModifier(attackModifier)
+  const damageType = monster.damageType === 'magic' ? 'mag' : 'phy'
   
-  let output = `${monsterName} | ${type}, Tier ${tier}\n`
-  output += `Difficulty: ${stats.difficulty} | Threshold: ${thresholdText}\n`
-  output += `Attack: ${stats.attack} | Damage: ${stats.damage}\n`
-  output += `HP: ${stats.hitpoints} | Stress: ${stats.stress}\n\n`
+  let output = `${monsterName.toUpperCase()}\n`
+  output += `Tier ${tier} ${type}\n`
+  if (monster.description.trim()) {
+    output += `${monster.description.trim()}\n`
+  }
+  if (monster.motivesAndTactics.trim()) {
+    output += `Motives & Tactics: ${monster.motivesAndTactics.trim()}\n`
+  }
+  output += `\n`
+  output += `Difficulty: ${stats.difficulty} | Thresholds: ${thresholdText} | HP: ${stats.hitpoints} | Stress: ${stats.stress}\n`
+  output += `ATK: ${attackText} | ${monster.attackName.trim() || 'Attack'}: ${monster.range} | ${stats.damage} ${damageType}\n`
+  if (monster.experiences.length > 0) {
+    output += `Experience: ${monster.experiences.map(experience => `${experience.name} ${formatModifier(experience.modifier)}`).join(', ')}\n`
+  }
   
   if (selectedFeatures.length > 0) {
-    output += `Features:\n`
+    output += `\nFEATURES\n`
     selectedFeatures.forEach(feature => {
-      output += `• ${feature.name}: ${feature.description}\n`
+      output += `${feature.name} - ${feature.kind}: ${feature.description}\n`
     })
   }
   
@@ -249,7 +370,8 @@ export function exportMultipleMonstersAsFile(monsters: GeneratedMonster[]): void
 }
 
 // Utility function to generate unique IDs
-function generateMonsterId(): string {
+// Deliberately not drawn from the seeded source, so re-rolling a seed never duplicates an ID
+export function generateMonsterId(): string {
   return `monster_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
 }
 
@@ -262,6 +384,96 @@ export function isValidTier(tier: number): tier is Tier {
   return TIERS.includes(tier as Tier)
 }
 
+function parseFeatureTemplateRef(value: any): FeatureTemplateRef | undefined {
+  if (!value || typeof value.archetype !== 'string' || typeof value.variant !== 'number') return undefined
+  if (!value.choices || typeof value.choices !== 'object') return undefined
+
+  const choices: Record<string, string> = {}
+  Object.entries(value.choices).forEach(([key, choice]) => {
+    if (typeof choice === 'string') choices[key] = choice
+  })
+  return { archetype: value.archetype, variant: value.variant, choices }
+}
+
+function parseMonsterExperience(value: any): MonsterExperience | null {
+  if (!value || typeof value.name !== 'string' || !Number.isInteger(value.modifier)) return null
+  return { name: value.name, modifier: value.modifier }
+}
+
+// Monsters saved before feature kinds were their own field had them at the start of the description
+function readLegacyFeatureKind(name: string, description: string): { kind: FeatureKind, description: string } {
+  const match = /^(Passive|Action|Reaction):\s*/.exec(description)
+  if (match) return { kind: match[1] as FeatureKind, description: description.slice(match[0].length) }
+  if (name.toLowerCase().includes('passive') || name.includes('(X)')) return { kind: 'Passive', description }
+  if (name.toLowerCase().includes('reaction')) return { kind: 'Reaction', description }
+  return { kind: 'Action', description }
+}
+
+function parseMonsterFeature(value: any): MonsterFeature | null {
+  if (!value || typeof value.category !== 'string' || typeof value.name !== 'string' || typeof value.description !== 'string') {
+    return null
+  }
+
+  const { kind, description } = FEATURE_KINDS.includes(value.kind)
+    ? { kind: value.kind as FeatureKind, description: value.description }
+    : readLegacyFeatureKind(value.name, value.description)
+  const template = parseFeatureTemplateRef(value.template)
+  return {
+    category: value.category,
+    name: value.name,
+    kind,
+    description,
+    ...(template && { template }),
+  }
+}
+
+// Read a monster from untrusted JSON (e.g. an imported library), or null if it's malformed.
+// Hand-written monsters are fine as long as they have every stat; unreadable features are dropped.
+// Monsters saved in the older, shorter format are brought up to date: stat block details they
+// don't have get the defaults for their type, and feature kinds move out of the descriptions.
+export function parseGeneratedMonster(value: any): GeneratedMonster | null {
+  if (!value || typeof value !== 'object') return null
+  if (typeof value.id !== 'string' || !value.id || typeof value.name !== 'string' || typeof value.type !== 'string') return null
+  if (!isValidTier(value.tier) || !Array.isArray(value.selectedFeatures)) return null
+
+  const stats = value.stats
+  const numbers = ['tier', 'difficulty', 'hitpoints', 'stress', 'features'] as const
+  const strings = ['type', 'threshold', 'attack', 'damage'] as const
+  if (!stats || numbers.some(key => typeof stats[key] !== 'number') || strings.some(key => typeof stats[key] !== 'string')) {
+    return null
+  }
+
+  const defaults = getMonsterTypeDefaults(value.type)
+  return {
+    id: value.id,
+    name: value.name,
+    type: value.type,
+    tier: value.tier,
+    description: typeof value.description === 'string' ? value.description : '',
+    motivesAndTactics: typeof value.motivesAndTactics === 'string' ? value.motivesAndTactics : defaults.motivesAndTactics,
+    stats: {
+      type: stats.type,
+      tier: stats.tier,
+      difficulty: stats.difficulty,
+      threshold: stats.threshold,
+      attack: stats.attack,
+      damage: stats.damage,
+      hitpoints: stats.hitpoints,
+      stress: stats.stress,
+      features: stats.features,
+    },
+    attackName: typeof value.attackName === 'string' ? value.attackName : defaults.attackName,
+    range: ATTACK_RANGES.includes(value.range) ? value.range : defaults.range,
+    damageType: DAMAGE_TYPES.includes(value.damageType) ? value.damageType : defaults.damageType,
+    experiences: (Array.isArray(value.experiences) ? value.experiences : [])
+      .map(parseMonsterExperience)
+      .filter((experience: MonsterExperience | null): experience is MonsterExperience => experience !== null),
+    selectedFeatures: value.selectedFeatures
+      .map(parseMonsterFeature)
+      .filter((feature: MonsterFeature | null): feature is MonsterFeature => feature !== null),
+  }
+}
+
 export function getAvailableTiersForType(type: MonsterType): Tier[] {
   const processedData = processAdversaryData()
   
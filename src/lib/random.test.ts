@@ -0,0 +1,96 @@
+/**
+ * Unit tests for random sources
+ */
+
+import {
+  createSeededRandom,
+  cryptoRandom,
+  generateSeed,
+  normalizeSeed,
+  randomInt,
+} from './random';
+
+import { rollDiceExpression, rollDualityDice, DEFAULT_DICE_CONFIG } from './dice-utils';
+import { generateMonster } from './monster-utils';
+import { generateMultipleLoot } from '@/utils/data-access';
+
+const take = (random: () => number, count: number) => Array.from({ length: count }, random);
+
+describe('createSeededRandom', () => {
+  test('produces the same sequence for the same seed', () => {
+    expect(take(createSeededRandom('goblin ambush'), 10)).toEqual(take(createSeededRandom('goblin ambush'), 10));
+  });
+
+  test('produces different sequences for different seeds', () => {
+    expect(take(createSeededRandom('a'), 5)).not.toEqual(take(createSeededRandom('b'), 5));
+  });
+
+  test('ignores case and surrounding whitespace', () => {
+    expect(take(createSeededRandom(' Goblin Ambush '), 5)).toEqual(take(createSeededRandom('goblin ambush'), 5));
+  });
+
+  test('returns floats in [0, 1)', () => {
+    take(createSeededRandom(42), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('cryptoRandom', () => {
+  test('returns floats in [0, 1)', () => {
+    take(cryptoRandom, 100).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('generateSeed', () => {
+  test('creates an eight-character base-36 seed', () => {
+    expect(generateSeed()).toMatch(/^[0-9a-z]{8}$/);
+  });
+
+  test('is reproducible from a seeded source', () => {
+    expect(generateSeed(createSeededRandom('x'))).toBe(generateSeed(createSeededRandom('x')));
+  });
+});
+
+describe('normalizeSeed and randomInt', () => {
+  test('normalize seeds and stay within bounds', () => {
+    expect(normalizeSeed(' ABC ')).toBe('abc');
+    expect(normalizeSeed(123)).toBe('123');
+    expect(randomInt(6, () => 0)).toBe(0);
+    expect(randomInt(6, () => 0.9999)).toBe(5);
+  });
+});
+
+describe('seeded generation', () => {
+  test('reproduces dice rolls', () => {
+    const roll = (seed: string) => rollDiceExpression('4d6dl1+2', 'advantage', {
+      ...DEFAULT_DICE_CONFIG,
+      random: createSeededRandom(seed),
+    });
+
+    expect(roll('table-7').rolls).toEqual(roll('table-7').rolls);
+    expect(roll('table-7').total).toBe(roll('table-7').total);
+  });
+
+  test('reproduces Duality Dice', () => {
+    const roll = () => rollDualityDice({ modifier: 2, random: createSeededRandom('hope') }).duality;
+
+    expect(roll()).toEqual(roll());
+  });
+
+  test('reproduces monster features', () => {
+    const build = () => generateMonster('Bruiser', 2, createSeededRandom('ogre'))?.selectedFeatures;
+
+    expect(build()).toEqual(build());
+  });
+
+  test('reproduces loot', () => {
+    const loot = () => generateMultipleLoot('item', 5, 'any', createSeededRandom('hoard'));
+
+    expect(loot()).toEqual(loot());
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Random number sources for dice rolls and generators
+ * Every roll and generator accepts a RandomSource, so results can be reproduced
+ * from a seed or made predictable in tests
+ */
+
+import { RandomSource } from '@/types/dice';
+
+export type { RandomSource };
+
+/**
+ * Random source backed by the Web Crypto API
+ * Falls back to Math.random in environments without crypto.getRandomValues
+ *
+ * @returns A float in [0, 1)
+ */
+export function cryptoRandom(): number {
+  const cryptoApi = globalThis.crypto;
+
+  if (cryptoApi?.getRandomValues) {
+    const buffer = new Uint32Array(1);
+    cryptoApi.getRandomValues(buffer);
+    return buffer[0] / 0x100000000;
+  }
+
+  return Math.random();
+}
+
+/**
+ * Random source used when none is supplied
+ */
+export const defaultRandom: RandomSource = cryptoRandom;
+
+/**
+ * Hash a seed string into a 32-bit integer (FNV-1a)
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+/**
+ * Create a deterministic random source from a seed (mulberry32)
+ * The same seed always produces the same sequence, so a shared seed reproduces
+ * the same rolls, monsters and loot
+ *
+ * @param seed - Any string or number; surrounding whitespace and case are ignored
+ * @returns Seeded random source returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: string | number): RandomSource {
+  let state = hashSeed(normalizeSeed(seed));
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * Normalize a seed so "Goblin Ambush" and " goblin ambush " share results
+ *
+ * @param seed - Raw seed as typed or shared
+ * @returns Trimmed, lowercase seed string
+ */
+export function normalizeSeed(seed: string | number): string {
+  return String(seed).trim().toLowerCase();
+}
+
+/**
+ * Generate a short, shareable seed
+ *
+ * @param random - Random source to draw from
+ * @returns Eight-character base-36 seed (e.g., "k3f9x0qa")
+ */
+export function generateSeed(random: RandomSource = defaultRandom): string {
+  let seed = '';
+
+  for (let i = 0; i < 8; i++) {
+    seed += randomInt(36, random).toString(36);
+  }
+
+  return seed;
+}
+
+/**
+ * Pick a random integer from 0 (inclusive) to max (exclusive)
+ *
+ * @param max - Number of possible values
+ * @param random - Random source to draw from
+ * @returns Integer in [0, max)
+ */
+export function randomInt(max: number, random: RandomSource = defaultRandom): number {
+  return Math.floor(random() * max);
+}
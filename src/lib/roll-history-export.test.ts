@@ -0,0 +1,102 @@
+/**
+ * Unit tests for roll history export and import
+ */
+
+import {
+  exportRollHistory,
+  exportRollHistoryCsv,
+  exportRollHistoryJson,
+  exportRollHistoryMarkdown,
+  formatRollBreakdown,
+  importRollHistory,
+} from './roll-history-export';
+
+import { rollDiceExpression, rollDualityDice } from './dice-utils';
+import { HISTORY_SCHEMA_VERSION } from './roll-history';
+import { DiceRollResult, RollHistoryEntry } from '@/types/dice';
+import { config, sequence } from '@/test/helpers';
+
+const at = (result: DiceRollResult, time: string): DiceRollResult => ({ ...result, timestamp: new Date(time) });
+
+// floor(random * sides) + 1 gives the face
+const attack = at(rollDiceExpression('1d20+2', 'advantage', config([13 / 20, 3 / 6]), { value: 12, type: 'evasion' }), '2026-10-17T19:05:00Z');
+const action = at(rollDualityDice({ modifier: 1, random: sequence([9 / 12, 4 / 12]) }), '2026-10-17T19:00:00Z');
+const secret = at(rollDiceExpression('2d6', 'normal', config([0, 5 / 6])), '2026-10-17T19:10:00Z');
+
+const history: RollHistoryEntry[] = [
+  { id: 'roll_secret', result: secret, context: 'Goblin reaction', visibility: 'hidden' },
+  { id: 'roll_attack', result: attack, context: 'Goblin, "Slash"', roller: 'Rowan' },
+  { id: 'roll_action', result: action, context: '=SUM(A1)' },
+];
+
+describe('formatRollBreakdown', () => {
+  test('lists every die, dropped dice in parentheses, and the modifier', () => {
+    expect(formatRollBreakdown(attack)).toBe('1d20: 14 · Advantage: 4 · +2');
+    expect(formatRollBreakdown(rollDiceExpression('4d6dl1', 'normal', config([0, 3 / 6, 5 / 6, 2 / 6]))))
+      .toBe('4d6dl1: (1), 4, 6, 3');
+    expect(formatRollBreakdown(action)).toBe('Hope: 10 · Fear: 5 · +1');
+  });
+});
+
+describe('exportRollHistoryCsv', () => {
+  test('writes one row per roll, oldest first, without secret rolls', () => {
+    const lines = exportRollHistoryCsv(history).split('\r\n');
+
+    expect(lines[0]).toBe('Time,Expression,Total,Roll Type,Outcome,Target,Breakdown,Context,Roller,Visibility');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain(`2026-10-17T19:00:00.000Z,${action.expression.originalExpression},${action.total},normal,With Hope`);
+    expect(lines[1]).toContain(`,'=SUM(A1),,public`);
+    expect(lines[2]).toBe(`2026-10-17T19:05:00.000Z,1d20+2,${attack.total},advantage,Hit,Evasion 12,1d20: 14 · Advantage: 4 · +2,"Goblin, ""Slash""",Rowan,public`);
+  });
+
+  test('includes secret rolls when asked', () => {
+    const csv = exportRollHistoryCsv(history, { includeHidden: true });
+
+    expect(csv.split('\r\n')).toHaveLength(4);
+    expect(csv).toContain('Goblin reaction,,hidden');
+  });
+});
+
+describe('exportRollHistoryMarkdown', () => {
+  test('writes a session log with Hope and Fear counts', () => {
+    const markdown = exportRollHistoryMarkdown(history);
+
+    expect(markdown).toMatch(/^# Roll Log\n/);
+    expect(markdown).toContain('2 rolls');
+    expect(markdown).toContain('## Session 1');
+    expect(markdown).toContain('Hope 1 · Fear 0 · Critical 0');
+    expect(markdown).toContain(`| \`1d20+2\` (advantage) | **${attack.total}** | Hit vs Evasion 12 | 1d20: 14 · Advantage: 4 · +2 | Rowan: Goblin, "Slash" |`);
+    expect(markdown).not.toContain('Goblin reaction');
+  });
+
+  test('marks secret rolls when they are included', () => {
+    expect(exportRollHistory(history, 'markdown', { includeHidden: true })).toContain('`2d6` 🔒');
+  });
+});
+
+describe('importRollHistory', () => {
+  test('round-trips an exported file', () => {
+    const imported = importRollHistory(exportRollHistoryJson(history, { includeHidden: true }));
+
+    expect(imported.error).toBeUndefined();
+    expect(imported.skipped).toBe(0);
+    expect(imported.entries).toEqual(history);
+  });
+
+  test('skips malformed entries', () => {
+    const json = JSON.stringify({
+      version: HISTORY_SCHEMA_VERSION,
+      entries: [JSON.parse(JSON.stringify(history[1])), { id: 'roll_broken' }, { id: 'roll_no_date', result: { ...attack, timestamp: 'never' } }]
+    });
+    const imported = importRollHistory(json);
+
+    expect(imported.entries.map(entry => entry.id)).toEqual(['roll_attack']);
+    expect(imported.skipped).toBe(2);
+  });
+
+  test('reports files it cannot read', () => {
+    expect(importRollHistory('not json').error).toBe('File is not valid JSON');
+    expect(importRollHistory('{"rolls": []}').error).toBe('File does not contain a roll history');
+    expect(importRollHistory(JSON.stringify({ version: HISTORY_SCHEMA_VERSION + 1, entries: [] })).error).toMatch(/newer/);
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Roll history export - CSV for spreadsheets, JSON for importing again and Markdown session logs for recaps
+ */
+
+import {
+  DiceRollResult,
+  RollHistoryEntry,
+  RollHistoryExportFormat,
+  RollHistoryExportOptions,
+  RollHistoryImportResult
+} from '@/types/dice';
+import { formatRollTarget, getDualityOutcomeLabel, getRollEvaluationLabel, isDualityRollResult } from '@/lib/dice-utils';
+import { formatRollMacroSummary, isRollMacroResult } from '@/lib/roll-macros';
+import { getRollHistoryStats, getRollSessions } from '@/lib/roll-history-stats';
+import {
+  getRollVisibility,
+  HISTORY_SCHEMA_VERSION,
+  isValidHistoryEntry,
+  isVisibleToPlayers,
+  parseStoredHistory
+} from '@/lib/roll-history';
+
+const FILE_TYPES: Record<RollHistoryExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+};
+
+const CSV_COLUMNS = ['Time', 'Expression', 'Total', 'Roll Type', 'Outcome', 'Target', 'Breakdown', 'Context', 'Roller', 'Visibility'];
+
+/**
+ * Keep only the entries an export may include, oldest first for logs
+ */
+function getExportEntries(entries: RollHistoryEntry[], options: RollHistoryExportOptions): RollHistoryEntry[] {
+  return entries
+    .filter(entry => options.includeHidden || isVisibleToPlayers(entry))
+    .sort((a, b) => a.result.timestamp.getTime() - b.result.timestamp.getTime());
+}
+
+/**
+ * Describe every die of a roll, with dropped and rerolled dice in parentheses
+ *
+ * @param result - Roll to describe
+ * @returns Breakdown such as "2d20: 14, (6) · Advantage: 4 · +3"
+ */
+export function formatRollBreakdown(result: DiceRollResult): string {
+  const parts = result.breakdown.map(breakdown => {
+    const dropped = new Set(breakdown.droppedIndices ?? []);
+    const values = breakdown.values.map((value, index) => dropped.has(index) ? `(${value})` : String(value));
+    const name = breakdown.label ?? breakdown.dieSpec.charAt(0).toUpperCase() + breakdown.dieSpec.slice(1);
+    return `${name}: ${values.join(', ')}`;
+  });
+
+  if (result.modifier !== 0) {
+    parts.push(result.modifier > 0 ? `+${result.modifier}` : `−${Math.abs(result.modifier)}`);
+  }
+
+  return parts.join(' · ');
+}
+
+/**
+ * Describe how a roll turned out (e.g., "Success with Hope", "Hit"), or an empty string
+ */
+function describeOutcome(result: DiceRollResult): string {
+  if (isRollMacroResult(result)) {
+    return formatRollMacroSummary(result);
+  }
+  if (result.evaluation) {
+    return getRollEvaluationLabel(result.evaluation);
+  }
+  if (isDualityRollResult(result)) {
+    const label = getDualityOutcomeLabel(result.duality.outcome);
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  }
+  return '';
+}
+
+/**
+ * Quote a CSV value when needed; text that a spreadsheet would run as a formula is prefixed with '
+ */
+function escapeCsvValue(value: string | number, isText: boolean = false): string {
+  let text = String(value);
+  if (isText && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export roll history as CSV, one row per roll, oldest first
+ *
+ * @param entries - History entries
+ * @param options - Whether to include rolls hidden from players
+ * @returns CSV with a header row
+ */
+export function exportRollHistoryCsv(entries: RollHistoryEntry[], options: RollHistoryExportOptions = {}): string {
+  const rows = getExportEntries(entries, options).map(entry => {
+    const { result } = entry;
+    return [
+      escapeCsvValue(result.timestamp.toISOString()),
+      escapeCsvValue(result.expression.originalExpression),
+      escapeCsvValue(result.total),
+      escapeCsvValue(result.rollType),
+      escapeCsvValue(describeOutcome(result), true),
+      escapeCsvValue(result.evaluation ? formatRollTarget(result.evaluation.target) : ''),
+      escapeCsvValue(formatRollBreakdown(result)),
+      escapeCsvValue(entry.context ?? '', true),
+      escapeCsvValue(entry.roller ?? '', true),
+      escapeCsvValue(getRollVisibility(entry)),
+    ].join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Export roll history as JSON that importRollHistory reads back
+ *
+ * @param entries - History entries
+ * @param options - Whether to include rolls hidden from players
+ * @returns History in the current storage schema
+ */
+export function exportRollHistoryJson(entries: RollHistoryEntry[], options: RollHistoryExportOptions = {}): string {
+  return JSON.stringify({
+    version: HISTORY_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: entries.filter(entry => options.includeHidden || isVisibleToPlayers(entry)),
+  }, null, 2);
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Export roll history as a Markdown session log, one table per play session, oldest first
+ *
+ * @param entries - History entries
+ * @param options - Whether to include rolls hidden from players
+ * @returns Markdown session log
+ */
+export function exportRollHistoryMarkdown(entries: RollHistoryEntry[], options: RollHistoryExportOptions = {}): string {
+  const exported = getExportEntries(entries, options);
+  const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const formatDate = (date: Date) => date.toLocaleDateString([], { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+
+  const lines = [
+    '# Roll Log',
+    '',
+    `Exported ${formatDate(new Date())} · ${exported.length} ${exported.length === 1 ? 'roll' : 'rolls'}`,
+  ];
+
+  // Sessions come most recent first; a log reads oldest first
+  const sessions = getRollSessions(exported).reverse();
+
+  sessions.forEach((session, index) => {
+    const { duality } = getRollHistoryStats(session.entries);
+    const summary = [
+      `${formatTime(session.start)} – ${formatTime(session.end)}`,
+      `${session.entries.length} ${session.entries.length === 1 ? 'roll' : 'rolls'}`,
+      ...(duality.rolls > 0 ? [`Hope ${duality.hope}`, `Fear ${duality.fear}`, `Critical ${duality.critical}`] : []),
+    ];
+
+    lines.push('', `## Session ${index + 1} · ${formatDate(session.start)}`, '', summary.join(' · '), '');
+    lines.push('| Time | Roll | Total | Result | Breakdown | Context |', '| --- | --- | --- | --- | --- | --- |');
+
+    [...session.entries].reverse().forEach(entry => {
+      const { result } = entry;
+      const roll = [
+        `\`${result.expression.originalExpression}\``,
+        ...(result.rollType !== 'normal' ? [`(${result.rollType})`] : []),
+        ...(getRollVisibility(entry) === 'hidden' ? ['🔒'] : []),
+      ].join(' ');
+      const outcome = [
+        describeOutcome(result),
+        ...(result.evaluation && !isRollMacroResult(result) ? [`vs ${formatRollTarget(result.evaluation.target)}`] : []),
+      ].filter(Boolean).join(' ');
+      const context = [entry.roller, entry.context].filter(Boolean).join(': ');
+
+      lines.push(`| ${[
+        formatTime(result.timestamp),
+        roll,
+        `**${result.total}**`,
+        outcome,
+        formatRollBreakdown(result),
+        context,
+      ].map(escapeMarkdownCell).join(' | ')} |`);
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Export roll history in the given format
+ */
+export function exportRollHistory(
+  entries: RollHistoryEntry[],
+  format: RollHistoryExportFormat,
+  options: RollHistoryExportOptions = {}
+): string {
+  switch (format) {
+    case 'csv':
+      return exportRollHistoryCsv(entries, options);
+    case 'json':
+      return exportRollHistoryJson(entries, options);
+    case 'markdown':
+      return exportRollHistoryMarkdown(entries, options);
+  }
+}
+
+/**
+ * Download roll history as a file
+ *
+ * @param entries - History entries to export
+ * @param format - File format
+ * @param options - Whether to include rolls hidden from players
+ */
+export function downloadRollHistory(
+  entries: RollHistoryEntry[],
+  format: RollHistoryExportFormat,
+  options: RollHistoryExportOptions = {}
+): void {
+  const content = exportRollHistory(entries, format, options);
+  const { extension, mimeType } = FILE_TYPES[format];
+  const filename = `daggerheart_roll_history_${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+  // Create and trigger download
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a history file exported by exportRollHistoryJson
+ * Older history formats are migrated; malformed entries are skipped.
+ *
+ * @param json - File contents
+ * @returns Valid entries, how many were skipped, and an error if the file could not be read
+ */
+export function importRollHistory(json: string): RollHistoryImportResult {
+  let data: any;
+
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { entries: [], skipped: 0, error: 'File is not valid JSON' };
+  }
+
+  if (data && typeof data.version === 'number' && data.version > HISTORY_SCHEMA_VERSION) {
+    return { entries: [], skipped: 0, error: `Roll history version ${data.version} is newer than this app supports` };
+  }
+
+  const rawEntries = Array.isArray(data) ? data : data?.entries;
+  if (!Array.isArray(rawEntries)) {
+    return { entries: [], skipped: 0, error: 'File does not contain a roll history' };
+  }
+
+  // Migrate only entries with a result, so one malformed entry doesn't fail the whole file
+  const candidates = rawEntries.filter(entry => entry && typeof entry === 'object' && entry.result && typeof entry.result === 'object');
+  let parsed: RollHistoryEntry[] | null = null;
+  try {
+    parsed = parseStoredHistory(JSON.stringify(Array.isArray(data) ? candidates : { ...data, entries: candidates }));
+  } catch {
+    parsed = null;
+  }
+  if (!parsed) {
+    return { entries: [], skipped: 0, error: 'File does not contain a roll history' };
+  }
+
+  const entries = parsed.filter(isValidHistoryEntry);
+  return { entries, skipped: rawEntries.length - entries.length };
+}
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for roll history queries and statistics
+ */
+
+import {
+  filterRollHistory,
+  getExpectedTotal,
+  getRollHistoryStats,
+  getRollSessions,
+  isCriticalRoll,
+  SESSION_GAP_MS,
+} from './roll-history-stats';
+
+import { rollDiceExpression, rollDualityDice } from './dice-utils';
+import { DiceRollResult, RollHistoryEntry } from '@/types/dice';
+import { config, sequence } from '@/test/helpers';
+
+let nextId = 0;
+const entry = (result: DiceRollResult, context?: string, time?: string): RollHistoryEntry => ({
+  id: `roll_${nextId++}`,
+  result: time ? { ...result, timestamp: new Date(time) } : result,
+  ...(context && { context }),
+});
+
+// floor(random * sides) + 1 gives the face
+const attackHit = entry(
+  rollDiceExpression('1d20+2', 'normal', config([0.5]), { value: 12, type: 'evasion' }),
+  'Goblin attack',
+  '2024-05-01T19:00:00Z'
+);
+const attackCrit = entry(
+  rollDiceExpression('1d20+2', 'advantage', config([0.99, 0]), { value: 12, type: 'evasion' }),
+  'Goblin attack',
+  '2024-05-01T19:30:00Z'
+);
+const damage = entry(
+  rollDiceExpression('2d6+1', 'critical', config([0, 0])),
+  'Goblin damage',
+  '2024-05-01T19:31:00Z'
+);
+const hopeRoll = entry(
+  rollDualityDice({ difficulty: 10, random: sequence([0.9, 0.1]) }),
+  'Marlowe',
+  '2024-05-08T19:00:00Z'
+);
+const fearRoll = entry(
+  rollDualityDice({ difficulty: 15, random: sequence([0.1, 0.9]) }),
+  'Marlowe',
+  '2024-05-08T19:10:00Z'
+);
+const history = [fearRoll, hopeRoll, damage, attackCrit, attackHit];
+
+describe('filterRollHistory', () => {
+  test('filters by expression and context', () => {
+    expect(filterRollHistory(history, { expression: 'd20' })).toEqual([attackCrit, attackHit]);
+    expect(filterRollHistory(history, { expression: '2d6 + 1' })).toEqual([damage]);
+    expect(filterRollHistory(history, { context: 'goblin' })).toHaveLength(3);
+  });
+
+  test('filters by roll type and date range', () => {
+    expect(filterRollHistory(history, { rollTypes: ['advantage', 'critical'] })).toEqual([damage, attackCrit]);
+    expect(filterRollHistory(history, {
+      from: new Date('2024-05-01T19:15:00Z'),
+      to: new Date('2024-05-02T00:00:00Z'),
+    })).toEqual([damage, attackCrit]);
+  });
+
+  test('filters by outcome', () => {
+    expect(filterRollHistory(history, { outcome: 'critical' })).toEqual([attackCrit]);
+    expect(filterRollHistory(history, { outcome: 'hope' })).toEqual([hopeRoll]);
+    expect(filterRollHistory(history, { outcome: 'fear' })).toEqual([fearRoll]);
+    expect(filterRollHistory(history, { outcome: 'failure' })).toEqual([fearRoll]);
+    expect(filterRollHistory(history, { outcome: 'success' })).toHaveLength(3);
+  });
+
+  test('returns everything without filters', () => {
+    expect(filterRollHistory(history)).toEqual(history);
+  });
+});
+
+describe('getExpectedTotal', () => {
+  test('accounts for the roll type', () => {
+    expect(getExpectedTotal(attackHit.result)).toBe(12.5);
+    expect(getExpectedTotal(attackCrit.result)).toBe(16);
+    // 2d6+1 averages 8, plus 12 for the critical
+    expect(getExpectedTotal(damage.result)).toBe(20);
+    expect(getExpectedTotal(hopeRoll.result)).toBe(13);
+  });
+
+  test('counts only the highest d6 of stacked advantage', () => {
+    const stacked = rollDiceExpression('1d20', { advantage: 3, disadvantage: 0 });
+    const cancelled = rollDiceExpression('1d20', { advantage: 1, disadvantage: 1 });
+
+    expect(getExpectedTotal(stacked)).toBeCloseTo(10.5 + 1071 / 216);
+    expect(getExpectedTotal(cancelled)).toBe(10.5);
+  });
+});
+
+describe('isCriticalRoll', () => {
+  test('detects natural 20s and matching Duality Dice', () => {
+    expect(isCriticalRoll(attackCrit.result)).toBe(true);
+    expect(isCriticalRoll(attackHit.result)).toBe(false);
+    expect(isCriticalRoll(rollDualityDice({ random: () => 0.5 }))).toBe(true);
+  });
+});
+
+describe('getRollHistoryStats', () => {
+  const stats = getRollHistoryStats(history);
+
+  test('compares the average total with fair dice', () => {
+    const totals = history.map(({ result }) => result.total);
+
+    expect(stats.totalRolls).toBe(5);
+    expect(stats.averageTotal).toBeCloseTo(totals.reduce((a, b) => a + b) / 5);
+    expect(stats.expectedAverage).toBeCloseTo((12.5 + 16 + 20 + 13 + 13) / 5);
+  });
+
+  test('reports crit frequency against the expected rate', () => {
+    expect(stats.criticals).toMatchObject({ count: 1, eligible: 4, rate: 0.25 });
+    expect(stats.criticals.expectedRate).toBeCloseTo((0.05 + 0.05 + 1 / 12 + 1 / 12) / 4);
+  });
+
+  test('expects crits from the d20s a keep or drop would keep', () => {
+    const expectedRate = (expression: string) =>
+      getRollHistoryStats([entry(rollDiceExpression(expression, 'normal', config([0.5])))]).criticals.expectedRate;
+
+    expect(expectedRate('2d20kh1')).toBeCloseTo(1 - 0.95 ** 2);
+    expect(expectedRate('3d20dl1')).toBeCloseTo(1 - 0.95 ** 3);
+    expect(expectedRate('2d20kl1')).toBeCloseTo(1 / 400);
+    expect(expectedRate('1d20r1')).toBeCloseTo(1 / 19);
+    expect(expectedRate('1d20+1d20')).toBeCloseTo(1 - 0.95 ** 2);
+  });
+
+  test('reports success rate and the Hope/Fear split', () => {
+    expect(stats.evaluated).toEqual({ count: 4, successes: 3, successRate: 0.75 });
+    expect(stats.duality).toEqual({ rolls: 2, hope: 1, fear: 1, critical: 0 });
+  });
+
+  test('reports faces for each die size, skipping bonus dice', () => {
+    expect(stats.dice.map(die => die.sides)).toEqual([6, 12, 20]);
+    expect(stats.dice[0]).toEqual({ sides: 6, count: 2, average: 1, expected: 3.5 });
+    expect(stats.dice[2]).toMatchObject({ sides: 20, count: 2, average: 15.5 });
+  });
+
+  test('handles an empty history', () => {
+    expect(getRollHistoryStats([])).toMatchObject({
+      totalRolls: 0,
+      averageTotal: 0,
+      criticals: { count: 0, eligible: 0, rate: 0 },
+      dice: [],
+    });
+  });
+});
+
+describe('getRollSessions', () => {
+  test('splits history at long breaks', () => {
+    const sessions = getRollSessions(history);
+
+    expect(sessions).toHaveLength(2);
+    expect(sessions[0].entries).toEqual([fearRoll, hopeRoll]);
+    expect(sessions[1].entries).toEqual([damage, attackCrit, attackHit]);
+    expect(sessions[1].start).toEqual(attackHit.result.timestamp);
+    expect(sessions[1].end).toEqual(damage.result.timestamp);
+  });
+
+  test('keeps rolls within the gap together', () => {
+    expect(getRollSessions(history, 8 * 24 * SESSION_GAP_MS)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Roll history queries and statistics - search past rolls and compare them with fair dice
+ */
+
+import {
+  DiceNode,
+  DiceTermModifier,
+  DieFaceStats,
+  DiceRollResult,
+  RollHistoryEntry,
+  RollHistoryStats,
+  RollSession
+} from '@/types/dice';
+import { getDiceAverage, getHighestD6Probabilities, isDualityRollResult, resolveRollTypeStack } from '@/lib/dice-utils';
+import { getDieValueProbabilities } from '@/lib/dice-parser';
+
+/**
+ * Longest break between two rolls of the same session (3 hours)
+ */
+export const SESSION_GAP_MS = 3 * 60 * 60 * 1000;
+
+/**
+ * Outcomes history can be filtered by
+ */
+export type RollHistoryOutcome = 'success' | 'failure' | 'critical' | 'hope' | 'fear';
+
+/**
+ * Filters for querying roll history; every filter given must match
+ */
+export interface RollHistoryFilter {
+  /** Text matched against the expression (e.g., "d20", "2d6+3") */
+  expression?: string;
+  /** Only these roll types */
+  rollTypes?: DiceRollResult['rollType'][];
+  /** Text matched against the context label (e.g., "Goblin") */
+  context?: string;
+  /** Only rolls made at or after this time */
+  from?: Date;
+  /** Only rolls made at or before this time */
+  to?: Date;
+  /** Only rolls with this outcome */
+  outcome?: RollHistoryOutcome;
+}
+
+/**
+ * Check whether a roll was a critical: a critical Duality roll, or a natural 20 on a d20
+ */
+export function isCriticalRoll(result: DiceRollResult): boolean {
+  if (isDualityRollResult(result)) {
+    return result.duality.outcome === 'critical';
+  }
+  return result.rolls.some(roll => roll.sides === 20 && roll.value === 20 && !roll.discarded);
+}
+
+/**
+ * List the d20 terms of a syntax tree with their modifiers
+ */
+function collectD20Terms(node: DiceNode): { count: number; modifiers: DiceTermModifier[] }[] {
+  switch (node.kind) {
+    case 'number': return [];
+    case 'dice': return node.sides === 20 ? [{ count: node.count, modifiers: node.modifiers }] : [];
+    case 'binary': return [...collectD20Terms(node.left), ...collectD20Terms(node.right)];
+    case 'negate': return collectD20Terms(node.operand);
+    case 'group': return collectD20Terms(node.expression);
+  }
+}
+
+/**
+ * Chance that a d20 term keeps a 20
+ * Keeping the highest keeps any 20 rolled (e.g., 2d20kh1), while keeping the lowest only keeps one
+ * when more dice show 20 than are dropped (e.g., both dice of 2d20kl1)
+ */
+function getD20TermCriticalChance(count: number, modifiers: DiceTermModifier[]): number {
+  // An exploding die only shows a 20 if its first roll did, so only rerolls change the chance
+  const face = getDieValueProbabilities(20, modifiers.filter(modifier => modifier.type === 'reroll'))[20];
+  const selection = modifiers.find(modifier => modifier.type === 'keep' || modifier.type === 'drop');
+
+  let needed = 1;
+  if (selection && (selection.type === 'keep' || selection.type === 'drop')) {
+    const kept = selection.type === 'keep' ? selection.count : count - selection.count;
+    const keepsHighest = (selection.type === 'keep') === (selection.which === 'highest');
+    needed = keepsHighest ? 1 : Math.max(1, count - kept + 1);
+  }
+  if (needed > count) return 0;
+
+  // At least `needed` of the dice show 20
+  let chance = 0;
+  let ways = 1;
+  for (let twenties = 0; twenties <= count; twenties++) {
+    if (twenties >= needed) {
+      chance += ways * Math.pow(face, twenties) * Math.pow(1 - face, count - twenties);
+    }
+    ways = ways * (count - twenties) / (twenties + 1);
+  }
+  return chance;
+}
+
+/**
+ * Chance a fair roll of the same dice would have been critical (0 if it couldn't be)
+ */
+function getCriticalChance(result: DiceRollResult): number {
+  if (isDualityRollResult(result)) {
+    // The Hope and Fear dice match on 12 of 144 outcomes
+    return 1 / 12;
+  }
+  const { ast, dice } = result.expression;
+  const terms = ast
+    ? collectD20Terms(ast)
+    : dice.filter(die => die.sides === 20).map(die => ({ count: die.count, modifiers: [] }));
+  const noCritical = terms.reduce((chance, term) => chance * (1 - getD20TermCriticalChance(term.count, term.modifiers)), 1);
+  return 1 - noCritical;
+}
+
+/**
+ * Check whether a roll matches an outcome filter
+ */
+function matchesOutcome(result: DiceRollResult, outcome: RollHistoryOutcome): boolean {
+  switch (outcome) {
+    case 'success':
+      return result.evaluation?.success === true;
+    case 'failure':
+      return result.evaluation?.success === false;
+    case 'critical':
+      return isCriticalRoll(result);
+    case 'hope':
+    case 'fear':
+      return isDualityRollResult(result) && result.duality.outcome === outcome;
+  }
+}
+
+/**
+ * Query roll history
+ *
+ * @param entries - History entries to search
+ * @param filter - Expression, roll type, context, date range and outcome to match
+ * @returns Matching entries, in their original order
+ */
+export function filterRollHistory(entries: RollHistoryEntry[], filter: RollHistoryFilter = {}): RollHistoryEntry[] {
+  const expression = filter.expression?.replace(/\s+/g, '').toLowerCase();
+  const context = filter.context?.trim().toLowerCase();
+
+  return entries.filter(({ result, context: entryContext }) => {
+    const time = result.timestamp.getTime();
+
+    return (!expression || result.expression.originalExpression.replace(/\s+/g, '').toLowerCase().includes(expression))
+      && (!filter.rollTypes?.length || filter.rollTypes.includes(result.rollType))
+      && (!context || (entryContext ?? '').toLowerCase().includes(context))
+      && (!filter.from || time >= filter.from.getTime())
+      && (!filter.to || time <= filter.to.getTime())
+      && (!filter.outcome || matchesOutcome(result, filter.outcome));
+  });
+}
+
+/**
+ * Average of the advantage or disadvantage die: the highest of however many d6s were left after
+ * stacked advantage and disadvantage cancelled
+ */
+function getBonusDieAverage(result: DiceRollResult): number {
+  const dice = result.rollTypeStack ? resolveRollTypeStack(result.rollTypeStack).dice : 1;
+  return getHighestD6Probabilities(dice).reduce((sum, chance, value) => sum + chance * value, 0);
+}
+
+/**
+ * Get the average total a fair roll of the same expression and roll type would give
+ *
+ * @param result - Roll result
+ * @returns Expected total, or null if the expression can no longer be parsed
+ */
+export function getExpectedTotal(result: DiceRollResult): number | null {
+  let expected: number;
+
+  try {
+    expected = getDiceAverage(result.expression);
+  } catch {
+    return null;
+  }
+
+  switch (result.rollType) {
+    case 'advantage':
+      return expected + getBonusDieAverage(result);
+    case 'disadvantage':
+      return expected - getBonusDieAverage(result);
+    case 'critical': {
+      const baseDie = result.expression.dice[0];
+      return expected + (baseDie ? baseDie.count * baseDie.sides : 0);
+    }
+    default:
+      return expected;
+  }
+}
+
+/**
+ * Calculate aggregate statistics for a set of rolls
+ *
+ * @param entries - History entries to summarize
+ * @returns Averages vs expected values, crit frequency, success rate, Hope/Fear split and per-die faces
+ */
+export function getRollHistoryStats(entries: RollHistoryEntry[]): RollHistoryStats {
+  let totalSum = 0;
+  let expectedSum = 0;
+  let expectedCount = 0;
+  let criticalCount = 0;
+  let criticalEligible = 0;
+  let criticalChanceSum = 0;
+  let evaluatedCount = 0;
+  let successes = 0;
+  const duality = { rolls: 0, hope: 0, fear: 0, critical: 0 };
+  const faces = new Map<number, { count: number; sum: number }>();
+
+  for (const { result } of entries) {
+    totalSum += result.total;
+
+    const expected = getExpectedTotal(result);
+    if (expected !== null) {
+      expectedSum += expected;
+      expectedCount++;
+    }
+
+    const criticalChance = getCriticalChance(result);
+    if (criticalChance > 0) {
+      criticalEligible++;
+      criticalChanceSum += criticalChance;
+      if (isCriticalRoll(result)) {
+        criticalCount++;
+      }
+    }
+
+    if (result.evaluation) {
+      evaluatedCount++;
+      if (result.evaluation.success) {
+        successes++;
+      }
+    }
+
+    if (isDualityRollResult(result)) {
+      duality.rolls++;
+      duality[result.duality.outcome]++;
+    }
+
+    // Every face rolled counts toward fairness, including dropped dice. Bonus dice are skipped:
+    // advantage dice keep only the highest of several, and critical bonuses are fixed at the maximum face
+    for (const roll of result.rolls) {
+      if (roll.bonus) continue;
+      const face = faces.get(roll.sides) ?? { count: 0, sum: 0 };
+      faces.set(roll.sides, { count: face.count + 1, sum: face.sum + roll.value });
+    }
+  }
+
+  const dice: DieFaceStats[] = Array.from(faces, ([sides, { count, sum }]) => ({
+    sides,
+    count,
+    average: sum / count,
+    expected: (sides + 1) / 2,
+  })).sort((a, b) => a.sides - b.sides);
+
+  return {
+    totalRolls: entries.length,
+    averageTotal: entries.length > 0 ? totalSum / entries.length : 0,
+    expectedAverage: expectedCount > 0 ? expectedSum / expectedCount : 0,
+    criticals: {
+      count: criticalCount,
+      eligible: criticalEligible,
+      rate: criticalEligible > 0 ? criticalCount / criticalEligible : 0,
+      expectedRate: criticalEligible > 0 ? criticalChanceSum / criticalEligible : 0,
+    },
+    evaluated: {
+      count: evaluatedCount,
+      successes,
+      successRate: evaluatedCount > 0 ? successes / evaluatedCount : 0,
+    },
+    duality,
+    dice,
+  };
+}
+
+/**
+ * Split history into play sessions, breaking wherever rolls are more than a gap apart
+ *
+ * @param entries - History entries, in any order
+ * @param gapMs - Longest break within one session (default: SESSION_GAP_MS)
+ * @returns Sessions, most recent first, each with its entries most recent first
+ */
+export function getRollSessions(entries: RollHistoryEntry[], gapMs: number = SESSION_GAP_MS): RollSession[] {
+  const sorted = [...entries].sort((a, b) => b.result.timestamp.getTime() - a.result.timestamp.getTime());
+  const sessions: RollSession[] = [];
+
+  for (const entry of sorted) {
+    const timestamp = entry.result.timestamp;
+    const current = sessions[sessions.length - 1];
+
+    if (current && current.start.getTime() - timestamp.getTime() <= gapMs) {
+      current.entries.push(entry);
+      current.start = timestamp;
+    } else {
+      sessions.push({ start: timestamp, end: timestamp, entries: [entry] });
+    }
+  }
+
+  return sessions;
+}
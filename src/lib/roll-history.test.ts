@@ -0,0 +1,182 @@
+/**
+ * Unit tests for the roll history service
+ */
+
+import {
+  createRollHistoryStore,
+  parseStoredHistory,
+  serializeHistory,
+  isSameRoll,
+  isVisibleToPlayers,
+  HISTORY_SCHEMA_VERSION,
+  HISTORY_STORAGE_KEY,
+} from './roll-history';
+
+import { rollDiceExpression } from './dice-utils';
+
+const LEGACY_SESSION_STORAGE_KEY = 'daggerheart-dice-roll-history';
+
+beforeAll(() => {
+  jest.spyOn(console, 'info').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  sessionStorage.clear();
+});
+
+describe('parseStoredHistory and serializeHistory', () => {
+  test('round-trips entries with Date timestamps', () => {
+    const entry = { id: 'roll_1_abc', result: rollDiceExpression('2d6+1') };
+    const parsed = parseStoredHistory(serializeHistory([entry]));
+
+    expect(JSON.parse(serializeHistory([entry])).version).toBe(HISTORY_SCHEMA_VERSION);
+    expect(parsed).toHaveLength(1);
+    expect(parsed![0].result.timestamp).toBeInstanceOf(Date);
+    expect(parsed![0].result.timestamp.getTime()).toBe(entry.result.timestamp.getTime());
+  });
+
+  test('returns null for data that is not a roll history', () => {
+    expect(parseStoredHistory('{"foo": 1}')).toBeNull();
+    expect(parseStoredHistory('{"version": 2, "entries": {}}')).toBeNull();
+  });
+
+  test('tags the negative-sides bonus dice of version 2 history', () => {
+    const base = { ...rollDiceExpression('1d8'), rolls: [{ value: 5, sides: 8, isCritical: false }] };
+    const parsed = parseStoredHistory(JSON.stringify({
+      version: 2,
+      entries: [
+        { id: 'roll_dis', result: { ...base, rollType: 'disadvantage', rolls: [...base.rolls, { value: -3, sides: -6, isCritical: false }] } },
+        { id: 'roll_adv', result: { ...base, rollType: 'advantage', rolls: [...base.rolls, { value: 6, sides: -6, isCritical: true }] } },
+        { id: 'roll_crit', result: { ...base, rollType: 'critical', rolls: [...base.rolls, { value: 8, sides: -8, isCritical: true }] } },
+      ]
+    }));
+
+    expect(parsed!.map(entry => entry.result.rolls[1])).toEqual([
+      { value: 3, sides: 6, isCritical: false, bonus: 'disadvantage' },
+      { value: 6, sides: 6, isCritical: true, bonus: 'advantage' },
+      { value: 8, sides: 8, isCritical: true, bonus: 'critical' },
+    ]);
+  });
+});
+
+describe('createRollHistoryStore', () => {
+  test('notifies subscribers and keeps the same array until the history changes', () => {
+    const store = createRollHistoryStore();
+    const listener = jest.fn();
+    const unsubscribe = store.subscribe(listener);
+    const before = store.getEntries();
+
+    expect(store.getEntries()).toBe(before);
+
+    const entry = store.addRoll(rollDiceExpression('1d6'), 'Damage');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(store.getEntries()).not.toBe(before);
+    expect(store.getRoll(entry.id)?.context).toBe('Damage');
+
+    unsubscribe();
+    store.clearHistory();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('persists so another store sees the same history', () => {
+    const first = createRollHistoryStore();
+    first.addRoll(rollDiceExpression('1d20'));
+
+    const second = createRollHistoryStore();
+    expect(second.getEntries().map(entry => entry.id)).toEqual(first.getEntries().map(entry => entry.id));
+  });
+
+  test('reload picks up changes written elsewhere', () => {
+    const store = createRollHistoryStore();
+    const listener = jest.fn();
+    store.subscribe(listener);
+    expect(store.getEntries()).toHaveLength(0);
+
+    createRollHistoryStore().addRoll(rollDiceExpression('1d8'));
+    store.reload();
+
+    expect(store.getEntries()).toHaveLength(1);
+    expect(listener).toHaveBeenCalled();
+  });
+
+  test('merges the old sessionStorage history once, most recent first', () => {
+    const older = { id: 'roll_1_old', result: { ...rollDiceExpression('1d4'), timestamp: new Date('2024-01-01') } };
+    const newer = rollDiceExpression('1d12');
+
+    createRollHistoryStore().addRoll(newer);
+    sessionStorage.setItem(LEGACY_SESSION_STORAGE_KEY, JSON.stringify({
+      version: '1.0',
+      entries: [older],
+      lastUpdated: new Date().toISOString()
+    }));
+
+    const store = createRollHistoryStore();
+
+    expect(store.getEntries().map(entry => entry.result.expression.originalExpression)).toEqual(['1d12', '1d4']);
+    expect(sessionStorage.getItem(LEGACY_SESSION_STORAGE_KEY)).toBeNull();
+    expect(JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY)!).entries).toHaveLength(2);
+  });
+
+  test('trims to the maximum number of entries', () => {
+    const store = createRollHistoryStore({ maxEntries: 3 });
+
+    for (let i = 0; i < 5; i++) {
+      store.addRoll(rollDiceExpression(`1d6+${i}`));
+    }
+
+    expect(store.getEntries().map(entry => entry.result.expression.originalExpression))
+      .toEqual(['1d6+4', '1d6+3', '1d6+2']);
+  });
+
+  test('adds entries from elsewhere by timestamp, once each', () => {
+    const store = createRollHistoryStore();
+    const local = store.addRoll(rollDiceExpression('1d20'));
+    const older = { id: 'roll_remote', result: { ...rollDiceExpression('2d6'), timestamp: new Date(0) }, roller: 'Mara' };
+
+    expect(store.addEntry(older)).toBe(true);
+    expect(store.addEntry({ ...older })).toBe(false);
+    expect(store.addEntry(local)).toBe(false);
+    expect(store.getEntries().map(entry => entry.id)).toEqual([local.id, 'roll_remote']);
+  });
+
+  test('hides secret rolls until they are revealed', () => {
+    const store = createRollHistoryStore();
+    const open = store.addRoll(rollDiceExpression('1d20'), 'Attack', 'public');
+    const secret = store.addRoll(rollDiceExpression('1d20'), 'Goblin reaction', 'hidden');
+
+    expect(open.visibility).toBeUndefined();
+    expect(isVisibleToPlayers(open)).toBe(true);
+    expect(isVisibleToPlayers(secret)).toBe(false);
+
+    const revealed = store.setVisibility(secret.id, 'revealed');
+    expect(revealed).toMatchObject({ id: secret.id, visibility: 'revealed' });
+    expect(isVisibleToPlayers(store.getRoll(secret.id)!)).toBe(true);
+    expect(createRollHistoryStore().getRoll(secret.id)?.visibility).toBe('revealed');
+    expect(store.setVisibility('missing', 'revealed')).toBeUndefined();
+  });
+
+  test('works without storage', () => {
+    const store = createRollHistoryStore({ getStorage: () => null });
+    store.addRoll(rollDiceExpression('1d6'));
+
+    expect(store.getEntries()).toHaveLength(1);
+    expect(localStorage.getItem(HISTORY_STORAGE_KEY)).toBeNull();
+  });
+});
+
+describe('isSameRoll', () => {
+  test('matches a result with its stored copy but not a fresh roll', () => {
+    const result = rollDiceExpression('2d6');
+    const [stored] = parseStoredHistory(serializeHistory([{ id: 'roll_1_abc', result }]))!;
+
+    expect(isSameRoll(result, stored.result)).toBe(true);
+    expect(isSameRoll(result, { ...result, total: result.total + 1 })).toBe(false);
+  });
+});
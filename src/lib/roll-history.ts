@@ -0,0 +1,448 @@
+/**
+ * Roll history service - the single persisted store behind every roll history view
+ * Keeps a versioned localStorage record, migrates older formats instead of discarding them,
+ * and notifies subscribers so the dice card, history lists and tools stay in sync
+ */
+
+import { DiceRollResult, RollHistoryEntry, RollVisibility } from '@/types/dice';
+
+/**
+ * localStorage key for the roll history
+ */
+export const HISTORY_STORAGE_KEY = 'daggerheart-dice-history';
+
+/**
+ * Current schema version of the stored history
+ */
+export const HISTORY_SCHEMA_VERSION = 3;
+
+/**
+ * Maximum number of entries kept in the history
+ */
+export const MAX_HISTORY_ENTRIES = 50;
+
+// sessionStorage key used by the old per-tab history; merged in once and then removed
+const LEGACY_SESSION_STORAGE_KEY = 'daggerheart-dice-roll-history';
+
+/**
+ * Versioned history as written to storage
+ */
+interface StoredHistoryData {
+  version: number;
+  entries: any[];
+  lastUpdated?: string;
+}
+
+/**
+ * Migrations from each schema version to the next
+ */
+const HISTORY_MIGRATIONS: Record<number, (data: StoredHistoryData) => StoredHistoryData> = {
+  // Version 0: a bare array of entries, with no version information
+  0: data => ({ ...data, version: 1 }),
+  // Version 1: IDs were either random or built from timestamp, total and expression,
+  // which collide for identical rolls; give every entry a unique, stable ID
+  1: data => {
+    const seen = new Set<string>();
+    const entries = data.entries
+      .filter(entry => entry && typeof entry === 'object' && entry.result)
+      .map(entry => {
+        const id = typeof entry.id === 'string' && entry.id.startsWith('roll_') && !seen.has(entry.id)
+          ? entry.id
+          : generateRollId();
+        seen.add(id);
+        return { ...entry, id };
+      });
+
+    return { ...data, version: 2, entries };
+  },
+  // Version 2: advantage, disadvantage and critical bonus dice were marked with negative sides
+  // (and a negative value for disadvantage); tag them as bonus dice instead
+  2: data => ({
+    ...data,
+    version: 3,
+    entries: data.entries.map(entry => entry?.result ? { ...entry, result: migrateBonusDice(entry.result) } : entry),
+  }),
+};
+
+/**
+ * Tag the negative-sides bonus dice of a version 2 result, including macro steps
+ */
+function migrateBonusDice(result: any): any {
+  const rolls = Array.isArray(result.rolls)
+    ? result.rolls.map((roll: any) => {
+        if (!roll || typeof roll.sides !== 'number' || roll.sides >= 0) return roll;
+        const bonus = result.rollType === 'critical' ? 'critical' : roll.value < 0 ? 'disadvantage' : 'advantage';
+        return { ...roll, sides: -roll.sides, value: Math.abs(roll.value), bonus };
+      })
+    : result.rolls;
+
+  return {
+    ...result,
+    rolls,
+    ...(result.macro && Array.isArray(result.macro.steps) && {
+      macro: {
+        ...result.macro,
+        steps: result.macro.steps.map((step: any) => step?.result ? { ...step, result: migrateBonusDice(step.result) } : step)
+      }
+    })
+  };
+}
+
+/**
+ * Generate a unique ID for a roll history entry
+ */
+function generateRollId(): string {
+  return `roll_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Get the schema version of stored data, or null if it isn't a roll history
+ */
+function getStoredVersion(data: any): number | null {
+  if (Array.isArray(data)) {
+    return 0;
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.entries)) {
+    return null;
+  }
+  // Version 1 was written as the string '1.0'
+  const version = typeof data.version === 'string' ? parseFloat(data.version) : data.version;
+  return typeof version === 'number' && Number.isInteger(version) ? version : null;
+}
+
+/**
+ * Convert a stored roll result's timestamps back to Date objects, including macro steps
+ */
+function deserializeResult(result: any): DiceRollResult {
+  return {
+    ...result,
+    timestamp: new Date(result.timestamp),
+    ...(result.macro && {
+      macro: {
+        ...result.macro,
+        steps: result.macro.steps.map((step: any) => ({
+          ...step,
+          result: step.result && { ...step.result, timestamp: new Date(step.result.timestamp) }
+        }))
+      }
+    })
+  };
+}
+
+/**
+ * Read stored history JSON, migrating it to the current schema
+ *
+ * @param json - Stored history, in any supported version
+ * @returns Entries with Date timestamps, or null if the data could not be read
+ */
+export function parseStoredHistory(json: string): RollHistoryEntry[] | null {
+  let data: any;
+
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    console.error('Failed to parse stored dice roll history:', error);
+    return null;
+  }
+
+  const version = getStoredVersion(data);
+  if (version === null) {
+    console.warn('Invalid stored dice roll history format, resetting...');
+    return null;
+  }
+  if (version > HISTORY_SCHEMA_VERSION) {
+    console.warn(`Dice roll history version ${version} is newer than supported (${HISTORY_SCHEMA_VERSION}), ignoring...`);
+    return null;
+  }
+
+  let migrated: StoredHistoryData = Array.isArray(data)
+    ? { version: 0, entries: data }
+    : { ...data, version };
+
+  while (migrated.version < HISTORY_SCHEMA_VERSION) {
+    migrated = HISTORY_MIGRATIONS[migrated.version](migrated);
+  }
+
+  if (version < HISTORY_SCHEMA_VERSION) {
+    console.info(`Migrated dice roll history from version ${version} to ${HISTORY_SCHEMA_VERSION}`);
+  }
+
+  return migrated.entries.map(deserializeHistoryEntry);
+}
+
+/**
+ * Convert an entry read from JSON (e.g., received from a table session) back to Date timestamps
+ */
+export function deserializeHistoryEntry(entry: any): RollHistoryEntry {
+  return {
+    ...entry,
+    result: deserializeResult(entry.result)
+  };
+}
+
+/**
+ * Check that an entry read from outside (an imported file, a table session) has everything history views rely on
+ */
+export function isValidHistoryEntry(entry: RollHistoryEntry): boolean {
+  const result = entry?.result;
+  return typeof entry?.id === 'string'
+    && !!result
+    && typeof result.total === 'number'
+    && typeof result.expression?.originalExpression === 'string'
+    && Array.isArray(result.breakdown)
+    && Array.isArray(result.rolls)
+    && !Number.isNaN(result.timestamp.getTime());
+}
+
+/**
+ * Serialize history entries in the current schema
+ */
+export function serializeHistory(entries: RollHistoryEntry[]): string {
+  const data: StoredHistoryData = {
+    version: HISTORY_SCHEMA_VERSION,
+    entries,
+    lastUpdated: new Date().toISOString()
+  };
+  return JSON.stringify(data);
+}
+
+/**
+ * Check whether two results are the same roll (e.g., a history entry shown again on the dice card)
+ */
+export function isSameRoll(a: DiceRollResult, b: DiceRollResult): boolean {
+  return a === b || (
+    a.timestamp.getTime() === b.timestamp.getTime()
+    && a.total === b.total
+    && a.expression.originalExpression === b.expression.originalExpression
+  );
+}
+
+/**
+ * Get who can see a history entry; entries without a visibility are public
+ */
+export function getRollVisibility(entry: RollHistoryEntry): RollVisibility {
+  return entry.visibility ?? 'public';
+}
+
+/**
+ * Check whether players may see an entry (e.g., when sharing or exporting history)
+ */
+export function isVisibleToPlayers(entry: RollHistoryEntry): boolean {
+  return getRollVisibility(entry) !== 'hidden';
+}
+
+/**
+ * Shared roll history with subscriptions
+ */
+export interface RollHistoryStore {
+  /** Current entries, most recent first (the same array until the history changes) */
+  getEntries: () => RollHistoryEntry[];
+  /** Add a roll to the top of the history, hidden from players if visibility is 'hidden' */
+  addRoll: (result: DiceRollResult, context?: string, visibility?: RollVisibility) => RollHistoryEntry;
+  /** Add an existing entry (e.g., from another device) in timestamp order; false if its ID is already there */
+  addEntry: (entry: RollHistoryEntry) => boolean;
+  /** Change who can see an entry; returns the updated entry, or undefined if it isn't there */
+  setVisibility: (id: string, visibility: RollVisibility) => RollHistoryEntry | undefined;
+  /** Remove an entry by ID */
+  removeRoll: (id: string) => void;
+  /** Remove every entry */
+  clearHistory: () => void;
+  /** Get an entry by ID */
+  getRoll: (id: string) => RollHistoryEntry | undefined;
+  /** Re-read the history from storage (e.g., after another tab changed it) */
+  reload: () => void;
+  /** Listen for changes; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Options for creating a history store
+ */
+export interface RollHistoryStoreOptions {
+  /** Storage to persist to (default: localStorage in the browser, none on the server) */
+  getStorage?: () => Storage | null;
+  /** Maximum number of entries (default: MAX_HISTORY_ENTRIES) */
+  maxEntries?: number;
+}
+
+function getBrowserStorage(): Storage | null {
+  return typeof window === 'undefined' ? null : window.localStorage;
+}
+
+/**
+ * Create a roll history store
+ * Entries are loaded lazily on first access, so the store is safe to create during server rendering
+ *
+ * @param options - Storage and size limit
+ * @returns History store
+ */
+export function createRollHistoryStore(options: RollHistoryStoreOptions = {}): RollHistoryStore {
+  const { getStorage = getBrowserStorage, maxEntries = MAX_HISTORY_ENTRIES } = options;
+  const listeners = new Set<() => void>();
+  let entries: RollHistoryEntry[] | null = null;
+
+  const save = (toStore: RollHistoryEntry[]) => {
+    const storage = getStorage();
+    if (!storage) return;
+
+    try {
+      storage.setItem(HISTORY_STORAGE_KEY, serializeHistory(toStore));
+    } catch (error) {
+      console.error('Failed to save dice roll history to storage:', error);
+
+      // If storage is full, keep the most recent half of the history
+      if (error instanceof DOMException && (error.code === 22 || error.name === 'QuotaExceededError')) {
+        console.warn('Storage quota exceeded, attempting to reduce history size...');
+        try {
+          storage.setItem(HISTORY_STORAGE_KEY, serializeHistory(toStore.slice(0, Math.floor(maxEntries / 2))));
+        } catch (retryError) {
+          console.error('Failed to save reduced history:', retryError);
+        }
+      }
+    }
+  };
+
+  const load = (): RollHistoryEntry[] => {
+    const storage = getStorage();
+    if (!storage) return [];
+
+    try {
+      const stored = storage.getItem(HISTORY_STORAGE_KEY);
+      const loaded = stored ? parseStoredHistory(stored) ?? [] : [];
+      const legacy = loadLegacySessionHistory();
+
+      if (legacy.length === 0) {
+        return loaded;
+      }
+
+      // Merge the old per-tab history in once, most recent first
+      const ids = new Set(loaded.map(entry => entry.id));
+      const merged = [...loaded, ...legacy.filter(entry => !ids.has(entry.id))]
+        .sort((a, b) => b.result.timestamp.getTime() - a.result.timestamp.getTime())
+        .slice(0, maxEntries);
+      save(merged);
+      return merged;
+    } catch (error) {
+      console.error('Failed to load dice roll history from storage:', error);
+      return [];
+    }
+  };
+
+  const notify = () => {
+    listeners.forEach(listener => listener());
+  };
+
+  const update = (next: RollHistoryEntry[]) => {
+    entries = next;
+    save(next);
+    notify();
+  };
+
+  const getEntries = () => {
+    if (entries === null) {
+      entries = load();
+    }
+    return entries;
+  };
+
+  // Keep tabs in sync when another tab writes the history
+  const handleStorageEvent = (event: StorageEvent) => {
+    if (event.key === HISTORY_STORAGE_KEY || event.key === null) {
+      store.reload();
+    }
+  };
+
+  const store: RollHistoryStore = {
+    getEntries,
+
+    addRoll: (result, context, visibility = 'public') => {
+      const entry: RollHistoryEntry = {
+        id: generateRollId(),
+        result,
+        ...(context !== undefined && { context }),
+        ...(visibility !== 'public' && { visibility })
+      };
+      update([entry, ...getEntries()].slice(0, maxEntries));
+      return entry;
+    },
+
+    addEntry: entry => {
+      const current = getEntries();
+      if (current.some(existing => existing.id === entry.id)) {
+        return false;
+      }
+      const next = [...current, entry]
+        .sort((a, b) => b.result.timestamp.getTime() - a.result.timestamp.getTime())
+        .slice(0, maxEntries);
+      update(next);
+      return next.includes(entry);
+    },
+
+    setVisibility: (id, visibility) => {
+      const current = getEntries();
+      const existing = current.find(entry => entry.id === id);
+      if (!existing || getRollVisibility(existing) === visibility) {
+        return existing;
+      }
+      const updated: RollHistoryEntry = { ...existing, visibility };
+      update(current.map(entry => entry.id === id ? updated : entry));
+      return updated;
+    },
+
+    removeRoll: id => {
+      const current = getEntries();
+      if (current.some(entry => entry.id === id)) {
+        update(current.filter(entry => entry.id !== id));
+      }
+    },
+
+    clearHistory: () => {
+      update([]);
+    },
+
+    getRoll: id => getEntries().find(entry => entry.id === id),
+
+    reload: () => {
+      entries = load();
+      notify();
+    },
+
+    subscribe: listener => {
+      if (listeners.size === 0 && typeof window !== 'undefined') {
+        window.addEventListener('storage', handleStorageEvent);
+      }
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && typeof window !== 'undefined') {
+          window.removeEventListener('storage', handleStorageEvent);
+        }
+      };
+    },
+  };
+
+  return store;
+}
+
+/**
+ * Read and remove the old sessionStorage history
+ */
+function loadLegacySessionHistory(): RollHistoryEntry[] {
+  if (typeof window === 'undefined' || !window.sessionStorage) return [];
+
+  try {
+    const stored = window.sessionStorage.getItem(LEGACY_SESSION_STORAGE_KEY);
+    if (!stored) return [];
+
+    window.sessionStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+    return parseStoredHistory(stored) ?? [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The application-wide roll history
+ */
+export const rollHistoryStore = createRollHistoryStore();
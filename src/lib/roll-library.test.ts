@@ -0,0 +1,137 @@
+/**
+ * Unit tests for the saved roll library
+ */
+
+import {
+  normalizeTags,
+  createSavedRoll,
+  rollSavedRoll,
+  filterSavedRolls,
+  getSavedRollFolders,
+  getSavedRollTags,
+  groupSavedRollsByFolder,
+  exportRollLibrary,
+  importRollLibrary,
+  mergeSavedRolls,
+  ROLL_LIBRARY_VERSION,
+} from './roll-library';
+
+import { DEFAULT_DICE_CONFIG } from './dice-utils';
+import { DiceError } from '@/types/dice';
+
+const library = [
+  createSavedRoll({ name: 'Longsword', expression: '1d10+3', tags: 'damage, melee', folder: 'Marlowe' }),
+  createSavedRoll({ name: 'Shortbow', expression: '1d6+2', tags: ['damage', 'ranged'], folder: 'Marlowe' }),
+  createSavedRoll({ name: 'Ogre Club', expression: '2d8+3', tags: 'damage', folder: 'Adversaries' }),
+  createSavedRoll({ name: 'Fireball', expression: '3d6' }),
+];
+
+describe('normalizeTags', () => {
+  test('splits, trims, lowercases and de-duplicates', () => {
+    expect(normalizeTags(' Melee, damage,,MELEE ')).toEqual(['damage', 'melee']);
+    expect(normalizeTags(['Fire', ' fire '])).toEqual(['fire']);
+    expect(normalizeTags()).toEqual([]);
+  });
+});
+
+describe('createSavedRoll', () => {
+  test('creates a roll with a unique ID and normalized fields', () => {
+    const roll = createSavedRoll({ name: ' Sneak Attack ', expression: ' 2d6+1 ', tags: 'Damage', folder: '  ' });
+
+    expect(roll).toMatchObject({ name: 'Sneak Attack', expression: '2d6+1', tags: ['damage'] });
+    expect(roll.folder).toBeUndefined();
+    expect(roll.id).not.toBe(library[0].id);
+  });
+
+  test('falls back to the expression as the name', () => {
+    expect(createSavedRoll({ name: '', expression: '1d20' }).name).toBe('1d20');
+  });
+
+  test('throws a DiceError for invalid expressions', () => {
+    try {
+      createSavedRoll({ name: 'Bad', expression: 'banana' });
+      throw new Error('Expected a DiceError to be thrown');
+    } catch (error) {
+      expect((error as DiceError).type).toBe('INVALID_EXPRESSION');
+    }
+  });
+});
+
+describe('rollSavedRoll', () => {
+  test('rolls against the saved target', () => {
+    const roll = createSavedRoll({
+      name: 'Attack',
+      expression: '1d20+1',
+      target: { value: 11, type: 'evasion' },
+    });
+    const result = rollSavedRoll(roll, { ...DEFAULT_DICE_CONFIG, random: () => 0.5 });
+
+    expect(result.total).toBe(12);
+    expect(result.evaluation?.success).toBe(true);
+  });
+});
+
+describe('searching and grouping', () => {
+  test('filterSavedRolls matches every search term', () => {
+    expect(filterSavedRolls(library, { query: 'damage marlowe' }).map(roll => roll.name))
+      .toEqual(['Longsword', 'Shortbow']);
+    expect(filterSavedRolls(library, { query: '2d8' }).map(roll => roll.name)).toEqual(['Ogre Club']);
+  });
+
+  test('filterSavedRolls filters by folder and tag', () => {
+    expect(filterSavedRolls(library, { folder: '' }).map(roll => roll.name)).toEqual(['Fireball']);
+    expect(filterSavedRolls(library, { tag: 'Ranged' }).map(roll => roll.name)).toEqual(['Shortbow']);
+  });
+
+  test('lists folders and tags', () => {
+    expect(getSavedRollFolders(library)).toEqual(['Adversaries', 'Marlowe']);
+    expect(getSavedRollTags(library)).toEqual(['damage', 'melee', 'ranged']);
+  });
+
+  test('groups rolls by folder with unfiled rolls first', () => {
+    const groups = groupSavedRollsByFolder(library);
+
+    expect(groups.map(group => group.folder)).toEqual(['', 'Adversaries', 'Marlowe']);
+    expect(groups[2].rolls.map(roll => roll.name)).toEqual(['Longsword', 'Shortbow']);
+  });
+});
+
+describe('import and export', () => {
+  test('round-trips a library', () => {
+    const json = exportRollLibrary(library);
+
+    expect(JSON.parse(json).version).toBe(ROLL_LIBRARY_VERSION);
+    expect(importRollLibrary(json)).toEqual({ rolls: library, skipped: 0 });
+  });
+
+  test('accepts a bare array and skips invalid entries', () => {
+    const result = importRollLibrary(JSON.stringify([
+      { name: 'Good', expression: '1d8', tags: ['Fire', 3] },
+      { name: 'Bad', expression: 'banana' },
+      'not a roll',
+    ]));
+
+    expect(result.rolls).toHaveLength(1);
+    expect(result.rolls[0]).toMatchObject({ name: 'Good', expression: '1d8', tags: ['fire'] });
+    expect(result.skipped).toBe(2);
+  });
+
+  test('reports unreadable files', () => {
+    expect(importRollLibrary('{nope').error).toBe('File is not valid JSON');
+    expect(importRollLibrary('{"foo": 1}').error).toBe('File does not contain a roll library');
+    expect(importRollLibrary(JSON.stringify({ version: ROLL_LIBRARY_VERSION + 1, rolls: [] })).error)
+      .toMatch(/newer/);
+  });
+
+  test('mergeSavedRolls replaces by ID and skips duplicates', () => {
+    const renamed = { ...library[0], name: 'Longsword +1' };
+    const duplicate = { ...library[1], id: 'other-id' };
+    const fresh = createSavedRoll({ name: 'Dagger', expression: '1d8' });
+
+    const merged = mergeSavedRolls(library, [renamed, duplicate, fresh]);
+
+    expect(merged).toHaveLength(library.length + 1);
+    expect(merged[0].name).toBe('Longsword +1');
+    expect(merged[merged.length - 1]).toBe(fresh);
+  });
+});
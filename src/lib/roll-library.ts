@@ -0,0 +1,307 @@
+/**
+ * Saved roll library - named dice expressions with tags and folders
+ * Serializes to a versioned JSON file so a GM can carry their rolls between browsers
+ */
+
+import {
+  DiceRollConfig,
+  DiceRollResult,
+  RollLibraryImportResult,
+  RollTarget,
+  SavedRoll
+} from '@/types/dice';
+import {
+  DEFAULT_DICE_CONFIG,
+  rollDiceExpression,
+  validateDiceExpression
+} from '@/lib/dice-utils';
+
+/**
+ * Version written to exported library files
+ */
+export const ROLL_LIBRARY_VERSION = 1;
+
+/**
+ * Fields a GM fills in when saving a roll
+ */
+export interface SavedRollInput {
+  name: string;
+  expression: string;
+  /** Tags as a list or a comma-separated string (e.g., "damage, melee") */
+  tags?: string[] | string;
+  folder?: string;
+  target?: RollTarget;
+}
+
+/**
+ * Filters for searching the library
+ */
+export interface SavedRollFilter {
+  /** Text matched against name, expression, tags and folder */
+  query?: string;
+  /** Only rolls in this folder ('' for unfiled rolls) */
+  folder?: string;
+  /** Only rolls with this tag */
+  tag?: string;
+}
+
+/**
+ * Generate a unique ID for a saved roll
+ */
+function generateSavedRollId(): string {
+  return `saved_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Normalize tags to a sorted, de-duplicated lowercase list
+ *
+ * @param tags - Tags as a list or a comma-separated string
+ * @returns Normalized tags
+ */
+export function normalizeTags(tags: string[] | string = []): string[] {
+  const list = typeof tags === 'string' ? tags.split(',') : tags;
+  const normalized = list
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag.length > 0);
+
+  return Array.from(new Set(normalized)).sort();
+}
+
+/**
+ * Create a saved roll from user input
+ *
+ * @param input - Name, expression, tags, folder and optional target
+ * @param config - Optional configuration for dice limits
+ * @returns New saved roll with a unique ID
+ * @throws DiceError if the expression is invalid
+ */
+export function createSavedRoll(
+  input: SavedRollInput,
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG
+): SavedRoll {
+  const expression = input.expression.trim();
+  const validation = validateDiceExpression(expression, config);
+
+  if (!validation.isValid) {
+    throw validation.error!;
+  }
+
+  const folder = input.folder?.trim();
+
+  return {
+    id: generateSavedRollId(),
+    name: input.name.trim() || expression,
+    expression,
+    tags: normalizeTags(input.tags),
+    ...(folder && { folder }),
+    ...(input.target && { target: input.target }),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Roll a saved roll against its target, if it has one
+ *
+ * @param savedRoll - Saved roll to roll
+ * @param config - Optional configuration for dice limits and random source
+ * @returns Roll result
+ * @throws DiceError if the saved expression is no longer valid
+ */
+export function rollSavedRoll(
+  savedRoll: SavedRoll,
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG
+): DiceRollResult {
+  return rollDiceExpression(savedRoll.expression, 'normal', config, savedRoll.target);
+}
+
+/**
+ * Search the library by text, folder and tag
+ *
+ * @param rolls - Saved rolls to search
+ * @param filter - Text query, folder and tag to match
+ * @returns Matching rolls, sorted by folder and then name
+ */
+export function filterSavedRolls(rolls: SavedRoll[], filter: SavedRollFilter = {}): SavedRoll[] {
+  const terms = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+  const tag = filter.tag?.toLowerCase();
+
+  return rolls
+    .filter(roll => filter.folder === undefined || (roll.folder ?? '') === filter.folder)
+    .filter(roll => !tag || roll.tags.includes(tag))
+    .filter(roll => {
+      const haystack = [roll.name, roll.expression, roll.folder ?? '', ...roll.tags].join(' ').toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    })
+    .sort((a, b) =>
+      (a.folder ?? '').localeCompare(b.folder ?? '') || a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Get every folder in use, sorted alphabetically
+ */
+export function getSavedRollFolders(rolls: SavedRoll[]): string[] {
+  const folders = rolls
+    .map(roll => roll.folder)
+    .filter((folder): folder is string => !!folder);
+
+  return Array.from(new Set(folders)).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Get every tag in use, sorted alphabetically
+ */
+export function getSavedRollTags(rolls: SavedRoll[]): string[] {
+  return normalizeTags(rolls.flatMap(roll => roll.tags));
+}
+
+/**
+ * Group rolls by folder, with unfiled rolls first under ''
+ *
+ * @param rolls - Saved rolls to group
+ * @returns Folder name and its rolls, in folder order
+ */
+export function groupSavedRollsByFolder(rolls: SavedRoll[]): { folder: string; rolls: SavedRoll[] }[] {
+  const groups = new Map<string, SavedRoll[]>();
+
+  for (const roll of filterSavedRolls(rolls)) {
+    const folder = roll.folder ?? '';
+    groups.set(folder, [...(groups.get(folder) ?? []), roll]);
+  }
+
+  return Array.from(groups, ([folder, folderRolls]) => ({ folder, rolls: folderRolls }));
+}
+
+/**
+ * Serialize the library for download
+ *
+ * @param rolls - Saved rolls to export
+ * @returns Pretty-printed JSON with a version and export date
+ */
+export function exportRollLibrary(rolls: SavedRoll[]): string {
+  return JSON.stringify({
+    version: ROLL_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    rolls,
+  }, null, 2);
+}
+
+/**
+ * Download the library as a JSON file
+ *
+ * @param rolls - Saved rolls to export
+ */
+export function downloadRollLibrary(rolls: SavedRoll[]): void {
+  const content = exportRollLibrary(rolls);
+  const filename = `daggerheart_roll_library_${new Date().toISOString().slice(0, 10)}.json`;
+
+  // Create and trigger download
+  const blob = new Blob([content], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a saved roll from untrusted JSON, or null if it is malformed or invalid
+ */
+function parseSavedRoll(entry: any, config: DiceRollConfig): SavedRoll | null {
+  if (!entry || typeof entry !== 'object' || typeof entry.expression !== 'string') {
+    return null;
+  }
+
+  try {
+    const savedRoll = createSavedRoll({
+      name: typeof entry.name === 'string' ? entry.name : '',
+      expression: entry.expression,
+      tags: Array.isArray(entry.tags) ? entry.tags.filter((tag: unknown) => typeof tag === 'string') : [],
+      folder: typeof entry.folder === 'string' ? entry.folder : undefined,
+      target: isRollTarget(entry.target) ? entry.target : undefined,
+    }, config);
+
+    return {
+      ...savedRoll,
+      // Keep the original identity so importing the same file twice doesn't duplicate rolls
+      id: typeof entry.id === 'string' && entry.id ? entry.id : savedRoll.id,
+      createdAt: typeof entry.createdAt === 'string' ? entry.createdAt : savedRoll.createdAt,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check that an unknown value is a RollTarget
+ */
+function isRollTarget(value: any): value is RollTarget {
+  return !!value
+    && typeof value.value === 'number'
+    && (value.type === 'difficulty' || value.type === 'evasion');
+}
+
+/**
+ * Read a library file exported by exportRollLibrary
+ * A bare array of rolls is also accepted. Entries with invalid expressions are skipped.
+ *
+ * @param json - File contents
+ * @param config - Optional configuration for dice limits
+ * @returns Valid rolls, how many were skipped, and an error if the file could not be read
+ */
+export function importRollLibrary(
+  json: string,
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG
+): RollLibraryImportResult {
+  let data: any;
+
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { rolls: [], skipped: 0, error: 'File is not valid JSON' };
+  }
+
+  const entries = Array.isArray(data) ? data : data?.rolls;
+  if (!Array.isArray(entries)) {
+    return { rolls: [], skipped: 0, error: 'File does not contain a roll library' };
+  }
+
+  if (!Array.isArray(data) && typeof data.version === 'number' && data.version > ROLL_LIBRARY_VERSION) {
+    return { rolls: [], skipped: 0, error: `Roll library version ${data.version} is newer than this app supports` };
+  }
+
+  const rolls = entries
+    .map(entry => parseSavedRoll(entry, config))
+    .filter((roll): roll is SavedRoll => roll !== null);
+
+  return { rolls, skipped: entries.length - rolls.length };
+}
+
+/**
+ * Merge imported rolls into the library
+ * Rolls with the same ID are replaced; rolls with the same name, expression and
+ * folder as an existing roll are treated as duplicates and skipped
+ *
+ * @param existing - Current library
+ * @param imported - Rolls read from a file
+ * @returns Merged library
+ */
+export function mergeSavedRolls(existing: SavedRoll[], imported: SavedRoll[]): SavedRoll[] {
+  const merged = [...existing];
+  const signature = (roll: SavedRoll) => `${roll.name}\u0000${roll.expression}\u0000${roll.folder ?? ''}`;
+
+  for (const roll of imported) {
+    const index = merged.findIndex(saved => saved.id === roll.id);
+
+    if (index !== -1) {
+      merged[index] = roll;
+    } else if (!merged.some(saved => signature(saved) === signature(roll))) {
+      merged.push(roll);
+    }
+  }
+
+  return merged;
+}
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for roll macros
+ */
+
+import {
+  createRollMacro,
+  createAttackMacro,
+  validateRollMacro,
+  executeRollMacro,
+  applyRollTypeToMacroResult,
+  isRollMacroResult,
+  getRollMacro,
+  formatRollMacroSummary,
+} from './roll-macros';
+
+import { rollDiceExpression } from './dice-utils';
+import { config, expectDiceError } from '@/test/helpers';
+
+// floor(random * sides) + 1 gives the face, so these pick d20 faces
+const D20_1 = 0;
+const D20_11 = 0.5;
+const D20_20 = 0.99;
+
+describe('createRollMacro and createAttackMacro', () => {
+  test('creates macros with unique IDs and a fallback name', () => {
+    const first = createRollMacro('  ', [{ label: 'Roll', expression: '1d6' }]);
+    const second = createRollMacro('Roll', [{ label: 'Roll', expression: '1d6' }]);
+
+    expect(first.name).toBe('Unnamed Macro');
+    expect(first.id).not.toBe(second.id);
+  });
+
+  test('builds an attack → damage macro', () => {
+    const macro = createAttackMacro('Goblin Slash', '1d20+1', '1d6+1', 11);
+
+    expect(macro.steps).toEqual([
+      { label: 'Attack', expression: '1d20+1', target: { value: 11, type: 'evasion' } },
+      { label: 'Damage', expression: '1d6+1', requiresSuccess: true },
+    ]);
+    expect(createAttackMacro('Slash', '1d20', '1d6').steps[0].target).toBeUndefined();
+  });
+});
+
+describe('validateRollMacro', () => {
+  test('rejects empty macros and invalid expressions', () => {
+    expect(validateRollMacro(createRollMacro('Empty', [])).isValid).toBe(false);
+
+    const invalid = validateRollMacro(createAttackMacro('Bad', '1d20', 'banana'));
+    expect(invalid.isValid).toBe(false);
+    expect(invalid.error?.message).toMatch(/^Damage: /);
+  });
+
+  test('accepts valid macros', () => {
+    expect(validateRollMacro(createAttackMacro('Slash', '1d20+1', '1d6+1', 11)).isValid).toBe(true);
+  });
+});
+
+describe('executeRollMacro', () => {
+  const slash = createAttackMacro('Goblin Slash', '1d20+1', '1d6+1', 11);
+
+  test('rolls damage when the attack hits', () => {
+    const result = executeRollMacro(slash, config([D20_11, 0.5]));
+
+    expect(isRollMacroResult(result)).toBe(true);
+    expect(result.total).toBe(12);
+    expect(result.evaluation?.success).toBe(true);
+    expect(result.macro.steps[1].result?.total).toBe(5);
+  });
+
+  test('skips damage when the attack misses', () => {
+    const result = executeRollMacro(slash, config([D20_1]));
+
+    expect(result.evaluation?.success).toBe(false);
+    expect(result.macro.steps[1].result).toBeNull();
+  });
+
+  test('rolls critical damage on a natural 20', () => {
+    const result = executeRollMacro(slash, config([D20_20, 0]));
+    const damage = result.macro.steps[1].result!;
+
+    expect(damage.rollType).toBe('critical');
+    // 1 rolled + 6 critical bonus + 1 modifier
+    expect(damage.total).toBe(8);
+  });
+
+  test('always rolls conditional steps when the previous step has no target', () => {
+    const result = executeRollMacro(createAttackMacro('Slash', '1d20', '1d6'), config([D20_1, 0]));
+
+    expect(result.macro.steps[1].result?.total).toBe(1);
+  });
+
+  test('throws a DiceError for invalid macros', () => {
+    expectDiceError(() => executeRollMacro(createRollMacro('Empty', [])), 'INVALID_EXPRESSION');
+    expectDiceError(() => executeRollMacro(createAttackMacro('Bad', 'banana', '1d6')), 'INVALID_EXPRESSION');
+    expectDiceError(() => executeRollMacro(createAttackMacro('Unbound', '1d20+@attack', '1d6')), 'INVALID_VARIABLE');
+  });
+
+  test('rolls with the macro\'s own variables', () => {
+    const macro = { ...createAttackMacro('Goblin Slash', '1d20+@attack', '@tier d6', 11), variables: { attack: 1, tier: 2 } };
+    const result = executeRollMacro(macro, config([D20_11, 0.5]));
+
+    expect(result.total).toBe(12);
+    expect(result.macro.steps[1].result?.expression.originalExpression).toBe('2d6');
+    expect(getRollMacro(result)).toEqual(macro);
+  });
+});
+
+describe('applyRollTypeToMacroResult', () => {
+  const slash = createAttackMacro('Goblin Slash', '1d20+1', '1d6+1', 11);
+
+  test('adds damage when advantage turns a miss into a hit', () => {
+    // Attack rolls 9 + 1 = 10 and misses; the advantage d6 adds 6
+    const missed = executeRollMacro(slash, config([0.4]));
+    expect(missed.macro.steps[1].result).toBeNull();
+
+    const result = applyRollTypeToMacroResult(missed, 'advantage', config([0.99, 0.5]));
+
+    expect(result.rollType).toBe('advantage');
+    expect(result.total).toBe(16);
+    expect(result.macro.steps[1].result?.total).toBe(5);
+  });
+
+  test('removes damage when disadvantage turns a hit into a miss', () => {
+    const hit = executeRollMacro(slash, config([D20_11, 0.5]));
+    const result = applyRollTypeToMacroResult(hit, 'disadvantage', config([0.99]));
+
+    expect(result.evaluation?.success).toBe(false);
+    expect(result.macro.steps[1].result).toBeNull();
+  });
+
+  test('keeps existing damage while the attack still hits', () => {
+    const hit = executeRollMacro(slash, config([D20_11, 0.5]));
+    const result = applyRollTypeToMacroResult(hit, 'advantage', config([0]));
+
+    expect(result.macro.steps[1].result).toBe(hit.macro.steps[1].result);
+  });
+
+  test('returns the same result when the roll type cannot be applied', () => {
+    const hit = executeRollMacro(slash, config([D20_11, 0.5]));
+
+    expect(applyRollTypeToMacroResult(hit, 'critical')).toBe(hit);
+  });
+});
+
+describe('macro helpers', () => {
+  test('getRollMacro recovers the definition', () => {
+    const macro = createAttackMacro('Goblin Slash', '1d20+1', '1d6+1', 11);
+
+    expect(getRollMacro(executeRollMacro(macro, config([D20_11, 0.5])))).toEqual(macro);
+  });
+
+  test('isRollMacroResult ignores plain rolls', () => {
+    expect(isRollMacroResult(rollDiceExpression('1d6'))).toBe(false);
+    expect(isRollMacroResult(null)).toBe(false);
+  });
+
+  test('formatRollMacroSummary describes every step', () => {
+    const macro = createAttackMacro('Goblin Slash', '1d20+1', '1d6+1', 11);
+
+    expect(formatRollMacroSummary(executeRollMacro(macro, config([D20_11, 0.5]))))
+      .toBe('Goblin Slash: Attack 12 (Hit vs Evasion 11) → Damage 5');
+    expect(formatRollMacroSummary(executeRollMacro(macro, config([D20_1]))))
+      .toBe('Goblin Slash: Attack 2 (Miss vs Evasion 11) → Damage skipped');
+  });
+});
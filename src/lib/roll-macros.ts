@@ -0,0 +1,271 @@
+/**
+ * Roll macros - labelled, multi-part rolls made as one action
+ * e.g., "Goblin Slash": attack vs Evasion 11, then damage only if the attack hits
+ */
+
+import {
+  DiceError,
+  DiceRollConfig,
+  DiceRollResult,
+  DiceValidationResult,
+  RollMacro,
+  RollMacroResult,
+  RollMacroStep,
+  RollMacroStepResult
+} from '@/types/dice';
+import {
+  applyRollTypeToExistingResult,
+  DEFAULT_DICE_CONFIG,
+  formatRollTarget,
+  getRollEvaluationLabel,
+  rollDiceExpression,
+  validateDiceExpression
+} from '@/lib/dice-utils';
+
+/**
+ * Generate a unique ID for a roll macro
+ */
+function generateMacroId(): string {
+  return `macro_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Create a roll macro
+ *
+ * @param name - Display name (e.g., "Goblin Slash")
+ * @param steps - Rolls in the order they are made
+ * @returns New macro with a unique ID
+ */
+export function createRollMacro(name: string, steps: RollMacroStep[]): RollMacro {
+  return {
+    id: generateMacroId(),
+    name: name.trim() || 'Unnamed Macro',
+    steps,
+  };
+}
+
+/**
+ * Create the standard adversary attack: an attack roll, then damage only on a hit
+ *
+ * @param name - Display name (e.g., "Goblin Slash")
+ * @param attack - Attack roll expression (e.g., "1d20+1")
+ * @param damage - Damage expression (e.g., "1d6+1")
+ * @param evasion - PC Evasion to roll against; without it damage is always rolled
+ * @returns Two-step attack → damage macro
+ */
+export function createAttackMacro(
+  name: string,
+  attack: string,
+  damage: string,
+  evasion?: number
+): RollMacro {
+  return createRollMacro(name, [
+    {
+      label: 'Attack',
+      expression: attack,
+      ...(evasion !== undefined && { target: { value: evasion, type: 'evasion' as const } }),
+    },
+    { label: 'Damage', expression: damage, requiresSuccess: true },
+  ]);
+}
+
+/**
+ * Add a macro's own variable values to the configuration; values in the configuration win
+ */
+function withMacroVariables(macro: RollMacro, config: DiceRollConfig): DiceRollConfig {
+  return macro.variables ? { ...config, variables: { ...macro.variables, ...config.variables } } : config;
+}
+
+/**
+ * Check that a macro has at least one step and every expression is valid
+ *
+ * @param macro - Macro to validate
+ * @param config - Optional configuration for dice limits
+ * @returns Validation result with the first error found
+ */
+export function validateRollMacro(
+  macro: RollMacro,
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG
+): DiceValidationResult {
+  if (macro.steps.length === 0) {
+    return {
+      isValid: false,
+      error: {
+        type: 'INVALID_EXPRESSION',
+        message: `Macro "${macro.name}" has no rolls`,
+        expression: '',
+      },
+    };
+  }
+
+  const macroConfig = withMacroVariables(macro, config);
+  for (const step of macro.steps) {
+    const validation = validateDiceExpression(step.expression, macroConfig);
+    if (!validation.isValid) {
+      return {
+        isValid: false,
+        error: {
+          ...validation.error!,
+          message: `${step.label}: ${validation.error!.message}`,
+        },
+      };
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Roll each step in order, reusing results that are already known
+ *
+ * A step that requires success is skipped when the previous step was skipped or
+ * missed its target, and rolled as critical when the previous step was a
+ * critical success. Steps without a target always count as a success.
+ *
+ * @param steps - Macro steps
+ * @param config - Dice configuration and random source
+ * @param known - Results to keep where the step's condition still holds
+ * @returns One result per step
+ */
+function resolveMacroSteps(
+  steps: RollMacroStep[],
+  config: DiceRollConfig,
+  known: (DiceRollResult | null)[] = []
+): RollMacroStepResult[] {
+  const resolved: RollMacroStepResult[] = [];
+
+  steps.forEach((step, index) => {
+    const existing = known[index] ?? null;
+
+    if (index === 0) {
+      resolved.push({ step, result: existing ?? rollDiceExpression(step.expression, 'normal', config, step.target) });
+      return;
+    }
+
+    const previous = resolved[index - 1].result;
+    const allowed = !step.requiresSuccess || (previous !== null && (previous.evaluation?.success ?? true));
+
+    if (!allowed) {
+      resolved.push({ step, result: null });
+      return;
+    }
+
+    const isCritical = !!step.requiresSuccess && !!previous?.evaluation?.isCriticalSuccess;
+
+    if (existing && (existing.rollType === 'critical') === isCritical) {
+      resolved.push({ step, result: existing });
+    } else if (existing && isCritical) {
+      resolved.push({ step, result: applyRollTypeToExistingResult(existing, 'critical', config.random) });
+    } else {
+      resolved.push({
+        step,
+        result: rollDiceExpression(step.expression, isCritical ? 'critical' : 'normal', config, step.target),
+      });
+    }
+  });
+
+  return resolved;
+}
+
+/**
+ * Build a macro result from resolved steps
+ */
+function buildMacroResult(macro: RollMacro, steps: RollMacroStepResult[]): RollMacroResult {
+  return {
+    ...steps[0].result!,
+    macro: {
+      id: macro.id,
+      name: macro.name,
+      steps,
+      ...(macro.variables && { variables: macro.variables }),
+    },
+  };
+}
+
+/**
+ * Roll every step of a macro
+ *
+ * @param macro - Macro to roll
+ * @param config - Optional configuration for dice limits and random source
+ * @returns Grouped result whose top-level roll is the first step
+ * @throws DiceError if the macro has no steps or an expression is invalid
+ */
+export function executeRollMacro(
+  macro: RollMacro,
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG
+): RollMacroResult {
+  const validation = validateRollMacro(macro, config);
+  if (!validation.isValid) {
+    throw validation.error as DiceError;
+  }
+
+  return buildMacroResult(macro, resolveMacroSteps(macro.steps, withMacroVariables(macro, config)));
+}
+
+/**
+ * Apply advantage/disadvantage/critical to the first step of a macro result
+ * Later steps are re-resolved: a damage roll is added if the attack now hits,
+ * removed if it now misses, and kept otherwise
+ *
+ * @param existingResult - Macro result to modify
+ * @param rollType - Roll type to apply to the first step
+ * @param config - Optional configuration for dice limits and random source
+ * @returns New macro result, or the same result if the roll type could not be applied
+ */
+export function applyRollTypeToMacroResult(
+  existingResult: RollMacroResult,
+  rollType: 'advantage' | 'disadvantage' | 'critical',
+  config: DiceRollConfig = DEFAULT_DICE_CONFIG
+): RollMacroResult {
+  const [first, ...rest] = existingResult.macro.steps;
+  const modifiedFirst = applyRollTypeToExistingResult(first.result!, rollType, config.random);
+
+  if (modifiedFirst === first.result) {
+    return existingResult;
+  }
+
+  const macro = getRollMacro(existingResult);
+  const steps = resolveMacroSteps(macro.steps, withMacroVariables(macro, config), [modifiedFirst, ...rest.map(step => step.result)]);
+  return buildMacroResult(macro, steps);
+}
+
+/**
+ * Type guard for roll macro results
+ */
+export function isRollMacroResult(result: DiceRollResult | null | undefined): result is RollMacroResult {
+  return !!result && 'macro' in result && !!(result as RollMacroResult).macro;
+}
+
+/**
+ * Recover the macro definition from one of its results, so it can be rolled again
+ */
+export function getRollMacro(result: RollMacroResult): RollMacro {
+  return {
+    id: result.macro.id,
+    name: result.macro.name,
+    steps: result.macro.steps.map(stepResult => stepResult.step),
+    ...(result.macro.variables && { variables: result.macro.variables }),
+  };
+}
+
+/**
+ * Describe a macro result in one line
+ *
+ * @param result - Macro result to describe
+ * @returns Summary such as "Goblin Slash: Attack 15 (Hit vs Evasion 11) → Damage 6"
+ */
+export function formatRollMacroSummary(result: RollMacroResult): string {
+  const parts = result.macro.steps.map(({ step, result: stepResult }) => {
+    if (!stepResult) {
+      return `${step.label} skipped`;
+    }
+
+    const evaluation = stepResult.evaluation
+      ? ` (${getRollEvaluationLabel(stepResult.evaluation)} vs ${formatRollTarget(stepResult.evaluation.target)})`
+      : '';
+    const critical = stepResult.rollType === 'critical' ? ' critical' : '';
+    return `${step.label} ${stepResult.total}${critical}${evaluation}`;
+  });
+
+  return `${result.macro.name}: ${parts.join(' → ')}`;
+}
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for table sessions, using a fake relay socket
+ */
+
+import { createTableSession, normalizeRoomCode, RECONNECT_DELAYS_MS, TableSocket } from './table-session';
+import { rollDiceExpression } from './dice-utils';
+import { TableRoll } from '@/types/table-session';
+
+class FakeSocket implements TableSocket {
+  readyState = 0;
+  sent: any[] = [];
+  onopen: ((event: any) => void) | null = null;
+  onmessage: ((event: { data: any }) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop(code = 1006) {
+    this.readyState = 3;
+    this.onclose?.({ code });
+  }
+}
+
+const settings = { url: 'ws://localhost:8787', room: ' Goblin Cave ', name: 'Rowan ', role: 'gm' as const };
+
+const entry = (id: string) => ({ id, result: rollDiceExpression('1d20+2'), context: 'Goblin attack' });
+
+const setup = (options: Partial<Parameters<typeof createTableSession>[0]> = {}) => {
+  const sockets: FakeSocket[] = [];
+  const onRoll = jest.fn<void, [TableRoll, boolean]>();
+  const onStatusChange = jest.fn();
+  const session = createTableSession({
+    ...settings,
+    onRoll,
+    onStatusChange,
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    ...options
+  });
+  return { session, sockets, onRoll, onStatusChange };
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('createTableSession', () => {
+  test('joins the room when the socket opens', () => {
+    const { session, sockets, onStatusChange } = setup();
+
+    sockets[0].open();
+    expect(sockets[0].sent).toEqual([{ type: 'join', room: 'goblin cave', name: 'Rowan', role: 'gm', since: 0 }]);
+    expect(session.getStatus()).toBe('connecting');
+
+    sockets[0].receive({ type: 'joined', room: 'goblin cave', role: 'gm', seq: 0 });
+    expect(session.getStatus()).toBe('connected');
+    expect(onStatusChange).toHaveBeenLastCalledWith('connected');
+  });
+
+  test('delivers live and backfilled rolls with Date timestamps', () => {
+    const { sockets, onRoll } = setup();
+    const shared = JSON.parse(JSON.stringify({ seq: 3, from: { name: 'Mara', role: 'player' }, entry: entry('roll_1'), hidden: false }));
+
+    sockets[0].open();
+    sockets[0].receive({ type: 'backfill', rolls: [shared] });
+    sockets[0].receive({ type: 'roll', ...shared, seq: 4 });
+
+    expect(onRoll).toHaveBeenCalledTimes(2);
+    expect(onRoll.mock.calls[0][1]).toBe(false);
+    expect(onRoll.mock.calls[1][1]).toBe(true);
+    expect(onRoll.mock.calls[1][0].entry.result.timestamp).toBeInstanceOf(Date);
+    expect(onRoll.mock.calls[1][0].from.name).toBe('Mara');
+  });
+
+  test('drops rolls that history could not show', () => {
+    const { sockets, onRoll } = setup();
+    const from = { name: 'Mara', role: 'player' };
+    const withoutBreakdown = { ...entry('roll_2').result, breakdown: undefined };
+
+    sockets[0].open();
+    sockets[0].receive({ type: 'roll', seq: 1, from, entry: { id: 'roll_1', result: { total: 12 } }, hidden: false });
+    sockets[0].receive({ type: 'roll', seq: 2, from, entry: { id: 'roll_2', result: withoutBreakdown }, hidden: false });
+    sockets[0].receive({ type: 'roll', seq: 3, from, entry: { id: 'roll_3', result: { ...entry('roll_3').result, macro: {} } }, hidden: false });
+    sockets[0].receive({ type: 'roll', seq: 4, entry: entry('roll_4'), hidden: false });
+
+    expect(onRoll).toHaveBeenCalledTimes(1);
+    expect(onRoll.mock.calls[0][0]).toMatchObject({ seq: 4, from: { name: '', role: 'player' } });
+  });
+
+  test('sends rolls, queueing them while disconnected', () => {
+    const { session, sockets } = setup();
+
+    session.sendRoll({ ...entry('roll_queued'), visibility: 'hidden' });
+    sockets[0].open();
+    sockets[0].receive({ type: 'joined', room: 'goblin cave', role: 'gm', seq: 0 });
+    session.sendRoll({ ...entry('roll_live'), visibility: 'revealed' });
+
+    expect(sockets[0].sent.slice(1).map(message => [message.entry.id, message.hidden])).toEqual([
+      ['roll_queued', true],
+      ['roll_live', false]
+    ]);
+  });
+
+  test('reconnects with backoff and asks for the rolls it missed', () => {
+    const { session, sockets } = setup();
+
+    sockets[0].open();
+    sockets[0].receive({ type: 'joined', room: 'goblin cave', role: 'gm', seq: 0 });
+    sockets[0].receive({ type: 'roll', seq: 7, from: { name: 'Mara', role: 'player' }, entry: entry('roll_7'), hidden: false });
+    sockets[0].drop();
+
+    expect(session.getStatus()).toBe('reconnecting');
+    jest.advanceTimersByTime(RECONNECT_DELAYS_MS[0]);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].open();
+    expect(sockets[1].sent[0]).toMatchObject({ type: 'join', since: 7 });
+  });
+
+  test('asks a restarted relay for all of its rolls', () => {
+    const { session, sockets } = setup();
+
+    sockets[0].open();
+    sockets[0].receive({ type: 'joined', room: 'goblin cave', role: 'gm', seq: 0 });
+    sockets[0].receive({ type: 'roll', seq: 7, from: { name: 'Mara', role: 'player' }, entry: entry('roll_7'), hidden: false });
+    sockets[0].drop();
+    jest.advanceTimersByTime(RECONNECT_DELAYS_MS[0]);
+
+    sockets[1].open();
+    sockets[1].receive({ type: 'joined', room: 'goblin cave', role: 'gm', seq: 2 });
+    expect(sockets[1].sent[1]).toMatchObject({ type: 'join', since: 0 });
+    expect(session.getStatus()).toBe('reconnecting');
+
+    sockets[1].receive({ type: 'joined', room: 'goblin cave', role: 'gm', seq: 2 });
+    expect(session.getStatus()).toBe('connected');
+  });
+
+  test('keeps the token the relay issues and sends it back when rejoining', () => {
+    const onToken = jest.fn();
+    const { sockets } = setup({ token: 'earlier', onToken });
+
+    sockets[0].open();
+    expect(sockets[0].sent[0]).toMatchObject({ type: 'join', token: 'earlier' });
+
+    sockets[0].receive({ type: 'joined', room: 'goblin cave', role: 'gm', seq: 0, token: 'issued' });
+    sockets[0].drop();
+    jest.advanceTimersByTime(RECONNECT_DELAYS_MS[0]);
+    sockets[1].open();
+
+    expect(onToken).toHaveBeenCalledWith('issued');
+    expect(sockets[1].sent[0]).toMatchObject({ type: 'join', token: 'issued' });
+  });
+
+  test('stops reconnecting once closed', () => {
+    const { session, sockets, onStatusChange } = setup();
+
+    sockets[0].open();
+    session.close();
+    jest.advanceTimersByTime(60000);
+
+    expect(sockets).toHaveLength(1);
+    expect(session.getStatus()).toBe('disconnected');
+    expect(onStatusChange).toHaveBeenLastCalledWith('disconnected');
+  });
+
+  test('reports relay errors', () => {
+    const onError = jest.fn();
+    const { sockets } = setup({ onError });
+
+    sockets[0].open();
+    sockets[0].receive({ type: 'error', message: 'Wrong GM key' });
+
+    expect(onError).toHaveBeenCalledWith('Wrong GM key');
+  });
+
+  test('does not retry a join the relay refused', () => {
+    const { session, sockets } = setup();
+
+    sockets[0].open();
+    sockets[0].drop(1008);
+    jest.advanceTimersByTime(60000);
+
+    expect(sockets).toHaveLength(1);
+    expect(session.getStatus()).toBe('disconnected');
+  });
+});
+
+describe('normalizeRoomCode', () => {
+  test('trims and lowercases', () => {
+    expect(normalizeRoomCode('  Goblin Cave ')).toBe('goblin cave');
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Table sessions - share rolls live with everyone at the table through the dice relay
+ * (scripts/dice-relay.js). Reconnects on its own and backfills the rolls it missed.
+ */
+
+import { RollHistoryEntry } from '@/types/dice';
+import {
+  TableClientMessage,
+  TableMember,
+  TableRoll,
+  TableServerMessage,
+  TableSessionSettings,
+  TableSessionStatus
+} from '@/types/table-session';
+import { deserializeHistoryEntry, isValidHistoryEntry, isVisibleToPlayers } from '@/lib/roll-history';
+
+/**
+ * Port the relay listens on by default
+ */
+export const DEFAULT_RELAY_PORT = 8787;
+
+/**
+ * Delays between reconnect attempts; the last one repeats
+ */
+export const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+// Rolls made while disconnected are sent after reconnecting, up to this many
+const MAX_QUEUED_ROLLS = 50;
+
+/**
+ * Minimal WebSocket surface used by the session, so tests can provide a fake
+ */
+export interface TableSocket {
+  readonly readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send: (data: string) => void;
+  close: (code?: number) => void;
+}
+
+/**
+ * Callbacks and options for a table session
+ */
+export interface TableSessionOptions extends TableSessionSettings {
+  /** Called for each roll received; live is false for rolls backfilled after (re)joining */
+  onRoll: (roll: TableRoll, live: boolean) => void;
+  /** Called when the connection state changes */
+  onStatusChange?: (status: TableSessionStatus) => void;
+  /** Called with everyone in the room whenever someone joins or leaves */
+  onMembersChange?: (members: TableMember[]) => void;
+  /** Called with errors reported by the relay */
+  onError?: (message: string) => void;
+  /** Token the relay issued for this room in an earlier session; hidden rolls are matched to it, not to the name */
+  token?: string;
+  /** Called when the relay issues a token, so it can be kept for the next session */
+  onToken?: (token: string) => void;
+  /** Open a socket (default: the browser WebSocket) */
+  createSocket?: (url: string) => TableSocket;
+}
+
+/**
+ * A connection to a room on the relay
+ */
+export interface TableSession {
+  /** Share a roll; rolls hidden from players only reach the GMs. Queued while disconnected. */
+  sendRoll: (entry: RollHistoryEntry) => void;
+  /** Leave the room and stop reconnecting */
+  close: () => void;
+  /** Current connection state */
+  getStatus: () => TableSessionStatus;
+}
+
+const SOCKET_OPEN = 1;
+// Close code the relay uses when it refuses a join (e.g., a wrong GM key); retrying won't help
+const CLOSE_POLICY_VIOLATION = 1008;
+
+/**
+ * Get the relay address for the current page: the same host on the default relay port,
+ * so phones that opened the tools from a laptop on the local network reach the laptop's relay
+ */
+export function getDefaultRelayUrl(): string {
+  if (typeof window === 'undefined') {
+    return `ws://localhost:${DEFAULT_RELAY_PORT}`;
+  }
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.hostname || 'localhost'}:${DEFAULT_RELAY_PORT}`;
+}
+
+/**
+ * Normalize a room code the way the relay does (e.g., " Goblin Cave " → "goblin cave")
+ */
+export function normalizeRoomCode(room: string): string {
+  return room.trim().toLowerCase();
+}
+
+/**
+ * Read a message from the relay
+ */
+function parseServerMessage(data: any): TableServerMessage | null {
+  try {
+    const message = JSON.parse(String(data));
+    return message && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a roll from the relay, restoring Date timestamps
+ * Anyone in the room can send anything, so entries history views couldn't show are dropped.
+ */
+function parseTableRoll(roll: any): TableRoll | null {
+  if (!roll || typeof roll.seq !== 'number' || !roll.entry?.result || typeof roll.entry.result !== 'object') {
+    return null;
+  }
+
+  let entry: RollHistoryEntry;
+  try {
+    entry = deserializeHistoryEntry(roll.entry);
+  } catch {
+    return null;
+  }
+  if (!isValidHistoryEntry(entry)) {
+    return null;
+  }
+
+  return {
+    seq: roll.seq,
+    from: {
+      name: typeof roll.from?.name === 'string' ? roll.from.name : '',
+      role: roll.from?.role === 'gm' ? 'gm' : 'player'
+    },
+    entry,
+    hidden: roll.hidden === true
+  };
+}
+
+/**
+ * Join a room on the relay
+ *
+ * @param options - Relay address, room, name and role, plus callbacks for rolls and connection changes
+ * @returns Session for sending rolls and leaving the room
+ */
+export function createTableSession(options: TableSessionOptions): TableSession {
+  const {
+    url,
+    room,
+    name,
+    role,
+    gmKey,
+    onRoll,
+    onStatusChange,
+    onMembersChange,
+    onError,
+    onToken,
+    createSocket = (socketUrl: string) => new WebSocket(socketUrl) as unknown as TableSocket
+  } = options;
+
+  let socket: TableSocket | null = null;
+  let status: TableSessionStatus = 'connecting';
+  let lastSeq = 0;
+  let attempt = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+  let queue: TableClientMessage[] = [];
+  let token = options.token;
+
+  const setStatus = (next: TableSessionStatus) => {
+    if (status !== next) {
+      status = next;
+      onStatusChange?.(next);
+    }
+  };
+
+  const send = (message: TableClientMessage) => {
+    socket?.send(JSON.stringify(message));
+  };
+
+  const receive = (raw: any, live: boolean) => {
+    const roll = parseTableRoll(raw);
+    if (!roll) return;
+    lastSeq = Math.max(lastSeq, roll.seq);
+    onRoll(roll, live);
+  };
+
+  const join = () => {
+    send({ type: 'join', room: normalizeRoomCode(room), name: name.trim(), role, gmKey, since: lastSeq, ...(token && { token }) });
+  };
+
+  const handleMessage = (message: TableServerMessage) => {
+    switch (message.type) {
+      case 'joined':
+        attempt = 0;
+        if (message.token && message.token !== token) {
+          token = message.token;
+          onToken?.(token);
+        }
+        // A restarted relay numbers its rolls from 0 again, so ask it for everything it has
+        if (message.seq < lastSeq) {
+          lastSeq = 0;
+          join();
+          break;
+        }
+        setStatus('connected');
+        // Send what was rolled while disconnected
+        queue.forEach(send);
+        queue = [];
+        break;
+      case 'backfill':
+        message.rolls.forEach(roll => receive(roll, false));
+        break;
+      case 'roll':
+        receive(message, true);
+        break;
+      case 'presence':
+        onMembersChange?.(message.members);
+        break;
+      case 'error':
+        onError?.(message.message);
+        break;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    setStatus('reconnecting');
+    const delay = RECONNECT_DELAYS_MS[Math.min(attempt, RECONNECT_DELAYS_MS.length - 1)];
+    attempt++;
+    reconnectTimer = setTimeout(connect, delay);
+  };
+
+  function connect() {
+    reconnectTimer = null;
+
+    try {
+      socket = createSocket(url);
+    } catch (error) {
+      onError?.(error instanceof Error ? error.message : 'Could not connect to the dice relay');
+      scheduleReconnect();
+      return;
+    }
+
+    socket.onopen = join;
+    socket.onmessage = event => {
+      const message = parseServerMessage(event.data);
+      if (message) {
+        handleMessage(message);
+      }
+    };
+    socket.onclose = event => {
+      socket = null;
+      onMembersChange?.([]);
+      if (event?.code === CLOSE_POLICY_VIOLATION) {
+        closed = true;
+        setStatus('disconnected');
+        return;
+      }
+      scheduleReconnect();
+    };
+    // Errors are followed by close, which handles reconnecting
+    socket.onerror = () => {};
+  }
+
+  connect();
+
+  return {
+    sendRoll: entry => {
+      const message: TableClientMessage = { type: 'roll', entry, hidden: !isVisibleToPlayers(entry) };
+      if (status === 'connected' && socket?.readyState === SOCKET_OPEN) {
+        send(message);
+      } else {
+        queue = [...queue, message].slice(-MAX_QUEUED_ROLLS);
+      }
+    },
+
+    close: () => {
+      closed = true;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      if (socket) {
+        socket.onclose = null;
+        socket.close(1000);
+        socket = null;
+      }
+      queue = [];
+      setStatus('disconnected');
+    },
+
+    getStatus: () => status,
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Shared helpers for unit tests
+ */
+
+import { DEFAULT_DICE_CONFIG } from '@/lib/dice-utils';
+import { generateMonster, type GeneratedMonster } from '@/lib/monster-utils';
+import { createSeededRandom } from '@/lib/random';
+import { DiceError } from '@/types/dice';
+
+/**
+ * Returns the given values in order, repeating, so rolls are fully predictable
+ * As a random source, floor(random * sides) + 1 gives the face.
+ */
+export const sequence = (values: number[]) => {
+  let index = 0;
+  return () => values[index++ % values.length];
+};
+
+/**
+ * Dice config that rolls with sequence(values)
+ */
+export const config = (values: number[]) => ({ ...DEFAULT_DICE_CONFIG, random: sequence(values) });
+
+/**
+ * Expect an action to throw a DiceError of the given type
+ */
+export const expectDiceError = (action: () => unknown, type: DiceError['type']) => {
+  try {
+    action();
+  } catch (error) {
+    expect((error as DiceError).type).toBe(type);
+    return;
+  }
+  throw new Error('Expected a DiceError to be thrown');
+};
+
+/**
+ * The same Tier 2 Bruiser on every call, generated from a fixed seed
+ */
+export const bruiser = (): GeneratedMonster => generateMonster('Bruiser', 2, createSeededRandom('ogre'))!;
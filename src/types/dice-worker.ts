@@ -0,0 +1,66 @@
+/**
+ * TypeScript interfaces for bulk rolling - the messages between the dice roll service and its Web Worker
+ */
+
+import { DiceError, DiceRollConfig, DiceRollResult, RollTarget, RollTypeStack } from './dice';
+
+/**
+ * Dice configuration that can be sent to a worker; functions such as `random` can't be copied
+ */
+export type DiceWorkerConfig = Omit<DiceRollConfig, 'random'>;
+
+/**
+ * Many rolls of the same expression
+ */
+export interface DiceRollJob {
+  /** Dice expression to roll */
+  expression: string;
+  /** Number of rolls */
+  count: number;
+  /** Roll type for every roll */
+  rollType: DiceRollResult['rollType'] | RollTypeStack;
+  config: DiceWorkerConfig;
+  /** Difficulty or Evasion every roll is evaluated against */
+  target?: RollTarget;
+  /** Seed for reproducible rolls; without one the rolls are random */
+  seed?: string | number;
+  /** Only keep the totals, for simulations that don't need every die */
+  totalsOnly?: boolean;
+  /** Rolls made between progress updates and checks for cancellation */
+  batchSize: number;
+}
+
+/**
+ * What a job produced
+ */
+export interface DiceRollJobOutput {
+  /** Every roll, unless the job only wanted totals */
+  results: DiceRollResult[];
+  /** Total of every roll, in order */
+  totals: number[];
+}
+
+/**
+ * Message to the worker
+ */
+export type DiceWorkerRequest =
+  | { type: 'roll'; id: number; job: DiceRollJob }
+  | { type: 'cancel'; id: number };
+
+/**
+ * Message from the worker
+ */
+export type DiceWorkerResponse =
+  | { type: 'progress'; id: number; completed: number; total: number }
+  | { type: 'done'; id: number; output: DiceRollJobOutput }
+  | { type: 'error'; id: number; error: DiceError };
+
+/**
+ * Minimal Worker surface used by the service, so tests can provide a fake
+ */
+export interface DiceWorkerLike {
+  onmessage: ((event: { data: DiceWorkerResponse }) => void) | null;
+  onerror: ((event: ErrorEvent | Event) => void) | null;
+  postMessage: (message: DiceWorkerRequest) => void;
+  terminate: () => void;
+}
@@ -21,10 +21,38 @@ export interface DiceExpression {
   dice: Die[];
   /** Static modifier to add/subtract from total */
   modifier: number;
-  /** Original string expression that was parsed */
+  /** Original string expression that was parsed, with any variables replaced by their values */
   originalExpression: string;
+  /** Expression as written when it used variables (e.g., "1d20+@attack") */
+  template?: string;
+  /** Values of the variables the expression used */
+  variables?: DiceVariables;
+  /**
+   * Syntax tree for expressions that cannot be rolled as a plain sum of dice and a modifier
+   * (keep/drop, exploding dice, rerolls, multiplication or subtracted dice)
+   */
+  ast?: DiceNode;
 }
 
+/**
+ * Modifier attached to a dice term (e.g., "kh1", "dl1", "!", "r1")
+ */
+export type DiceTermModifier =
+  | { type: 'keep'; which: 'highest' | 'lowest'; count: number }
+  | { type: 'drop'; which: 'highest' | 'lowest'; count: number }
+  | { type: 'explode' }
+  | { type: 'reroll'; threshold: number; once: boolean };
+
+/**
+ * Node of a parsed dice expression syntax tree
+ */
+export type DiceNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'dice'; count: number; sides: number; modifiers: DiceTermModifier[]; notation: string }
+  | { kind: 'binary'; operator: '+' | '-' | '*'; left: DiceNode; right: DiceNode }
+  | { kind: 'negate'; operand: DiceNode }
+  | { kind: 'group'; expression: DiceNode };
+
 /**
  * Result of rolling a single die
  */
@@ -35,6 +63,28 @@ export interface SingleRoll {
   sides: number;
   /** Whether this was a critical roll (max value) */
   isCritical: boolean;
+  /** Which Duality Die this roll represents, if any */
+  role?: DualityDieRole;
+  /** Whether this roll was dropped or rerolled and does not count toward the total */
+  discarded?: boolean;
+  /** Roll type that added this die; advantage and critical dice add to the total, disadvantage dice subtract */
+  bonus?: BonusDieKind;
+}
+
+/**
+ * Roll type that added a bonus die to a roll
+ */
+export type BonusDieKind = 'advantage' | 'disadvantage' | 'critical';
+
+/**
+ * Advantage and disadvantage from every source on one roll (e.g., two allies helping against one hindrance)
+ * They cancel one for one; the d6s left over are rolled and the highest counts
+ */
+export interface RollTypeStack {
+  /** Number of advantage dice */
+  advantage: number;
+  /** Number of disadvantage dice */
+  disadvantage: number;
 }
 
 /**
@@ -55,6 +105,76 @@ export interface DiceRollResult {
   timestamp: Date;
   /** Whether this roll included advantage/disadvantage */
   rollType: 'normal' | 'advantage' | 'disadvantage' | 'critical';
+  /** Advantage and disadvantage before they cancelled, when the roll stacked them; rollType is what was left */
+  rollTypeStack?: RollTypeStack;
+  /** Success/failure against a target number, if one was given */
+  evaluation?: RollEvaluation;
+  /** Arithmetic with each dice term replaced by its subtotal (e.g., "(7 + 2) × 2"), for expressions with multiplication */
+  formula?: string;
+}
+
+/**
+ * Target number a roll is compared against
+ * - difficulty: a PC action roll against a Difficulty
+ * - evasion: an adversary attack roll against a PC's Evasion
+ */
+export interface RollTarget {
+  /** Number the total must meet or beat */
+  value: number;
+  /** What the number represents */
+  type: 'difficulty' | 'evasion';
+}
+
+/**
+ * Full Daggerheart resolution of a Duality Dice roll against a Difficulty
+ */
+export type DualityResolution =
+  | 'critical-success'
+  | 'success-with-hope'
+  | 'success-with-fear'
+  | 'failure-with-hope'
+  | 'failure-with-fear';
+
+/**
+ * Outcome of comparing a roll total against a target number
+ */
+export interface RollEvaluation {
+  /** The target the roll was made against */
+  target: RollTarget;
+  /** Whether the roll met or beat the target */
+  success: boolean;
+  /** Total minus target (negative on failure) */
+  margin: number;
+  /** Whether the roll succeeded automatically (matching Duality Dice or a natural 20) */
+  isCriticalSuccess: boolean;
+  /** Hope/Fear resolution for Duality Dice rolls */
+  dualityResolution?: DualityResolution;
+}
+
+/**
+ * Exact probability distribution of a roll's total
+ */
+export interface DiceDistribution {
+  /** Smallest possible total */
+  min: number;
+  /** Largest possible total (exploding dice are cut off at the reroll chain limit) */
+  max: number;
+  /** Probability of each total, where index i is the total min + i */
+  probabilities: number[];
+  /** Expected total */
+  mean: number;
+}
+
+/**
+ * One bar of a distribution histogram, covering the totals from..to
+ */
+export interface DistributionBin {
+  /** First total in the bar */
+  from: number;
+  /** Last total in the bar (equal to from unless totals were grouped) */
+  to: number;
+  /** Combined probability of the totals in the bar */
+  probability: number;
 }
 
 /**
@@ -67,6 +187,191 @@ export interface DiceBreakdown {
   values: number[];
   /** Subtotal for this die type */
   subtotal: number;
+  /** Display label for dice with a special role (e.g., "Hope", "Fear") */
+  label?: string;
+  /** Indices into values that were dropped or rerolled and not counted */
+  droppedIndices?: number[];
+}
+
+/**
+ * The two d12s of a Daggerheart action roll
+ */
+export type DualityDieRole = 'hope' | 'fear';
+
+/**
+ * Outcome of a Duality Dice roll
+ * - hope: Hope die is higher, the player gains Hope
+ * - fear: Fear die is higher, the GM gains Fear
+ * - critical: both dice match, a Critical Success
+ */
+export type DualityOutcome = 'hope' | 'fear' | 'critical';
+
+/**
+ * Hope/Fear details attached to a Duality Dice roll
+ */
+export interface DualityRollDetails {
+  /** Value of the Hope die */
+  hope: number;
+  /** Value of the Fear die */
+  fear: number;
+  /** Which resource the roll generates */
+  outcome: DualityOutcome;
+  /** Trait modifier added to the roll */
+  traitModifier: number;
+}
+
+/**
+ * Result of rolling the Duality Dice (Hope d12 + Fear d12)
+ */
+export interface DualityRollResult extends DiceRollResult {
+  /** Hope/Fear breakdown of the action roll */
+  duality: DualityRollDetails;
+}
+
+/**
+ * Options for rolling the Duality Dice
+ */
+export interface DualityRollOptions {
+  /** Trait modifier to add to the roll (default: 0) */
+  modifier?: number;
+  /** Advantage adds a d6, disadvantage subtracts a d6; a stack cancels them and rolls what is left */
+  rollType?: 'normal' | 'advantage' | 'disadvantage' | RollTypeStack;
+  /** Difficulty to evaluate the roll against */
+  difficulty?: number;
+  /** Random source for the roll (default: crypto-backed) */
+  random?: RandomSource;
+}
+
+/**
+ * One labelled roll in a roll macro (e.g., "Attack: 1d20+1 vs Evasion 11")
+ */
+export interface RollMacroStep {
+  /** Label shown next to the result (e.g., "Attack", "Damage") */
+  label: string;
+  /** Dice expression to roll */
+  expression: string;
+  /** Difficulty or Evasion the step is rolled against */
+  target?: RollTarget;
+  /**
+   * Only roll this step when the previous step was rolled and met its target
+   * (e.g., damage after a hit). A critical success on the previous step rolls this step as critical.
+   */
+  requiresSuccess?: boolean;
+}
+
+/**
+ * Named, ordered list of rolls made as one action
+ */
+export interface RollMacro {
+  /** Unique identifier for the macro */
+  id: string;
+  /** Display name (e.g., "Goblin Slash") */
+  name: string;
+  /** Rolls in the order they are made */
+  steps: RollMacroStep[];
+  /** Values for the variables in the steps' expressions (e.g., an adversary's stats) */
+  variables?: DiceVariables;
+}
+
+/**
+ * Outcome of one step of a roll macro
+ */
+export interface RollMacroStepResult {
+  /** The step that was resolved */
+  step: RollMacroStep;
+  /** Roll result, or null when the step was skipped because the previous step failed */
+  result: DiceRollResult | null;
+}
+
+/**
+ * Grouped results of every step of a roll macro
+ */
+export interface RollMacroDetails {
+  /** Identifier of the macro that was rolled */
+  id: string;
+  /** Name of the macro that was rolled */
+  name: string;
+  /** One entry per step, in order */
+  steps: RollMacroStepResult[];
+  /** Variable values the macro was rolled with */
+  variables?: DiceVariables;
+}
+
+/**
+ * Result of rolling a roll macro
+ * The top-level roll fields mirror the first step, so the card and history treat it like any other roll
+ */
+export interface RollMacroResult extends DiceRollResult {
+  /** Results of every step */
+  macro: RollMacroDetails;
+}
+
+/**
+ * Major and Severe damage thresholds (e.g., "10 / 19")
+ */
+export interface DamageThresholds {
+  /** Damage at or above this marks 2 HP */
+  major: number;
+  /** Damage at or above this marks 3 HP */
+  severe: number;
+}
+
+/**
+ * How serious a hit is
+ * - none: no damage got through
+ * - minor: below the Major threshold, marks 1 HP
+ * - major: at or above the Major threshold, marks 2 HP
+ * - severe: at or above the Severe threshold, marks 3 HP
+ * - massive: at or above twice the Severe threshold (optional rule), marks 4 HP
+ */
+export type DamageSeverity = 'none' | 'minor' | 'major' | 'severe' | 'massive';
+
+/**
+ * Options for resolving damage against thresholds
+ */
+export interface DamageResolutionOptions {
+  /** Armor Slots marked, each reducing the HP marked by one (default: 0) */
+  armorSlots?: number;
+  /** Resistance to the damage type halves the damage */
+  resistance?: boolean;
+  /** Immunity to the damage type ignores the damage */
+  immunity?: boolean;
+  /** Use the optional massive damage rule */
+  massiveDamage?: boolean;
+}
+
+/**
+ * Hit Points marked by a hit
+ */
+export interface DamageResolution {
+  /** Damage dealt */
+  damage: number;
+  /** Damage compared with the thresholds, after resistance or immunity */
+  effectiveDamage: number;
+  /** Severity of the hit before Armor Slots */
+  severity: DamageSeverity;
+  /** Armor Slots that reduced the HP marked */
+  armorSlotsUsed: number;
+  /** Hit Points marked */
+  hitPoints: number;
+}
+
+/**
+ * Thresholds attached to a damage roll, so the card can show the HP it marks
+ */
+export interface DamageRollDetails {
+  /** Thresholds of whoever takes the damage */
+  thresholds: DamageThresholds;
+  /** Who takes the damage (e.g., "Goblin") */
+  target?: string;
+}
+
+/**
+ * Result of a damage roll against known thresholds
+ */
+export interface DamageRollResult extends DiceRollResult {
+  /** Thresholds the damage is resolved against */
+  damage: DamageRollDetails;
 }
 
 /**
@@ -78,8 +383,26 @@ export type DiceError =
   | { type: 'INVALID_DIE_SIDES'; message: string; sides: number }
   | { type: 'MODIFIER_TOO_LARGE'; message: string; modifier: number }
   | { type: 'EXPRESSION_TOO_COMPLEX'; message: string; complexity: number }
+  | { type: 'INVALID_VARIABLE'; message: string; variable: string }
+  | { type: 'CANCELLED'; message: string }
   | { type: 'UNKNOWN_ERROR'; message: string };
 
+/**
+ * A roll typed into the dice command bar (e.g., `2d12+3 adv vs 14 "Sneak"`)
+ */
+export interface DiceCommand {
+  /** Dice expression to roll (e.g., "2d12+3") */
+  expression: string;
+  /** Roll type keyword, or normal */
+  rollType: 'normal' | 'advantage' | 'disadvantage' | 'critical';
+  /** Advantage and disadvantage keywords, when more than one was typed; rollType is what is left after they cancel */
+  rollTypeStack?: RollTypeStack;
+  /** Difficulty or Evasion after "vs" */
+  target?: RollTarget;
+  /** Quoted label for the roll's history entry */
+  context?: string;
+}
+
 /**
  * Validation result for dice expressions
  */
@@ -92,6 +415,20 @@ export interface DiceValidationResult {
   expression?: DiceExpression;
 }
 
+/**
+ * A dice expression found inside free text (e.g., "Clear 1d4+1 HP")
+ */
+export interface DiceTextMatch {
+  /** The expression as written */
+  expression: string;
+  /** Index of the first character of the expression in the text */
+  start: number;
+  /** Index just past the last character of the expression */
+  end: number;
+  /** The sentence containing the expression, trimmed */
+  sentence: string;
+}
+
 /**
  * Configuration for dice rolling behavior
  */
@@ -104,8 +441,47 @@ export interface DiceRollConfig {
   maxDieSides: number;
   /** Maximum modifier value allowed */
   maxModifier: number;
+  /** Random source for rolls (default: crypto-backed); pass a seeded source to reproduce rolls */
+  random?: RandomSource;
+  /** Values for named variables in expressions (e.g., "@attack" in "1d20+@attack") */
+  variables?: DiceVariables;
+}
+
+/**
+ * Named whole-number values that expressions refer to as "@name" (e.g., { attack: 1, tier: 2 })
+ * Names are matched case-insensitively
+ */
+export type DiceVariables = Record<string, number>;
+
+/**
+ * The six character traits
+ */
+export type CharacterTrait = 'agility' | 'strength' | 'finesse' | 'instinct' | 'presence' | 'knowledge';
+
+/**
+ * The parts of a PC sheet that dice expressions can refer to
+ */
+export interface CharacterStats {
+  /** Character level (1-10) */
+  level: number;
+  /** Proficiency, the number of damage dice rolled */
+  proficiency: number;
+  /** Trait modifiers */
+  traits: Partial<Record<CharacterTrait, number>>;
+  /** Evasion */
+  evasion?: number;
 }
 
+/**
+ * Source of random floats in [0, 1), with the same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Who can see a roll: everyone, only the GM (a secret roll), or everyone after the GM revealed it
+ */
+export type RollVisibility = 'public' | 'hidden' | 'revealed';
+
 /**
  * Roll history entry for session persistence
  */
@@ -116,6 +492,129 @@ export interface RollHistoryEntry {
   result: DiceRollResult;
   /** Context where the roll was made (optional) */
   context?: string;
+  /** Who made the roll, for rolls received from a table session */
+  roller?: string;
+  /** Who can see the roll (default: public) */
+  visibility?: RollVisibility;
+}
+
+/**
+ * Observed vs expected results for one die size across the history
+ */
+export interface DieFaceStats {
+  /** Number of sides on the die */
+  sides: number;
+  /** Number of dice of this size rolled */
+  count: number;
+  /** Average face rolled */
+  average: number;
+  /** Average face of a fair die ((sides + 1) / 2) */
+  expected: number;
+}
+
+/**
+ * Aggregate statistics over a set of roll history entries
+ */
+export interface RollHistoryStats {
+  /** Number of rolls */
+  totalRolls: number;
+  /** Average total rolled */
+  averageTotal: number;
+  /** Average total a fair roll of the same expressions would give */
+  expectedAverage: number;
+  /** Critical rolls (natural 20s and critical Duality rolls) */
+  criticals: {
+    count: number;
+    /** Rolls that could have been critical (with a d20 or the Duality Dice) */
+    eligible: number;
+    /** count / eligible */
+    rate: number;
+    /** Chance of a critical on fair dice, averaged over the eligible rolls */
+    expectedRate: number;
+  };
+  /** Rolls made against a Difficulty or Evasion */
+  evaluated: {
+    count: number;
+    successes: number;
+    /** successes / count */
+    successRate: number;
+  };
+  /** Hope/Fear split of Duality Dice rolls */
+  duality: Record<DualityOutcome, number> & { rolls: number };
+  /** Observed vs expected faces for each die size, smallest first */
+  dice: DieFaceStats[];
+}
+
+/**
+ * A play session: rolls with no long break between them
+ */
+export interface RollSession {
+  /** Time of the first roll */
+  start: Date;
+  /** Time of the last roll */
+  end: Date;
+  /** Rolls in the session, most recent first */
+  entries: RollHistoryEntry[];
+}
+
+/**
+ * Named dice expression saved to the roll library
+ */
+export interface SavedRoll {
+  /** Unique identifier for the saved roll */
+  id: string;
+  /** Display name (e.g., "Longsword damage") */
+  name: string;
+  /** Dice expression to roll */
+  expression: string;
+  /** Lowercase tags for filtering (e.g., ["damage", "melee"]) */
+  tags: string[];
+  /** Folder the roll is filed under; unfiled rolls have none */
+  folder?: string;
+  /** Difficulty or Evasion the roll is made against */
+  target?: RollTarget;
+  /** When the roll was saved (ISO string, so the library serializes as-is) */
+  createdAt: string;
+}
+
+/**
+ * Outcome of importing a roll library file
+ */
+export interface RollLibraryImportResult {
+  /** Valid rolls found in the file */
+  rolls: SavedRoll[];
+  /** Number of entries that were skipped because they were malformed or had invalid expressions */
+  skipped: number;
+  /** Why the file could not be read at all, if it couldn't */
+  error?: string;
+}
+
+/**
+ * File formats roll history can be exported to
+ * - csv: one row per roll, for spreadsheets
+ * - json: the full history, for importing again
+ * - markdown: a session log for recaps
+ */
+export type RollHistoryExportFormat = 'csv' | 'json' | 'markdown';
+
+/**
+ * Options for exporting roll history
+ */
+export interface RollHistoryExportOptions {
+  /** Include rolls hidden from players (default: false) */
+  includeHidden?: boolean;
+}
+
+/**
+ * Outcome of importing a roll history file
+ */
+export interface RollHistoryImportResult {
+  /** Valid entries found in the file */
+  entries: RollHistoryEntry[];
+  /** Number of entries that were skipped because they were malformed */
+  skipped: number;
+  /** Why the file could not be read at all, if it couldn't */
+  error?: string;
 }
 
 /**
@@ -148,6 +647,30 @@ export interface DiceRollerProps {
   mobileBreakpoint?: number;
   /** Whether to show detailed results with hover card (default: true) */
   showDetailedResults?: boolean;
+  /** Target number to evaluate rolls against (e.g., a Difficulty or a PC's Evasion) */
+  difficulty?: number;
+  /** What the difficulty represents (default: 'difficulty') */
+  difficultyType?: RollTarget['type'];
+}
+
+/**
+ * Props for rich text with every embedded dice expression rollable in place
+ */
+export interface RollableTextProps {
+  /** Text to scan for dice expressions (e.g., a feature or item description) */
+  text: string;
+  /** Source shown before the sentence in the roll's history context (e.g., "Goblin – Venom Bite") */
+  source?: string;
+  /** Optional handler called after each roll */
+  onRoll?: (result: DiceRollResult) => void;
+  /** Target number to evaluate rolls against */
+  difficulty?: number;
+  /** What the difficulty represents (default: 'difficulty') */
+  difficultyType?: RollTarget['type'];
+  /** Whether the dice are disabled */
+  disabled?: boolean;
+  /** Custom styling classes */
+  className?: string;
 }
 
 /**
@@ -187,6 +710,8 @@ export interface UseDiceRollHistoryReturn {
   history: RollHistoryEntry[];
   /** Add a new roll to history */
   addRoll: (result: DiceRollResult, context?: string) => void;
+  /** Add an existing entry (e.g., from an imported file); false if it is already there */
+  addEntry: (entry: RollHistoryEntry) => boolean;
   /** Clear all history */
   clearHistory: () => void;
   /** Remove a specific roll from history */
@@ -0,0 +1,84 @@
+/**
+ * TypeScript interfaces for table sessions - rolls shared between devices through the dice relay
+ * The same messages are used by the relay in scripts/dice-relay.js
+ */
+
+import { RollHistoryEntry } from './dice';
+
+/**
+ * Role at the table; only GMs receive hidden rolls
+ */
+export type TableRole = 'gm' | 'player';
+
+/**
+ * Connection state of a table session
+ */
+export type TableSessionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * Someone connected to a table session
+ */
+export interface TableMember {
+  name: string;
+  role: TableRole;
+}
+
+/**
+ * A roll shared through the relay
+ */
+export interface TableRoll {
+  /** Position in the room's log, used to backfill after reconnecting */
+  seq: number;
+  /** Who made the roll */
+  from: TableMember;
+  /** The roll, as stored in history */
+  entry: RollHistoryEntry;
+  /** Only the GMs and the roller receive hidden rolls */
+  hidden: boolean;
+}
+
+/**
+ * Settings for joining a table session
+ */
+export interface TableSessionSettings {
+  /** Relay address (e.g., "ws://192.168.1.20:8787") */
+  url: string;
+  /** Room code shared with the table */
+  room: string;
+  /** Name shown next to your rolls */
+  name: string;
+  role: TableRole;
+  /** GM key the relay printed when it started (or was given in DICE_RELAY_GM_KEY) */
+  gmKey?: string;
+}
+
+/**
+ * Messages sent to the relay
+ * A join sends back the token the relay issued for the room earlier, so hidden rolls made then are still ours
+ */
+export type TableClientMessage =
+  | { type: 'join'; room: string; name: string; role: TableRole; gmKey?: string; since: number; token?: string }
+  | { type: 'roll'; entry: RollHistoryEntry; hidden: boolean };
+
+/**
+ * Messages received from the relay
+ */
+export type TableServerMessage =
+  | { type: 'joined'; room: string; role: TableRole; seq: number; token: string }
+  | { type: 'backfill'; rolls: TableRoll[] }
+  | ({ type: 'roll' } & TableRoll)
+  | { type: 'presence'; members: TableMember[] }
+  | { type: 'error'; message: string };
+
+/**
+ * Table session state shared through the dice context
+ */
+export interface TableSessionState {
+  status: TableSessionStatus;
+  /** Settings of the current session, or null when not in one */
+  settings: TableSessionSettings | null;
+  /** Everyone connected to the room */
+  members: TableMember[];
+  /** Last error reported by the relay */
+  error: string | null;
+}
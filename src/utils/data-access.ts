@@ -12,14 +12,15 @@ import {
   type LootItemData 
 } from '@/data'
 import { rollMultipleDice } from '@/lib/dice-utils'
+import { defaultRandom, randomInt, type RandomSource } from '@/lib/random'
 
 // ===== LOOT GENERATION UTILITIES =====
 
 export type RarityType = 'common' | 'uncommon' | 'rare' | 'legendary'
 
-export function generateLootItem(rarity: string = 'any'): LootItem {
-  const diceCount = getDiceCountForRarity(rarity)
-  const rollResult = rollDice(diceCount)
+export function generateLootItem(rarity: string = 'any', random: RandomSource = defaultRandom): LootItem {
+  const diceCount = getDiceCountForRarity(rarity, random)
+  const rollResult = rollDice(diceCount, random)
   
   // Constrain roll to appropriate range
   let finalRoll = rollResult.total
@@ -45,9 +46,9 @@ export function generateLootItem(rarity: string = 'any'): LootItem {
   }
 }
 
-export function generateConsumable(): LootItem {
-  const diceCount = Math.floor(Math.random() * 5) + 1
-  const rollResult = rollDice(diceCount)
+export function generateConsumable(random: RandomSource = defaultRandom): LootItem {
+  const diceCount = randomInt(5, random) + 1
+  const rollResult = rollDice(diceCount, random)
   const finalRoll = Math.max(1, Math.min(60, rollResult.total))
   
   const consumableData = CONSUMABLES_DATA.find(item => item.roll === finalRoll) || CONSUMABLES_DATA[0]
@@ -63,33 +64,38 @@ export function generateConsumable(): LootItem {
   }
 }
 
-export function generateMultipleLoot(type: 'item' | 'consumable', quantity: number, rarity?: string): LootItem[] {
+export function generateMultipleLoot(
+  type: 'item' | 'consumable', 
+  quantity: number, 
+  rarity?: string, 
+  random: RandomSource = defaultRandom
+): LootItem[] {
   const items: LootItem[] = []
   for (let i = 0; i < quantity; i++) {
     if (type === 'item') {
-      items.push(generateLootItem(rarity))
+      items.push(generateLootItem(rarity, random))
     } else {
-      items.push(generateConsumable())
+      items.push(generateConsumable(random))
     }
   }
   return items
 }
 
-function getDiceCountForRarity(rarity: string): number {
+function getDiceCountForRarity(rarity: string, random: RandomSource): number {
   if (rarity === 'any') {
-    return Math.floor(Math.random() * 5) + 1
+    return randomInt(5, random) + 1
   }
   
   const diceCounts = RARITY_DICE_COUNTS[rarity as RarityType]
   if (diceCounts) {
-    return diceCounts[Math.floor(Math.random() * diceCounts.length)]
+    return diceCounts[randomInt(diceCounts.length, random)]
   }
   
   return 1
 }
 
-function rollDice(count: number) {
-  const rolls = rollMultipleDice(count, 12)
+function rollDice(count: number, random: RandomSource) {
+  const rolls = rollMultipleDice(count, 12, random)
   const total = rolls.reduce((sum: number, roll: number) => sum + roll, 0)
   return { total, rolls }
 }
@@ -167,14 +173,14 @@ Remaining: ${calc.remainingPoints} points`
 
 // ===== GENERIC DATA ACCESS UTILITIES =====
 
-export function getRandomItem<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)]
+export function getRandomItem<T>(array: T[], random: RandomSource = defaultRandom): T {
+  return array[randomInt(array.length, random)]
 }
 
-export function getRandomItems<T>(array: T[], count: number): T[] {
+export function getRandomItems<T>(array: T[], count: number, random: RandomSource = defaultRandom): T[] {
   const result: T[] = []
   for (let i = 0; i < count; i++) {
-    result.push(getRandomItem(array))
+    result.push(getRandomItem(array, random))
   }
   return result
 }